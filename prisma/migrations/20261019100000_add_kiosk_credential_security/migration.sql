@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "kioskPasswordRotationDays" INTEGER,
+ADD COLUMN     "kioskPasswordUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "KioskLoginAttempt" (
+    "id" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "lastFailedAt" TIMESTAMP(3),
+    "lastSucceededAt" TIMESTAMP(3),
+    "lockedUntil" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KioskLoginAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KioskLoginAttempt_outletId_subject_key" ON "KioskLoginAttempt"("outletId", "subject");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "OtpRateLimit" (
+    "id" TEXT NOT NULL,
+    "dimension" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "userType" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "lastSentAt" TIMESTAMP(3),
+    "blockedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OtpRateLimit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OtpRateLimit_dimension_subject_userType_date_key" ON "OtpRateLimit"("dimension", "subject", "userType", "date");
+
+-- CreateIndex
+CREATE INDEX "OtpRateLimit_date_blockedUntil_idx" ON "OtpRateLimit"("date", "blockedUntil");
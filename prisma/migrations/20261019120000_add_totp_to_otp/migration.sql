@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "OTP" ALTER COLUMN "mobileNumber" DROP NOT NULL,
+ADD COLUMN     "channel" TEXT NOT NULL DEFAULT 'sms',
+ADD COLUMN     "secret" TEXT,
+ADD COLUMN     "usedAt" TIMESTAMP(3),
+ADD COLUMN     "userId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "OTP_userType_userId_channel_idx" ON "OTP"("userType", "userId", "channel");
+
+-- CreateTable
+CREATE TABLE "TwoFactorAttempt" (
+    "id" TEXT NOT NULL,
+    "userType" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "lockouts" INTEGER NOT NULL DEFAULT 0,
+    "lastFailedAt" TIMESTAMP(3),
+    "lockedUntil" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TwoFactorAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TwoFactorAttempt_userType_userId_key" ON "TwoFactorAttempt"("userType", "userId");
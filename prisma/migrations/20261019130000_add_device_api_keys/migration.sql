@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "DeviceApiKey" (
+    "id" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "deviceType" TEXT NOT NULL DEFAULT 'android_tv',
+    "keyPrefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "issuedBy" TEXT,
+    "issuedVia" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3),
+    "lastUsedIp" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "revokedBy" TEXT,
+    "revokeReason" TEXT,
+
+    CONSTRAINT "DeviceApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceApiKey_keyHash_key" ON "DeviceApiKey"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "DeviceApiKey_deviceId_revokedAt_idx" ON "DeviceApiKey"("deviceId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "DeviceApiKey_outletId_revokedAt_idx" ON "DeviceApiKey"("outletId", "revokedAt");
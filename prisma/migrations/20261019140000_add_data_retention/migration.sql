@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN     "anonymizedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "anonymizedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Feedback" ADD COLUMN     "anonymizedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "anonymizedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ErasureRequest" (
+    "id" TEXT NOT NULL,
+    "subjectHash" TEXT NOT NULL,
+    "subjectMasked" TEXT NOT NULL,
+    "mobileNumber" TEXT,
+    "requestedBy" TEXT NOT NULL,
+    "requestedVia" TEXT NOT NULL,
+    "reason" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "processedAt" TIMESTAMP(3),
+    "processedBy" TEXT,
+    "result" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ErasureRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ErasureRequest_status_createdAt_idx" ON "ErasureRequest"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ErasureRequest_subjectHash_idx" ON "ErasureRequest"("subjectHash");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Customer" ADD COLUMN     "nicNumberHash" TEXT,
+ADD COLUMN     "emailHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "mobileNumberHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Customer_nicNumberHash_idx" ON "Customer"("nicNumberHash");
+
+-- CreateIndex
+CREATE INDEX "Customer_emailHash_idx" ON "Customer"("emailHash");
+
+-- CreateIndex
+CREATE INDEX "Appointment_mobileNumberHash_appointmentAt_idx" ON "Appointment"("mobileNumberHash", "appointmentAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "BackupRestoreHistory" ADD COLUMN     "checksum" TEXT,
+ADD COLUMN     "schemaVersion" TEXT,
+ADD COLUMN     "encrypted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "ipAddress" TEXT;
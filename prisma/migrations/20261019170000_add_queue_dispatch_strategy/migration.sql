@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "dispatchStrategy" TEXT NOT NULL DEFAULT 'strict_fifo';
+
+-- AlterTable
+ALTER TABLE "OutletServiceSetting" ADD COLUMN     "dispatchWeight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+ADD COLUMN     "targetWaitMinutes" INTEGER;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "OutletServiceSetting" ADD COLUMN     "agingRate" DOUBLE PRECISION NOT NULL DEFAULT 1,
+ADD COLUMN     "agingAlertScore" INTEGER,
+ADD COLUMN     "agingOverrideScore" INTEGER;
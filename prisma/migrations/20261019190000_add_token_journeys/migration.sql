@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "CompletedService" ADD COLUMN     "journeyStep" INTEGER,
+ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "waitMinutes" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TokenJourneyStep" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "stepNumber" INTEGER NOT NULL,
+    "serviceCode" TEXT NOT NULL,
+    "counterNumber" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "officerId" TEXT,
+    "queuedAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TokenJourneyStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenJourneyStep_tokenId_stepNumber_key" ON "TokenJourneyStep"("tokenId", "stepNumber");
+
+-- AddForeignKey
+ALTER TABLE "TokenJourneyStep" ADD CONSTRAINT "TokenJourneyStep_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "Token"("id") ON DELETE CASCADE ON UPDATE CASCADE;
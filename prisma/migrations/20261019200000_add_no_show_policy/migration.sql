@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "noShowEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "noShowGraceMinutes" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "noShowMaxRecalls" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "noShowRequeueOffset" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "arrivedAt" TIMESTAMP(3),
+ADD COLUMN     "recallCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "requeuedAfter" INTEGER;
+
+-- CreateTable
+CREATE TABLE "NoShowEvent" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "officerId" TEXT,
+    "serviceTypes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "action" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'policy',
+    "recallCount" INTEGER NOT NULL DEFAULT 0,
+    "calledAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoShowEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NoShowEvent_outletId_createdAt_idx" ON "NoShowEvent"("outletId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "NoShowEvent_tokenId_idx" ON "NoShowEvent"("tokenId");
+
+-- AddForeignKey
+ALTER TABLE "NoShowEvent" ADD CONSTRAINT "NoShowEvent_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoShowEvent" ADD CONSTRAINT "NoShowEvent_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "Token"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "parkMaxMinutes" INTEGER NOT NULL DEFAULT 15,
+ADD COLUMN     "parkMaxPerToken" INTEGER NOT NULL DEFAULT 2;
+
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "parkedAt" TIMESTAMP(3),
+ADD COLUMN     "parkedUntil" TIMESTAMP(3),
+ADD COLUMN     "parkedMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "parkCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Token_status_parkedUntil_idx" ON "Token"("status", "parkedUntil");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION,
+ADD COLUMN     "geofenceRadiusMeters" INTEGER NOT NULL DEFAULT 200;
+
+-- AlterTable
+ALTER TABLE "OutletServiceSetting" ADD COLUMN     "remoteJoinEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "remoteJoinCap" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "isRemote" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "checkedInAt" TIMESTAMP(3),
+ADD COLUMN     "checkInMethod" TEXT,
+ADD COLUMN     "travelMinutes" INTEGER,
+ADD COLUMN     "leaveNotifiedAt" TIMESTAMP(3);
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "TokenSequence" (
+    "id" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "businessDay" TIMESTAMP(3) NOT NULL,
+    "rangeStart" INTEGER NOT NULL,
+    "rangeEnd" INTEGER NOT NULL,
+    "lastNumber" INTEGER NOT NULL,
+    "issuedCount" INTEGER NOT NULL DEFAULT 0,
+    "cycle" INTEGER NOT NULL DEFAULT 0,
+    "overflowedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TokenSequence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TokenSequence_businessDay_idx" ON "TokenSequence"("businessDay");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TokenSequence_outletId_businessDay_rangeStart_key" ON "TokenSequence"("outletId", "businessDay", "rangeStart");
+
+-- AddForeignKey
+ALTER TABLE "TokenSequence" ADD CONSTRAINT "TokenSequence_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "code" TEXT;
+
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "tokenPadding" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "tokenPrefix" TEXT,
+ADD COLUMN     "tokenShowOutletCode" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "displayNumber" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Outlet_code_key" ON "Outlet"("code");
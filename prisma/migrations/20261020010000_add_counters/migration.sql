@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "Counter" (
+    "id" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "name" TEXT,
+    "type" TEXT NOT NULL DEFAULT 'standard',
+    "allowedServices" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "wheelchairAccessible" BOOLEAN NOT NULL DEFAULT false,
+    "hearingLoop" BOOLEAN NOT NULL DEFAULT false,
+    "seatedService" BOOLEAN NOT NULL DEFAULT false,
+    "isOpen" BOOLEAN NOT NULL DEFAULT true,
+    "closedReason" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Counter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Counter_outletId_number_key" ON "Counter"("outletId", "number");
+
+-- AddForeignKey
+ALTER TABLE "Counter" ADD CONSTRAINT "Counter_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one open, all-service counter per configured Outlet.counterCount slot
+INSERT INTO "Counter" ("id", "outletId", "number", "updatedAt")
+SELECT gen_random_uuid()::text, o."id", n, CURRENT_TIMESTAMP
+FROM "Outlet" o, generate_series(1, COALESCE(o."counterCount", 0)) AS n;
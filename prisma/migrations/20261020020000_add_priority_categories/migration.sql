@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "priorityCategoryId" TEXT,
+ADD COLUMN     "priorityVerification" TEXT,
+ADD COLUMN     "priorityVerifiedAt" TIMESTAMP(3),
+ADD COLUMN     "priorityVerifiedBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "PriorityCategory" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL DEFAULT 1,
+    "requiresVerification" BOOLEAN NOT NULL DEFAULT false,
+    "verificationHint" TEXT,
+    "hourlyQuota" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriorityCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriorityCategory_code_key" ON "PriorityCategory"("code");
+
+-- CreateIndex
+CREATE INDEX "Token_outletId_priorityCategoryId_calledAt_idx" ON "Token"("outletId", "priorityCategoryId", "calledAt");
+
+-- AddForeignKey
+ALTER TABLE "Token" ADD CONSTRAINT "Token_priorityCategoryId_fkey" FOREIGN KEY ("priorityCategoryId") REFERENCES "PriorityCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the standard categories
+INSERT INTO "PriorityCategory" ("id", "code", "name", "weight", "requiresVerification", "verificationHint", "hourlyQuota", "order", "updatedAt")
+VALUES
+    (gen_random_uuid()::text, 'disabled', 'Differently abled', 3, false, NULL, NULL, 1, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'pregnant', 'Expectant mother', 3, false, NULL, NULL, 2, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'senior', 'Senior citizen', 2, true, 'NIC or senior citizen ID showing age 60 or over', NULL, 3, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'vip', 'Corporate / VIP', 1, true, 'Corporate account letter or SLT VIP card', 6, 4, CURRENT_TIMESTAMP);
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "SlaDefinition" (
+    "id" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+    "outletId" TEXT,
+    "targetWaitMinutes" INTEGER NOT NULL,
+    "targetServiceMinutes" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlaDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SlaBreach" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "outletId" TEXT NOT NULL,
+    "serviceCode" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "targetMinutes" INTEGER NOT NULL,
+    "level" INTEGER NOT NULL DEFAULT 1,
+    "breachedAt" TIMESTAMP(3) NOT NULL,
+    "escalatedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "actualMinutes" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlaBreach_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlaDefinition_serviceId_outletId_key" ON "SlaDefinition"("serviceId", "outletId");
+
+-- One default (outlet-less) definition per service; NULLs are distinct in the index above
+CREATE UNIQUE INDEX "SlaDefinition_serviceId_default_key" ON "SlaDefinition"("serviceId") WHERE "outletId" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlaBreach_tokenId_kind_key" ON "SlaBreach"("tokenId", "kind");
+
+-- CreateIndex
+CREATE INDEX "SlaBreach_outletId_breachedAt_idx" ON "SlaBreach"("outletId", "breachedAt");
+
+-- CreateIndex
+CREATE INDEX "SlaBreach_resolvedAt_idx" ON "SlaBreach"("resolvedAt");
+
+-- AddForeignKey
+ALTER TABLE "SlaDefinition" ADD CONSTRAINT "SlaDefinition_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlaDefinition" ADD CONSTRAINT "SlaDefinition_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "Service"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlaBreach" ADD CONSTRAINT "SlaBreach_outletId_fkey" FOREIGN KEY ("outletId") REFERENCES "Outlet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlaBreach" ADD CONSTRAINT "SlaBreach_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "Token"("id") ON DELETE CASCADE ON UPDATE CASCADE;
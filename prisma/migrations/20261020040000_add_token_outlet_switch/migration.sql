@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "switchedFromOutletId" TEXT,
+ADD COLUMN     "switchedAt" TIMESTAMP(3);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Outlet" ADD COLUMN     "closingTime" TEXT,
+ADD COLUMN     "issuanceCutoffMinutes" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "endOfDayPolicy" TEXT NOT NULL DEFAULT 'carry_over';
+
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "drainNotifiedAt" TIMESTAMP(3),
+ADD COLUMN     "carriedOverFromId" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "DeviceApiKey" ADD COLUMN     "pickupCipher" TEXT,
+ADD COLUMN     "pickupExpiresAt" TIMESTAMP(3);
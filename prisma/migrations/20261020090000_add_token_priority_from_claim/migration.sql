@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "priorityFromClaim" BOOLEAN NOT NULL DEFAULT false;
+
+-- Pending claims that made a token priority on their own
+UPDATE "Token" SET "priorityFromClaim" = true
+WHERE "isPriority" = true AND "priorityVerification" = 'pending' AND "isTransferred" = false;
@@ -2,6 +2,7 @@ import { PrismaClient } from '@prisma/client'
 import { readFile } from 'node:fs/promises'
 import path from 'node:path'
 import dotenv from 'dotenv'
+import { isEncryptedBackup, decryptBackupFile, verifyBackupChecksum } from '../src/utils/backupFile'
 
 dotenv.config()
 
@@ -10,6 +11,7 @@ const prisma = new PrismaClient()
 type BackupFile = {
   exportedAt?: string
   version?: string
+  schemaVersion?: string
   tables: Record<string, any[]>
   counts?: Record<string, number>
 }
@@ -17,6 +19,7 @@ type BackupFile = {
 const ORDERED_TABLES = [
   'regions',
   'services',
+  'priorityCategories',
   'gms',
   'customers',
   'otps',
@@ -30,12 +33,18 @@ const ORDERED_TABLES = [
   'teleshopManagers',
   'managerQRTokens',
   'closureNotices',
+  'counters',
+  'slaDefinitions',
   'appointments',
   'tokens',
   'breakLogs',
+  'tokenSequences',
+  'slaBreaches',
   'feedback',
   'completedServices',
   'transferLogs',
+  'tokenJourneySteps',
+  'noShowEvents',
   'serviceCases',
   'serviceCaseUpdates',
 ] as const
@@ -50,6 +59,8 @@ async function createManyByKey(key: string, rows: any[]) {
       return prisma.region.createMany({ data: rows, skipDuplicates: true })
     case 'services':
       return prisma.service.createMany({ data: rows, skipDuplicates: true })
+    case 'priorityCategories':
+      return prisma.priorityCategory.createMany({ data: rows, skipDuplicates: true })
     case 'gms':
       return (prisma as any).gM.createMany({ data: rows, skipDuplicates: true })
     case 'customers':
@@ -88,6 +99,18 @@ async function createManyByKey(key: string, rows: any[]) {
       return prisma.completedService.createMany({ data: rows, skipDuplicates: true })
     case 'transferLogs':
       return prisma.transferLog.createMany({ data: rows, skipDuplicates: true })
+    case 'tokenSequences':
+      return prisma.tokenSequence.createMany({ data: rows, skipDuplicates: true })
+    case 'counters':
+      return prisma.counter.createMany({ data: rows, skipDuplicates: true })
+    case 'slaDefinitions':
+      return prisma.slaDefinition.createMany({ data: rows, skipDuplicates: true })
+    case 'slaBreaches':
+      return prisma.slaBreach.createMany({ data: rows, skipDuplicates: true })
+    case 'tokenJourneySteps':
+      return prisma.tokenJourneyStep.createMany({ data: rows, skipDuplicates: true })
+    case 'noShowEvents':
+      return prisma.noShowEvent.createMany({ data: rows, skipDuplicates: true })
     case 'serviceCases':
       return prisma.serviceCase.createMany({ data: rows, skipDuplicates: true })
     case 'serviceCaseUpdates':
@@ -137,6 +160,8 @@ async function countByKey(key: string): Promise<number> {
       return prisma.region.count()
     case 'services':
       return prisma.service.count()
+    case 'priorityCategories':
+      return prisma.priorityCategory.count()
     case 'gms':
       return (prisma as any).gM.count()
     case 'customers':
@@ -175,6 +200,18 @@ async function countByKey(key: string): Promise<number> {
       return prisma.completedService.count()
     case 'transferLogs':
       return prisma.transferLog.count()
+    case 'tokenSequences':
+      return prisma.tokenSequence.count()
+    case 'counters':
+      return prisma.counter.count()
+    case 'slaDefinitions':
+      return prisma.slaDefinition.count()
+    case 'slaBreaches':
+      return prisma.slaBreach.count()
+    case 'tokenJourneySteps':
+      return prisma.tokenJourneyStep.count()
+    case 'noShowEvents':
+      return prisma.noShowEvent.count()
     case 'serviceCases':
       return prisma.serviceCase.count()
     case 'serviceCaseUpdates':
@@ -192,7 +229,25 @@ async function main() {
 
   console.log(`Using backup file: ${backupPath}`)
 
-  const raw = await readFile(backupPath, 'utf8')
+  const file = await readFile(backupPath)
+  let raw: string
+  if (isEncryptedBackup(file)) {
+    // Passphrase-protected export (.json.enc)
+    const passphrase = process.env.BACKUP_PASSPHRASE
+    if (!passphrase) {
+      throw new Error('Backup is encrypted: set BACKUP_PASSPHRASE to the passphrase used for the export')
+    }
+    raw = decryptBackupFile(file, passphrase)
+  } else {
+    raw = file.toString('utf8')
+  }
+
+  const checksumOk = verifyBackupChecksum(raw)
+  if (checksumOk === false) {
+    throw new Error('Backup checksum mismatch: the file is incomplete or was modified')
+  }
+  console.log(checksumOk ? 'Checksum verified' : 'Backup has no checksum (pre-2.0 export)')
+
   const parsed: BackupFile = JSON.parse(raw)
 
   if (!parsed?.tables || typeof parsed.tables !== 'object') {
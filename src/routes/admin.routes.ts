@@ -1,5 +1,4 @@
 import { Router } from "express"
-import * as jwt from "jsonwebtoken"
 import * as bcrypt from "bcrypt"
 import { randomUUID } from "crypto"
 import { prisma } from "../server"
@@ -7,32 +6,30 @@ import emailService from "../services/emailService"
 import sltSmsService from "../services/sltSmsService"
 import { generateSecurePassword } from "../utils/passwordGenerator"
 import { getFrontendBaseUrl } from "../utils/urlHelper"
+import { getLastDailyReset } from "../utils/resetWindow"
 import { isValidSLMobile, isValidEmail, isValidName } from "../utils/validators"
 import { healthTracker } from "../services/healthTracker"
+import { authenticateStaff, sendAccessError } from "../services/accessControl"
+import sessionService from "../services/sessionService"
+import kioskCredentialService from "../services/kioskCredentialService"
+import otpRateLimiter from "../services/otpRateLimiter"
+import tokenSequenceService from "../services/tokenSequenceService"
+import slaService, { SlaError } from "../services/slaService"
+import loadBalancingService from "../services/loadBalancingService"
+import counterService from "../services/counterService"
+import redactionService from "../services/redactionService"
+import dataRetentionService, { ANONYMIZABLE_FIELDS } from "../services/dataRetentionService"
+import fieldEncryption from "../services/fieldEncryption"
+import backupExportService, { getSchemaVersion } from "../services/backupExportService"
+import otpService, { TwoFactorUserType } from "../services/otpService"
+import { systemLogger } from "../services/systemLogger"
 import { generateAnalyticsReport, generateReportHTML } from "../services/reportGenerator"
 
 const router = Router()
 
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret"
-// No expiration for production system - admin needs continuous access
-const JWT_EXPIRES = process.env.JWT_EXPIRES || undefined
 const ADMIN_EMAIL = process.env.ADMIN_EMAIL || "admindqms@slt.lk"
 const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "dqms2026@"
 
-// GM Token verification function (shared from gm.routes.ts)
-function verifyGMToken(req: any): { gmId: string } | null {
-    let token = req.cookies?.dq_gm_jwt
-    if (!token) {
-        const authHeader = req.headers.authorization
-        if (authHeader && authHeader.startsWith("Bearer ")) token = authHeader.substring(7)
-    }
-    if (!token) return null
-    try {
-        const payload: any = (jwt as any).verify(token, JWT_SECRET)
-        if (!payload.gmId) return null
-        return { gmId: payload.gmId }
-    } catch { return null }
-}
 const STAFF_PRESENCE_WINDOW_MINUTES = Math.max(1, Number(process.env.ADMIN_STAFF_PRESENCE_MINUTES || 30))
 
 // Interface for manager credentials
@@ -133,25 +130,17 @@ const authenticateAdmin = (req: any, res: any, next: any) => {
     }
   }
 
-  try {
-    const authHeader = req.headers.authorization
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: "Access denied. No token provided." })
-    }
-
-    const token = authHeader.substring(7) // Remove 'Bearer ' prefix
-
-    const decoded = (jwt as any).verify(token, JWT_SECRET as jwt.Secret)
-
-    if (decoded.role !== 'admin') {
-      return res.status(403).json({ error: "Access denied. Admin role required." })
-    }
-
-    req.user = decoded
-    next()
-  } catch (error) {
-    res.status(401).json({ error: "Invalid token." })
-  }
+  authenticateStaff(req, ['admin'])
+    .then((auth) => {
+      req.auth = auth
+      req.user = auth.payload
+      next()
+    })
+    .catch((error) => {
+      if (sendAccessError(res, error)) return
+      console.error("Admin authentication error:", error)
+      res.status(500).json({ error: "Authentication failed" })
+    })
 }
 
 // Admin login endpoint (Phase 1: Credentials check + OTP send)
@@ -164,25 +153,41 @@ router.post("/login", async (req, res) => {
       return res.status(401).json({ error: "Invalid email or password" })
     }
 
+    // With an authenticator enrolled the SMS step is optional
+    const twoFactor = await otpService.getTwoFactorStatus('admin', ADMIN_EMAIL)
+    if (twoFactor.totpEnrolled && !req.body.sendSms) {
+      return res.json({
+        success: true,
+        needsOtp: true,
+        methods: ['totp', 'backup'],
+        message: "Enter the code from your authenticator app"
+      })
+    }
+
     // Validate mobile number format
     if (!mobileNumber || !isValidSLMobile(mobileNumber)) {
       return res.status(400).json({ error: "Valid Sri Lankan mobile number is required (e.g. 0771234567)" })
     }
 
     // Generate and send OTP to the provided mobile number
-    const otpResult = await (require("../services/otpService").default).generateOTP(
+    const otpResult = await otpService.generateOTP(
       mobileNumber, 
       'admin', 
-      'Super Admin'
+      'Super Admin',
+      { ipAddress: req.ip }
     )
 
     if (!otpResult.success) {
+      if (otpResult.retryAfterSeconds) {
+        return res.status(429).json({ error: otpResult.message, retryAfterSeconds: otpResult.retryAfterSeconds })
+      }
       return res.status(500).json({ error: "Failed to send security code: " + otpResult.message })
     }
 
     res.json({
       success: true,
       needsOtp: true,
+      methods: twoFactor.totpEnrolled ? ['totp', 'backup', 'sms'] : ['sms'],
       message: "Security code sent to your mobile for further verification"
     })
   } catch (error) {
@@ -194,48 +199,45 @@ router.post("/login", async (req, res) => {
 // Admin login OTP verification (Phase 2)
 router.post("/verify-login-otp", async (req, res) => {
   try {
-    const { email, password, mobileNumber, otpCode } = req.body
+    const { email, password, mobileNumber, otpCode, totpCode, backupCode } = req.body
 
     // Final security check
     if (email !== ADMIN_EMAIL || password !== ADMIN_PASSWORD) {
       return res.status(401).json({ error: "Session expired or invalid credentials" })
     }
 
-    if (!mobileNumber || !otpCode) {
+    if (!totpCode && !backupCode && (!mobileNumber || !otpCode)) {
       return res.status(400).json({ error: "Mobile number and security code are required" })
     }
 
-    // Verify OTP for the specific number entered
-    const verifyResult = await (require("../services/otpService").default).verifyOTP(
-      mobileNumber, 
-      otpCode, 
-      'admin'
-    )
+    // SMS code for the number entered, or the authenticator / backup code
+    const verifyResult = await otpService.verifyLoginFactors('admin', ADMIN_EMAIL, {
+      mobileNumber,
+      otpCode,
+      totpCode,
+      backupCode
+    })
 
     if (!verifyResult.success) {
-      return res.status(401).json({ error: verifyResult.message || "Invalid security code" })
+      return res.status(verifyResult.retryAfterSeconds ? 429 : 401).json({ error: verifyResult.message || "Invalid security code", retryAfterSeconds: verifyResult.retryAfterSeconds })
     }
 
-    // Generate JWT token (no expiration for production)
-    const tokenOptions = {
+    // Start a server-side session (short-lived access token + refresh token)
+    const tokenOptions: Record<string, any> = {
       email: ADMIN_EMAIL,
       role: "admin",
       type: "admin"
     }
+    // Until the mandatory authenticator is enrolled the session can only reach /api/two-factor
+    if (verifyResult.mfaEnrollmentRequired) tokenOptions.mfaEnrollmentRequired = true
 
-    const signOptions: any = {}
-    if (JWT_EXPIRES) {
-      signOptions.expiresIn = JWT_EXPIRES
-    }
-
-    const token = (jwt as any).sign(
-      tokenOptions,
-      JWT_SECRET as jwt.Secret,
-      signOptions
-    )
+    const session = await sessionService.startSession(req, 'admin', ADMIN_EMAIL, tokenOptions)
 
     res.json({
-      token,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresAt: session.accessTokenExpiresAt,
+      mfaEnrollmentRequired: !!verifyResult.mfaEnrollmentRequired,
       user: {
         email: ADMIN_EMAIL,
         name: "Super Admin",
@@ -248,6 +250,17 @@ router.post("/verify-login-otp", async (req, res) => {
   }
 })
 
+// Admin logout - revokes the session behind the bearer / refresh token
+router.post("/logout", async (req, res) => {
+  try {
+    await sessionService.revokeFromRequest(req, 'admin')
+    res.json({ success: true })
+  } catch (error) {
+    console.error("Admin logout error:", error)
+    res.status(500).json({ error: "Logout failed" })
+  }
+})
+
 // Apply authentication middleware to all other admin routes
 router.use(authenticateAdmin)
 
@@ -259,6 +272,9 @@ const logBackupRestoreHistory = async ({
   totalRecords,
   tableCounts,
   errorMessage,
+  checksum,
+  schemaVersion,
+  encrypted,
 }: {
   req: any
   action: 'backup' | 'restore'
@@ -267,6 +283,9 @@ const logBackupRestoreHistory = async ({
   totalRecords?: number
   tableCounts?: Record<string, number>
   errorMessage?: string
+  checksum?: string
+  schemaVersion?: string
+  encrypted?: boolean
 }) => {
   try {
     const historyDelegate = getBackupRestoreHistoryDelegate()
@@ -282,6 +301,10 @@ const logBackupRestoreHistory = async ({
           errorMessage,
           createdByRole: req?.user?.role || null,
           createdById: req?.user?.email || req?.user?.id || null,
+          checksum: checksum ?? null,
+          schemaVersion: schemaVersion ?? null,
+          encrypted: !!encrypted,
+          ipAddress: req?.ip || null,
         },
       })
       return
@@ -362,8 +385,8 @@ const getBackupRestoreHistoryRaw = async ({
 // Get dashboard analytics
 router.get("/analytics", async (req, res) => {
   try {
-    // Check for GM authentication first
-    const gmAuth = verifyGMToken(req)
+    // GM sessions are limited to their own region
+    const gmAuth = req.auth?.role === 'gm' ? { gmId: req.auth.userId } : null
     let allowedOutletIds: string[] | null = null
 
     if (gmAuth) {
@@ -1570,7 +1593,9 @@ router.get('/outlets', async (req, res) => {
         assignedRtom: assignedRtom,
         dgmName: outlet.province?.dgm?.name || null,
         isActive: outlet.isActive,
-        kioskPassword: outlet.kioskPassword, // Admin can see passwords
+        hasKioskPassword: !!outlet.kioskPassword, // Stored as a hash; only shown once on reset
+        kioskPasswordUpdatedAt: outlet.kioskPasswordUpdatedAt,
+        kioskPasswordRotationDays: outlet.kioskPasswordRotationDays,
         counterCount: outlet.counterCount,
         officerCount: outlet._count.officers,
         createdAt: outlet.createdAt
@@ -1607,7 +1632,7 @@ router.delete('/outlets/:outletId', async (req, res) => {
 })
 
 // Reset kiosk password for an outlet
-router.post('/outlets/:outletId/reset-kiosk-password', async (req, res) => {
+router.post('/outlets/:outletId/reset-kiosk-password', async (req: any, res) => {
   try {
     const { outletId } = req.params
 
@@ -1625,18 +1650,18 @@ router.post('/outlets/:outletId/reset-kiosk-password', async (req, res) => {
       return res.status(404).json({ error: 'Outlet not found' })
     }
 
-    // Generate new password
-    const newPassword = generateSecurePassword()
-
-    // Update outlet with new password
-    await prisma.outlet.update({
-      where: { id: outletId },
-      data: { kioskPassword: newPassword }
+    // Generate, hash and store the new password; existing kiosk sessions are signed out
+    const newPassword = await kioskCredentialService.resetPassword(outletId, {
+      userId: req.user?.email || 'admin',
+      userRole: 'admin',
+      ipAddress: req.ip
     })
 
+    // One-time display: the password cannot be read back later
+    res.setHeader('Cache-Control', 'no-store')
     res.json({
       success: true,
-      message: `Kiosk password reset successfully for ${outlet.name}`,
+      message: `Kiosk password reset successfully for ${outlet.name}. It will not be shown again.`,
       outletId: outlet.id,
       outletName: outlet.name,
       newPassword: newPassword
@@ -1647,7 +1672,7 @@ router.post('/outlets/:outletId/reset-kiosk-password', async (req, res) => {
   }
 })
 
-// View kiosk password for an outlet
+// Kiosk credential status (passwords are hashed and cannot be read back)
 router.get('/outlets/:outletId/kiosk-password', async (req, res) => {
   try {
     const { outletId } = req.params
@@ -1659,6 +1684,8 @@ router.get('/outlets/:outletId/kiosk-password', async (req, res) => {
         name: true,
         location: true,
         kioskPassword: true,
+        kioskPasswordUpdatedAt: true,
+        kioskPasswordRotationDays: true,
         region: {
           select: {
             name: true
@@ -1671,16 +1698,69 @@ router.get('/outlets/:outletId/kiosk-password', async (req, res) => {
       return res.status(404).json({ error: 'Outlet not found' })
     }
 
+    const lockouts = await prisma.kioskLoginAttempt.findMany({
+      where: { outletId, lockedUntil: { gt: new Date() } },
+      select: { subject: true, lockedUntil: true }
+    })
+
     res.json({
       outletId: outlet.id,
       outletName: outlet.name,
       location: outlet.location,
       regionName: outlet.region.name,
-      kioskPassword: outlet.kioskPassword
+      hasKioskPassword: !!outlet.kioskPassword,
+      kioskPasswordUpdatedAt: outlet.kioskPasswordUpdatedAt,
+      kioskPasswordRotationDays: outlet.kioskPasswordRotationDays,
+      activeLockouts: lockouts
+    })
+  } catch (error) {
+    console.error('Failed to fetch kiosk password status', error)
+    res.status(500).json({ error: 'Failed to fetch kiosk password status' })
+  }
+})
+
+// Configure automatic kiosk password rotation (null / 0 disables it)
+router.put('/outlets/:outletId/kiosk-password-rotation', async (req: any, res) => {
+  try {
+    const { outletId } = req.params
+    const { rotationDays } = req.body
+
+    const days = rotationDays === null || rotationDays === undefined || Number(rotationDays) === 0 ? null : Number(rotationDays)
+    if (days !== null && (!Number.isInteger(days) || days < 1 || days > 365)) {
+      return res.status(400).json({ error: 'rotationDays must be a whole number between 1 and 365, or null to disable' })
+    }
+
+    const outlet = await prisma.outlet.findUnique({ where: { id: outletId }, select: { id: true } })
+    if (!outlet) {
+      return res.status(404).json({ error: 'Outlet not found' })
+    }
+
+    await kioskCredentialService.setRotationSchedule(outletId, days, {
+      userId: req.user?.email || 'admin',
+      userRole: 'admin',
+      ipAddress: req.ip
     })
+
+    res.json({ success: true, outletId, kioskPasswordRotationDays: days })
   } catch (error) {
-    console.error('Failed to fetch kiosk password', error)
-    res.status(500).json({ error: 'Failed to fetch kiosk password' })
+    console.error('Failed to update kiosk password rotation', error)
+    res.status(500).json({ error: 'Failed to update kiosk password rotation' })
+  }
+})
+
+// Clear kiosk login lockouts for an outlet
+router.post('/outlets/:outletId/kiosk-unlock', async (req: any, res) => {
+  try {
+    const { outletId } = req.params
+    const cleared = await kioskCredentialService.clearLockout(outletId, {
+      userId: req.user?.email || 'admin',
+      userRole: 'admin',
+      ipAddress: req.ip
+    })
+    res.json({ success: true, cleared })
+  } catch (error) {
+    console.error('Failed to clear kiosk lockout', error)
+    res.status(500).json({ error: 'Failed to clear kiosk lockout' })
   }
 })
 
@@ -2354,7 +2434,7 @@ router.patch('/officer/:id', async (req, res) => {
 
     const data: any = {}
     if (counterNumber !== undefined) {
-      // validate officer exists and outlet counter capacity
+      // validate officer exists and the counter is one of the outlet's counters
       const officer = await prisma.officer.findUnique({ where: { id }, include: { outlet: true } })
       if (!officer) return res.status(404).json({ error: 'Officer not found' })
 
@@ -2363,9 +2443,8 @@ router.patch('/officer/:id', async (req, res) => {
         return res.status(400).json({ error: 'counterNumber must be a non-negative integer' })
       }
 
-      const max = officer.outlet?.counterCount ?? 0
-      if (parsed > max) {
-        return res.status(400).json({ error: `Counter number ${parsed} exceeds available counters (${max}) for this outlet` })
+      if (parsed > 0 && !(await counterService.getCounter(officer.outletId, parsed))) {
+        return res.status(400).json({ error: `Counter #${parsed} does not exist at this outlet` })
       }
 
       data.counterNumber = parsed
@@ -2572,138 +2651,108 @@ router.delete("/dgms/:dgmId", async (req, res) => {
   }
 })
 
-// GET /admin/backup — export all tables as a JSON backup file (all fields, all rows)
-router.get("/backup", async (req, res) => {
+// POST /admin/backup/otp — SMS code for re-verifying before an export (when no authenticator is used)
+router.post("/backup/otp", authenticateAdmin, async (req: any, res) => {
   try {
-    const [
-      regions,
-      outlets,
-      officers,
-      customers,
-      tokens,
-      feedback,
-      completedServices,
-      services,
-      appointments,
-      breakLogs,
-      transferLogs,
-      serviceCases,
-      serviceCaseUpdates,
-      closureNotices,
-      managerQRTokens,
-      teleshopManagers,
-      gms,
-      dgms,
-      otps,
-      sltBills,
-      mercantileHolidays,
-      documents,
-      alerts,
-    ] = await Promise.all([
-      prisma.region.findMany(),
-      prisma.outlet.findMany(),
-      prisma.officer.findMany(),
-      prisma.customer.findMany(),
-      prisma.token.findMany(),
-      prisma.feedback.findMany(),
-      prisma.completedService.findMany(),
-      prisma.service.findMany(),
-      prisma.appointment.findMany(),
-      prisma.breakLog.findMany(),
-      prisma.transferLog.findMany(),
-      prisma.serviceCase.findMany(),
-      prisma.serviceCaseUpdate.findMany(),
-      prisma.closureNotice.findMany(),
-      prisma.managerQRToken.findMany(),
-      prisma.teleshopManager.findMany(),
-      (prisma as any).gM.findMany(),
-      (prisma as any).dGM.findMany(),
-      (prisma as any).oTP.findMany(),
-      (prisma as any).sltBill.findMany(),
-      (prisma as any).mercantileHoliday.findMany(),
-      prisma.document.findMany(),
-      prisma.alert.findMany(),
-    ])
+    const { mobileNumber } = req.body || {}
+    if (!mobileNumber || !isValidSLMobile(mobileNumber)) {
+      return res.status(400).json({ error: "Valid Sri Lankan mobile number is required (e.g. 0771234567)" })
+    }
+    const otpResult = await otpService.generateOTP(mobileNumber, 'admin', 'Super Admin', { ipAddress: req.ip })
+    if (!otpResult.success) {
+      if (otpResult.retryAfterSeconds) {
+        return res.status(429).json({ error: otpResult.message, retryAfterSeconds: otpResult.retryAfterSeconds })
+      }
+      return res.status(500).json({ error: "Failed to send security code: " + otpResult.message })
+    }
+    res.json({ success: true, message: "Security code sent to your mobile" })
+  } catch (error) {
+    console.error("Backup OTP error:", error)
+    res.status(500).json({ error: "Failed to send security code" })
+  }
+})
 
-    const backup = {
-      exportedAt: new Date().toISOString(),
-      version: "1.0",
-      tables: {
-        regions,
-        outlets,
-        officers,
-        customers,
-        tokens,
-        feedback,
-        completedServices,
-        services,
-        appointments,
-        breakLogs,
-        transferLogs,
-        serviceCases,
-        serviceCaseUpdates,
-        closureNotices,
-        managerQRTokens,
-        teleshopManagers,
-        gms,
-        dgms,
-        otps,
-        sltBills,
-        mercantileHolidays,
-        documents,
-        alerts,
-      },
-      counts: {
-        regions: regions.length,
-        outlets: outlets.length,
-        officers: officers.length,
-        customers: customers.length,
-        tokens: tokens.length,
-        feedback: feedback.length,
-        completedServices: completedServices.length,
-        services: services.length,
-        appointments: appointments.length,
-        breakLogs: breakLogs.length,
-        transferLogs: transferLogs.length,
-        serviceCases: serviceCases.length,
-        serviceCaseUpdates: serviceCaseUpdates.length,
-        closureNotices: closureNotices.length,
-        managerQRTokens: managerQRTokens.length,
-        teleshopManagers: teleshopManagers.length,
-        gms: gms.length,
-        dgms: dgms.length,
-        otps: otps.length,
-        sltBills: sltBills.length,
-        mercantileHolidays: mercantileHolidays.length,
-        documents: documents.length,
-        alerts: alerts.length,
-      },
+// POST /admin/backup/verify — re-enter password + second factor for a one-time export grant
+router.post("/backup/verify", authenticateAdmin, async (req: any, res) => {
+  try {
+    const { password, mobileNumber, otpCode, totpCode, backupCode, passphrase } = req.body || {}
+    const adminEmail = req.user?.email || "admin"
+
+    if (password !== ADMIN_PASSWORD) {
+      await systemLogger.audit(adminEmail, "admin", "BACKUP_EXPORT_REVERIFY_FAILED", "Backup re-verification failed: wrong password", { ipAddress: req.ip })
+      return res.status(401).json({ error: "Invalid password" })
     }
 
-    const filename = `dqmp-backup-${new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)}.json`
-    const totalRecords = Object.values(backup.counts).reduce((sum, value) => sum + value, 0)
+    const verifyResult = await otpService.verifyLoginFactors('admin', ADMIN_EMAIL, { mobileNumber, otpCode, totpCode, backupCode })
+    if (!verifyResult.success) {
+      await systemLogger.audit(adminEmail, "admin", "BACKUP_EXPORT_REVERIFY_FAILED", "Backup re-verification failed: invalid security code", { ipAddress: req.ip })
+      return res.status(verifyResult.retryAfterSeconds ? 429 : 401).json({ error: verifyResult.message || "Invalid security code", retryAfterSeconds: verifyResult.retryAfterSeconds })
+    }
+
+    const passphraseError = backupExportService.validatePassphrase(passphrase)
+    if (passphraseError) return res.status(400).json({ error: passphraseError })
+
+    const grant = backupExportService.createGrant(adminEmail, passphrase)
+    await systemLogger.audit(adminEmail, "admin", "BACKUP_EXPORT_AUTHORIZED", "Backup export authorized", {
+      metadata: { encrypted: grant.encrypted, expiresAt: grant.expiresAt },
+      ipAddress: req.ip
+    })
+    res.json({ success: true, ...grant })
+  } catch (error) {
+    console.error("Backup re-verification error:", error)
+    res.status(500).json({ error: "Verification failed" })
+  }
+})
+
+// GET /admin/backup — stream all tables as a backup file (needs a grant from /backup/verify,
+// in the X-Backup-Grant header or ?grant=)
+router.get("/backup", authenticateAdmin, async (req: any, res) => {
+  const grantId = (req.headers['x-backup-grant'] as string) || (typeof req.query.grant === 'string' ? req.query.grant : '')
+  const grant = grantId ? backupExportService.consumeGrant(grantId, req.user?.email || "admin") : null
+  if (!grant) {
+    return res.status(403).json({ error: "Backup export requires re-verification", action: "reverify_required" })
+  }
+
+  const schemaVersion = getSchemaVersion()
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)
+  const filename = grant.passphrase ? `dqmp-backup-${timestamp}.json.enc` : `dqmp-backup-${timestamp}.json`
+
+  res.setHeader("Content-Type", grant.passphrase ? "application/octet-stream" : "application/json")
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`)
+  res.setHeader("Cache-Control", "private, no-store")
+
+  try {
+    const result = await backupExportService.streamBackup(res, { passphrase: grant.passphrase })
 
     await logBackupRestoreHistory({
       req,
       action: 'backup',
       status: 'success',
       filename,
-      totalRecords,
-      tableCounts: backup.counts,
+      totalRecords: result.totalRecords,
+      tableCounts: result.counts,
+      checksum: result.checksum,
+      schemaVersion,
+      encrypted: result.encrypted,
+    })
+    await systemLogger.audit(req.user?.email || "admin", "admin", "BACKUP_EXPORTED", `Backup ${filename} downloaded`, {
+      metadata: { totalRecords: result.totalRecords, checksum: result.checksum, schemaVersion, encrypted: result.encrypted },
+      ipAddress: req.ip
     })
-
-    res.setHeader("Content-Type", "application/json")
-    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`)
-    res.send(JSON.stringify(backup, null, 2))
   } catch (error) {
     console.error("Backup error:", error)
     await logBackupRestoreHistory({
       req,
       action: 'backup',
       status: 'failed',
+      filename,
+      schemaVersion,
+      encrypted: !!grant.passphrase,
       errorMessage: error instanceof Error ? error.message : String(error),
     })
-    res.status(500).json({ error: "Failed to generate backup" })
+    // Headers (and possibly part of the body) are already out; cut the download short
+    if (!res.headersSent) res.status(500).json({ error: "Failed to generate backup" })
+    else res.destroy()
   }
 })
 
@@ -2819,6 +2868,14 @@ router.post("/restore", authenticateAdmin, async (req: any, res) => {
     }
 
     const results: Record<string, number> = {}
+    // Ciphertext is restored as-is, so it must have been written with a key this server holds
+    const backupKeyIds: string[] = Array.isArray(req.body?.encryption?.keyIds) ? req.body.encryption.keyIds : []
+    const unknownKeyIds = backupKeyIds.filter((keyId) => !fieldEncryption.keyIds.includes(keyId))
+    if (unknownKeyIds.length > 0 && !req.body?.allowUnknownKeys) {
+      return res.status(400).json({
+        error: `Backup was encrypted with field key(s) not configured on this server: ${unknownKeyIds.join(", ")}. Add them to FIELD_ENCRYPTION_KEYS or pass allowUnknownKeys to restore anyway.`
+      })
+    }
 
     const ins = async (key: string, prismaCall: (safeRows: any[]) => Promise<{ count: number }>) => {
       const rows = (tables as any)[key]
@@ -2852,6 +2909,7 @@ router.post("/restore", authenticateAdmin, async (req: any, res) => {
     // Level 0 — no FK dependencies
     await ins("regions",            (safeRows) => prisma.region.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("services",           (safeRows) => prisma.service.createMany({ data: safeRows, skipDuplicates: true }))
+    await ins("priorityCategories", (safeRows) => prisma.priorityCategory.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("gms",                (safeRows) => (prisma as any).gM.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("customers",          (safeRows) => prisma.customer.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("otps",               (safeRows) => (prisma as any).oTP.createMany({ data: safeRows, skipDuplicates: true }))
@@ -2869,16 +2927,22 @@ router.post("/restore", authenticateAdmin, async (req: any, res) => {
     await ins("teleshopManagers", (safeRows) => prisma.teleshopManager.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("managerQRTokens",  (safeRows) => prisma.managerQRToken.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("closureNotices",   (safeRows) => prisma.closureNotice.createMany({ data: safeRows, skipDuplicates: true }))
+    await ins("counters",         (safeRows) => prisma.counter.createMany({ data: safeRows, skipDuplicates: true }))
+    await ins("slaDefinitions",   (safeRows) => prisma.slaDefinition.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("appointments",     (safeRows) => prisma.appointment.createMany({ data: safeRows, skipDuplicates: true }))
 
     // Level 3 — depends on customers + outlets + officers(nullable)
     await ins("tokens",    (safeRows) => prisma.token.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("breakLogs", (safeRows) => prisma.breakLog.createMany({ data: safeRows, skipDuplicates: true }))
+    await ins("tokenSequences", (safeRows) => prisma.tokenSequence.createMany({ data: safeRows, skipDuplicates: true }))
+    await ins("slaBreaches",    (safeRows) => prisma.slaBreach.createMany({ data: safeRows, skipDuplicates: true }))
 
     // Level 4 — depends on tokens / officers / services
     await ins("feedback",          (safeRows) => prisma.feedback.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("completedServices", (safeRows) => prisma.completedService.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("transferLogs",      (safeRows) => prisma.transferLog.createMany({ data: safeRows, skipDuplicates: true }))
+    await ins("tokenJourneySteps", (safeRows) => prisma.tokenJourneyStep.createMany({ data: safeRows, skipDuplicates: true }))
+    await ins("noShowEvents",      (safeRows) => prisma.noShowEvent.createMany({ data: safeRows, skipDuplicates: true }))
     await ins("serviceCases",      (safeRows) => prisma.serviceCase.createMany({ data: safeRows, skipDuplicates: true }))
 
     // Level 5 — depends on serviceCases
@@ -2894,7 +2958,13 @@ router.post("/restore", authenticateAdmin, async (req: any, res) => {
       tableCounts: results,
     })
 
-    res.json({ success: true, restored: results, totalRestored })
+    const currentSchemaVersion = getSchemaVersion()
+    const backupSchemaVersion = typeof req.body?.schemaVersion === 'string' ? req.body.schemaVersion : undefined
+    const warnings = backupSchemaVersion && backupSchemaVersion !== currentSchemaVersion
+      ? [`Backup schema ${backupSchemaVersion} differs from server schema ${currentSchemaVersion}; missing columns were skipped`]
+      : []
+
+    res.json({ success: true, restored: results, totalRestored, ...(warnings.length > 0 ? { warnings } : {}) })
   } catch (error: any) {
     console.error("Restore error:", error)
     await logBackupRestoreHistory({
@@ -2931,7 +3001,7 @@ router.post("/neon-sync-now", authenticateAdmin, async (req: any, res) => {
       serviceCases, serviceCaseUpdates, closureNotices, managerQRTokens,
       teleshopManagers, gms, dgms, otps, sltBills, mercantileHolidays,
       documents, alerts,
-    ] = await Promise.all([
+    ] = await fieldEncryption.withCiphertextReads(() => Promise.all([
       prisma.region.findMany(),
       prisma.province.findMany(),
       (prisma as any).rTOM ? (prisma as any).rTOM.findMany() : Promise.resolve([]),
@@ -2957,7 +3027,7 @@ router.post("/neon-sync-now", authenticateAdmin, async (req: any, res) => {
       (prisma as any).mercantileHoliday.findMany(),
       prisma.document.findMany(),
       prisma.alert.findMany(),
-    ])
+    ]))
 
     const sourceCounts = {
       regions: regions.length, provinces: provinces.length, rtoms: rtoms.length,
@@ -3215,6 +3285,444 @@ router.post("/test/sms", async (req, res) => {
   }
 })
 
+// ====== TOKEN NUMBER SEQUENCES ======
+
+// Today's token number sequences per outlet and range (optionally ?outletId=)
+router.get("/token-sequences", async (req, res) => {
+  try {
+    const outletId = typeof req.query.outletId === "string" && req.query.outletId ? req.query.outletId : undefined
+    const [policy, sequences] = await Promise.all([
+      tokenSequenceService.getPolicy(),
+      tokenSequenceService.listSequences(outletId),
+    ])
+    res.json({ success: true, businessDay: getLastDailyReset(), policy, sequences })
+  } catch (error) {
+    console.error("Get token sequences error:", error)
+    res.status(500).json({ error: "Failed to fetch token sequences" })
+  }
+})
+
+// Update the overflow policy / default range size
+router.put("/token-sequences/policy", async (req: any, res) => {
+  try {
+    const { overflow, blockSize } = req.body || {}
+    const input = { overflow, blockSize }
+    const validationError = tokenSequenceService.validatePolicy(input)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const policy = await tokenSequenceService.updatePolicy(input)
+    await systemLogger.audit(req.user?.email || "admin", "admin", "TOKEN_SEQUENCE_POLICY_UPDATED", "Token sequence policy updated", {
+      changes: input,
+      ipAddress: req.ip
+    })
+    res.json({ success: true, policy })
+  } catch (error) {
+    console.error("Update token sequence policy error:", error)
+    res.status(500).json({ error: "Failed to update token sequence policy" })
+  }
+})
+
+// ====== SLA TARGETS & ESCALATION ======
+
+// SLA definitions (defaults for every outlet, plus outlet overrides with ?outletId=) and the escalation policy
+router.get("/sla", async (req, res) => {
+  try {
+    const outletId = typeof req.query.outletId === "string" && req.query.outletId ? req.query.outletId : undefined
+    const [policy, definitions] = await Promise.all([
+      slaService.getPolicy(),
+      slaService.listDefinitions(outletId),
+    ])
+    res.json({ success: true, policy, definitions })
+  } catch (error) {
+    console.error("Get SLA settings error:", error)
+    res.status(500).json({ error: "Failed to fetch SLA settings" })
+  }
+})
+
+// Set the default SLA for a service at every outlet without its own override
+router.put("/sla/definitions/:serviceId", async (req: any, res) => {
+  try {
+    const { targetWaitMinutes, targetServiceMinutes, isActive } = req.body || {}
+    const input = { targetWaitMinutes, targetServiceMinutes, isActive }
+    const validationError = slaService.validateDefinition(input, false)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const definition = await slaService.saveDefinition(req.params.serviceId, null, input)
+    await systemLogger.audit(req.user?.email || "admin", "admin", "SLA_DEFINITION_UPDATED", "Default SLA definition updated", {
+      targetType: "service",
+      targetId: req.params.serviceId,
+      changes: input,
+      ipAddress: req.ip
+    })
+    res.json({ success: true, definition })
+  } catch (error) {
+    if (error instanceof SlaError) return res.status(error.status).json({ error: error.message })
+    console.error("Update SLA definition error:", error)
+    res.status(500).json({ error: "Failed to update SLA definition" })
+  }
+})
+
+// Remove an SLA definition (the service falls back to the next target in line)
+router.delete("/sla/definitions/:id", async (req: any, res) => {
+  try {
+    const definition = await slaService.deleteDefinition(req.params.id)
+    await systemLogger.audit(req.user?.email || "admin", "admin", "SLA_DEFINITION_DELETED", "SLA definition removed", {
+      targetType: "sla_definition",
+      targetId: definition.id,
+      metadata: { serviceId: definition.serviceId, outletId: definition.outletId },
+      ipAddress: req.ip
+    })
+    res.json({ success: true })
+  } catch (error) {
+    if (error instanceof SlaError) return res.status(error.status).json({ error: error.message })
+    console.error("Delete SLA definition error:", error)
+    res.status(500).json({ error: "Failed to delete SLA definition" })
+  }
+})
+
+// Update the escalation ladder thresholds (percent of target) and the RTOM SMS cooldown
+router.put("/sla/policy", async (req: any, res) => {
+  try {
+    const { nudgePercent, managerPercent, rtomPercent, rtomSmsCooldownMinutes } = req.body || {}
+    const input = Object.fromEntries(
+      Object.entries({ nudgePercent, managerPercent, rtomPercent, rtomSmsCooldownMinutes }).filter(([, value]) => value !== undefined)
+    )
+    const validationError = slaService.validatePolicy(input, await slaService.getPolicy())
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const policy = await slaService.updatePolicy(input)
+    await systemLogger.audit(req.user?.email || "admin", "admin", "SLA_POLICY_UPDATED", "SLA escalation policy updated", {
+      changes: input,
+      ipAddress: req.ip
+    })
+    res.json({ success: true, policy })
+  } catch (error) {
+    console.error("Update SLA policy error:", error)
+    res.status(500).json({ error: "Failed to update SLA policy" })
+  }
+})
+
+// ====== NEARBY OUTLET LOAD BALANCING ======
+
+router.get("/load-balancing/policy", async (req, res) => {
+  try {
+    res.json({ success: true, policy: await loadBalancingService.getPolicy() })
+  } catch (error) {
+    console.error("Get load balancing policy error:", error)
+    res.status(500).json({ error: "Failed to fetch load balancing policy" })
+  }
+})
+
+// When registration suggests quieter outlets nearby (partial updates are merged)
+router.put("/load-balancing/policy", async (req: any, res) => {
+  try {
+    const { enabled, minWaitingTokens, minSavingMinutes, maxSuggestions } = req.body || {}
+    const input = Object.fromEntries(
+      Object.entries({ enabled, minWaitingTokens, minSavingMinutes, maxSuggestions }).filter(([, value]) => value !== undefined)
+    )
+    const validationError = loadBalancingService.validatePolicy(input)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const policy = await loadBalancingService.updatePolicy(input)
+    await systemLogger.audit(req.user?.email || "admin", "admin", "LOAD_BALANCING_POLICY_UPDATED", "Nearby outlet load balancing policy updated", {
+      changes: input,
+      ipAddress: req.ip
+    })
+    res.json({ success: true, policy })
+  } catch (error) {
+    console.error("Update load balancing policy error:", error)
+    res.status(500).json({ error: "Failed to update load balancing policy" })
+  }
+})
+
+// ====== OTP ABUSE PROTECTION ======
+
+// Current OTP rate-limit policy
+router.get("/otp-rate-limit/policy", async (req, res) => {
+  try {
+    res.json({ success: true, policy: await otpRateLimiter.getPolicy() })
+  } catch (error) {
+    console.error("Get OTP rate-limit policy error:", error)
+    res.status(500).json({ error: "Failed to fetch OTP rate-limit policy" })
+  }
+})
+
+// Update the OTP rate-limit policy (partial updates are merged)
+router.put("/otp-rate-limit/policy", async (req: any, res) => {
+  try {
+    if (!req.body || typeof req.body !== "object") {
+      return res.status(400).json({ error: "Policy body is required" })
+    }
+    const policy = await otpRateLimiter.updatePolicy(req.body)
+    await systemLogger.audit(req.user?.email || "admin", "admin", "OTP_RATE_LIMIT_POLICY_UPDATED", "OTP rate-limit policy updated", {
+      changes: req.body,
+      ipAddress: req.ip
+    })
+    res.json({ success: true, policy })
+  } catch (error) {
+    console.error("Update OTP rate-limit policy error:", error)
+    res.status(500).json({ error: "Failed to update OTP rate-limit policy" })
+  }
+})
+
+// Mobile numbers, IPs and outlets blocked for the rest of today
+router.get("/otp-rate-limit/blocked", async (req, res) => {
+  try {
+    const blocked = await otpRateLimiter.listBlocked()
+    res.json({ success: true, blocked })
+  } catch (error) {
+    console.error("List OTP blocks error:", error)
+    res.status(500).json({ error: "Failed to fetch blocked numbers" })
+  }
+})
+
+// Lift a block (resets that subject's counter for today)
+router.delete("/otp-rate-limit/blocked/:id", async (req: any, res) => {
+  try {
+    const removed = await otpRateLimiter.unblock(req.params.id)
+    if (!removed) return res.status(404).json({ error: "Block not found" })
+    await systemLogger.audit(req.user?.email || "admin", "admin", "OTP_RATE_LIMIT_UNBLOCKED", "OTP rate-limit block lifted", {
+      targetType: "otp_rate_limit",
+      targetId: req.params.id,
+      ipAddress: req.ip
+    })
+    res.json({ success: true })
+  } catch (error) {
+    console.error("Unblock OTP error:", error)
+    res.status(500).json({ error: "Failed to lift block" })
+  }
+})
+
+// ====== PII REDACTION ======
+
+// Current redaction rules (patterns for free text, field names for objects)
+router.get("/redaction/policy", async (req, res) => {
+  try {
+    res.json({ success: true, policy: redactionService.getPolicy() })
+  } catch (error) {
+    console.error("Get redaction policy error:", error)
+    res.status(500).json({ error: "Failed to fetch redaction policy" })
+  }
+})
+
+// Update redaction rules; `patterns` / `fields` replace the current lists when given
+router.put("/redaction/policy", async (req: any, res) => {
+  try {
+    if (!req.body || typeof req.body !== "object") {
+      return res.status(400).json({ error: "Policy body is required" })
+    }
+    const before = redactionService.getPolicy()
+    const { policy, invalidPatterns } = await redactionService.updatePolicy(req.body)
+    if (invalidPatterns.length > 0) {
+      return res.status(400).json({ error: `Invalid regular expression in: ${invalidPatterns.join(", ")}` })
+    }
+    await systemLogger.audit(req.user?.email || "admin", "admin", "REDACTION_POLICY_UPDATED", "PII redaction policy updated", {
+      changes: { from: before, to: policy },
+      ipAddress: req.ip
+    })
+    res.json({ success: true, policy })
+  } catch (error) {
+    console.error("Update redaction policy error:", error)
+    res.status(500).json({ error: "Failed to update redaction policy" })
+  }
+})
+
+// Which rules and fields have been masked since startup (per-row paths are in SystemLog metadata.redactions)
+router.get("/redaction/stats", async (req, res) => {
+  try {
+    res.json({ success: true, ...redactionService.getStats() })
+  } catch (error) {
+    console.error("Get redaction stats error:", error)
+    res.status(500).json({ error: "Failed to fetch redaction stats" })
+  }
+})
+
+// Try the current rules on sample text / JSON without logging it
+router.post("/redaction/preview", async (req, res) => {
+  try {
+    const { sample } = req.body || {}
+    if (sample === undefined) return res.status(400).json({ error: "sample is required" })
+    const result = redactionService.redact(sample, typeof sample === "string" ? "message" : "")
+    res.json({ success: true, redacted: result.value, redactions: result.redactions })
+  } catch (error) {
+    console.error("Redaction preview error:", error)
+    res.status(500).json({ error: "Failed to preview redaction" })
+  }
+})
+
+// ====== DATA RETENTION & ERASURE ======
+
+// Retention rules (per-table anonymization age and fields, purge ages)
+router.get("/retention/policy", async (req, res) => {
+  try {
+    res.json({ success: true, policy: await dataRetentionService.getPolicy(), fields: ANONYMIZABLE_FIELDS })
+  } catch (error) {
+    console.error("Get retention policy error:", error)
+    res.status(500).json({ error: "Failed to fetch retention policy" })
+  }
+})
+
+// Update retention rules; `tables` / `purge` entries are merged per table
+router.put("/retention/policy", async (req: any, res) => {
+  try {
+    if (!req.body || typeof req.body !== "object") {
+      return res.status(400).json({ error: "Policy body is required" })
+    }
+    const before = await dataRetentionService.getPolicy()
+    const policy = await dataRetentionService.updatePolicy(req.body)
+    await systemLogger.audit(req.user?.email || "admin", "admin", "RETENTION_POLICY_UPDATED", "Data retention policy updated", {
+      changes: { from: before, to: policy },
+      ipAddress: req.ip
+    })
+    res.json({ success: true, policy })
+  } catch (error) {
+    console.error("Update retention policy error:", error)
+    res.status(500).json({ error: "Failed to update retention policy" })
+  }
+})
+
+// Apply the retention policy now (dryRun: only count what is due)
+router.post("/retention/run", async (req: any, res) => {
+  try {
+    const dryRun = req.body?.dryRun !== false
+    const result = await dataRetentionService.runRetention({
+      dryRun,
+      actor: { userId: req.user?.email || "admin", userRole: "admin", ipAddress: req.ip }
+    })
+    res.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Retention run error:", error)
+    res.status(500).json({ error: "Failed to apply retention policy" })
+  }
+})
+
+// Erasure requests (mobile numbers are masked; the number itself is dropped once processed)
+router.get("/erasure-requests", async (req, res) => {
+  try {
+    const status = typeof req.query.status === "string" ? req.query.status : undefined
+    res.json({ success: true, requests: await dataRetentionService.listErasureRequests(status) })
+  } catch (error) {
+    console.error("Get erasure requests error:", error)
+    res.status(500).json({ error: "Failed to fetch erasure requests" })
+  }
+})
+
+// Raise an erasure request on behalf of a customer; processNow erases immediately
+router.post("/erasure-requests", async (req: any, res) => {
+  try {
+    const { mobileNumber, reason, processNow } = req.body || {}
+    if (!mobileNumber || !isValidSLMobile(mobileNumber)) {
+      return res.status(400).json({ error: "A valid mobile number is required" })
+    }
+    const actor = { userId: req.user?.email || "admin", userRole: "admin", ipAddress: req.ip }
+    let request: any = await dataRetentionService.createErasureRequest(mobileNumber, actor.userId, "admin", reason)
+    await systemLogger.audit(actor.userId, actor.userRole, "DATA_ERASURE_REQUESTED", `Erasure requested for ${request.subjectMasked}`, {
+      targetType: "erasure_request",
+      targetId: request.id,
+      metadata: { reason: reason || null },
+      ipAddress: req.ip
+    })
+    if (processNow) {
+      request = await dataRetentionService.processErasureRequest(request.id, actor)
+    }
+    const { mobileNumber: _mobile, subjectHash: _hash, ...summary } = request
+    res.json({ success: true, request: summary })
+  } catch (error) {
+    console.error("Create erasure request error:", error)
+    res.status(500).json({ error: "Failed to create erasure request" })
+  }
+})
+
+router.post("/erasure-requests/:id/process", async (req: any, res) => {
+  try {
+    const request = await dataRetentionService.processErasureRequest(req.params.id, {
+      userId: req.user?.email || "admin", userRole: "admin", ipAddress: req.ip
+    })
+    if (!request) return res.status(404).json({ error: "Pending erasure request not found" })
+    const { mobileNumber: _mobile, subjectHash: _hash, ...summary } = request
+    res.json({ success: true, request: summary })
+  } catch (error) {
+    console.error("Process erasure request error:", error)
+    res.status(500).json({ error: "Failed to process erasure request" })
+  }
+})
+
+router.post("/erasure-requests/:id/reject", async (req: any, res) => {
+  try {
+    const request = await dataRetentionService.rejectErasureRequest(req.params.id, {
+      userId: req.user?.email || "admin", userRole: "admin", ipAddress: req.ip
+    }, req.body?.note)
+    if (!request) return res.status(404).json({ error: "Pending erasure request not found" })
+    const { mobileNumber: _mobile, subjectHash: _hash, ...summary } = request
+    res.json({ success: true, request: summary })
+  } catch (error) {
+    console.error("Reject erasure request error:", error)
+    res.status(500).json({ error: "Failed to reject erasure request" })
+  }
+})
+
+// ====== FIELD ENCRYPTION ======
+
+// Active key, configured keys and how many stored values sit under each (or in plaintext)
+router.get("/field-encryption/status", async (req, res) => {
+  try {
+    res.json({ success: true, ...(await fieldEncryption.getStatus(prisma)) })
+  } catch (error) {
+    console.error("Field encryption status error:", error)
+    res.status(500).json({ error: "Failed to fetch field encryption status" })
+  }
+})
+
+// Move rows onto the active key after rotation (force: rewrite all, e.g. after a hash key change)
+router.post("/field-encryption/reencrypt", async (req: any, res) => {
+  try {
+    const force = req.body?.force === true
+    const updated = await fieldEncryption.reencryptStaleRows(prisma, { force })
+    await systemLogger.audit(req.user?.email || "admin", "admin", "FIELD_ENCRYPTION_REENCRYPTED", `PII columns re-encrypted with key ${fieldEncryption.activeKeyId}`, {
+      metadata: { updated, force, activeKeyId: fieldEncryption.activeKeyId },
+      ipAddress: req.ip
+    })
+    res.json({ success: true, activeKeyId: fieldEncryption.activeKeyId, updated })
+  } catch (error) {
+    console.error("Field re-encryption error:", error)
+    res.status(500).json({ error: "Failed to re-encrypt fields" })
+  }
+})
+
+// ====== TWO-FACTOR POLICY ======
+
+const TWO_FACTOR_ROLES: TwoFactorUserType[] = ["admin", "gm", "dgm"]
+
+// Roles that must sign in with an authenticator app
+router.get("/two-factor-policy", async (req, res) => {
+  try {
+    res.json({ success: true, requiredRoles: await otpService.getRequiredTotpRoles(), availableRoles: TWO_FACTOR_ROLES })
+  } catch (error) {
+    console.error("Get two-factor policy error:", error)
+    res.status(500).json({ error: "Failed to fetch two-factor policy" })
+  }
+})
+
+// Make the authenticator app mandatory (or optional) per role
+router.put("/two-factor-policy", async (req: any, res) => {
+  try {
+    const { requiredRoles } = req.body || {}
+    if (!Array.isArray(requiredRoles) || requiredRoles.some((role: any) => !TWO_FACTOR_ROLES.includes(role))) {
+      return res.status(400).json({ error: `requiredRoles must be a list of: ${TWO_FACTOR_ROLES.join(", ")}` })
+    }
+    const before = await otpService.getRequiredTotpRoles()
+    const saved = await otpService.setRequiredTotpRoles(requiredRoles)
+    await systemLogger.audit(req.user?.email || "admin", "admin", "TWO_FACTOR_POLICY_UPDATED", `Authenticator app required for: ${saved.join(", ") || "none"}`, {
+      changes: { requiredRoles: { from: before, to: saved } },
+      ipAddress: req.ip
+    })
+    res.json({ success: true, requiredRoles: saved })
+  } catch (error) {
+    console.error("Update two-factor policy error:", error)
+    res.status(500).json({ error: "Failed to update two-factor policy" })
+  }
+})
+
 // ====== HIERARCHY MANAGEMENT APIS ======
 
 // Region Management
@@ -5,7 +5,9 @@ import smsHelper from "../utils/smsHelper"
 import { getLastDailyReset } from "../utils/resetWindow"
 import * as crypto from "crypto"
 import * as sltBillingService from "../services/sltBillingService"
-import { getNextTokenNumber } from "../utils/tokenHelper"
+import { getNextTokenNumber, getTokenDisplayNumber } from "../utils/tokenHelper"
+import { displayToken } from "../utils/tokenFormat"
+import { TokenSequenceError } from "../services/tokenSequenceService"
 
 const router = Router()
 
@@ -509,6 +511,7 @@ async function addAppointmentToQueue(appt: any) {
     // Get next token number
     const lastReset = getLastDailyReset()
     const tokenNumber = await getNextTokenNumber(tx, appt.outletId, appt.serviceTypes, lastReset)
+    const displayNumber = await getTokenDisplayNumber(tx, appt.outletId, appt.serviceTypes, tokenNumber)
 
     // Create token
     console.log('DEBUG: Appointment check-in - About to create token with customer:', {
@@ -522,6 +525,7 @@ async function addAppointmentToQueue(appt: any) {
     const token = await tx.token.create({
       data: {
         tokenNumber,
+        displayNumber,
         customerId: customer.id,
         serviceTypes: appt.serviceTypes,
         preferredLanguages: appt.preferredLanguage ? [appt.preferredLanguage] : [],
@@ -640,7 +644,7 @@ async function addAppointmentToQueue(appt: any) {
   // Send token SMS to customer
   const outlet = await prisma.outlet.findUnique({ where: { id: appt.outletId } })
   try {
-    await smsHelper.sendTokenNotification(appt.mobileNumber, result.token.tokenNumber, 1, appt.preferredLanguage as 'en' | 'si' | 'ta' || 'en')
+    await smsHelper.sendTokenNotification(appt.mobileNumber, displayToken(result.token), 1, appt.preferredLanguage as 'en' | 'si' | 'ta' || 'en')
   } catch (e) {
     console.error('Failed to send token SMS:', e)
   }
@@ -700,8 +704,7 @@ router.get("/my", async (req, res) => {
               where: {
                 outletId: appt.outletId,
                 status: 'waiting',
-                tokenNumber: { lt: token.tokenNumber },
-                createdAt: { gte: lastReset }
+                createdAt: { gte: lastReset, lt: token.createdAt }
               }
             })
             
@@ -887,11 +890,13 @@ router.post("/:apptId/checkin", async (req, res) => {
       // Get next token number
       const lastReset = getLastDailyReset()
       const tokenNumber = await getNextTokenNumber(tx, appt.outletId, appt.serviceTypes, lastReset)
+      const displayNumber = await getTokenDisplayNumber(tx, appt.outletId, appt.serviceTypes, tokenNumber)
 
       // Create token with appointment data
       const newToken = await tx.token.create({
         data: {
           tokenNumber,
+          displayNumber,
           customerId: customer.id,
           serviceTypes: appt.serviceTypes,
           outletId: appt.outletId,
@@ -942,6 +947,7 @@ router.post("/:apptId/checkin", async (req, res) => {
     })
 
   } catch (error) {
+    if (error instanceof TokenSequenceError) return res.status(error.status).json({ error: error.message })
     console.error("Appointment check-in error:", error)
     res.status(500).json({ error: "Failed to check in appointment" })
   }
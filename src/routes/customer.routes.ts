@@ -5,7 +5,19 @@ import * as jwt from "jsonwebtoken"
 import smsHelper from "../utils/smsHelper"
 import sltSmsService from "../services/sltSmsService"
 import { getTrackingUrl, getRecoveryUrl, getFeedbackUrl } from "../utils/urlHelper"
-import { getNextTokenNumber } from "../utils/tokenHelper"
+import { getNextTokenNumber, getTokenDisplayNumber } from "../utils/tokenHelper"
+import { TokenSequenceError } from "../services/tokenSequenceService"
+import { calculateEstimatedWaitTime } from "../utils/waitEstimate"
+import { displayToken } from "../utils/tokenFormat"
+import otpRateLimiter from "../services/otpRateLimiter"
+import dataRetentionService from "../services/dataRetentionService"
+import journeyService from "../services/journeyService"
+import parkingService, { ParkingError } from "../services/parkingService"
+import remoteQueueService, { RemoteQueueError } from "../services/remoteQueueService"
+import priorityService, { PriorityError } from "../services/priorityService"
+import loadBalancingService, { LoadBalancingError, OutletLoad } from "../services/loadBalancingService"
+import endOfDayService from "../services/endOfDayService"
+import { systemLogger } from "../services/systemLogger"
 
 const router = Router()
 
@@ -28,7 +40,6 @@ const otpStore = new Map<string, OtpRecord>()
 const now = () => Date.now()
 const genOtp = () => Math.floor(1000 + Math.random() * 9000).toString()
 const FIVE_MIN = 5 * 60 * 1000
-const RESEND_WINDOW = 30 * 1000
 
 function normalizeLang(input: unknown): 'en' | 'si' | 'ta' {
   if (typeof input !== 'string') return 'en'
@@ -53,43 +64,6 @@ function toE164(mobile: string): string {
   return mobile.startsWith("+") ? mobile : "+" + cleaned
 }
 
-/**
- * Calculates the estimated wait time for an outlet based on recent performance.
- * @param outletId The outlet ID
- * @param position Queue position (number of people ahead + 1)
- * @returns Estimated wait time in minutes
- */
-async function calculateEstimatedWaitTime(outletId: string, position: number): Promise<number> {
-  try {
-    const recentCompleted = await prisma.token.findMany({
-      where: {
-        outletId,
-        status: { in: ["in_service", "completed"] },
-        calledAt: { not: null },
-      },
-      orderBy: { calledAt: "desc" },
-      take: 10,
-    })
-
-    let avgWaitPerPerson = 5 // fallback to 5 minutes
-    if (recentCompleted.length > 0) {
-      const totalWait = recentCompleted.reduce((acc, t) => {
-        const wait = t.calledAt!.getTime() - t.createdAt.getTime()
-        return acc + wait
-      }, 0)
-      avgWaitPerPerson = (totalWait / recentCompleted.length) / (1000 * 60)
-    }
-
-    // Return estimated wait based on position (people ahead)
-    // position 1 means you are next, position 2 means 1 person ahead.
-    const peopleAhead = Math.max(0, position - 1)
-    return Math.max(1, Math.round(peopleAhead * avgWaitPerPerson))
-  } catch (err) {
-    console.error("Error calculating estimated wait time:", err)
-    return Math.max(1, (position - 1) * 5)
-  }
-}
-
 // Enhanced OTP for customer registration with recovery URL
 router.post("/registration/otp/start", async (req, res) => {
   try {
@@ -113,10 +87,10 @@ router.post("/registration/otp/start", async (req, res) => {
     }
 
     const key = mobileNumber
-    const existing = otpStore.get(key)
-    if (existing && now() - existing.lastSentAt < RESEND_WINDOW) {
-      const wait = Math.ceil((RESEND_WINDOW - (now() - existing.lastSentAt)) / 1000)
-      return res.status(429).json({ error: `Please wait ${wait}s before requesting another OTP` })
+    // Shared OTP abuse protection (cooldown, daily caps, progressive delay per mobile / IP / outlet)
+    const decision = await otpRateLimiter.consume({ mobileNumber, userType: 'customer', ipAddress: req.ip, outletId })
+    if (!decision.allowed) {
+      return res.status(429).json({ error: decision.message, retryAfterSeconds: decision.retryAfterSeconds })
     }
 
     const code = genOtp()
@@ -196,10 +170,10 @@ router.post("/otp/start", async (req, res) => {
     const OTP_DEV_ECHO = process.env.OTP_DEV_ECHO === "true"
 
     const key = mobileNumber
-    const existing = otpStore.get(key)
-    if (existing && now() - existing.lastSentAt < RESEND_WINDOW) {
-      const wait = Math.ceil((RESEND_WINDOW - (now() - existing.lastSentAt)) / 1000)
-      return res.status(429).json({ error: `Please wait ${wait}s before requesting another OTP` })
+    // Shared OTP abuse protection (cooldown, daily caps, progressive delay per mobile / IP)
+    const decision = await otpRateLimiter.consume({ mobileNumber, userType: 'customer', ipAddress: req.ip })
+    if (!decision.allowed) {
+      return res.status(429).json({ error: decision.message, retryAfterSeconds: decision.retryAfterSeconds })
     }
 
     const code = genOtp()
@@ -291,6 +265,34 @@ router.post("/otp/verify", async (req, res) => {
   }
 })
 
+// Customer asks for their personal data to be erased (phone ownership proven via OTP)
+router.post("/erasure-request", async (req, res) => {
+  try {
+    const { verifiedMobileToken, reason } = req.body || {}
+    let mobileNumber: string
+    try {
+      const payload = (jwt as any).verify(verifiedMobileToken || "", OTP_JWT_SECRET as jwt.Secret) as any
+      if (payload?.purpose !== "phone_verification" || !payload?.mobileNumber) {
+        return res.status(403).json({ error: "Phone verification required" })
+      }
+      mobileNumber = payload.mobileNumber
+    } catch {
+      return res.status(403).json({ error: "Phone verification required" })
+    }
+
+    const request = await dataRetentionService.createErasureRequest(mobileNumber, "customer", "customer", typeof reason === "string" ? reason.slice(0, 500) : undefined)
+    await systemLogger.audit("customer", "customer", "DATA_ERASURE_REQUESTED", `Erasure requested for ${request.subjectMasked}`, {
+      targetType: "erasure_request",
+      targetId: request.id,
+      ipAddress: req.ip
+    })
+    res.json({ success: true, requestId: request.id, status: request.status })
+  } catch (error) {
+    console.error("Erasure request error:", error)
+    res.status(500).json({ error: "Failed to submit erasure request" })
+  }
+})
+
 // Issue a short-lived QR token for a given outlet; used to embed in the QR code URL
 router.get("/qr-token/:outletId", async (req, res) => {
   try {
@@ -336,7 +338,7 @@ router.get("/validate-qr", async (req, res) => {
 // Register customer and create token
 router.post("/register", async (req, res) => {
   try {
-    const { name, mobileNumber, serviceTypes, outletId, qrToken, preferredLanguages, sltMobileNumber, nicNumber, email, verifiedMobileToken, sltTelephoneNumber, sltTelephoneNumbers, billPaymentIntent, billPaymentAmount, billPaymentMethod, billPaymentCustomAmounts } = req.body
+    const { name, mobileNumber, serviceTypes, outletId, qrToken, preferredLanguages, sltMobileNumber, nicNumber, email, verifiedMobileToken, sltTelephoneNumber, sltTelephoneNumbers, billPaymentIntent, billPaymentAmount, billPaymentMethod, billPaymentCustomAmounts, journey, remote, travelMinutes, priorityCategory } = req.body
 
     console.log(`Registration attempt - Mobile: ${mobileNumber}, Outlet: ${outletId}, Services: ${serviceTypes}`)
 
@@ -355,6 +357,23 @@ router.post("/register", async (req, res) => {
     // Use a placeholder mobile when not supplied (OTP-disabled flow)
     const effectiveMobile = mobileNumber || 'N/A'
 
+    // journey: true serves the selected services one after another, in the order given
+    const journeySteps = journey === true && serviceTypes.length > 1
+      ? serviceTypes.map((code: string) => ({ serviceCode: code }))
+      : null
+    if (journeySteps) {
+      const stepError = await journeyService.validateSteps(journeySteps)
+      if (stepError) return res.status(400).json({ error: stepError })
+    }
+
+    // remote: true joins from home; the token waits unseen by officers until the customer checks in
+    const isRemote = remote === true
+    if (isRemote) {
+      if (!mobileNumber) return res.status(400).json({ error: "mobileNumber is required to join remotely" })
+      const travelError = remoteQueueService.validateTravelMinutes(travelMinutes)
+      if (travelError) return res.status(400).json({ error: travelError })
+    }
+
     // Check OTP requirement from admin setting (global switch)
     const otpSettingRows = await prisma.$queryRaw<{ booleanValue: boolean | null }[]>`
       SELECT "booleanValue" FROM "AppSetting" WHERE "key" = 'otp_verification_enabled' LIMIT 1
@@ -451,6 +470,10 @@ router.post("/register", async (req, res) => {
       return res.status(401).json({ error: "Invalid QR token" })
     }
 
+    // No new tokens once the outlet's end-of-day cut-off has passed
+    const issuingError = await endOfDayService.checkIssuing(outletId)
+    if (issuingError) return res.status(issuingError.status).json({ error: issuingError.message })
+
 
     const prioritySettingRows = await prisma.$queryRaw<{ booleanValue: boolean | null }[]>`
       SELECT "booleanValue" FROM "AppSetting" WHERE "key" = 'priority_service_enabled' LIMIT 1
@@ -463,6 +486,12 @@ router.post("/register", async (req, res) => {
     ` as any[]
     const autoPriority = priorityFeatureEnabled && priorityServices.length > 0
 
+    // A claimed priority category (senior citizen, ...) is checked at the counter when it needs verification;
+    // until an officer accepts it the token queues as a regular one
+    // Claims are ignored while priority service is switched off
+    const priorityClaim = priorityFeatureEnabled ? await priorityService.resolveClaim(priorityCategory) : null
+    const claimedPriority = !!priorityClaim && priorityClaim.priorityVerification !== 'pending'
+
     // Use a database transaction to prevent race conditions
     const token = await prisma.$transaction(async (tx) => {
       /* Check if customer already has an active token for this outlet
@@ -497,22 +526,32 @@ router.post("/register", async (req, res) => {
       // Use an exclusive lock on the Outlet record to serialize concurrent token generation
       await tx.$executeRaw`SELECT id FROM "Outlet" WHERE id = ${outletId} FOR UPDATE`
 
+      if (isRemote) {
+        const joinError = await remoteQueueService.checkJoin(outletId, serviceTypes, tx)
+        if (joinError) throw joinError
+      }
+
       // Get next token number for outlet within the current daily window (resets at 12:00 PM)
       const lastReset = getLastDailyReset()
 
       const tokenNumber = await getNextTokenNumber(tx, outletId, serviceTypes, lastReset)
 
+      const displayNumber = await getTokenDisplayNumber(tx, outletId, serviceTypes, tokenNumber)
+
       console.log(`Creating token #${tokenNumber} for customer ${name} (${mobileNumber}) at outlet ${outletId}`)
 
       // Create token within the same transaction
       const newToken = await tx.token.create({
         data: {
           tokenNumber,
+          displayNumber,
           customerId: customer.id,
           serviceTypes,
           outletId,
           status: "waiting",
-          isPriority: autoPriority,
+          isPriority: autoPriority || claimedPriority,
+          priorityFromClaim: claimedPriority && !autoPriority,
+          ...priorityClaim,
           // Store preferredLanguages as a JSON array (not a string) for easier matching
           preferredLanguages: Array.isArray(preferredLanguages) && preferredLanguages.length > 0
             ? preferredLanguages
@@ -522,6 +561,8 @@ router.post("/register", async (req, res) => {
           billPaymentAmount: billPaymentIntent === 'partial' && billPaymentAmount ? parseFloat(String(billPaymentAmount)) : null,
           billPaymentCustomAmounts: billPaymentIntent === 'partial' && billPaymentCustomAmounts ? billPaymentCustomAmounts : null,
           billPaymentMethod: billPaymentMethod || null,
+          isRemote,
+          travelMinutes: isRemote && travelMinutes !== undefined && travelMinutes !== null ? Number(travelMinutes) : null,
         },
         include: {
           customer: true,
@@ -529,6 +570,11 @@ router.post("/register", async (req, res) => {
         },
       })
       
+      if (journeySteps) {
+        await journeyService.planJourney(newToken.id, journeySteps, tx)
+        newToken.serviceTypes = [journeySteps[0].serviceCode]
+      }
+
       // Create TokenBill entries if this is a bill payment service and we have telephone numbers
       if (Array.isArray(sltTelephoneNumbers) && sltTelephoneNumbers.length > 0) {
         for (const num of sltTelephoneNumbers) {
@@ -558,8 +604,7 @@ router.post("/register", async (req, res) => {
       where: {
         outletId: token.outletId,
         status: "waiting",
-        tokenNumber: { lt: token.tokenNumber },
-        createdAt: { gte: lastReset },
+        createdAt: { gte: lastReset, lt: token.createdAt },
       },
     }) + 1
 
@@ -568,12 +613,23 @@ router.post("/register", async (req, res) => {
     // Broadcast update immediately so officer dashboards refresh without waiting on SMS delivery.
     broadcast({ type: "NEW_TOKEN", data: token })
 
+    // Quieter outlets nearby; the customer can move the token before setting off
+    let nearbyOutlets: OutletLoad[] = []
+    try {
+      const suggestions = await loadBalancingService.getSuggestions(token.outletId, token.serviceTypes, { remote: token.isRemote, waitingAhead: queuePosition - 1 })
+      nearbyOutlets = suggestions.alternatives
+    } catch (suggestError) {
+      console.error("Nearby outlet suggestions failed:", suggestError)
+    }
+
     res.json({
       success: true,
       token,
       message: "Registration successful",
       queuePosition,
       estimatedWait,
+      remote: await remoteQueueService.describe(token),
+      nearbyOutlets,
     })
 
     // Send token confirmation SMS off the request path.
@@ -585,7 +641,7 @@ router.post("/register", async (req, res) => {
           : normalizeLang(preferredLanguages)
 
         const result = await sltSmsService.sendTokenConfirmation(token.customer.mobileNumber, {
-          tokenNumber: token.tokenNumber,
+          tokenNumber: displayToken(token),
           queuePosition,
           outletName: token.outlet?.name || 'SLT Office',
           trackingUrl,
@@ -599,6 +655,10 @@ router.post("/register", async (req, res) => {
   } catch (error: any) {
     console.error("Registration error:", error)
 
+    if (error instanceof RemoteQueueError || error instanceof TokenSequenceError || error instanceof PriorityError) {
+      return res.status(error.status).json({ error: error.message })
+    }
+
     // Handle specific error cases
     if (error.message && error.message.includes("already has an active token")) {
       return res.status(409).json({ error: error.message })
@@ -643,8 +703,7 @@ router.get("/token/:tokenId", async (req, res) => {
       where: {
         outletId: token.outletId,
         status: "waiting",
-        tokenNumber: { lt: token.tokenNumber },
-        createdAt: { gte: lastReset },
+        createdAt: { gte: lastReset, lt: token.createdAt },
       },
     })
 
@@ -675,8 +734,8 @@ router.post("/token/:tokenId/cancel", async (req, res) => {
       return res.status(404).json({ error: "Token not found" })
     }
 
-    // Only allow canceling if still waiting
-    if (token.status !== "waiting") {
+    // Only allow canceling if still waiting (or stepped away)
+    if (token.status !== "waiting" && token.status !== "parked") {
       return res.status(400).json({ error: "Only waiting tokens can be cancelled" })
     }
 
@@ -698,7 +757,7 @@ router.post("/token/:tokenId/cancel", async (req, res) => {
       const lang = preferredLangs.length > 0 ? normalizeLang(preferredLangs[0]) : 'en'
 
       await smsHelper.sendTokenCancellation(updatedToken.customer.mobileNumber, {
-        tokenNumber: updatedToken.tokenNumber,
+        tokenNumber: displayToken(updatedToken),
         outletName: updatedToken.outlet.name
       }, lang)
       console.log(`✓ Cancellation SMS sent to ${updatedToken.customer.mobileNumber} for token #${updatedToken.tokenNumber}`)
@@ -717,6 +776,112 @@ router.post("/token/:tokenId/cancel", async (req, res) => {
   }
 })
 
+// Step away from the queue without losing the place (from the tracking page)
+router.post("/token/:tokenId/park", async (req, res) => {
+  try {
+    const { minutes } = req.body || {}
+    const token = await parkingService.park(req.params.tokenId, { actor: 'customer', minutes })
+    res.json({ success: true, token, parkedUntil: token.parkedUntil })
+  } catch (error) {
+    if (error instanceof ParkingError) return res.status(error.status).json({ error: error.message })
+    console.error("Token park error:", error)
+    res.status(500).json({ error: "Failed to hold your place" })
+  }
+})
+
+router.post("/token/:tokenId/resume", async (req, res) => {
+  try {
+    const token = await parkingService.resume(req.params.tokenId, 'customer')
+    res.json({ success: true, token })
+  } catch (error) {
+    if (error instanceof ParkingError) return res.status(error.status).json({ error: error.message })
+    console.error("Token resume error:", error)
+    res.status(500).json({ error: "Failed to resume your token" })
+  }
+})
+
+// Services that can be joined from home at an outlet, with places left
+router.get("/remote/:outletId/services", async (req, res) => {
+  try {
+    const outlet = await prisma.outlet.findUnique({ where: { id: req.params.outletId }, select: { id: true, name: true, isActive: true } })
+    if (!outlet || !outlet.isActive) return res.status(404).json({ error: "Outlet not found or inactive" })
+    const services = await remoteQueueService.listJoinableServices(outlet.id)
+    res.json({ success: true, outlet: { id: outlet.id, name: outlet.name }, services })
+  } catch (error) {
+    console.error("Remote services error:", error)
+    res.status(500).json({ error: "Failed to load remote queue services" })
+  }
+})
+
+// Quieter outlets in the same RTOM / province for the given services (?services=A,B&remote=true), before registering
+router.get("/nearby/:outletId", async (req, res) => {
+  try {
+    const services = typeof req.query.services === "string" ? req.query.services.split(",").map(code => code.trim()).filter(Boolean) : []
+    const suggestions = await loadBalancingService.getSuggestions(req.params.outletId, services, { remote: req.query.remote === "true" })
+    res.json({ success: true, ...suggestions })
+  } catch (error) {
+    if (error instanceof LoadBalancingError) return res.status(error.status).json({ error: error.message })
+    console.error("Nearby outlets error:", error)
+    res.status(500).json({ error: "Failed to load nearby outlets" })
+  }
+})
+
+// Quieter outlets the customer could move this token to (from the tracking page)
+router.get("/token/:tokenId/alternatives", async (req, res) => {
+  try {
+    const suggestions = await loadBalancingService.getTokenSuggestions(req.params.tokenId)
+    res.json({ success: true, ...suggestions })
+  } catch (error) {
+    if (error instanceof LoadBalancingError) return res.status(error.status).json({ error: error.message })
+    console.error("Token alternatives error:", error)
+    res.status(500).json({ error: "Failed to load nearby outlets" })
+  }
+})
+
+// Move a waiting token to a nearby outlet before arriving; it takes the next number there.
+// The customer proves the token is theirs with an OTP-verified mobile (POST /otp/verify).
+router.post("/token/:tokenId/switch", async (req, res) => {
+  try {
+    const { outletId, verifiedMobileToken } = req.body || {}
+    if (!outletId || typeof outletId !== "string") {
+      return res.status(400).json({ error: "outletId is required" })
+    }
+
+    const owner = await prisma.token.findUnique({ where: { id: req.params.tokenId }, select: { customer: { select: { mobileNumber: true } } } })
+    if (!owner) return res.status(404).json({ error: "Token not found" })
+    try {
+      const payload = (jwt as any).verify(verifiedMobileToken || "", OTP_JWT_SECRET as jwt.Secret) as any
+      if (payload?.purpose !== "phone_verification" || payload?.mobileNumber !== owner.customer.mobileNumber) {
+        return res.status(403).json({ error: "Phone verification required" })
+      }
+    } catch {
+      return res.status(403).json({ error: "Phone verification required" })
+    }
+    const result = await loadBalancingService.switchToken(req.params.tokenId, outletId)
+    res.json({ success: true, message: `Your token is now ${displayToken(result.token)} at ${result.token.outlet.name}`, ...result })
+  } catch (error) {
+    if (error instanceof LoadBalancingError || error instanceof TokenSequenceError) return res.status(error.status).json({ error: error.message })
+    console.error("Token switch error:", error)
+    res.status(500).json({ error: "Failed to move your token" })
+  }
+})
+
+// Arrival check-in for remote tokens: scan the door QR or share location from the tracking page
+router.post("/token/:tokenId/check-in", async (req, res) => {
+  try {
+    const { method, qrToken, latitude, longitude } = req.body || {}
+    if (method !== 'qr' && method !== 'geofence') {
+      return res.status(400).json({ error: "method must be qr or geofence" })
+    }
+    const token = await remoteQueueService.checkIn(req.params.tokenId, method, { qrToken, latitude, longitude })
+    res.json({ success: true, token, checkedInAt: token.checkedInAt })
+  } catch (error) {
+    if (error instanceof RemoteQueueError) return res.status(error.status).json({ error: error.message })
+    console.error("Token check-in error:", error)
+    res.status(500).json({ error: "Failed to check in" })
+  }
+})
+
 // Update bill payment method — only allowed when token is in_service (officer has called the customer)
 router.patch("/token/:tokenId/payment-method", async (req, res) => {
   try {
@@ -767,20 +932,20 @@ router.patch("/token/:tokenId/payment-method", async (req, res) => {
 // Customer lookup by mobile number - for recovery scenarios  
 router.post("/lookup", async (req, res) => {
   try {
-    const { mobileNumber } = req.body
+    const { mobileNumber, nicNumber } = req.body
 
-    if (!mobileNumber) {
-      return res.status(400).json({ error: "Mobile number is required" })
+    if (!mobileNumber && !nicNumber) {
+      return res.status(400).json({ error: "Mobile number or NIC number is required" })
     }
 
-    // Find all active tokens for this mobile number
+    // Find all active tokens for this mobile number (NIC is matched on its lookup hash)
     const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000)
 
     const tokens = await prisma.token.findMany({
       where: {
-        customer: { mobileNumber },
+        customer: mobileNumber ? { mobileNumber } : { nicNumber: String(nicNumber) },
         createdAt: { gte: yesterday },
-        status: { in: ["waiting", "in_service", "completed"] }
+        status: { in: ["waiting", "parked", "in_service", "completed"] }
       },
       include: {
         customer: true,
@@ -804,14 +969,13 @@ router.post("/lookup", async (req, res) => {
         let queuePosition = null
         let estimatedWait = null
 
-        if (token.status === 'waiting') {
+        if (token.status === 'waiting' || token.status === 'parked') {
           const lastReset = getLastDailyReset()
           queuePosition = await prisma.token.count({
             where: {
               outletId: token.outletId,
               status: "waiting",
-              tokenNumber: { lt: token.tokenNumber },
-              createdAt: { gte: lastReset },
+              createdAt: { gte: lastReset, lt: token.createdAt },
             },
           }) + 1
 
@@ -821,6 +985,7 @@ router.post("/lookup", async (req, res) => {
         return {
           id: token.id,
           tokenNumber: token.tokenNumber,
+          displayNumber: displayToken(token),
           status: token.status,
           createdAt: token.createdAt,
           calledAt: token.calledAt,
@@ -836,7 +1001,7 @@ router.post("/lookup", async (req, res) => {
           } : null,
           queuePosition,
           estimatedWaitMinutes: estimatedWait,
-          statusMessage: getStatusMessage(token.status, queuePosition || 0, estimatedWait || 0),
+          statusMessage: getStatusMessage(token.status, queuePosition || 0, estimatedWait || 0, token.isRemote && !token.checkedInAt),
           trackingUrl: getTrackingUrl(token.id)
         }
       })
@@ -886,14 +1051,14 @@ router.get("/t/:shortId", async (req, res) => {
     let queuePosition = 0
     let estimatedWait = 0
 
-    if (token.status === 'waiting') {
+    // A parked token sees the place it returns to on resume
+    if (token.status === 'waiting' || token.status === 'parked') {
       const lastReset = getLastDailyReset()
       queuePosition = await prisma.token.count({
         where: {
           outletId: token.outletId,
           status: "waiting",
-          tokenNumber: { lt: token.tokenNumber },
-          createdAt: { gte: lastReset },
+          createdAt: { gte: lastReset, lt: token.createdAt },
         },
       }) + 1
 
@@ -904,6 +1069,7 @@ router.get("/t/:shortId", async (req, res) => {
       token: {
         id: token.id,
         tokenNumber: token.tokenNumber,
+        displayNumber: displayToken(token),
         status: token.status,
         createdAt: token.createdAt,
         calledAt: token.calledAt,
@@ -923,9 +1089,16 @@ router.get("/t/:shortId", async (req, res) => {
         } : null,
         feedback: (token as any).feedback || null
       },
-      queuePosition: token.status === 'waiting' ? queuePosition : null,
-      estimatedWaitMinutes: token.status === 'waiting' ? estimatedWait : null,
-      statusMessage: getStatusMessage(token.status, queuePosition, estimatedWait),
+      journey: await journeyService.describe(token.id),
+      remote: await remoteQueueService.describe(token),
+      parked: token.status === 'parked' ? {
+        parkedAt: token.parkedAt,
+        parkedUntil: token.parkedUntil,
+        minutesLeft: parkingService.minutesLeft(token),
+      } : null,
+      queuePosition: token.status === 'waiting' || token.status === 'parked' ? queuePosition : null,
+      estimatedWaitMinutes: token.status === 'waiting' || token.status === 'parked' ? estimatedWait : null,
+      statusMessage: getStatusMessage(token.status, queuePosition, estimatedWait, token.isRemote && !token.checkedInAt),
       shortUrl: `/t/${shortId}`,
       fullUrl: `/track/${token.id}`
     })
@@ -958,14 +1131,14 @@ router.get("/track/:tokenId", async (req, res) => {
     let queuePosition = 0
     let estimatedWait = 0
 
-    if (token.status === 'waiting') {
+    // A parked token sees the place it returns to on resume
+    if (token.status === 'waiting' || token.status === 'parked') {
       const lastReset = getLastDailyReset()
       queuePosition = await prisma.token.count({
         where: {
           outletId: token.outletId,
           status: "waiting",
-          tokenNumber: { lt: token.tokenNumber },
-          createdAt: { gte: lastReset },
+          createdAt: { gte: lastReset, lt: token.createdAt },
         },
       }) + 1
 
@@ -976,6 +1149,7 @@ router.get("/track/:tokenId", async (req, res) => {
       token: {
         id: token.id,
         tokenNumber: token.tokenNumber,
+        displayNumber: displayToken(token),
         status: token.status,
         createdAt: token.createdAt,
         calledAt: token.calledAt,
@@ -995,9 +1169,20 @@ router.get("/track/:tokenId", async (req, res) => {
         } : null,
         feedback: (token as any).feedback || null
       },
-      queuePosition: token.status === 'waiting' ? queuePosition : null,
-      estimatedWaitMinutes: token.status === 'waiting' ? estimatedWait : null,
-      statusMessage: getStatusMessage(token.status, queuePosition, estimatedWait)
+      journey: await journeyService.describe(token.id),
+      remote: await remoteQueueService.describe(token),
+      parked: token.status === 'parked' ? {
+        parkedAt: token.parkedAt,
+        parkedUntil: token.parkedUntil,
+        minutesLeft: parkingService.minutesLeft(token),
+      } : null,
+      queuePosition: token.status === 'waiting' || token.status === 'parked' ? queuePosition : null,
+      estimatedWaitMinutes: token.status === 'waiting' || token.status === 'parked' ? estimatedWait : null,
+      // Where a token left over at closing went (see endOfDayService)
+      carriedOverTo: token.status === 'carried_over'
+        ? await prisma.token.findFirst({ where: { carriedOverFromId: token.id }, select: { id: true, tokenNumber: true, displayNumber: true, status: true } })
+        : null,
+      statusMessage: getStatusMessage(token.status, queuePosition, estimatedWait, token.isRemote && !token.checkedInAt)
     })
   } catch (error) {
     console.error("Token tracking error:", error)
@@ -1006,9 +1191,14 @@ router.get("/track/:tokenId", async (req, res) => {
 })
 
 // Helper function to generate user-friendly status messages
-function getStatusMessage(status: string, queuePosition: number, estimatedWait: number): string {
+function getStatusMessage(status: string, queuePosition: number, estimatedWait: number, awaitingCheckIn = false): string {
   switch (status) {
     case 'waiting':
+      if (awaitingCheckIn) {
+        return queuePosition === 1
+          ? 'You are at the front of the queue. Your turn is held until you check in at the outlet.'
+          : `You are position ${queuePosition} in the queue. Check in when you arrive at the outlet.`
+      }
       return queuePosition === 1
         ? 'You are next in line!'
         : `You are position ${queuePosition} in the queue.`
@@ -1018,6 +1208,10 @@ function getStatusMessage(status: string, queuePosition: number, estimatedWait:
       return 'Your service has been completed.'
     case 'skipped':
       return 'Your token was skipped. Please contact the counter.'
+    case 'parked':
+      return `Your place is held at position ${queuePosition}. Resume before your time runs out.`
+    case 'carried_over':
+      return 'The outlet closed before your turn. You have a priority token for the next business day.'
     default:
       return 'Token status unknown.'
   }
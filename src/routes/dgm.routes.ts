@@ -1,26 +1,18 @@
 import { Router } from 'express'
-import * as jwt from 'jsonwebtoken'
 import { prisma } from '../server'
 import emailService from '../services/emailService'
 import sltSmsService from '../services/sltSmsService'
 import { isValidSLMobile, isValidEmail, isValidName } from '../utils/validators'
 import otpService from "../services/otpService"
+import { authorize } from "../services/accessControl"
+import sessionService from "../services/sessionService"
 
 const router = Router()
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret"
 
+// Identity comes from the shared authorize() middleware mounted after the public login routes
 function verifyDGMToken(req: any): { dgmId: string } | null {
-    let token = req.cookies?.dq_dgm_jwt
-    if (!token) {
-        const authHeader = req.headers.authorization
-        if (authHeader && authHeader.startsWith("Bearer ")) token = authHeader.substring(7)
-    }
-    if (!token) return null
-    try {
-        const payload: any = (jwt as any).verify(token, JWT_SECRET)
-        if (!payload.dgmId) return null
-        return { dgmId: payload.dgmId }
-    } catch { return null }
+    if (req.auth?.role !== 'dgm') return null
+    return { dgmId: req.auth.userId }
 }
 
 // Request OTP for DGM login
@@ -35,33 +27,41 @@ router.post("/request-otp", async (req, res) => {
         })
         if (!dgm) return res.status(404).json({ error: "DGM not found with this mobile number" })
 
-        const result = await otpService.generateOTP(mobileNumber, 'dgm', dgm.name)
-        if (!result.success) return res.status(500).json({ error: result.message })
+        // With an authenticator enrolled the SMS is only sent when explicitly asked for
+        const twoFactor = await otpService.getTwoFactorStatus('dgm', dgm.id)
+        if (twoFactor.totpEnrolled && !req.body.sendSms) {
+            return res.json({ success: true, message: "Enter the code from your authenticator app", dgmName: dgm.name, methods: ['totp', 'backup'] })
+        }
+
+        const result = await otpService.generateOTP(mobileNumber, 'dgm', dgm.name, { ipAddress: req.ip })
+        if (!result.success) return res.status(result.retryAfterSeconds ? 429 : 500).json({ error: result.message, retryAfterSeconds: result.retryAfterSeconds })
 
-        res.json({ success: true, message: result.message, dgmName: dgm.name })
+        res.json({ success: true, message: result.message, dgmName: dgm.name, methods: twoFactor.totpEnrolled ? ['totp', 'backup', 'sms'] : ['sms'] })
     } catch (err) {
         console.error("Request OTP error:", err)
         res.status(500).json({ error: "Failed to send OTP" })
     }
 })
 
-// DGM Login with OTP
+// DGM Login with SMS OTP, authenticator code or backup code
 router.post("/login", async (req, res) => {
     try {
-        const { mobileNumber, otpCode } = req.body
-        if (!mobileNumber || !otpCode) return res.status(400).json({ error: "Mobile number and OTP code are required" })
-
-        const verifyResult = await otpService.verifyOTP(mobileNumber, otpCode, 'dgm')
-        if (!verifyResult.success) return res.status(401).json({ error: verifyResult.message })
+        const { mobileNumber, otpCode, totpCode, backupCode } = req.body
+        if (!mobileNumber || !(otpCode || totpCode || backupCode)) return res.status(400).json({ error: "Mobile number and a security code are required" })
 
         const dgm = await (prisma as any).dGM.findFirst({ where: { mobileNumber, isActive: true } })
         if (!dgm) return res.status(401).json({ error: "DGM not found with this mobile number" })
 
-        const token = (jwt as any).sign({ dgmId: dgm.id, mobileNumber: dgm.mobileNumber }, JWT_SECRET)
-        res.cookie("dq_dgm_jwt", token, { httpOnly: true, secure: process.env.NODE_ENV === "production", sameSite: "lax", path: "/" })
+        const verifyResult = await otpService.verifyLoginFactors('dgm', dgm.id, { mobileNumber, otpCode, totpCode, backupCode })
+        if (!verifyResult.success) return res.status(verifyResult.retryAfterSeconds ? 429 : 401).json({ error: verifyResult.message, retryAfterSeconds: verifyResult.retryAfterSeconds })
+
+        const claims: Record<string, any> = { dgmId: dgm.id, mobileNumber: dgm.mobileNumber }
+        if (verifyResult.mfaEnrollmentRequired) claims.mfaEnrollmentRequired = true
+        const session = await sessionService.startSession(req, 'dgm', dgm.id, claims)
+        sessionService.setSessionCookies(res, 'dgm', session)
         await (prisma as any).dGM.update({ where: { id: dgm.id }, data: { lastLoginAt: new Date() } })
 
-        res.json({ success: true, token, dgm: { id: dgm.id, name: dgm.name, email: dgm.email, mobileNumber: dgm.mobileNumber, gmId: dgm.gmId, regionIds: dgm.regionIds } })
+        res.json({ success: true, token: session.accessToken, refreshToken: session.refreshToken, expiresAt: session.accessTokenExpiresAt, mfaEnrollmentRequired: !!verifyResult.mfaEnrollmentRequired, dgm: { id: dgm.id, name: dgm.name, email: dgm.email, mobileNumber: dgm.mobileNumber, gmId: dgm.gmId, regionIds: dgm.regionIds } })
     } catch (err) {
         console.error("DGM login error:", err)
         res.status(500).json({ error: "Login failed" })
@@ -69,11 +69,20 @@ router.post("/login", async (req, res) => {
 })
 
 // DGM Logout
-router.post("/logout", (req, res) => {
-    res.clearCookie("dq_dgm_jwt", { httpOnly: true, secure: process.env.NODE_ENV === "production", sameSite: "lax", path: "/" })
-    res.json({ success: true })
+router.post("/logout", async (req, res) => {
+    try {
+        await sessionService.revokeFromRequest(req, 'dgm')
+        sessionService.clearSessionCookies(res, 'dgm')
+        res.json({ success: true })
+    } catch (err) {
+        console.error("DGM logout error:", err)
+        res.status(500).json({ error: "Logout failed" })
+    }
 })
 
+// Everything below requires an authenticated DGM session
+router.use(authorize({ roles: ['dgm'] }))
+
 // GET /me - DGM profile with assigned regions
 router.get("/me", async (req, res) => {
     try {
@@ -1,36 +1,96 @@
 import { Router } from "express"
 import multer from "multer"
+import fs from "fs"
 import path from "path"
 import { prisma } from "../server"
-import { resolveUploadDir } from "../utils/uploadDir"
+import { authorize, sendAccessError } from "../services/accessControl"
+import documentService, { PRIVATE_UPLOAD_DIR, ALLOWED_DOCUMENT_TYPES } from "../services/documentService"
+import { systemLogger } from "../services/systemLogger"
 
 const router = Router()
-const UPLOAD_DIR = resolveUploadDir(path.resolve(__dirname, "../.."))
 
-// Configure multer for file uploads
+// Configure multer for file uploads (private storage, allow-listed types only)
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    cb(null, UPLOAD_DIR)
+    fs.mkdirSync(PRIVATE_UPLOAD_DIR, { recursive: true })
+    cb(null, PRIVATE_UPLOAD_DIR)
   },
   filename: (req, file, cb) => {
     const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9)
-    cb(null, uniqueSuffix + path.extname(file.originalname))
+    cb(null, uniqueSuffix + path.extname(file.originalname).toLowerCase())
   },
 })
 
 const upload = multer({
   storage,
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  fileFilter: (req, file, cb) => {
+    if (!documentService.isAllowedFile(file.originalname, file.mimetype)) {
+      cb(new Error(`Unsupported file type. Allowed: ${Object.keys(ALLOWED_DOCUMENT_TYPES).join(", ")}`))
+      return
+    }
+    cb(null, true)
+  },
+})
+
+const removeUploadedFile = (file?: Express.Multer.File) => {
+  if (file?.path) fs.promises.unlink(file.path).catch(() => undefined)
+}
+
+// Download through a signed URL (public - the signature is the credential)
+router.get("/download/:id", async (req, res) => {
+  try {
+    const { id } = req.params
+    const { expires, actor, sig } = req.query as Record<string, string>
+    if (!documentService.verifyDownloadSignature(id, expires, actor || "", sig)) {
+      return res.status(403).json({ error: "Download link is invalid or has expired" })
+    }
+
+    const document = await prisma.document.findUnique({ where: { id } })
+    if (!document || !fs.existsSync(document.filepath)) {
+      return res.status(404).json({ error: "Document not found" })
+    }
+
+    const [actorRole, ...actorId] = (actor || "unknown").split(":")
+    systemLogger.audit(actorId.join(":") || actorRole, actorRole, "DOCUMENT_DOWNLOADED", `Downloaded document ${document.filename}`, {
+      targetType: "document",
+      targetId: document.id,
+      metadata: { relatedEntity: document.relatedEntity },
+      ipAddress: req.ip,
+    }).catch(() => undefined)
+
+    res.setHeader("Cache-Control", "private, no-store")
+    res.setHeader("Content-Type", document.mimeType)
+    res.download(document.filepath, document.filename)
+  } catch (error) {
+    console.error("Document download error:", error)
+    res.status(500).json({ error: "Failed to download document" })
+  }
 })
 
-// Upload document
-router.post("/upload", upload.single("file"), async (req, res) => {
+// Everything below requires a staff session with the related record in scope
+router.use(authorize())
+
+// Upload document (relatedEntity: "serviceCase:<id|refNumber>", "token:<id>", "customer:<id>", "appointment:<id>" or "outlet:<id>")
+router.post("/upload", (req, res, next) => {
+  upload.single("file")(req, res, (err: any) => {
+    if (err) return res.status(400).json({ error: err.message || "Upload failed" })
+    next()
+  })
+}, async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: "No file uploaded" })
     }
 
-    const { uploadedBy, relatedEntity } = req.body
+    const { relatedEntity } = req.body
+    if (!relatedEntity) {
+      removeUploadedFile(req.file)
+      return res.status(400).json({ error: "relatedEntity is required" })
+    }
+
+    const auth = req.auth!
+    await documentService.assertEntityAccess(auth, relatedEntity)
 
     const document = await prisma.document.create({
       data: {
@@ -38,30 +98,56 @@ router.post("/upload", upload.single("file"), async (req, res) => {
         filepath: req.file.path,
         mimeType: req.file.mimetype,
         size: req.file.size,
-        uploadedBy,
+        uploadedBy: `${auth.role}:${auth.userId}`,
         relatedEntity,
       },
     })
 
-    res.json({ success: true, document })
+    const { filepath, ...summary } = document
+    res.json({ success: true, document: { ...summary, download: documentService.signDownloadUrl(document.id, `${auth.role}:${auth.userId}`) } })
   } catch (error) {
+    removeUploadedFile(req.file)
+    if (sendAccessError(res, error)) return
     console.error("Upload error:", error)
     res.status(500).json({ error: "Failed to upload document" })
   }
 })
 
+// Fresh signed download URL for one document
+router.get("/:id/download-url", async (req, res) => {
+  try {
+    const document = await prisma.document.findUnique({ where: { id: req.params.id } })
+    if (!document) return res.status(404).json({ error: "Document not found" })
+
+    const auth = req.auth!
+    await documentService.assertEntityAccess(auth, document.relatedEntity)
+    res.json({ success: true, ...documentService.signDownloadUrl(document.id, `${auth.role}:${auth.userId}`) })
+  } catch (error) {
+    if (sendAccessError(res, error)) return
+    console.error("Document URL error:", error)
+    res.status(500).json({ error: "Failed to create download link" })
+  }
+})
+
 // Get documents for entity
 router.get("/:relatedEntity", async (req, res) => {
   try {
     const { relatedEntity } = req.params
+    const auth = req.auth!
+    await documentService.assertEntityAccess(auth, relatedEntity)
 
     const documents = await prisma.document.findMany({
       where: { relatedEntity },
       orderBy: { createdAt: "desc" },
     })
 
-    res.json(documents)
+    const actor = `${auth.role}:${auth.userId}`
+    res.json(documents.map(({ filepath, ...document }) => ({
+      ...document,
+      download: documentService.signDownloadUrl(document.id, actor),
+    })))
   } catch (error) {
+    if (sendAccessError(res, error)) return
     console.error("Documents fetch error:", error)
     res.status(500).json({ error: "Failed to fetch documents" })
   }
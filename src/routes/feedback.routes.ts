@@ -1,6 +1,7 @@
 import { Router } from "express"
 import { prisma, broadcast } from "../server"
 import { FeedbackService } from "../services/feedbackService"
+import { displayToken } from "../utils/tokenFormat"
 
 const router = Router()
 
@@ -59,19 +60,19 @@ router.post("/submit", async (req, res) => {
         alertType = "critical_feedback"
         alertSeverity = "critical"
         broadcastType = "CRITICAL_FEEDBACK_ALERT"
-        alertMessage = `CRITICAL: 1-star feedback received for token ${token.tokenNumber} at ${token.outlet.name}. Immediate admin attention required.`
+        alertMessage = `CRITICAL: 1-star feedback received for token ${displayToken(token)} at ${token.outlet.name}. Immediate admin attention required.`
       } else if (numericRating === 2) {
         // 2 star - High priority alert for RTOM/Manager Dashboard  
         alertType = "high_priority_feedback"
         alertSeverity = "high"
         broadcastType = "RTOM_FEEDBACK_ALERT"
-        alertMessage = `HIGH PRIORITY: 2-star feedback received for token ${token.tokenNumber} at ${token.outlet.name}. Regional manager intervention needed.`
+        alertMessage = `HIGH PRIORITY: 2-star feedback received for token ${displayToken(token)} at ${token.outlet.name}. Regional manager intervention needed.`
       } else if (numericRating === 3) {
         // 3 star - Medium priority alert for Teleshop Manager Dashboard
         alertType = "moderate_feedback"
         alertSeverity = "medium"
         broadcastType = "TELESHOP_MANAGER_FEEDBACK_ALERT"
-        alertMessage = `MODERATE: 3-star feedback received for token ${token.tokenNumber} at ${token.outlet.name}. Local manager attention recommended.`
+        alertMessage = `MODERATE: 3-star feedback received for token ${displayToken(token)} at ${token.outlet.name}. Local manager attention recommended.`
       }
 
       // Create the alert in database
@@ -1,25 +1,18 @@
 import { Router } from "express"
 import { prisma } from "../server"
-import * as jwt from "jsonwebtoken"
 import otpService from "../services/otpService"
+import { authorize } from "../services/accessControl"
+import sessionService from "../services/sessionService"
 import emailService from "../services/emailService"
 import sltSmsService from "../services/sltSmsService"
+import slaService from "../services/slaService"
 
 const router = Router()
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret"
 
+// Identity comes from the shared authorize() middleware mounted after the public login routes
 function verifyGMToken(req: any): { gmId: string } | null {
-    let token = req.cookies?.dq_gm_jwt
-    if (!token) {
-        const authHeader = req.headers.authorization
-        if (authHeader && authHeader.startsWith("Bearer ")) token = authHeader.substring(7)
-    }
-    if (!token) return null
-    try {
-        const payload: any = (jwt as any).verify(token, JWT_SECRET)
-        if (!payload.gmId) return null
-        return { gmId: payload.gmId }
-    } catch { return null }
+    if (req.auth?.role !== 'gm') return null
+    return { gmId: req.auth.userId }
 }
 
 // Request OTP for GM login
@@ -34,33 +27,41 @@ router.post("/request-otp", async (req, res) => {
         })
         if (!gm) return res.status(404).json({ error: "GM not found with this mobile number" })
 
-        const result = await otpService.generateOTP(mobileNumber, 'gm', gm.name)
-        if (!result.success) return res.status(500).json({ error: result.message })
+        // With an authenticator enrolled the SMS is only sent when explicitly asked for
+        const twoFactor = await otpService.getTwoFactorStatus('gm', gm.id)
+        if (twoFactor.totpEnrolled && !req.body.sendSms) {
+            return res.json({ success: true, message: "Enter the code from your authenticator app", gmName: gm.name, methods: ['totp', 'backup'] })
+        }
+
+        const result = await otpService.generateOTP(mobileNumber, 'gm', gm.name, { ipAddress: req.ip })
+        if (!result.success) return res.status(result.retryAfterSeconds ? 429 : 500).json({ error: result.message, retryAfterSeconds: result.retryAfterSeconds })
 
-        res.json({ success: true, message: result.message, gmName: gm.name })
+        res.json({ success: true, message: result.message, gmName: gm.name, methods: twoFactor.totpEnrolled ? ['totp', 'backup', 'sms'] : ['sms'] })
     } catch (err) {
         console.error("Request OTP error:", err)
         res.status(500).json({ error: "Failed to send OTP" })
     }
 })
 
-// GM Login with OTP
+// GM Login with SMS OTP, authenticator code or backup code
 router.post("/login", async (req, res) => {
     try {
-        const { mobileNumber, otpCode } = req.body
-        if (!mobileNumber || !otpCode) return res.status(400).json({ error: "Mobile number and OTP code are required" })
-
-        const verifyResult = await otpService.verifyOTP(mobileNumber, otpCode, 'gm')
-        if (!verifyResult.success) return res.status(401).json({ error: verifyResult.message })
+        const { mobileNumber, otpCode, totpCode, backupCode } = req.body
+        if (!mobileNumber || !(otpCode || totpCode || backupCode)) return res.status(400).json({ error: "Mobile number and a security code are required" })
 
         const gm = await (prisma as any).gM.findFirst({ where: { mobileNumber, isActive: true } })
         if (!gm) return res.status(401).json({ error: "GM not found with this mobile number" })
 
-        const token = (jwt as any).sign({ gmId: gm.id, mobileNumber: gm.mobileNumber }, JWT_SECRET)
-        res.cookie("dq_gm_jwt", token, { httpOnly: true, secure: process.env.NODE_ENV === "production", sameSite: "lax", path: "/" })
+        const verifyResult = await otpService.verifyLoginFactors('gm', gm.id, { mobileNumber, otpCode, totpCode, backupCode })
+        if (!verifyResult.success) return res.status(verifyResult.retryAfterSeconds ? 429 : 401).json({ error: verifyResult.message, retryAfterSeconds: verifyResult.retryAfterSeconds })
+
+        const claims: Record<string, any> = { gmId: gm.id, mobileNumber: gm.mobileNumber }
+        if (verifyResult.mfaEnrollmentRequired) claims.mfaEnrollmentRequired = true
+        const session = await sessionService.startSession(req, 'gm', gm.id, claims)
+        sessionService.setSessionCookies(res, 'gm', session)
         await (prisma as any).gM.update({ where: { id: gm.id }, data: { lastLoginAt: new Date() } })
 
-        res.json({ success: true, token, gm: { id: gm.id, name: gm.name, email: gm.email, mobileNumber: gm.mobileNumber } })
+        res.json({ success: true, token: session.accessToken, refreshToken: session.refreshToken, expiresAt: session.accessTokenExpiresAt, mfaEnrollmentRequired: !!verifyResult.mfaEnrollmentRequired, gm: { id: gm.id, name: gm.name, email: gm.email, mobileNumber: gm.mobileNumber } })
     } catch (err) {
         console.error("GM login error:", err)
         res.status(500).json({ error: "Login failed" })
@@ -68,11 +69,20 @@ router.post("/login", async (req, res) => {
 })
 
 // GM Logout
-router.post("/logout", (req, res) => {
-    res.clearCookie("dq_gm_jwt", { httpOnly: true, secure: process.env.NODE_ENV === "production", sameSite: "lax", path: "/" })
-    res.json({ success: true })
+router.post("/logout", async (req, res) => {
+    try {
+        await sessionService.revokeFromRequest(req, 'gm')
+        sessionService.clearSessionCookies(res, 'gm')
+        res.json({ success: true })
+    } catch (err) {
+        console.error("GM logout error:", err)
+        res.status(500).json({ error: "Logout failed" })
+    }
 })
 
+// Everything below requires an authenticated GM session
+router.use(authorize({ roles: ['gm'] }))
+
 // GET /me - GM profile (island-wide, no region filter)
 router.get("/me", async (req, res) => {
     try {
@@ -831,6 +841,12 @@ router.get("/analytics", async (req, res) => {
             officerPerformance: officerDetails,
             hourlyWaitingTimes,
             serviceTypes: serviceTypesFormatted,
+            // SLA compliance over the same range (from today's start when no start is given)
+            sla: await slaService.getCompliance(
+                gmOutletIds,
+                startDate ? new Date(startDate as string) : new Date(new Date().setHours(0, 0, 0, 0)),
+                endDate ? new Date(endDate as string) : new Date()
+            ),
         })
     } catch (error) {
         console.error("GM Analytics error:", error)
@@ -1,16 +1,19 @@
 import { Router } from "express"
 import { prisma, broadcast, logger } from "../server"
-import * as jwt from "jsonwebtoken"
 import { getLastDailyReset } from "../utils/resetWindow"
 import sltSmsService from "../services/sltSmsService"
 import { getTrackingUrl } from "../utils/urlHelper"
-import { getNextTokenNumber } from "../utils/tokenHelper"
+import { getNextTokenNumber, getTokenDisplayNumber } from "../utils/tokenHelper"
+import { displayToken } from "../utils/tokenFormat"
+import { TokenSequenceError } from "../services/tokenSequenceService"
+import sessionService from "../services/sessionService"
+import kioskCredentialService from "../services/kioskCredentialService"
+import remoteQueueService, { RemoteQueueError } from "../services/remoteQueueService"
+import priorityService, { PriorityError } from "../services/priorityService"
+import endOfDayService, { closingWindow, isIssuing } from "../services/endOfDayService"
 
 const router = Router()
 
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret"
-const JWT_EXPIRES = "24h" // Kiosk sessions expire after 24 hours
-
 // Kiosk authentication middleware
 const authenticateKiosk = async (req: any, res: any, next: any) => {
   try {
@@ -20,7 +23,10 @@ const authenticateKiosk = async (req: any, res: any, next: any) => {
     }
 
     const token = authHeader.substring(7)
-    const decoded = (jwt as any).verify(token, JWT_SECRET as jwt.Secret)
+    const decoded = await sessionService.verifyAccessToken(token)
+    if (!decoded) {
+      return res.status(401).json({ error: "Invalid token." })
+    }
 
     if (decoded.type !== 'kiosk') {
       return res.status(403).json({ error: "Access denied. Kiosk token required." })
@@ -72,25 +78,34 @@ router.post("/login", async (req, res) => {
       return res.status(403).json({ error: "This outlet is not active" })
     }
 
-    // Simple password comparison (not hashed for easier management)
-    if (outlet.kioskPassword !== password) {
+    // bcrypt comparison with per-device lockout (device id from the kiosk app, else the client IP)
+    const check = await kioskCredentialService.verifyLogin(outlet, password, {
+      deviceId: typeof req.body.deviceId === 'string' ? req.body.deviceId : null,
+      ipAddress: req.ip || 'unknown',
+    })
+    if (!check.ok) {
+      if (check.reason === 'locked') {
+        res.setHeader('Retry-After', String(check.retryAfterSeconds))
+        return res.status(429).json({
+          error: "Too many failed attempts. Please try again later.",
+          retryAfterSeconds: check.retryAfterSeconds
+        })
+      }
       return res.status(401).json({ error: "Invalid outlet ID or password" })
     }
 
-    // Generate JWT token
-    const token = (jwt as any).sign(
-      {
-        outletId: outlet.id,
-        outletName: outlet.name,
-        regionName: outlet.region.name,
-        type: "kiosk"
-      },
-      JWT_SECRET as jwt.Secret,
-      { expiresIn: JWT_EXPIRES }
-    )
+    // Start a kiosk session; the kiosk renews its access token with the refresh token
+    const session = await sessionService.startSession(req, 'kiosk', outlet.id, {
+      outletId: outlet.id,
+      outletName: outlet.name,
+      regionName: outlet.region.name,
+      type: "kiosk"
+    })
 
     res.json({
-      token,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresAt: session.accessTokenExpiresAt,
       outlet: {
         id: outlet.id,
         name: outlet.name,
@@ -104,6 +119,17 @@ router.post("/login", async (req, res) => {
   }
 })
 
+// Kiosk logout - revokes the session behind the bearer / refresh token
+router.post("/logout", async (req, res) => {
+  try {
+    await sessionService.revokeFromRequest(req, 'kiosk')
+    res.json({ success: true })
+  } catch (error) {
+    console.error("Kiosk logout error:", error)
+    res.status(500).json({ error: "Logout failed" })
+  }
+})
+
 // Apply authentication middleware to protected routes
 router.use(authenticateKiosk)
 
@@ -117,7 +143,9 @@ router.get("/outlet-settings", async (req: any, res: any) => {
         id: true,
         name: true,
         location: true,
-        displaySettings: true
+        displaySettings: true,
+        closingTime: true,
+        issuanceCutoffMinutes: true
       }
     })
 
@@ -126,7 +154,11 @@ router.get("/outlet-settings", async (req: any, res: any) => {
       orderBy: { createdAt: 'desc' }
     })
 
-    res.json({ success: true, outlet, qrToken: qrTokenRecord?.token || null })
+    // Lets the kiosk show the cut-off before a customer fills in the form
+    const window = outlet ? closingWindow(outlet) : null
+    const issuing = outlet ? { open: isIssuing(outlet), closesAt: window?.closesAt ?? null, cutoffAt: window?.cutoffAt ?? null } : null
+
+    res.json({ success: true, outlet, qrToken: qrTokenRecord?.token || null, issuing })
   } catch (error) {
     console.error("Outlet settings error:", error)
     res.status(500).json({ error: "Failed to fetch outlet settings" })
@@ -167,7 +199,8 @@ router.post("/tokens", async (req: any, res: any) => {
       sltTelephoneNumbers, // New array field for multiple numbers
       billPaymentIntent, 
       billPaymentAmount, 
-      billPaymentMethod 
+      billPaymentMethod,
+      priorityCategory
     } = req.body
     logger.info({ mobileNumber, serviceTypes }, '[KIOSK] Received token generation request')
 
@@ -181,6 +214,10 @@ router.post("/tokens", async (req: any, res: any) => {
     ` as any[]
     const autoPriority = priorityFeatureEnabled && priorityServices.length > 0
 
+    // A claimed priority category (senior citizen, ...) is checked at the counter when it needs verification.
+    // Claims are ignored while priority service is switched off
+    const priorityClaim = priorityFeatureEnabled ? await priorityService.resolveClaim(priorityCategory) : null
+
     // Handle both single and multiple telephone numbers for backward compatibility
     let telephoneNumbersToProcess: string[] = []
     
@@ -280,6 +317,10 @@ router.post("/tokens", async (req: any, res: any) => {
       }
     }
 
+    // No new tokens once the outlet's end-of-day cut-off has passed
+    const issuingError = await endOfDayService.checkIssuing(outletId)
+    if (issuingError) return res.status(issuingError.status).json({ error: issuingError.message })
+
     // Always create a new customer record even if mobileNumber repeats
     const customer = await prisma.customer.create({
       data: {
@@ -301,16 +342,21 @@ router.post("/tokens", async (req: any, res: any) => {
 
       const tokenNumber = await getNextTokenNumber(tx, outletId, serviceTypes, lastReset)
 
+      const displayNumber = await getTokenDisplayNumber(tx, outletId, serviceTypes, tokenNumber)
+
       // Create the token
       const newToken = await tx.token.create({
         data: {
           tokenNumber,
+          displayNumber,
           customerId: customer.id,
           serviceTypes,
           preferredLanguages,
           accountRef: accountRef?.trim() || null,
           status: "waiting",
-          isPriority: autoPriority,
+          isPriority: autoPriority || !!priorityClaim,
+          priorityFromClaim: !!priorityClaim && !autoPriority,
+          ...priorityClaim,
           outletId: outletId,
           sltTelephoneNumber: sltTelephoneNumber?.trim() || null, // Keep for backward compatibility
           billPaymentIntent: billPaymentIntent || null,
@@ -361,6 +407,8 @@ router.post("/tokens", async (req: any, res: any) => {
       token: {
         id: token.id,
         tokenNumber: token.tokenNumber,
+        // Printed on the ticket, e.g. "B-042"
+        displayNumber: displayToken(token),
         customerName: token.customer.name,
         outletName: token.outlet.name,
         serviceTypes: token.serviceTypes,
@@ -382,8 +430,7 @@ router.post("/tokens", async (req: any, res: any) => {
           where: {
             outletId: token.outletId,
             status: "waiting",
-            tokenNumber: { lt: token.tokenNumber },
-            createdAt: { gte: lastReset },
+            createdAt: { gte: lastReset, lt: token.createdAt },
           },
         }) + 1
 
@@ -400,7 +447,7 @@ router.post("/tokens", async (req: any, res: any) => {
 
         // Use sltSmsService directly but with better error reporting
         const result = await sltSmsService.sendTokenConfirmation(token.customer.mobileNumber, {
-          tokenNumber: token.tokenNumber,
+          tokenNumber: displayToken(token),
           queuePosition,
           outletName: token.outlet?.name || 'SLT Office',
           trackingUrl,
@@ -417,11 +464,54 @@ router.post("/tokens", async (req: any, res: any) => {
       }
     })()
   } catch (error) {
+    if (error instanceof TokenSequenceError || error instanceof PriorityError) return res.status(error.status).json({ error: error.message })
     console.error("Create walk-in token error:", error)
     res.status(500).json({ error: "Failed to create token" })
   }
 })
 
+// Check in a customer who joined the queue remotely (by token number or mobile number)
+router.post("/check-in", async (req: any, res: any) => {
+  try {
+    const { outletId } = req.kiosk
+    const { tokenNumber, mobileNumber } = req.body || {}
+    if (!tokenNumber && !mobileNumber) {
+      return res.status(400).json({ error: "tokenNumber or mobileNumber is required" })
+    }
+
+    const candidates = await prisma.token.findMany({
+      where: {
+        outletId,
+        isRemote: true,
+        checkedInAt: null,
+        status: { in: ["waiting", "parked"] },
+        createdAt: { gte: getLastDailyReset() },
+        ...(tokenNumber ? { tokenNumber: Number(tokenNumber) } : {}),
+        ...(mobileNumber ? { customer: { mobileNumber: String(mobileNumber) } } : {}),
+      },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    })
+    if (candidates.length === 0) {
+      return res.status(404).json({ error: "No remote token waiting for check-in was found" })
+    }
+
+    const checkedIn = []
+    for (const candidate of candidates) {
+      checkedIn.push(await remoteQueueService.checkIn(candidate.id, "kiosk", { outletId }))
+    }
+
+    res.json({
+      success: true,
+      tokens: checkedIn.map(token => ({ id: token.id, tokenNumber: token.tokenNumber, displayNumber: displayToken(token), serviceTypes: token.serviceTypes, checkedInAt: token.checkedInAt })),
+    })
+  } catch (error) {
+    if (error instanceof RemoteQueueError) return res.status(error.status).json({ error: error.message })
+    console.error("Kiosk check-in error:", error)
+    res.status(500).json({ error: "Failed to check in" })
+  }
+})
+
 // Get current queue status
 router.get("/queue-status", async (req: any, res: any) => {
   try {
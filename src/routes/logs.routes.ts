@@ -2,6 +2,8 @@ import { Router, Request, Response } from "express"
 import { prisma } from "../server"
 import { Prisma } from "@prisma/client"
 import { systemLogger } from "../services/systemLogger"
+import { requireDeviceKey } from "../services/deviceKeyService"
+import redactionService from "../services/redactionService"
 
 const router = Router()
 
@@ -732,9 +734,9 @@ router.get("/:id", async (req: Request, res: Response) => {
 })
 
 // ============================================================================
-// CLIENT LOG INGESTION
+// CLIENT LOG INGESTION (device key, or a staff session for the web portals)
 // ============================================================================
-router.post("/ingest", async (req: Request, res: Response) => {
+router.post("/ingest", requireDeviceKey({ allowStaff: true }), async (req: Request, res: Response) => {
   try {
     const {
       level,
@@ -761,6 +763,13 @@ router.post("/ingest", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Missing required fields: level, service, message" })
     }
 
+    // Devices can only log as themselves, for their own outlet
+    const device = req.device
+
+    // Client logs go through the same PII masking as server logs
+    const safe = redactionService.redact({ message, stackTrace, metadata, userAgent })
+    const { redactions } = safe
+
     // Create log entry
     const log = await prisma.systemLog.create({
       data: {
@@ -768,19 +777,21 @@ router.post("/ingest", async (req: Request, res: Response) => {
         service,
         module,
         event,
-        message,
-        stackTrace,
-        metadata,
+        message: safe.value.message,
+        stackTrace: safe.value.stackTrace,
+        metadata: redactions.length > 0
+          ? { ...(safe.value.metadata && typeof safe.value.metadata === "object" ? safe.value.metadata : { value: safe.value.metadata }), redactions }
+          : safe.value.metadata,
         userId,
         userRole,
-        outletId,
+        outletId: device ? device.outletId : outletId,
         regionId,
-        deviceId,
+        deviceId: device ? device.deviceId : deviceId,
         sessionId,
         requestId,
         appVersion,
         ipAddress,
-        userAgent
+        userAgent: safe.value.userAgent
       }
     })
 
@@ -794,7 +805,7 @@ router.post("/ingest", async (req: Request, res: Response) => {
 // ============================================================================
 // DEVICE HEARTBEAT
 // ============================================================================
-router.post("/heartbeat", async (req: Request, res: Response) => {
+router.post("/heartbeat", requireDeviceKey({ deviceId: req => req.body?.deviceId, outletId: req => req.body?.outletId }), async (req: Request, res: Response) => {
   try {
     const {
       deviceId,
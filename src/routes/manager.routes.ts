@@ -1,6 +1,5 @@
 import { Router } from "express"
 import { prisma } from "../server"
-import * as jwt from "jsonwebtoken"
 import * as bcrypt from "bcrypt"
 import { generateSecurePassword } from "../utils/passwordGenerator"
 import otpService from "../services/otpService"
@@ -8,17 +7,22 @@ import emailService from "../services/emailService"
 import sltSmsService from "../services/sltSmsService"
 import { getFrontendBaseUrl } from "../utils/urlHelper"
 import { isValidSLMobile, isValidEmail, isValidName } from "../utils/validators"
+import { displayToken } from "../utils/tokenFormat"
+import { authorize, scopeTo, scopeToRegion, outletOf, regionOf, canAccessRegion } from "../services/accessControl"
+import sessionService from "../services/sessionService"
+import kioskCredentialService from "../services/kioskCredentialService"
+import noShowService from "../services/noShowService"
+import counterService, { CounterError } from "../services/counterService"
+import priorityService from "../services/priorityService"
+import slaService from "../services/slaService"
+import { systemLogger } from "../services/systemLogger"
 
 const router = Router()
 
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret"
-
 const isMissingManagerLastLoginFieldError = (error: unknown) => {
   const message = error instanceof Error ? error.message : String(error || '')
   return message.includes('managerLastLoginAt') || message.includes('Unknown field') || message.includes('P2022')
 }
-// No expiration for production system - managers need continuous access
-const JWT_EXPIRES = process.env.JWT_EXPIRES || undefined
 
 // Request OTP for RTOM login
 router.post("/request-otp", async (req, res) => {
@@ -47,10 +51,10 @@ router.post("/request-otp", async (req, res) => {
     }
 
     // Generate and send OTP
-    const result = await otpService.generateOTP(mobileNumber, 'rtom', rtom.name ?? undefined)
+    const result = await otpService.generateOTP(mobileNumber, 'rtom', rtom.name ?? undefined, { ipAddress: req.ip })
 
     if (!result.success) {
-      return res.status(500).json({ error: result.message })
+      return res.status(result.retryAfterSeconds ? 429 : 500).json({ error: result.message, retryAfterSeconds: result.retryAfterSeconds })
     }
 
     res.json({
@@ -126,7 +130,7 @@ router.post("/login", async (req, res) => {
       outlets: rtom.teleshopManagers.map(tm => tm.branch).filter(Boolean)
     }
 
-    // Create JWT token for RTOM authentication (no expiration)
+    // Session claims for RTOM authentication
     const tokenOptions: any = {
       managerId: rtom.id,
       managerName: rtom.name, 
@@ -135,30 +139,16 @@ router.post("/login", async (req, res) => {
       regionId: rtom.regionId
     }
 
-    const signOptions: any = {}
-    if (JWT_EXPIRES) {
-      signOptions.expiresIn = JWT_EXPIRES
-    }
-
-    const token = (jwt as any).sign(
-      tokenOptions,
-      JWT_SECRET as jwt.Secret,
-      signOptions
-    )
-
-    // Set httpOnly cookie (no expiration for production)
-    res.cookie("dq_manager_jwt", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      // No maxAge set - cookie persists until browser is closed or explicitly cleared
-      sameSite: "lax",
-      path: "/",
-    })
+    // Start a server-side session and set the access/refresh httpOnly cookies
+    const session = await sessionService.startSession(req, 'rtom', rtom.id, tokenOptions)
+    sessionService.setSessionCookies(res, 'rtom', session)
 
     res.json({
       success: true,
       manager,
-      token,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresAt: session.accessTokenExpiresAt,
       message: "Login successful"
     })
   } catch (error) {
@@ -170,13 +160,9 @@ router.post("/login", async (req, res) => {
 // Manager logout
 router.post("/logout", async (req, res) => {
   try {
-    // Clear the JWT cookie
-    res.clearCookie("dq_manager_jwt", {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      path: "/",
-    })
+    // Revoke the session and clear the JWT cookies
+    await sessionService.revokeFromRequest(req, 'rtom')
+    sessionService.clearSessionCookies(res, 'rtom')
 
     res.json({
       success: true,
@@ -188,43 +174,13 @@ router.post("/logout", async (req, res) => {
   }
 })
 
+// Everything below requires an RTOM / region manager session; per-route scopeTo() pins outlet access
+router.use(authorize({ roles: ['rtom', 'region_manager'] }))
+
 // Get manager profile
 router.get("/me", async (req, res) => {
   try {
-    // Check for JWT token in cookie or Authorization header
-    let token = req.cookies?.dq_manager_jwt
-
-    // If no cookie, check Authorization header
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    let managerMobile: string | undefined
-    let managerEmail: string | undefined
-
-    if (token) {
-      // Try JWT authentication first
-      try {
-        const payload = (jwt as any).verify(token, JWT_SECRET)
-        managerMobile = payload.mobileNumber
-        managerEmail = payload.email // Keep for backward compatibility
-        console.log("RTOM JWT verified successfully for:", managerMobile || managerEmail)
-      } catch (e: any) {
-        console.log("RTOM JWT verification failed:", e.message || e)
-        return res.status(401).json({ error: "Session expired. Please login again." })
-      }
-    } else {
-      // Fallback: check for mobile or email in query params or body (for backwards compatibility)
-      managerMobile = (req.query.mobileNumber as string) || (req.body?.mobileNumber)
-      managerEmail = (req.query.email as string) || (req.body?.email)
-
-      if (!managerMobile && !managerEmail) {
-        return res.status(401).json({ error: "RTOM authentication required. Please login again." })
-      }
-    }
+    const managerMobile: string | undefined = req.auth!.payload.mobileNumber
 
     // Find RTOM using mobile number from JWT token
     const rtom = await prisma.rTOM.findFirst({
@@ -306,25 +262,7 @@ router.get("/feedback", async (req, res) => {
       rating
     } = req.query
 
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM and get assigned outlets
     const rtom = await prisma.rTOM.findFirst({
@@ -458,19 +396,7 @@ router.get("/feedback", async (req, res) => {
 // Get teleshop managers under this RTOM
 router.get("/teleshop-managers", async (req, res) => {
   try {
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-    
-    if (!token) {
-      return res.status(401).json({ error: "Authentication required" })
-    }
-    
-    const payload = (jwt as any).verify(token, JWT_SECRET)
+    const payload = req.auth!.payload
     const rtom = await prisma.rTOM.findFirst({
       where: { mobileNumber: payload.mobileNumber },
       include: {
@@ -505,16 +431,9 @@ router.get("/closure-notices", async (req, res) => {
 })
 
 // Get full service case details (RTOM)
-router.get("/service-case/*", async (req, res) => {
+router.get("/service-case/*", scopeTo(outletOf.serviceCase(req => decodeURIComponent((req.params as any)[0]))), async (req, res) => {
   try {
-    let token = (req as any).cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) token = authHeader.substring(7)
-    }
-    if (!token) return res.status(401).json({ error: "RTOM authentication required" })
-    let payload: any
-    try { payload = (jwt as any).verify(token, JWT_SECRET) } catch { return res.status(401).json({ error: "Invalid token" }) }
+    const payload = req.auth!.payload
 
     const refNumber = decodeURIComponent((req.params as any)[0])
     const sc: any = await (prisma as any).serviceCase.findUnique({
@@ -593,6 +512,7 @@ router.get("/service-case/*", async (req, res) => {
       token: tok ? {
         id: tok.id,
         tokenNumber: tok.tokenNumber,
+        displayNumber: displayToken(tok),
         isPriority: tok.isPriority,
         isTransferred: tok.isTransferred,
         preferredLanguages: tok.preferredLanguages,
@@ -640,17 +560,9 @@ router.get("/service-case/*", async (req, res) => {
 })
 
 // Add/update a status note for a service case (RTOM)
-router.post("/service-case/update", async (req, res) => {
+router.post("/service-case/update", scopeTo(outletOf.serviceCase(req => req.body?.refNumber)), async (req, res) => {
   try {
-    // Authenticate via JWT similar to /me
-    let token = (req as any).cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) token = authHeader.substring(7)
-    }
-    if (!token) return res.status(401).json({ error: "RTOM authentication required" })
-    let payload: any
-    try { payload = (jwt as any).verify(token, JWT_SECRET) } catch { return res.status(401).json({ error: "Invalid token" }) }
+    const payload = req.auth!.payload
 
     const { refNumber, note, status } = req.body || {}
     if (!refNumber || !note) return res.status(400).json({ error: 'refNumber and note are required' })
@@ -678,16 +590,9 @@ router.post("/service-case/update", async (req, res) => {
 })
 
 // Mark a service case completed (RTOM)
-router.post("/service-case/complete", async (req, res) => {
+router.post("/service-case/complete", scopeTo(outletOf.serviceCase(req => req.body?.refNumber)), async (req, res) => {
   try {
-    let token = (req as any).cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) token = authHeader.substring(7)
-    }
-    if (!token) return res.status(401).json({ error: "RTOM authentication required" })
-    let payload: any
-    try { payload = (jwt as any).verify(token, JWT_SECRET) } catch { return res.status(401).json({ error: "Invalid token" }) }
+    const payload = req.auth!.payload
 
     const { refNumber, note } = req.body || {}
     if (!refNumber) return res.status(400).json({ error: 'refNumber is required' })
@@ -741,6 +646,9 @@ router.get("/analytics", async (req, res) => {
     if (!region) {
       return res.status(404).json({ error: "Manager not found" })
     }
+    if (!canAccessRegion(req.auth!, region.id)) {
+      return res.status(403).json({ error: "You do not have access to this region" })
+    }
 
     const outletIds = region.outlets.map(outlet => outlet.id)
 
@@ -810,7 +718,13 @@ router.get("/analytics", async (req, res) => {
       avgServiceTime: Math.round(avgServiceTime * 10) / 10,
       feedbackStats,
       outletsCount: region.outlets.length,
-      outlets: region.outlets
+      outlets: region.outlets,
+      // SLA compliance over the same range (today when no range is given)
+      sla: await slaService.getCompliance(
+        outletIds,
+        startDate && endDate ? new Date(startDate as string) : new Date(new Date().setHours(0, 0, 0, 0)),
+        startDate && endDate ? new Date(endDate as string) : new Date()
+      )
     })
   } catch (error) {
     console.error("Manager analytics error:", error)
@@ -819,30 +733,12 @@ router.get("/analytics", async (req, res) => {
 })
 
 // Get analytics for a specific outlet in manager's region
-router.get("/outlet/:outletId/analytics", async (req, res) => {
+router.get("/outlet/:outletId/analytics", scopeTo(outletOf.param('outletId')), async (req, res) => {
   try {
     const { outletId } = req.params
     const { startDate, endDate } = req.query
 
-    // Check for JWT token from cookie or header
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM using mobile number from JWT token and include teleshopManagers
     const rtom = await prisma.rTOM.findFirst({
@@ -1016,6 +912,23 @@ router.get("/outlet/:outletId/analytics", async (req, res) => {
       return b.tokensServed - a.tokensServed
     })
 
+    // No-show outcomes over the same range (today when no range is given)
+    const noShow = await noShowService.getAnalytics(
+      [outlet.id],
+      startDate && endDate ? new Date(startDate as string) : new Date(new Date().setHours(0, 0, 0, 0)),
+      startDate && endDate ? new Date(endDate as string) : new Date()
+    )
+    const priority = await priorityService.getAnalytics(
+      [outlet.id],
+      startDate && endDate ? new Date(startDate as string) : new Date(new Date().setHours(0, 0, 0, 0)),
+      startDate && endDate ? new Date(endDate as string) : new Date()
+    )
+    const sla = await slaService.getCompliance(
+      [outlet.id],
+      startDate && endDate ? new Date(startDate as string) : new Date(new Date().setHours(0, 0, 0, 0)),
+      startDate && endDate ? new Date(endDate as string) : new Date()
+    )
+
     res.json({
       outletId: outlet.id,
       outletName: outlet.name,
@@ -1065,7 +978,10 @@ router.get("/outlet/:outletId/analytics", async (req, res) => {
         email: teleshopManager.email,
         mobileNumber: teleshopManager.mobileNumber
       } : null,
-      alerts: feedbackStats.filter(stat => stat.rating <= 2).reduce((sum, stat) => sum + stat._count, 0)
+      alerts: feedbackStats.filter(stat => stat.rating <= 2).reduce((sum, stat) => sum + stat._count, 0),
+      noShow,
+      priority,
+      sla
     })
   } catch (error) {
     console.error("Manager outlet analytics error:", error)
@@ -1084,25 +1000,7 @@ router.get("/outlets/analytics", async (req, res) => {
 
     const requestedOutletIds = (outletIdsStr as string).split(',')
 
-    // Check for JWT token from cookie or header
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM using mobile number from JWT token and include teleshopManagers
     const rtom = await prisma.rTOM.findFirst({
@@ -1312,7 +1210,19 @@ router.get("/outlets/analytics", async (req, res) => {
       })),
       officers: officerPerformance,
       teleshopManager: null, // Omitted for multiple outlets
-      alerts: feedbackStats.filter(stat => stat.rating <= 2).reduce((sum, stat) => sum + stat._count, 0)
+      alerts: feedbackStats.filter(stat => stat.rating <= 2).reduce((sum, stat) => sum + stat._count, 0),
+      // Priority category use per outlet over the same range (today when no range is given)
+      priority: await priorityService.getAnalytics(
+        requestedOutletIds,
+        startDate && endDate ? new Date(startDate as string) : new Date(new Date().setHours(0, 0, 0, 0)),
+        startDate && endDate ? new Date(endDate as string) : new Date()
+      ),
+      // SLA compliance across the same outlets and range
+      sla: await slaService.getCompliance(
+        requestedOutletIds,
+        startDate && endDate ? new Date(startDate as string) : new Date(new Date().setHours(0, 0, 0, 0)),
+        startDate && endDate ? new Date(endDate as string) : new Date()
+      )
     })
   } catch (error) {
     console.error("Manager outlets analytics error:", error)
@@ -1323,25 +1233,7 @@ router.get("/outlets/analytics", async (req, res) => {
 // Get officers in RTOM's assigned outlets
 router.get("/officers", async (req, res) => {
   try {
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM using mobile number from JWT token and include teleshopManagers
     const rtom = await prisma.rTOM.findFirst({
@@ -1395,36 +1287,7 @@ router.post("/officers", async (req, res) => {
     if (!isValidSLMobile(mobileNumber)) return res.status(400).json({ error: "Invalid mobile number. Must be a valid Sri Lankan number (e.g. 0771234567)" })
     if (req.body.email && !isValidEmail(req.body.email)) return res.status(400).json({ error: "Invalid email address format" })
 
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    let managerEmail: string | undefined
-
-    if (token) {
-      // Try JWT authentication first
-      try {
-        const payload = (jwt as any).verify(token, JWT_SECRET)
-        managerEmail = payload.email
-      } catch (e) {
-        return res.status(401).json({ error: "Invalid token" })
-      }
-    } else {
-      // Fallback: check for email in various places
-      managerEmail = (req.query.email as string) ||
-        (req.headers['x-manager-email'] as string) ||
-        req.body.managerEmail ||
-        req.body.email
-
-      if (!managerEmail) {
-        return res.status(401).json({ error: "Manager authentication required" })
-      }
-    }
+    const managerEmail: string | undefined = req.auth!.payload.email
 
     // Find manager's region
     const region = await prisma.region.findFirst({
@@ -1524,41 +1387,12 @@ router.post("/officers", async (req, res) => {
 })
 
 // Update existing officer in manager's region
-router.patch("/officer/:officerId", async (req, res) => {
+router.patch("/officer/:officerId", scopeTo(outletOf.officer()), async (req, res) => {
   try {
     const { officerId } = req.params
     const { name, counterNumber, assignedServices, isTraining, languages, services, email } = req.body
 
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    let managerEmail: string | undefined
-
-    if (token) {
-      // Try JWT authentication first
-      try {
-        const payload = (jwt as any).verify(token, JWT_SECRET)
-        managerEmail = payload.email
-      } catch (e) {
-        return res.status(401).json({ error: "Invalid token" })
-      }
-    } else {
-      // Fallback: check for email in various places
-      managerEmail = (req.query.email as string) ||
-        (req.headers['x-manager-email'] as string) ||
-        req.body.managerEmail ||
-        req.body.email
-
-      if (!managerEmail) {
-        return res.status(401).json({ error: "Manager authentication required" })
-      }
-    }
+    const managerEmail: string | undefined = req.auth!.payload.email
 
     // Find manager's region
     const region = await prisma.region.findFirst({
@@ -1625,25 +1459,7 @@ router.patch("/officer/:officerId", async (req, res) => {
 // Get teleshop managers in region
 router.get("/teleshop-managers", async (req, res) => {
   try {
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM using mobile number from JWT token
     const rtom = await prisma.rTOM.findFirst({
@@ -1709,25 +1525,7 @@ router.get("/debug/all-teleshop-managers", async (req, res) => {
 // Create new teleshop manager
 router.post("/teleshop-managers", async (req, res) => {
   try {
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM using mobile number from JWT token
     const rtom = await prisma.rTOM.findFirst({
@@ -1854,51 +1652,16 @@ router.post("/teleshop-managers", async (req, res) => {
 })
 
 // Update teleshop manager
-router.patch("/teleshop-managers/:teleshopManagerId", async (req, res) => {
+router.patch("/teleshop-managers/:teleshopManagerId", scopeToRegion(regionOf.teleshopManager()), async (req, res) => {
   try {
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    let managerEmail: string | undefined
-
-    if (token) {
-      try {
-        const payload = (jwt as any).verify(token, JWT_SECRET)
-        managerEmail = payload.email
-      } catch (e) {
-        return res.status(401).json({ error: "Invalid token" })
-      }
-    } else {
-      managerEmail = (req.query.email as string) || (req.headers['x-manager-email'] as string)
-
-      if (!managerEmail) {
-        return res.status(401).json({ error: "Manager authentication required" })
-      }
-    }
-
-    // Find manager's region
-    const region = await prisma.region.findFirst({
-      where: { managerEmail: managerEmail }
-    })
-
-    if (!region) {
-      return res.status(404).json({ error: "Manager not found" })
-    }
-
     const { teleshopManagerId } = req.params
     const { name, mobileNumber, isActive } = req.body
 
-    // Verify teleshop manager belongs to this region
+    // Verify teleshop manager belongs to one of the caller's regions
     const existingTeleshopManager = await prisma.teleshopManager.findFirst({
       where: {
         id: teleshopManagerId,
-        regionId: region.id
+        regionId: { in: req.auth!.scope.regionIds }
       }
     })
 
@@ -1938,24 +1701,7 @@ router.patch("/teleshop-managers/:teleshopManagerId", async (req, res) => {
 // Used by the Change Branch / Assign Branch modal so outlets unassigned from a manager still appear
 router.get("/region-outlets", async (req, res) => {
   try {
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM to get their region
     const rtom = await prisma.rTOM.findFirst({
@@ -1999,30 +1745,12 @@ router.get("/region-outlets", async (req, res) => {
 })
 
 // Assign teleshop manager to branch
-router.patch("/teleshop-managers/:teleshopManagerId/assign-branch", async (req, res) => {
+router.patch("/teleshop-managers/:teleshopManagerId/assign-branch", scopeTo(outletOf.body('branchId')), async (req, res) => {
   try {
     const { teleshopManagerId } = req.params
     const { branchId } = req.body
 
-    // Authenticate RTOM
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM using mobile number from JWT token
     const rtom = await prisma.rTOM.findFirst({
@@ -2137,27 +1865,9 @@ router.patch("/teleshop-managers/:teleshopManagerId/assign-branch", async (req,
 })
 
 // Delete teleshop manager
-router.delete("/teleshop-managers/:teleshopManagerId", async (req, res) => {
+router.delete("/teleshop-managers/:teleshopManagerId", scopeToRegion(regionOf.teleshopManager()), async (req, res) => {
   try {
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM using mobile number from JWT token
     const rtom = await prisma.rTOM.findFirst({
@@ -2202,27 +1912,7 @@ router.get("/outlets", async (req, res) => {
   console.log('Authorization header:', req.headers.authorization);
   
   try {
-    // Check for JWT token from cookie or header
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-      console.log('JWT payload:', payload);
-    } catch (e) {
-      console.log('JWT verification error:', e);
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM using mobile number from JWT token and include teleshopManagers
     const rtom = await prisma.rTOM.findFirst({
@@ -2310,25 +2000,7 @@ router.get("/outlets", async (req, res) => {
 // Create new outlet in manager's region
 router.post("/outlets", async (req, res) => {
   try {
-    // Check for JWT token from cookie or header
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM using mobile number from JWT token
     const rtom = await prisma.rTOM.findFirst({
@@ -2364,7 +2036,8 @@ router.post("/outlets", async (req, res) => {
         regionId: rtom.region.id,
         counterCount: counterCount,
         isActive: true,
-        kioskPassword: kioskPassword
+        kioskPassword: await kioskCredentialService.hashPassword(kioskPassword),
+        kioskPasswordUpdatedAt: new Date()
       },
       include: {
         officers: true,
@@ -2376,10 +2049,12 @@ router.post("/outlets", async (req, res) => {
       }
     })
 
+    // Never send the stored hash back; the generated password is shown to the manager once
+    const { kioskPassword: _kioskPasswordHash, ...outletData } = outlet
     res.status(201).json({
       success: true,
       message: "Outlet created successfully",
-      outlet,
+      outlet: outletData,
       kioskPassword: kioskPassword // Return the generated password to the manager
     })
   } catch (error: any) {
@@ -2393,15 +2068,9 @@ router.post("/outlets", async (req, res) => {
 })
 
 // Update outlet in manager's region
-router.put("/outlets/:outletId", async (req, res) => {
+router.put("/outlets/:outletId", scopeTo(outletOf.param('outletId')), async (req, res) => {
   try {
-    const authHeader = req.headers.authorization
-    if (!authHeader) {
-      return res.status(401).json({ error: "Authorization header required" })
-    }
-
-    const token = authHeader.split(" ")[1]
-    const decoded = (jwt as any).verify(token, JWT_SECRET) as { regionId: string }
+    const decoded = req.auth!.payload as { regionId: string }
 
     const { outletId } = req.params
     const { name, location, counters, isActive } = req.body
@@ -2443,6 +2112,7 @@ router.put("/outlets/:outletId", async (req, res) => {
         }
       }
     })
+    if (updateData.counterCount !== undefined) await counterService.resizeCounters(outletId, updateData.counterCount)
 
     res.json({
       success: true,
@@ -2462,15 +2132,9 @@ router.put("/outlets/:outletId", async (req, res) => {
 })
 
 // Soft-delete outlet in manager's region
-router.delete("/outlets/:outletId", async (req, res) => {
+router.delete("/outlets/:outletId", scopeTo(outletOf.param('outletId')), async (req, res) => {
   try {
-    const authHeader = req.headers.authorization
-    if (!authHeader) {
-      return res.status(401).json({ error: "Authorization header required" })
-    }
-
-    const token = authHeader.split(" ")[1]
-    const decoded = (jwt as any).verify(token, JWT_SECRET) as { regionId: string }
+    const decoded = req.auth!.payload as { regionId: string }
 
     const { outletId } = req.params
 
@@ -2496,15 +2160,9 @@ router.delete("/outlets/:outletId", async (req, res) => {
 })
 
 // HARD delete outlet in manager's region (removes dependent data)
-router.delete("/outlets/:outletId/hard", async (req, res) => {
+router.delete("/outlets/:outletId/hard", scopeTo(outletOf.param('outletId')), async (req, res) => {
   try {
-    const authHeader = req.headers.authorization
-    if (!authHeader) {
-      return res.status(401).json({ error: "Authorization header required" })
-    }
-
-    const token = authHeader.split(" ")[1]
-    const decoded = (jwt as any).verify(token, JWT_SECRET) as { regionId: string }
+    const decoded = req.auth!.payload as { regionId: string }
 
     const { outletId } = req.params
 
@@ -2584,30 +2242,12 @@ router.delete("/outlets/:outletId/hard", async (req, res) => {
 })
 
 // Get break analytics for all officers in manager's outlets
-router.get("/analytics/breaks/:regionId", async (req, res) => {
+router.get("/analytics/breaks/:regionId", scopeToRegion(regionOf.param('regionId')), async (req, res) => {
   try {
     const { regionId } = req.params
     const { timeframe = 'today' } = req.query
 
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM and get assigned outlets
     const rtom = await prisma.rTOM.findFirst({
@@ -2767,30 +2407,12 @@ router.get("/analytics/breaks/:regionId", async (req, res) => {
 })
 
 // Get detailed break report for a specific officer (RTOM can only view officers from assigned outlets)
-router.get("/breaks/officer/:officerId", async (req, res) => {
+router.get("/breaks/officer/:officerId", scopeTo(outletOf.officer()), async (req, res) => {
   try {
     const { officerId } = req.params
     const { startDate, endDate } = req.query
 
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "RTOM authentication required" })
-    }
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     // Find RTOM and get assigned outlets
     const rtom = await prisma.rTOM.findFirst({
@@ -2880,7 +2502,7 @@ router.get("/breaks/officer/:officerId", async (req, res) => {
 })
 
 // Force end a break (manager override)
-router.post("/breaks/end/:breakId", async (req, res) => {
+router.post("/breaks/end/:breakId", scopeTo(outletOf.breakLog()), async (req, res) => {
   try {
     const { breakId } = req.params
     const { reason } = req.body
@@ -2926,37 +2548,12 @@ router.post("/breaks/end/:breakId", async (req, res) => {
   }
 })
 
-// Manager logout
-router.post("/logout", async (req, res) => {
-  try {
-    // Clear any server-side session data here if using sessions
-    // For now, just return success as the frontend will clear localStorage
-    res.json({ success: true, message: "Logged out successfully" })
-  } catch (error) {
-    console.error("Manager logout error:", error)
-    res.status(500).json({ error: "Logout failed" })
-  }
-})
-
 // Get alerts for RTOM (specifically 2-star feedback alerts)
 router.get("/alerts", async (req, res) => {
   try {
     const { isRead, outletId } = req.query
 
-    // Authenticate via JWT similar to other manager endpoints
-    let token = (req as any).cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) token = authHeader.substring(7)
-    }
-    if (!token) return res.status(401).json({ error: "RTOM authentication required" })
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     const managerId = payload?.managerId || payload?.mobileNumber
 
@@ -3041,24 +2638,11 @@ router.get("/alerts", async (req, res) => {
 })
 
 // Mark alert as read for RTOM
-router.patch("/alerts/:alertId/read", async (req, res) => {
+router.patch("/alerts/:alertId/read", scopeTo(outletOf.alert()), async (req, res) => {
   try {
     const { alertId } = req.params
 
-    // Authenticate via JWT similar to other manager endpoints
-    let token = (req as any).cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) token = authHeader.substring(7)
-    }
-    if (!token) return res.status(401).json({ error: "RTOM authentication required" })
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     const managerId = payload?.managerId || payload?.mobileNumber
 
@@ -3127,20 +2711,7 @@ router.get("/feedback", async (req, res) => {
     const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)))
     const skip = (pageNum - 1) * limitNum
 
-    // Authenticate via JWT
-    let token = (req as any).cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) token = authHeader.substring(7)
-    }
-    if (!token) return res.status(401).json({ error: "RTOM authentication required" })
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     const managerId = payload?.managerId || payload?.mobileNumber
 
@@ -3280,25 +2851,12 @@ router.get("/feedback", async (req, res) => {
 })
 
 // Resolve feedback (mark as resolved with resolution comment) for RTOM
-router.patch("/feedback/:feedbackId/resolve", async (req, res) => {
+router.patch("/feedback/:feedbackId/resolve", scopeTo(outletOf.feedback()), async (req, res) => {
   try {
     const { feedbackId } = req.params
     const { resolutionComment } = req.body
 
-    // Authenticate via JWT
-    let token = (req as any).cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) token = authHeader.substring(7)
-    }
-    if (!token) return res.status(401).json({ error: "RTOM authentication required" })
-
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload = req.auth!.payload
 
     const managerId = payload?.managerId || payload?.mobileNumber
 
@@ -3397,38 +2955,12 @@ router.patch("/feedback/:feedbackId/resolve", async (req, res) => {
 })
 
 // Get officers by branch (RTOM)
-router.get("/branch/:branchId/officers", async (req, res) => {
+router.get("/branch/:branchId/officers", scopeTo(outletOf.param('branchId')), async (req, res) => {
   try {
     const { branchId } = req.params
 
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    let managerEmail: string | undefined
-    let managerMobile: string | undefined
-
-    if (token) {
-      try {
-        const payload = (jwt as any).verify(token, JWT_SECRET)
-        managerEmail = payload.email
-        managerMobile = payload.mobileNumber
-      } catch (e) {
-        return res.status(401).json({ error: "Invalid token" })
-      }
-    } else {
-      managerEmail = (req.query.email as string) || (req.headers['x-manager-email'] as string)
-      managerMobile = (req.query.mobileNumber as string)
-
-      if (!managerEmail && !managerMobile) {
-        return res.status(401).json({ error: "Manager authentication required" })
-      }
-    }
+    const managerEmail: string | undefined = req.auth!.payload.email
+    const managerMobile: string | undefined = req.auth!.payload.mobileNumber
 
     // Try to find manager as Region manager first
     let region = null
@@ -3537,39 +3069,13 @@ router.get("/branch/:branchId/officers", async (req, res) => {
 })
 
 // Assign officer to counter (RTOM)
-router.patch("/officers/:officerId/assign-counter", async (req, res) => {
+router.patch("/officers/:officerId/assign-counter", scopeTo(outletOf.officer()), async (req, res) => {
   try {
     const { officerId } = req.params
     const { counterNumber } = req.body
 
-    // Check for JWT token
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    let managerEmail: string | undefined
-    let managerMobile: string | undefined
-
-    if (token) {
-      try {
-        const payload = (jwt as any).verify(token, JWT_SECRET)
-        managerEmail = payload.email
-        managerMobile = payload.mobileNumber
-      } catch (e) {
-        return res.status(401).json({ error: "Invalid token" })
-      }
-    } else {
-      managerEmail = (req.query.email as string) || (req.headers['x-manager-email'] as string)
-      managerMobile = (req.query.mobileNumber as string)
-
-      if (!managerEmail && !managerMobile) {
-        return res.status(401).json({ error: "Manager authentication required" })
-      }
-    }
+    const managerEmail: string | undefined = req.auth!.payload.email
+    const managerMobile: string | undefined = req.auth!.payload.mobileNumber
 
     // Try to find manager as Region manager first
     let region = null
@@ -3621,49 +3127,15 @@ router.patch("/officers/:officerId/assign-counter", async (req, res) => {
       return res.status(403).json({ error: "Officer not found in your assigned outlets" })
     }
 
-    // If assigning a counter (not null), validate it
-    if (counterNumber !== null && counterNumber !== undefined) {
-      const parsed = Number(counterNumber)
-
-      // Validate counter number is valid
-      if (!Number.isInteger(parsed) || parsed < 1) {
-        return res.status(400).json({ error: "Counter number must be a positive integer" })
-      }
-
-      // Check outlet counter capacity
-      if (officer.outlet.counterCount && parsed > officer.outlet.counterCount) {
-        return res.status(400).json({
-          error: `Counter #${parsed} exceeds outlet capacity of ${officer.outlet.counterCount} counters`
-        })
-      }
-
-      // Check if counter is already assigned to another officer
-      const existingAssignment = await prisma.officer.findFirst({
-        where: {
-          outletId: officer.outletId,
-          counterNumber: parsed,
-          id: { not: officerId }
-        }
-      })
-
-      if (existingAssignment) {
-        return res.status(400).json({
-          error: `Counter #${parsed} is already assigned to ${existingAssignment.name}`
-        })
-      }
-    }
-
-    // Update officer counter assignment
-    const updatedOfficer = await prisma.officer.update({
-      where: { id: officerId },
-      data: { counterNumber: counterNumber === null ? null : Number(counterNumber) },
-      include: {
-        outlet: true
-      }
-    })
+    // Counter exists, is open and handles the officer's services; nobody else holds it
+    const updatedOfficer = await counterService.assignOfficer(
+      officerId,
+      counterNumber === null || counterNumber === undefined ? null : Number(counterNumber)
+    )
 
     res.json({ success: true, officer: updatedOfficer })
   } catch (error: any) {
+    if (error instanceof CounterError) return res.status(error.status).json({ error: error.message })
     console.error("Assign counter error:", error)
     res.status(500).json({ error: "Failed to assign counter" })
   }
@@ -3673,27 +3145,10 @@ router.patch("/officers/:officerId/assign-counter", async (req, res) => {
 // Closure Notices – RTOM Manager
 // ─────────────────────────────────────────────────────────
 
-// Helper: authenticate manager from JWT cookie or Authorization header
-function getManagerPayload(req: any): any | null {
-  let token = req.cookies?.dq_manager_jwt
-  if (!token) {
-    const authHeader = req.headers.authorization
-    if (authHeader && authHeader.startsWith('Bearer ')) token = authHeader.substring(7)
-  }
-  if (!token) return null
-  try {
-    const payload = (jwt as any).verify(token, JWT_SECRET)
-    return payload
-  } catch {
-    return null
-  }
-}
-
 // List closure notices for outlets in RTOM's region (?outletId= optional filter)
 router.get("/closure-notices", async (req, res) => {
   try {
-    const payload = getManagerPayload(req)
-    if (!payload) return res.status(401).json({ error: "RTOM authentication required" })
+    const payload = req.auth!.payload
 
     const region = await prisma.region.findFirst({
       where: payload.mobileNumber ? { managerMobile: payload.mobileNumber } : { managerEmail: payload.email },
@@ -3726,8 +3181,7 @@ router.get("/closure-notices", async (req, res) => {
 // Create a closure notice (RTOM can pick any outlet in region)
 router.post("/closure-notices", async (req, res) => {
   try {
-    const payload = getManagerPayload(req)
-    if (!payload) return res.status(401).json({ error: "RTOM authentication required" })
+    const payload = req.auth!.payload
 
     const region = await prisma.region.findFirst({
       where: payload.mobileNumber ? { managerMobile: payload.mobileNumber } : { managerEmail: payload.email },
@@ -3771,10 +3225,9 @@ router.post("/closure-notices", async (req, res) => {
 })
 
 // Update a closure notice (must belong to outlet in RTOM's region)
-router.put("/closure-notices/:noticeId", async (req, res) => {
+router.put("/closure-notices/:noticeId", scopeTo(outletOf.closureNotice()), async (req, res) => {
   try {
-    const payload = getManagerPayload(req)
-    if (!payload) return res.status(401).json({ error: "RTOM authentication required" })
+    const payload = req.auth!.payload
     const region = await prisma.region.findFirst({
       where: payload.mobileNumber ? { managerMobile: payload.mobileNumber } : { managerEmail: payload.email },
       include: { outlets: true }
@@ -3807,10 +3260,9 @@ router.put("/closure-notices/:noticeId", async (req, res) => {
 })
 
 // Delete a closure notice (must belong to outlet in RTOM's region)
-router.delete("/closure-notices/:noticeId", async (req, res) => {
+router.delete("/closure-notices/:noticeId", scopeTo(outletOf.closureNotice()), async (req, res) => {
   try {
-    const payload = getManagerPayload(req)
-    if (!payload) return res.status(401).json({ error: "RTOM authentication required" })
+    const payload = req.auth!.payload
 
     const region = await prisma.region.findFirst({
       where: payload.mobileNumber ? { managerMobile: payload.mobileNumber } : { managerEmail: payload.email },
@@ -3840,8 +3292,6 @@ router.delete("/closure-notices/:noticeId", async (req, res) => {
 // List all mercantile holidays
 router.get("/holidays", async (req, res) => {
   try {
-    const payload = getManagerPayload(req)
-    if (!payload) return res.status(401).json({ error: "RTOM authentication required" })
     const holidays = await (prisma as any).mercantileHoliday.findMany({ orderBy: { date: "asc" } })
     res.json({ success: true, holidays })
   } catch (error) {
@@ -3850,16 +3300,20 @@ router.get("/holidays", async (req, res) => {
   }
 })
 
-// Add a mercantile holiday
+// Add a mercantile holiday (holidays close every outlet, so they are not outlet-scoped; changes are audited)
 router.post("/holidays", async (req, res) => {
   try {
-    const payload = getManagerPayload(req)
-    if (!payload) return res.status(401).json({ error: "RTOM authentication required" })
+    const auth = req.auth!
     const { date, name, isRecurring } = req.body
     if (!date || !name) return res.status(400).json({ error: "date and name are required" })
     const holiday = await (prisma as any).mercantileHoliday.create({
       data: { date: new Date(date), name, isRecurring: !!isRecurring }
     })
+    await systemLogger.audit(auth.userId, auth.role, "HOLIDAY_CREATED", `Mercantile holiday added: ${name}`, {
+      targetType: "mercantile_holiday",
+      targetId: holiday.id,
+      ipAddress: req.ip,
+    })
     res.json({ success: true, holiday })
   } catch (error) {
     console.error("Create holiday error:", error)
@@ -3870,12 +3324,16 @@ router.post("/holidays", async (req, res) => {
 // Delete a mercantile holiday
 router.delete("/holidays/:holidayId", async (req, res) => {
   try {
-    const payload = getManagerPayload(req)
-    if (!payload) return res.status(401).json({ error: "RTOM authentication required" })
+    const auth = req.auth!
     const { holidayId } = req.params
     const existing = await (prisma as any).mercantileHoliday.findUnique({ where: { id: holidayId } })
     if (!existing) return res.status(404).json({ error: "Holiday not found" })
     await (prisma as any).mercantileHoliday.delete({ where: { id: holidayId } })
+    await systemLogger.audit(auth.userId, auth.role, "HOLIDAY_DELETED", `Mercantile holiday removed: ${existing.name}`, {
+      targetType: "mercantile_holiday",
+      targetId: holidayId,
+      ipAddress: req.ip,
+    })
     res.json({ success: true, message: "Holiday deleted" })
   } catch (error) {
     console.error("Delete holiday error:", error)
@@ -3886,15 +3344,7 @@ router.delete("/holidays/:holidayId", async (req, res) => {
 // Get teleshop analytics for RTOM
 router.get("/teleshop-analytics", async (req, res) => {
   try {
-    let token = req.cookies?.dq_manager_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader?.startsWith('Bearer ')) token = authHeader.substring(7)
-    }
-    
-    if (!token) return res.status(401).json({ error: "RTOM authentication required" })
-    
-    const payload = jwt.verify(token, JWT_SECRET) as any
+    const payload = req.auth!.payload
     
     // Find the RTOM
     const rtom = await prisma.rTOM.findFirst({
@@ -1,5 +1,5 @@
 import { Router } from 'express'
-import * as jwt from 'jsonwebtoken'
+import { authorize } from '../services/accessControl'
 import sltSmsService from '../services/sltSmsService'
 import emailService from '../services/emailService'
 import {
@@ -9,28 +9,9 @@ import {
 } from '../services/dailySummaryService'
 
 const router = Router()
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
 
-// ─── Admin authentication middleware ────────────────────────────────────────
-const authenticateAdmin = (req: any, res: any, next: any) => {
-  try {
-    const authHeader = req.headers.authorization
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'Access denied. No token provided.' })
-    }
-    const token = authHeader.substring(7)
-    const decoded = (jwt as any).verify(token, JWT_SECRET as jwt.Secret)
-    if (decoded.role !== 'admin') {
-      return res.status(403).json({ error: 'Access denied. Admin role required.' })
-    }
-    req.user = decoded
-    next()
-  } catch {
-    res.status(401).json({ error: 'Invalid token.' })
-  }
-}
-
-router.use(authenticateAdmin)
+// ─── Admin authentication (session-checked) ─────────────────────────────────
+router.use(authorize({ roles: ['admin'] }))
 
 // ─── GET /api/admin/notification-settings ───────────────────────────────────
 // Returns all notification settings with sensible defaults
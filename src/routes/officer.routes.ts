@@ -1,11 +1,20 @@
-import { Router } from "express"
+import { Router, Request, Response, NextFunction } from "express"
 import { prisma, broadcast } from "../server"
 import { getLastDailyReset } from "../utils/resetWindow"
-import * as jwt from "jsonwebtoken"
 import otpService from "../services/otpService"
 import sltSmsService from "../services/sltSmsService"
 import { getTrackingUrl, getFeedbackUrl, getServiceStatusUrl } from "../utils/urlHelper"
 import { announceToIpSpeaker } from "../utils/announcer"
+import { displayToken, spokenToken } from "../utils/tokenFormat"
+import { authorize } from "../services/accessControl"
+import sessionService from "../services/sessionService"
+import queueDispatcher, { toStringArray, hasAny, isDispatchStrategy } from "../services/queueDispatcher"
+import tokenAging from "../services/tokenAging"
+import journeyService, { JourneyError } from "../services/journeyService"
+import noShowService from "../services/noShowService"
+import parkingService, { ParkingError } from "../services/parkingService"
+import counterService, { counterHandles } from "../services/counterService"
+import priorityService, { PriorityError } from "../services/priorityService"
 
 const router = Router()
 
@@ -43,9 +52,34 @@ function resolveCustomerLanguage(preferredLanguages: unknown): SupportedLanguage
   return "en"
 }
 
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret"
-// No expiration for production system - officers need continuous access during shifts
-const JWT_EXPIRES = process.env.JWT_EXPIRES || undefined
+// Queue actions run as the officer in the dq_jwt session. A body officerId is still
+// accepted from older clients but must match the session, otherwise 403.
+const authorizeOfficer = authorize({ roles: ['officer'] })
+function requireOfficerSession(req: Request, res: Response, next: NextFunction) {
+  authorizeOfficer(req, res, () => {
+    const sessionOfficerId = req.auth!.userId
+    if (req.body?.officerId && req.body.officerId !== sessionOfficerId) {
+      return res.status(403).json({ error: "Cannot act on behalf of another officer" })
+    }
+    req.body = { ...(req.body || {}), officerId: sessionOfficerId }
+    next()
+  })
+}
+
+// Returns an error message when the officer may not act on the token:
+// it must belong to the officer's outlet, and a token already at a counter
+// (or any token when requireAssigned is set) must be assigned to this officer.
+function tokenAccessError(
+  officer: { id: string; outletId: string },
+  token: { outletId: string; status: string; assignedTo: string | null },
+  requireAssigned = false
+): string | null {
+  if (token.outletId !== officer.outletId) return "Token belongs to another outlet"
+  if ((requireAssigned || token.status === "in_service") && token.assignedTo !== officer.id) {
+    return "Token is assigned to another officer"
+  }
+  return null
+}
 
 // Request OTP for officer login
 router.post("/request-otp", async (req, res) => {
@@ -71,10 +105,10 @@ router.post("/request-otp", async (req, res) => {
     }
 
     // Generate and send OTP
-    const result = await otpService.generateOTP(mobileNumber, 'officer', officer.name)
+    const result = await otpService.generateOTP(mobileNumber, 'officer', officer.name, { ipAddress: req.ip })
 
     if (!result.success) {
-      return res.status(500).json({ error: result.message })
+      return res.status(result.retryAfterSeconds ? 429 : 500).json({ error: result.message, retryAfterSeconds: result.retryAfterSeconds })
     }
 
     res.json({
@@ -137,25 +171,22 @@ router.post("/login", async (req, res) => {
       }
     })
 
-    // sign JWT and set httpOnly cookie (no expiration for production)
-    const tokenOptions = { officerId: officer.id }
-    const signOptions: any = {}
-    if (JWT_EXPIRES) {
-      signOptions.expiresIn = JWT_EXPIRES
-    }
+    // Warn (and alert managers) when another online officer is on the same counter
+    const counterConflict = await counterService.reportClaimConflict(officer)
 
-    const token = (jwt as any).sign(tokenOptions, JWT_SECRET as jwt.Secret, signOptions)
+    // Start a server-side session: short-lived access JWT + refresh token, both as httpOnly cookies
+    const session = await sessionService.startSession(req, 'officer', officer.id, { officerId: officer.id })
+    sessionService.setSessionCookies(res, 'officer', session)
 
-    res.cookie("dq_jwt", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      // No maxAge set - cookie persists until browser is closed or explicitly cleared
-      sameSite: "lax",
-      path: "/",
+    // Also return tokens in response for cross-domain compatibility
+    res.json({
+      success: true,
+      officer,
+      counterConflict,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresAt: session.accessTokenExpiresAt,
     })
-
-    // Also return token in response for cross-domain compatibility
-    res.json({ success: true, officer, token })
   } catch (error) {
     console.error("Login error:", error)
     res.status(500).json({ error: "Login failed" })
@@ -225,9 +256,8 @@ router.post("/register", async (req, res) => {
       if (!Number.isInteger(parsed) || parsed < 0) {
         return res.status(400).json({ error: "counterNumber must be a non-negative integer" })
       }
-      const max = outlet.counterCount ?? 0
-      if (parsed > max) {
-        return res.status(400).json({ error: `Counter number ${parsed} exceeds available counters (${max}) for this outlet` })
+      if (parsed > 0 && !(await counterService.getCounter(outletId, parsed))) {
+        return res.status(400).json({ error: `Counter #${parsed} does not exist at this outlet` })
       }
     }
 
@@ -251,239 +281,40 @@ router.post("/register", async (req, res) => {
 })
 
 // Get next token in queue (supports cross-service fallback when enabled)
-router.post("/next-token", async (req, res) => {
+router.post("/next-token", requireOfficerSession, async (req, res) => {
   try {
     const { officerId, allowFallback, allowUnmatched } = req.body
 
     console.log(`Next token request - Officer: ${officerId}, AllowFallback: ${allowFallback}, AllowUnmatched: ${allowUnmatched}`)
 
-    const officer = await prisma.officer.findUnique({
-      where: { id: officerId },
-      select: {
-        id: true,
-        name: true,
-        outletId: true,
-        counterNumber: true,
-        assignedServices: true,
-        languages: true,
-      },
-    })
+    const officer = await queueDispatcher.loadOfficer(officerId)
 
     if (!officer) {
       console.log("Officer not found:", officerId)
       return res.status(404).json({ error: "Officer not found" })
     }
 
-    console.log("Officer found:", officer.name, "Outlet:", officer.outletId)
+    console.log(`Officer ${officer.name} (outlet ${officer.outletId}) - Assigned Services:`, officer.services, 'Languages:', officer.languages)
 
-    // Parse assignedServices (JSON array)
-    let assignedServices: string[] = [];
-    if (officer.assignedServices) {
-      try {
-        if (Array.isArray(officer.assignedServices)) {
-          assignedServices = officer.assignedServices as string[];
-        } else if (typeof officer.assignedServices === 'string') {
-          assignedServices = JSON.parse(officer.assignedServices);
-        } else if (typeof officer.assignedServices === 'object') {
-          assignedServices = Object.values(officer.assignedServices).filter(v => typeof v === 'string').map(v => v as string);
-        } else {
-          assignedServices = [];
-        }
-      } catch (e) {
-        console.log("Error parsing assignedServices:", e)
-        assignedServices = [];
-      }
-    }
-
-    console.log("Assigned services:", assignedServices)
-
-    // Parse officer languages (JSON array)
-    let officerLanguages: string[] = []
-    if (officer.languages) {
-      try {
-        if (Array.isArray(officer.languages)) {
-          officerLanguages = officer.languages as string[]
-        } else if (typeof officer.languages === 'string') {
-          officerLanguages = JSON.parse(officer.languages)
-        } else if (typeof officer.languages === 'object') {
-          officerLanguages = Object.values(officer.languages).filter(v => typeof v === 'string') as string[]
-        }
-      } catch (e) {
-        console.log("Error parsing officer languages:", e)
-        officerLanguages = []
-      }
-    }
-
-    const lastReset = getLastDailyReset()
-
-    // Helper: normalize token preferred languages to array
-    const toLangArray = (val: any): string[] => {
-      try {
-        if (!val) return []
-        if (Array.isArray(val)) return val.filter(v => typeof v === 'string') as string[]
-        if (typeof val === 'string') {
-          const parsed = JSON.parse(val)
-          return Array.isArray(parsed) ? parsed.filter(v => typeof v === 'string') : []
-        }
-        if (typeof val === 'object') {
-          // If stored as object-map, convert values
-          return Object.values(val).filter(v => typeof v === 'string') as string[]
-        }
-      } catch { }
-      return []
-    }
-
-    const hasAny = (a: string[], b: string[]) => a.some(x => b.some(y => String(x).toUpperCase() === String(y).toUpperCase()))
-
-    let nextToken: any = null
-
-    // If allowUnmatched is true, bypass strict matching and get ANY waiting token
-    if (allowUnmatched) {
-      console.log('⚠️ UNMATCHED MODE: Bypassing service/language matching')
-
-      const unmatchedToken = await prisma.token.findFirst({
-        where: {
-          outletId: officer.outletId,
-          status: 'waiting',
-          isTransferred: false,
-          createdAt: { gte: lastReset },
-        },
-        orderBy: { tokenNumber: 'asc' },
-        include: { customer: true },
+    // Two officers on one counter would send customers to the wrong person
+    const conflict = await counterService.reportClaimConflict(officer)
+    if (conflict) {
+      return res.status(409).json({
+        error: `Counter #${conflict.counterNumber} is also claimed by ${conflict.officers.map(o => o.name).join(', ')}. Ask your manager to reassign one of you.`,
+        conflict,
       })
-
-      if (unmatchedToken) {
-        nextToken = unmatchedToken
-        console.log(`✓ Calling UNMATCHED token #${unmatchedToken.tokenNumber} by officer ${officer.name}`)
-      } else {
-        console.log('No waiting tokens available')
-        return res.json({ message: 'No waiting tokens available' })
-      }
-    } else {
-      // STRICT MATCHING: Officers must have both assigned services AND languages
-      // Only tokens matching BOTH service AND language can be assigned
-
-      console.log(`Officer ${officer.name} - Assigned Services:`, assignedServices, 'Languages:', officerLanguages)
-
-      // Validate officer has required assignments
-      if (assignedServices.length === 0) {
-        console.log('Officer has no assigned services')
-        return res.json({ error: 'You have no assigned services. Please contact your manager.' })
-      }
-
-      if (officerLanguages.length === 0) {
-        console.log('Officer has no assigned languages')
-        return res.json({ error: 'You have no assigned languages. Please contact your manager.' })
-      }
-
-      // TRANSFERRED CUSTOMER PRIORITY: Customers transferred to this counter already waited
-      // in another queue — they must be served before new arrivals regardless of token number.
-      if (officer.counterNumber && officer.counterNumber > 0) {
-        const transferredForCounter = await prisma.token.findFirst({
-          where: {
-            outletId: officer.outletId,
-            status: 'waiting',
-            isTransferred: true,
-            counterNumber: officer.counterNumber,
-            serviceTypes: { hasSome: assignedServices },
-            createdAt: { gte: lastReset },
-          },
-          orderBy: { createdAt: 'asc' }, // oldest total wait first
-          include: { customer: true },
-        })
-        if (transferredForCounter) {
-          nextToken = transferredForCounter
-          console.log(`✓ TRANSFER PRIORITY: Token #${transferredForCounter.tokenNumber} served first (customer already waited in a previous queue)`)
-        }
-      }
-
-      if (!nextToken) {
-        // Get candidate tokens that match officer's assigned services
-        // Priority 1: Tokens specifically assigned to THIS counter
-        let candidateTokens = await prisma.token.findMany({
-          where: {
-            outletId: officer.outletId,
-            status: 'waiting',
-            isTransferred: false,
-            counterNumber: officer.counterNumber && officer.counterNumber > 0 ? officer.counterNumber : undefined,
-            serviceTypes: { hasSome: assignedServices },
-            createdAt: { gte: lastReset },
-          },
-          orderBy: [
-            { isPriority: 'desc' },
-            { tokenNumber: 'asc' }
-          ],
-          take: 20,
-          include: { customer: true },
-        })
-
-        // If no counter-specific tokens, look for general pool tokens (counterNumber is null)
-        if (candidateTokens.length === 0) {
-          candidateTokens = await prisma.token.findMany({
-            where: {
-              outletId: officer.outletId,
-              status: 'waiting',
-              isTransferred: false,
-              counterNumber: null,
-              serviceTypes: { hasSome: assignedServices },
-              createdAt: { gte: lastReset },
-            },
-            orderBy: [
-              { isPriority: 'desc' },
-              { tokenNumber: 'asc' }
-            ],
-            take: 50,
-            include: { customer: true },
-          })
-        }
-
-        console.log(`Found ${candidateTokens.length} tokens with matching services`)
-
-        // Filter by language match
-        for (const t of candidateTokens) {
-          const tokenLangs = toLangArray(t.preferredLanguages)
-          console.log(`Token #${t.tokenNumber} - Services:`, t.serviceTypes, 'Languages:', tokenLangs)
-
-          // If token has no language preference, any officer can serve it
-          if (tokenLangs.length === 0) {
-            nextToken = t
-            console.log(`✓ Token #${t.tokenNumber} has no language preference - any officer can serve`)
-            break
-          }
-
-          // Check if there's a language match
-          if (hasAny(tokenLangs, officerLanguages)) {
-            nextToken = t
-            console.log(`✓ Matched Token #${t.tokenNumber} - Service + Language match`)
-            break
-          } else {
-            console.log(`✗ Token #${t.tokenNumber} language mismatch - Token wants:`, tokenLangs, 'Officer has:', officerLanguages)
-          }
-        }
-      } // end if (!nextToken) — skip regular matching when a transferred token was found
-
-      if (!nextToken) {
-        console.log('No tokens match your assigned services and languages')
-        return res.json({ message: 'No tokens match your assigned services and languages right now' })
-      }
     }
 
-    // Assign the selected token to the officer
-    console.log(`Assigning token #${nextToken.tokenNumber} to officer ${officer.name}`)
+    // Transfer priority, counter / pool candidates, service + language matching and the outlet's strategy
+    const dispatch = await queueDispatcher.selectNext(officer, { allowUnmatched: !!allowUnmatched })
+    if (dispatch.error) return res.json({ error: dispatch.error, explanation: dispatch.explanation })
+    if (!dispatch.token) return res.json({ message: dispatch.message, explanation: dispatch.explanation })
 
-    // Atomic update to prevent race conditions (two officers calling same token)
-    const assignResult = await prisma.token.updateMany({
-      where: { id: nextToken.id, status: 'waiting' },
-      data: {
-        status: 'in_service',
-        assignedTo: officerId,
-        counterNumber: officer.counterNumber,
-        calledAt: new Date(),
-        startedAt: new Date(),
-      },
-    })
+    const nextToken = dispatch.token
+    console.log(`✓ Dispatch (${dispatch.explanation.strategy}/${dispatch.explanation.stage}): token #${nextToken.tokenNumber} for officer ${officer.name}`)
 
-    if (assignResult.count === 0) {
+    // Atomic update to prevent race conditions (two officers calling same token)
+    if (!(await queueDispatcher.claimToken(nextToken.id, officer))) {
       console.log(`Race condition avoided: Token #${nextToken.tokenNumber} was already called by another officer.`)
       return res.status(409).json({ error: 'This token has already been called by another officer. Please click Next again.' })
     }
@@ -491,7 +322,7 @@ router.post("/next-token", async (req, res) => {
     // Fetch the updated token with includes for SMS and broadcast
     const updatedToken = await prisma.token.findUnique({
       where: { id: nextToken.id },
-      include: { customer: true, officer: true, outlet: true },
+      include: { customer: true, officer: true, outlet: true, priorityCategory: true },
     })
 
     if (!updatedToken) return res.status(404).json({ error: 'Token lost after assignment' })
@@ -506,7 +337,7 @@ router.post("/next-token", async (req, res) => {
     try {
       await sltSmsService.sendCustomerCalled(updatedToken.customer.mobileNumber, {
         firstName,
-        tokenNumber: updatedToken.tokenNumber,
+        tokenNumber: displayToken(updatedToken),
         counterNumber: officer.counterNumber || 0,
         outletName: updatedToken.outlet?.name || "SLT Office",
         recoveryUrl: trackingUrl,
@@ -519,6 +350,7 @@ router.post("/next-token", async (req, res) => {
       type: "TOKEN_CALLED",
       data: {
         ...updatedToken,
+        spokenNumber: spokenToken(updatedToken),
         customerLang,
         firstName,
         customerName: updatedToken.customer.name,
@@ -538,6 +370,8 @@ router.post("/next-token", async (req, res) => {
       timestamp: new Date().toISOString(),
       tokenData: {
         tokenNumber: String(updatedToken.tokenNumber),
+        displayNumber: displayToken(updatedToken),
+        spokenNumber: spokenToken(updatedToken),
         counterNumber: officer.counterNumber || 0,
         customerName: firstName
       }
@@ -557,20 +391,21 @@ router.post("/next-token", async (req, res) => {
 
     // Also trigger hardware IP speaker if configured
     let tokenSpeech = ""
-    if (customerLang === "si") tokenSpeech = `ටෝකන් අංක ${updatedToken.tokenNumber}, කරුණාකර කවුන්ටර අංක ${officer.counterNumber || 0} වෙත පැමිණෙන්න.`
-    else if (customerLang === "ta") tokenSpeech = `அடையாள எண் ${updatedToken.tokenNumber}, தயவுசெய்து கவுண்டர் எண் ${officer.counterNumber || 0} க்கு செல்லவும்.`
-    else tokenSpeech = `Token number ${updatedToken.tokenNumber}, please proceed to counter number ${officer.counterNumber || 0}.`
+    if (customerLang === "si") tokenSpeech = `ටෝකන් අංක ${spokenToken(updatedToken)}, කරුණාකර කවුන්ටර අංක ${officer.counterNumber || 0} වෙත පැමිණෙන්න.`
+    else if (customerLang === "ta") tokenSpeech = `அடையாள எண் ${spokenToken(updatedToken)}, தயவுசெய்து கவுண்டர் எண் ${officer.counterNumber || 0} க்கு செல்லவும்.`
+    else tokenSpeech = `Token number ${spokenToken(updatedToken)}, please proceed to counter number ${officer.counterNumber || 0}.`
     
     announceToIpSpeaker(updatedToken.outletId, tokenSpeech, customerLang)
 
-    const tokenLangs = toLangArray((updatedToken as any).preferredLanguages)
+    const tokenLangs = toStringArray((updatedToken as any).preferredLanguages)
     return res.json({
       success: true,
       token: updatedToken,
       matchedBy: {
-        service: assignedServices.some(s => (updatedToken.serviceTypes || []).includes(s)),
-        language: officerLanguages.length > 0 ? hasAny(tokenLangs, officerLanguages) : false,
-      }
+        service: officer.services.some(s => (updatedToken.serviceTypes || []).includes(s)),
+        language: officer.languages.length > 0 ? hasAny(tokenLangs, officer.languages) : false,
+      },
+      explanation: dispatch.explanation,
     })
 
   } catch (error) {
@@ -579,40 +414,32 @@ router.post("/next-token", async (req, res) => {
   }
 })
 
+// Which token Next would call right now and why (nothing is claimed)
+router.get("/next-token/preview", requireOfficerSession, async (req, res) => {
+  try {
+    const officer = await queueDispatcher.loadOfficer(req.body.officerId)
+    if (!officer) return res.status(404).json({ error: "Officer not found" })
+
+    const strategy = isDispatchStrategy(req.query.strategy) ? req.query.strategy : undefined
+    const dispatch = await queueDispatcher.selectNext(officer, { allowUnmatched: req.query.allowUnmatched === 'true', strategy })
+    res.json({
+      success: true,
+      token: dispatch.token ? { id: dispatch.token.id, tokenNumber: dispatch.token.tokenNumber, serviceTypes: dispatch.token.serviceTypes } : null,
+      message: dispatch.message || dispatch.error,
+      explanation: dispatch.explanation,
+    })
+  } catch (error) {
+    console.error("Next token preview error:", error)
+    res.status(500).json({ error: "Failed to preview next token" })
+  }
+})
+
 // Get unmatched tokens - tokens that NO officer in the outlet can serve
 router.get("/unmatched-tokens/:outletId", async (req, res) => {
   try {
     const { outletId } = req.params
     const lastReset = getLastDailyReset()
 
-    // Helper functions (reuse from next-token)
-    const toLangArray = (val: any): string[] => {
-      try {
-        if (!val) return []
-        if (Array.isArray(val)) return val.filter(v => typeof v === 'string') as string[]
-        if (typeof val === 'string') {
-          const parsed = JSON.parse(val)
-          return Array.isArray(parsed) ? parsed.filter(v => typeof v === 'string') : []
-        }
-        if (typeof val === 'object') {
-          return Object.values(val).filter(v => typeof v === 'string') as string[]
-        }
-      } catch { }
-      return []
-    }
-
-    const parseJsonArray = (val: any): string[] => {
-      try {
-        if (!val) return []
-        if (Array.isArray(val)) return val as string[]
-        if (typeof val === 'string') return JSON.parse(val)
-        if (typeof val === 'object') return Object.values(val).filter(v => typeof v === 'string') as string[]
-      } catch { }
-      return []
-    }
-
-    const hasAny = (a: string[], b: string[]) => a.some(x => b.some(y => String(x).toUpperCase() === String(y).toUpperCase()))
-
     // Get all waiting AND skipped tokens (skipped tokens should still be visible for recall)
     const waitingTokens = await prisma.token.findMany({
       where: {
@@ -622,7 +449,7 @@ router.get("/unmatched-tokens/:outletId", async (req, res) => {
         },
         createdAt: { gte: lastReset },
       },
-      orderBy: { tokenNumber: 'asc' },
+      orderBy: { createdAt: 'asc' },
       include: { customer: true },
     })
 
@@ -635,7 +462,7 @@ router.get("/unmatched-tokens/:outletId", async (req, res) => {
           in: ['available', 'serving']
         }
       },
-      select: { id: true, assignedServices: true, languages: true, status: true },
+      select: { id: true, name: true, counterNumber: true, assignedServices: true, languages: true, status: true },
     })
 
     console.log(`Checking ${waitingTokens.length} tokens against ${officers.length} online officers for unmatched`)
@@ -643,7 +470,7 @@ router.get("/unmatched-tokens/:outletId", async (req, res) => {
     // Filter tokens that NO officer can serve
     const unmatchedTokens = waitingTokens.filter(token => {
       const tokenServices = Array.isArray(token.serviceTypes) ? token.serviceTypes as string[] : []
-      const tokenLangs = toLangArray(token.preferredLanguages)
+      const tokenLangs = toStringArray(token.preferredLanguages)
 
       // Skip if token has no service types or languages
       if (tokenServices.length === 0 || tokenLangs.length === 0) {
@@ -652,8 +479,8 @@ router.get("/unmatched-tokens/:outletId", async (req, res) => {
 
       // Check if ANY officer can serve this token (service AND language match)
       const anyMatch = officers.some(officer => {
-        const officerServices = parseJsonArray(officer.assignedServices)
-        const officerLangs = parseJsonArray(officer.languages)
+        const officerServices = toStringArray(officer.assignedServices)
+        const officerLangs = toStringArray(officer.languages)
 
         // Officer must have both services and languages
         if (officerServices.length === 0 || officerLangs.length === 0) {
@@ -676,7 +503,16 @@ router.get("/unmatched-tokens/:outletId", async (req, res) => {
 
     console.log(`Found ${unmatchedTokens.length} unmatched tokens`)
 
-    res.json({ unmatchedTokens })
+    // Aging shows how close each token is to being handed to any officer with the service
+    const agingSettings = await tokenAging.getSettings(outletId)
+    const now = new Date()
+    res.json({
+      unmatchedTokens: unmatchedTokens.map(token => ({
+        ...token,
+        aging: token.status === 'waiting' ? tokenAging.score(token, agingSettings, now) : null,
+        suggestedOfficers: tokenAging.suggestOfficers(token, officers),
+      })),
+    })
   } catch (error) {
     console.error("Unmatched tokens error:", error)
     res.status(500).json({ error: "Failed to fetch unmatched tokens" })
@@ -685,7 +521,7 @@ router.get("/unmatched-tokens/:outletId", async (req, res) => {
 
 
 // Skip current token
-router.post("/skip-token", async (req, res) => {
+router.post("/skip-token", requireOfficerSession, async (req, res) => {
   try {
     const { officerId, tokenId } = req.body
 
@@ -696,6 +532,13 @@ router.post("/skip-token", async (req, res) => {
 
     const token = await prisma.token.findUnique({ where: { id: tokenId } })
     if (!token) return res.status(404).json({ error: 'Token not found' })
+    const accessError = tokenAccessError(officer, token)
+    if (accessError) return res.status(403).json({ error: accessError })
+
+    // Manual skips of a called customer count towards the outlet's no-show rate
+    if (token.status === 'in_service' && !token.arrivedAt) {
+      await noShowService.recordEvent(token, 'skipped', 'manual')
+    }
 
     // mark token as skipped
     const skipped = await prisma.token.update({
@@ -727,7 +570,7 @@ router.post("/skip-token", async (req, res) => {
 
       // await sltSmsService.sendCustomerSkipped(skipped.customer.mobileNumber, {
       //   firstName,
-      //   tokenNumber: skipped.tokenNumber,
+      //   tokenNumber: displayToken(skipped),
       //   outletName: skipped.outlet?.name || 'SLT Office',
       //   recoveryUrl: trackingUrl
       // }, customerLang)
@@ -751,6 +594,83 @@ router.post("/skip-token", async (req, res) => {
   }
 })
 
+// Customer reached the counter; stops the no-show policy for this call
+router.post("/confirm-arrival", requireOfficerSession, async (req, res) => {
+  try {
+    const { officerId, tokenId } = req.body
+
+    if (!officerId || !tokenId) return res.status(400).json({ error: 'officerId and tokenId required' })
+
+    const officer = await prisma.officer.findUnique({ where: { id: officerId } })
+    if (!officer) return res.status(404).json({ error: 'Officer not found' })
+
+    const token = await prisma.token.findUnique({ where: { id: tokenId } })
+    if (!token) return res.status(404).json({ error: 'Token not found' })
+    const accessError = tokenAccessError(officer, token, true)
+    if (accessError) return res.status(403).json({ error: accessError })
+    if (token.status !== 'in_service') return res.status(400).json({ error: 'Only called tokens can be marked as arrived' })
+
+    const arrived = await prisma.token.update({
+      where: { id: tokenId },
+      data: { arrivedAt: token.arrivedAt || new Date() },
+      include: { customer: true, outlet: true },
+    })
+    broadcast({ type: 'TOKEN_UPDATED', data: arrived })
+
+    res.json({ success: true, token: arrived })
+  } catch (error) {
+    console.error('Confirm arrival error:', error)
+    res.status(500).json({ error: 'Failed to confirm arrival' })
+  }
+})
+
+// Let a customer step away (the token being served, or a waiting one) without losing their place
+router.post("/park-token", requireOfficerSession, async (req, res) => {
+  try {
+    const { officerId, tokenId, minutes } = req.body
+
+    if (!officerId || !tokenId) return res.status(400).json({ error: 'officerId and tokenId required' })
+
+    const officer = await prisma.officer.findUnique({ where: { id: officerId } })
+    if (!officer) return res.status(404).json({ error: 'Officer not found' })
+
+    const token = await prisma.token.findUnique({ where: { id: tokenId } })
+    if (!token) return res.status(404).json({ error: 'Token not found' })
+    const accessError = tokenAccessError(officer, token)
+    if (accessError) return res.status(403).json({ error: accessError })
+
+    const parked = await parkingService.park(tokenId, { actor: 'officer', minutes, officerId })
+    res.json({ success: true, token: parked })
+  } catch (error) {
+    if (error instanceof ParkingError) return res.status(error.status).json({ error: error.message })
+    console.error('Park token error:', error)
+    res.status(500).json({ error: 'Failed to park token' })
+  }
+})
+
+router.post("/resume-token", requireOfficerSession, async (req, res) => {
+  try {
+    const { officerId, tokenId } = req.body
+
+    if (!officerId || !tokenId) return res.status(400).json({ error: 'officerId and tokenId required' })
+
+    const officer = await prisma.officer.findUnique({ where: { id: officerId } })
+    if (!officer) return res.status(404).json({ error: 'Officer not found' })
+
+    const token = await prisma.token.findUnique({ where: { id: tokenId } })
+    if (!token) return res.status(404).json({ error: 'Token not found' })
+    const accessError = tokenAccessError(officer, token)
+    if (accessError) return res.status(403).json({ error: accessError })
+
+    const resumed = await parkingService.resume(tokenId, 'officer')
+    res.json({ success: true, token: resumed })
+  } catch (error) {
+    if (error instanceof ParkingError) return res.status(error.status).json({ error: error.message })
+    console.error('Resume token error:', error)
+    res.status(500).json({ error: 'Failed to resume token' })
+  }
+})
+
 // Re-announce current token (for central display)
 router.post("/reannounce-token", async (req, res) => {
   try {
@@ -777,6 +697,7 @@ router.post("/reannounce-token", async (req, res) => {
       type: 'TOKEN_CALLED',
       data: {
         ...token,
+        spokenNumber: spokenToken(token),
         customerLang,
         firstName,
         customerName: token.customer?.name || 'Customer',
@@ -796,6 +717,8 @@ router.post("/reannounce-token", async (req, res) => {
       timestamp: new Date().toISOString(),
       tokenData: {
         tokenNumber: String(token.tokenNumber),
+        displayNumber: displayToken(token),
+        spokenNumber: spokenToken(token),
         counterNumber: token.officer?.counterNumber || 0,
         customerName: firstName
       }
@@ -821,7 +744,7 @@ router.post("/reannounce-token", async (req, res) => {
 })
 
 // Recall skipped token
-router.post("/recall-token", async (req, res) => {
+router.post("/recall-token", requireOfficerSession, async (req, res) => {
   try {
     const { officerId, tokenId } = req.body
 
@@ -832,9 +755,11 @@ router.post("/recall-token", async (req, res) => {
 
     const token = await prisma.token.findUnique({ where: { id: tokenId } })
     if (!token) return res.status(404).json({ error: 'Token not found' })
+    const accessError = tokenAccessError(officer, token)
+    if (accessError) return res.status(403).json({ error: accessError })
     if (token.status !== 'skipped') return res.status(400).json({ error: 'Token is not skipped' })
 
-    // assign token back to officer
+    // assign token back to officer; a manual recall starts a fresh auto-recall allowance
     const recalled = await prisma.token.update({
       where: { id: tokenId },
       data: {
@@ -843,9 +768,13 @@ router.post("/recall-token", async (req, res) => {
         counterNumber: officer.counterNumber,
         calledAt: new Date(),
         startedAt: new Date(),
+        arrivedAt: null,
+        requeuedAfter: null,
+        recallCount: 0,
       },
       include: { customer: true, officer: true, outlet: true },
     })
+    await noShowService.recordEvent({ ...recalled, recallCount: token.recallCount }, 'recalled', 'manual')
 
     const firstName = recalled.customer.name.split(' ')[0]
     const trackingUrl = getTrackingUrl(recalled.id)
@@ -855,7 +784,7 @@ router.post("/recall-token", async (req, res) => {
     // This avoids delaying the recall response by 1-3 seconds
     sltSmsService.sendCustomerRecalled(recalled.customer.mobileNumber, {
       firstName,
-      tokenNumber: recalled.tokenNumber,
+      tokenNumber: displayToken(recalled),
       outletName: recalled.outlet?.name || "SLT Office",
       recoveryUrl: trackingUrl,
       counterNumber: recalled.counterNumber || undefined
@@ -871,6 +800,7 @@ router.post("/recall-token", async (req, res) => {
       type: "TOKEN_RECALLED",
       data: {
         ...recalled,
+        spokenNumber: spokenToken(recalled),
         customerLang,
         firstName,
         customerName: recalled.customer.name,
@@ -879,9 +809,9 @@ router.post("/recall-token", async (req, res) => {
 
     // Also trigger hardware IP speaker if configured
     let recallSpeech = ""
-    if (customerLang === "si") recallSpeech = `ටෝකන් අංක ${recalled.tokenNumber} නැවත කැඳවනු ලැබේ. කරුණාකර වහාම කවුන්ටර අංක ${recalled.counterNumber || 0} වෙත පැමිණෙන්න.`
-    else if (customerLang === "ta") recallSpeech = `அடையாள எண் ${recalled.tokenNumber} மீண்டும் அழைக்கப்படுகிறது. உடனடியாக கவுண்டர் ${recalled.counterNumber || 0} க்கு வரவும்.`
-    else recallSpeech = `Token number ${recalled.tokenNumber} is being recalled. Please proceed to counter number ${recalled.counterNumber || 0} immediately.`
+    if (customerLang === "si") recallSpeech = `ටෝකන් අංක ${spokenToken(recalled)} නැවත කැඳවනු ලැබේ. කරුණාකර වහාම කවුන්ටර අංක ${recalled.counterNumber || 0} වෙත පැමිණෙන්න.`
+    else if (customerLang === "ta") recallSpeech = `அடையாள எண் ${spokenToken(recalled)} மீண்டும் அழைக்கப்படுகிறது. உடனடியாக கவுண்டர் ${recalled.counterNumber || 0} க்கு வரவும்.`
+    else recallSpeech = `Token number ${spokenToken(recalled)} is being recalled. Please proceed to counter number ${recalled.counterNumber || 0} immediately.`
 
     announceToIpSpeaker(recalled.outletId, recallSpeech, customerLang)
 
@@ -898,6 +828,8 @@ router.post("/recall-token", async (req, res) => {
       timestamp: new Date().toISOString(),
       tokenData: {
         tokenNumber: String(recalled.tokenNumber),
+        displayNumber: displayToken(recalled),
+        spokenNumber: spokenToken(recalled),
         counterNumber: recalled.counterNumber || 0,
         customerName: firstName
       }
@@ -926,26 +858,40 @@ router.post("/recall-token", async (req, res) => {
 
 
 
-// Set token as VIP/Priority
-router.post("/set-priority", async (req, res) => {
+// Set token as VIP/Priority (optional priorityCategory code when turning it on)
+router.post("/set-priority", requireOfficerSession, async (req, res) => {
   try {
-    const { tokenId } = req.body
+    const { tokenId, priorityCategory, officerId } = req.body
 
     if (!tokenId) return res.status(400).json({ error: 'tokenId required' })
 
+    const officer = await prisma.officer.findUnique({ where: { id: officerId } })
+    if (!officer) return res.status(404).json({ error: 'Officer not found' })
+
     const token = await prisma.token.findUnique({ where: { id: tokenId } })
     if (!token) return res.status(404).json({ error: 'Token not found' })
+    const accessError = tokenAccessError(officer, token)
+    if (accessError) return res.status(403).json({ error: accessError })
+
+    // Staff set the category themselves, so no counter verification is pending
+    const claim = !token.isPriority ? await priorityService.resolveClaim(priorityCategory) : null
 
     // Update token to mark as priority
     const updated = await prisma.token.update({
       where: { id: tokenId },
       data: {
         isPriority: !token.isPriority, // Toggle priority status
+        ...(token.isPriority
+          ? { priorityCategoryId: null, priorityVerification: null, priorityVerifiedAt: null, priorityVerifiedBy: null }
+          : claim
+            ? { priorityCategoryId: claim.priorityCategoryId, priorityVerification: claim.priorityVerification ? 'verified' : null, priorityVerifiedAt: claim.priorityVerification ? new Date() : null, priorityVerifiedBy: claim.priorityVerification ? officer.id : null }
+            : {}),
       },
       include: {
         customer: true,
         outlet: true,
         officer: true,
+        priorityCategory: true,
       },
     })
 
@@ -954,14 +900,32 @@ router.post("/set-priority", async (req, res) => {
 
     res.json({ success: true, token: updated })
   } catch (error) {
+    if (error instanceof PriorityError) return res.status(error.status).json({ error: error.message })
     console.error('Set priority error details:', error)
     const errorMessage = error instanceof Error ? error.message : String(error)
     res.status(500).json({ error: 'Failed to set priority', details: errorMessage })
   }
 })
 
+// Accept or reject the priority category the customer claimed ({ verified: true|false })
+router.post("/verify-priority", requireOfficerSession, async (req, res) => {
+  try {
+    const { officerId, tokenId, verified } = req.body
+
+    if (!officerId || !tokenId) return res.status(400).json({ error: 'officerId and tokenId required' })
+    if (typeof verified !== 'boolean') return res.status(400).json({ error: 'verified must be true or false' })
+
+    const token = await priorityService.verify(tokenId, officerId, verified)
+    res.json({ success: true, token })
+  } catch (error) {
+    if (error instanceof PriorityError) return res.status(error.status).json({ error: error.message })
+    console.error('Verify priority error:', error)
+    res.status(500).json({ error: 'Failed to verify priority' })
+  }
+})
+
 // Call token to counter (for priority customers or any token)
-router.post("/call-token", async (req, res) => {
+router.post("/call-token", requireOfficerSession, async (req, res) => {
   try {
     const { officerId, tokenId } = req.body
 
@@ -975,31 +939,30 @@ router.post("/call-token", async (req, res) => {
       include: { customer: true, outlet: true }
     })
     if (!token) return res.status(404).json({ error: 'Token not found' })
+    const accessError = tokenAccessError(officer, token)
+    if (accessError) return res.status(403).json({ error: accessError })
 
     // Call token to counter (works for waiting or any status except completed)
     if (token.status === 'completed') {
       return res.status(400).json({ error: 'Cannot call completed token' })
     }
+    if (token.isRemote && !token.checkedInAt) {
+      return res.status(409).json({ error: 'This customer joined remotely and has not checked in at the outlet yet' })
+    }
 
-    // ATOMIC UPDATE: Ensure token is still waiting before calling it
-    const callResult = await prisma.token.updateMany({
-      where: { id: tokenId, status: 'waiting' },
-      data: {
-        status: 'in_service',
-        assignedTo: officerId,
-        counterNumber: officer.counterNumber,
-        calledAt: new Date(),
-        startedAt: new Date(),
-      },
-    })
+    // Record how this manual call relates to the dispatch order before the queue changes
+    const dispatchOfficer = await queueDispatcher.loadOfficer(officerId)
+    if (dispatchOfficer?.counterClosed) return res.status(409).json({ error: dispatchOfficer.counterClosed })
+    const dispatch = dispatchOfficer ? await queueDispatcher.explainToken(dispatchOfficer, token) : null
 
-    if (callResult.count === 0) {
+    // ATOMIC UPDATE: Ensure token is still waiting before calling it
+    if (!(await queueDispatcher.claimToken(tokenId, officer))) {
       return res.status(409).json({ error: 'This token is no longer waiting. It may have been called, skipped, or cancelled.' })
     }
 
     const called = await prisma.token.findUnique({
       where: { id: tokenId },
-      include: { customer: true, officer: true, outlet: true },
+      include: { customer: true, officer: true, outlet: true, priorityCategory: true },
     })
 
     if (!called) return res.status(404).json({ error: 'Token lost after calling' })
@@ -1016,7 +979,7 @@ router.post("/call-token", async (req, res) => {
     // Send SMS notification to customer (non-blocking, fire-and-forget)
     sltSmsService.sendCustomerCalled(called.customer.mobileNumber, {
       firstName,
-      tokenNumber: called.tokenNumber,
+      tokenNumber: displayToken(called),
       counterNumber: officer.counterNumber || 0,
       outletName: called.outlet?.name || 'SLT Office',
       recoveryUrl: trackingUrl
@@ -1026,7 +989,7 @@ router.post("/call-token", async (req, res) => {
     console.log(`✓ Call-to-counter SMS triggered for customer ${called.customer.mobileNumber} for token #${called.tokenNumber}`)
 
     // Broadcast update
-    broadcast({ type: 'TOKEN_CALLED', data: called })
+    broadcast({ type: 'TOKEN_CALLED', data: { ...called, spokenNumber: spokenToken(called) } })
 
     // Store TOKEN_CALLED event for APK HTTP polling fallback  
     const audioEvent = {
@@ -1042,6 +1005,8 @@ router.post("/call-token", async (req, res) => {
       timestamp: new Date().toISOString(),
       tokenData: {
         tokenNumber: String(called.tokenNumber),
+        displayNumber: displayToken(called),
+        spokenNumber: spokenToken(called),
         counterNumber: called.officer?.counterNumber || 0,
         customerName: "Customer"
       }
@@ -1059,7 +1024,7 @@ router.post("/call-token", async (req, res) => {
     
     console.log(`[HTTP_FALLBACK] TOKEN_CALLED (recall) event stored for APK polling: ${audioEvent.id} (outlet: ${audioEvent.outletId})`)
 
-    res.json({ success: true, token: called })
+    res.json({ success: true, token: called, dispatch })
   } catch (error) {
     console.error('Call token error:', error)
     const errorMessage = error instanceof Error ? error.message : String(error)
@@ -1068,7 +1033,7 @@ router.post("/call-token", async (req, res) => {
 })
 
 // Announce a transferred token to its target counter without changing ownership.
-router.post("/call-transferred-token", async (req, res) => {
+router.post("/call-transferred-token", requireOfficerSession, async (req, res) => {
   try {
     const { officerId, tokenId } = req.body
 
@@ -1085,6 +1050,8 @@ router.post("/call-transferred-token", async (req, res) => {
     })
 
     if (!token) return res.status(404).json({ error: 'Token not found' })
+    const accessError = tokenAccessError(officer, token)
+    if (accessError) return res.status(403).json({ error: accessError })
     if (token.status !== 'waiting') {
       return res.status(400).json({ error: 'Only waiting tokens can be called to counter' })
     }
@@ -1107,6 +1074,16 @@ router.post("/call-transferred-token", async (req, res) => {
       return res.status(400).json({ error: 'Transferred token has no target counter' })
     }
 
+    // Where the customer stands in the target counter's transfer-priority queue
+    const targetOfficer = await prisma.officer.findFirst({
+      where: { outletId: token.outletId, counterNumber: targetCounter, status: { in: ['available', 'serving'] } },
+      select: { id: true },
+    })
+    const dispatchOfficer = await queueDispatcher.loadOfficer(targetOfficer?.id || officerId)
+    const dispatch = dispatchOfficer
+      ? await queueDispatcher.explainToken({ ...dispatchOfficer, counterNumber: targetCounter }, token)
+      : null
+
     // Mark call timestamp for audit/visibility, keep token waiting for the target officer.
     const calledTransfer = await prisma.token.update({
       where: { id: token.id },
@@ -1133,7 +1110,7 @@ router.post("/call-transferred-token", async (req, res) => {
 
       await sltSmsService.sendCustomerCalled(calledTransfer.customer.mobileNumber, {
         firstName,
-        tokenNumber: calledTransfer.tokenNumber,
+        tokenNumber: displayToken(calledTransfer),
         counterNumber: targetCounter,
         outletName: calledTransfer.outlet?.name || 'SLT Office',
         recoveryUrl: trackingUrl,
@@ -1151,6 +1128,7 @@ router.post("/call-transferred-token", async (req, res) => {
       message: `Customer called to Counter ${targetCounter}`,
       token: calledTransfer,
       counterNumber: targetCounter,
+      dispatch,
     })
   } catch (error) {
     console.error('Call transferred token error:', error)
@@ -1160,19 +1138,27 @@ router.post("/call-transferred-token", async (req, res) => {
 })
 
 // Complete service
-router.post("/complete-service", async (req, res) => {
+router.post("/complete-service", requireOfficerSession, async (req, res) => {
   try {
     const { tokenId, officerId, accountRef, customerName, customerMobile, customerEmail } = req.body
 
+    if (!tokenId) return res.status(400).json({ error: "tokenId required" })
+
+    const officer = await prisma.officer.findUnique({ where: { id: officerId } })
+    if (!officer) return res.status(404).json({ error: "Officer not found" })
+
     // Check if token is already completed to prevent double-completion
     const existingToken = await prisma.token.findUnique({ where: { id: tokenId } })
-    if (existingToken?.status === "completed") {
+    if (!existingToken) return res.status(404).json({ error: "Token not found" })
+    if (existingToken.status === "completed") {
       return res.status(400).json({ error: "Token is already completed" })
     }
+    const accessError = tokenAccessError(officer, existingToken, true)
+    if (accessError) return res.status(403).json({ error: accessError })
 
     // Update Customer details if provided
     if (customerName || customerMobile || customerEmail) {
-      if (existingToken?.customerId) {
+      if (existingToken.customerId) {
         await prisma.customer.update({
           where: { id: existingToken.customerId },
           data: {
@@ -1184,6 +1170,55 @@ router.post("/complete-service", async (req, res) => {
       }
     }
 
+    // Journey tokens move on to their next step; only the last step closes the token
+    const journeyStep = await journeyService.hasJourney(tokenId)
+      ? await journeyService.completeCurrentStep(tokenId, officerId)
+      : null
+    if (journeyStep?.nextStep) {
+      const nextStep = journeyStep.nextStep
+      const requeued = await prisma.token.findUnique({
+        where: { id: tokenId },
+        include: { customer: true, outlet: true },
+      })
+      await prisma.officer.update({ where: { id: officerId }, data: { status: "available" } })
+
+      broadcast({ type: "TOKEN_UPDATED", data: requeued })
+      broadcast({ type: "OFFICER_STATUS_CHANGE", data: { officerId, status: "available", timestamp: new Date().toISOString() } })
+
+      const serviceCase = await prisma.serviceCase.findFirst({ where: { tokenId } })
+      if (serviceCase) {
+        await prisma.serviceCaseUpdate.create({
+          data: {
+            caseId: serviceCase.id,
+            actorRole: "officer",
+            actorId: officerId,
+            status: "transferred",
+            note: `Step ${journeyStep.completedStep.stepNumber} of ${journeyStep.totalSteps} completed; moved to the next step`,
+          }
+        })
+      }
+
+      // Tell the customer where to go next
+      try {
+        const nextService = await prisma.service.findUnique({ where: { code: nextStep.serviceCode }, select: { title: true } })
+        const prefs = toStringArray(existingToken.preferredLanguages)
+        const firstPref = String(prefs[0] || 'en').toLowerCase()
+        const lang = (['en', 'si', 'ta'].includes(firstPref) ? firstPref : 'en') as 'en' | 'si' | 'ta'
+        await sltSmsService.sendTokenTransfer(requeued!.customer.mobileNumber, {
+          tokenNumber: displayToken(requeued!),
+          outletName: requeued!.outlet?.name || "SLT Office",
+          serviceNames: nextService?.title || nextStep.serviceCode,
+          targetCounterNumber: nextStep.counterNumber ?? undefined,
+          recoveryUrl: getTrackingUrl(tokenId),
+          refNumber: serviceCase?.refNumber || undefined,
+        }, lang)
+      } catch (smsError) {
+        console.error("Journey next-step SMS failed:", smsError)
+      }
+
+      return res.json({ success: true, token: requeued, requeued: true, journey: await journeyService.describe(tokenId) })
+    }
+
     const token = await prisma.token.update({
       where: { id: tokenId },
       data: {
@@ -1262,8 +1297,9 @@ router.post("/complete-service", async (req, res) => {
       completedRef = serviceCase.refNumber
 
       // Automatically create CompletedService records for the completed token's services
+      // (journey steps already recorded theirs as each step finished)
       const tokenServiceCodes = Array.isArray((token as any).serviceTypes) ? (token as any).serviceTypes : []
-      if (tokenServiceCodes.length > 0) {
+      if (tokenServiceCodes.length > 0 && !journeyStep) {
         try {
           const tm = await prisma.teleshopManager.findFirst({
             where: { branchId: token.outletId }
@@ -1344,7 +1380,7 @@ router.post("/complete-service", async (req, res) => {
           // Send bill payment confirmation SMS with payment details
           await sltSmsService.sendBillPaymentConfirmation(token.customer.mobileNumber, {
             firstName,
-            tokenNumber: token.tokenNumber,
+            tokenNumber: displayToken(token),
             outletName: token.outlet?.name || 'SLT Office',
             refNumber: serviceCase.refNumber,
             paymentIntent: (token as any).billPaymentIntent || 'not_specified',
@@ -1357,7 +1393,7 @@ router.post("/complete-service", async (req, res) => {
         } else {
           await sltSmsService.sendServiceCompletion(token.customer.mobileNumber, {
             firstName,
-            tokenNumber: token.tokenNumber,
+            tokenNumber: displayToken(token),
             refNumber: serviceCase.refNumber,
             services,
             feedbackUrl,
@@ -1414,13 +1450,14 @@ router.post("/complete-service", async (req, res) => {
       return res.json({ success: true, token, refNumber: null, trackRef: null, trackUrl: null })
     }
   } catch (error) {
+    if (error instanceof JourneyError) return res.status(error.status).json({ error: error.message })
     console.error("Complete service error:", error)
     res.status(500).json({ error: "Failed to complete service" })
   }
 })
 
 // Transfer current customer to another service/counter (keeps service open until final closure)
-router.post("/transfer-token", async (req, res) => {
+router.post("/transfer-token", requireOfficerSession, async (req, res) => {
   console.log("[Transfer] Received request body:", JSON.stringify(req.body, null, 2))
   try {
     const { officerId, tokenId, newServiceTypes, targetCounterNumber, notes } = req.body
@@ -1446,8 +1483,23 @@ router.post("/transfer-token", async (req, res) => {
       return res.status(404).json({ error: "Token not found" })
     }
 
+    const accessError = tokenAccessError(officer, originalToken)
+    if (accessError) {
+      console.warn(`[Transfer] Officer ${officerId} denied on token ${tokenId}: ${accessError}`)
+      return res.status(403).json({ error: accessError })
+    }
+
     console.log(`[Transfer] Found original token #${originalToken.tokenNumber} for customer ${originalToken.customer.name}`)
 
+    if (targetCounterNumber) {
+      const targetCounter = await counterService.getCounter(originalToken.outletId, Number(targetCounterNumber))
+      if (!targetCounter) return res.status(400).json({ error: `Counter #${targetCounterNumber} does not exist at this outlet` })
+      if (!targetCounter.isOpen) return res.status(409).json({ error: `Counter #${targetCounter.number} is closed` })
+      if (!counterHandles(targetCounter, newServiceTypes)) {
+        return res.status(400).json({ error: `Counter #${targetCounter.number} only handles ${targetCounter.allowedServices.join(', ')}` })
+      }
+    }
+
     // Execute transfer in a transaction with extended timeout to prevent expiration
     const txStart = Date.now()
     const result = await prisma.$transaction(async (tx) => {
@@ -1462,6 +1514,7 @@ router.post("/transfer-token", async (req, res) => {
           status: "waiting", // Put back in waiting queue for new officer to pick up
           assignedTo: null, // Unassign from current officer
           isPriority: true, // Priority for faster service
+          priorityFromClaim: false, // Now priority as a transfer, whatever happens to a pending claim
           isTransferred: true, // Mark as transferred for tracking
           // Keep completedAt as null - service is NOT closed
           // Keep accountRef unchanged - no "transferred" marker on same token
@@ -1573,7 +1626,7 @@ router.post("/transfer-token", async (req, res) => {
 
       const outlet = result.updatedToken.outlet?.name || "SLT Office"
       await sltSmsService.sendTokenTransfer(result.updatedToken.customer.mobileNumber, {
-        tokenNumber: result.updatedToken.tokenNumber,
+        tokenNumber: displayToken(result.updatedToken),
         outletName: outlet,
         serviceNames: serviceNames,
         targetCounterNumber: targetCounterNumber ? Number(targetCounterNumber) : undefined,
@@ -1597,6 +1650,53 @@ router.post("/transfer-token", async (req, res) => {
   }
 })
 
+// Plan a multi-step journey for a token (replaces manual transfers between the steps)
+router.post("/journey/plan", requireOfficerSession, async (req, res) => {
+  try {
+    const { officerId, tokenId, steps } = req.body
+
+    if (!officerId || !tokenId) return res.status(400).json({ error: "officerId and tokenId required" })
+
+    const officer = await prisma.officer.findUnique({ where: { id: officerId } })
+    if (!officer) return res.status(404).json({ error: "Officer not found" })
+
+    const token = await prisma.token.findUnique({ where: { id: tokenId } })
+    if (!token) return res.status(404).json({ error: "Token not found" })
+    const accessError = tokenAccessError(officer, token)
+    if (accessError) return res.status(403).json({ error: accessError })
+
+    const stepError = await journeyService.validateSteps(steps)
+    if (stepError) return res.status(400).json({ error: stepError })
+
+    await journeyService.planJourney(tokenId, steps)
+    const updated = await prisma.token.findUnique({ where: { id: tokenId }, include: { customer: true, outlet: true } })
+    broadcast({ type: "TOKEN_UPDATED", data: updated })
+
+    res.json({ success: true, token: updated, journey: await journeyService.describe(tokenId) })
+  } catch (error) {
+    if (error instanceof JourneyError) return res.status(error.status).json({ error: error.message })
+    console.error("Plan journey error:", error)
+    res.status(500).json({ error: "Failed to plan journey" })
+  }
+})
+
+router.get("/journey/:tokenId", requireOfficerSession, async (req, res) => {
+  try {
+    const officer = await prisma.officer.findUnique({ where: { id: req.auth!.userId } })
+    if (!officer) return res.status(404).json({ error: "Officer not found" })
+    const token = await prisma.token.findUnique({ where: { id: req.params.tokenId } })
+    if (!token) return res.status(404).json({ error: "Token not found" })
+    if (token.outletId !== officer.outletId) return res.status(403).json({ error: "Token belongs to another outlet" })
+
+    const journey = await journeyService.describe(req.params.tokenId)
+    if (!journey) return res.status(404).json({ error: "Token has no journey" })
+    res.json({ journey })
+  } catch (error) {
+    console.error("Fetch journey error:", error)
+    res.status(500).json({ error: "Failed to fetch journey" })
+  }
+})
+
 // Update officer status (break, resume, logout)
 router.post("/status", async (req, res) => {
   try {
@@ -1705,7 +1805,9 @@ router.post("/status", async (req, res) => {
       }
     })
 
-    res.json({ success: true, officer })
+    const counterConflict = status === 'available' ? await counterService.reportClaimConflict(officer) : null
+
+    res.json({ success: true, officer, counterConflict })
   } catch (error) {
     console.error("Status update error:", error)
     res.status(500).json({ error: "Failed to update status" })
@@ -1713,7 +1815,7 @@ router.post("/status", async (req, res) => {
 })
 
 // Start a break
-router.post("/break/start", async (req, res) => {
+router.post("/break/start", requireOfficerSession, async (req, res) => {
   try {
     const { officerId } = req.body
 
@@ -1799,7 +1901,7 @@ router.post("/break/start", async (req, res) => {
 })
 
 // End a break
-router.post("/break/end", async (req, res) => {
+router.post("/break/end", requireOfficerSession, async (req, res) => {
   try {
     const { officerId } = req.body
 
@@ -2001,12 +2103,8 @@ router.get("/dashboard-combined", async (req, res) => {
     }
     if (!token) return res.status(401).json({ error: "Not authenticated" })
 
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload: any = await sessionService.verifyAccessToken(token)
+    if (!payload) return res.status(401).json({ error: "Invalid token" })
 
     const { officerId } = payload
     const today = new Date()
@@ -2072,7 +2170,7 @@ router.get("/dashboard-combined", async (req, res) => {
           status: { in: ["waiting", "skipped"] },
           createdAt: { gte: lastReset },
         },
-        orderBy: { tokenNumber: "asc" },
+        orderBy: { createdAt: "asc" },
         include: { customer: true },
         take: 50
       }),
@@ -2250,12 +2348,8 @@ router.get("/me", async (req, res) => {
 
     if (!token) return res.status(401).json({ error: "Not authenticated" })
 
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload: any = await sessionService.verifyAccessToken(token)
+    if (!payload) return res.status(401).json({ error: "Invalid token" })
 
     const officer = await prisma.officer.findUnique({ where: { id: payload.officerId }, include: { outlet: true } })
     if (!officer) return res.status(404).json({ error: "Officer not found" })
@@ -2517,12 +2611,8 @@ router.post("/service-case/update", async (req, res) => {
 
     if (!token) return res.status(401).json({ error: "Not authenticated" })
 
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload: any = await sessionService.verifyAccessToken(token)
+    if (!payload) return res.status(401).json({ error: "Invalid token" })
 
     const officerId = payload.officerId
     const { refNumber, note } = req.body || {}
@@ -2568,8 +2658,8 @@ router.post("/service-case/complete", async (req, res) => {
     }
     if (!token) return res.status(401).json({ error: 'Not authenticated' })
 
-    let payload: any
-    try { payload = (jwt as any).verify(token, JWT_SECRET) } catch { return res.status(401).json({ error: 'Invalid token' }) }
+    const payload: any = await sessionService.verifyAccessToken(token)
+    if (!payload) return res.status(401).json({ error: 'Invalid token' })
 
     const officerId = payload.officerId
     const { refNumber, note } = req.body || {}
@@ -2615,12 +2705,8 @@ router.get("/service-case/*", async (req, res) => {
     }
     if (!token) return res.status(401).json({ error: "Not authenticated" })
 
-    let payload: any
-    try {
-      payload = (jwt as any).verify(token, JWT_SECRET)
-    } catch (e) {
-      return res.status(401).json({ error: "Invalid token" })
-    }
+    const payload: any = await sessionService.verifyAccessToken(token)
+    if (!payload) return res.status(401).json({ error: "Invalid token" })
 
     const officerId = payload.officerId
 
@@ -2726,6 +2812,7 @@ router.get("/service-case/*", async (req, res) => {
         token: tok ? {
           id: tok.id,
           tokenNumber: tok.tokenNumber,
+          displayNumber: displayToken(tok),
           isPriority: tok.isPriority,
           isTransferred: tok.isTransferred,
           preferredLanguages: tok.preferredLanguages,
@@ -2782,40 +2869,30 @@ router.get("/service-case/*", async (req, res) => {
 // Logout: clear cookie
 router.post("/logout", async (req, res) => {
   try {
-    // Try to set officer status to offline based on JWT cookie
-    let token = req.cookies?.dq_jwt
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (token) {
+    // Revoke the session, then set officer status to offline based on its JWT
+    const payload: any = await sessionService.revokeFromRequest(req, 'officer')
+    if (payload?.officerId) {
       try {
-        const payload: any = (jwt as any).verify(token, JWT_SECRET)
-        if (payload?.officerId) {
-          await prisma.officer.update({
-            where: { id: payload.officerId },
-            data: { status: 'offline' },
-          })
+        await prisma.officer.update({
+          where: { id: payload.officerId },
+          data: { status: 'offline' },
+        })
 
-          // Broadcast status change for real-time updates
-          broadcast({
-            type: "OFFICER_STATUS_CHANGE",
-            data: {
-              officerId: payload.officerId,
-              status: "offline",
-              timestamp: new Date().toISOString()
-            }
-          })
-        }
+        // Broadcast status change for real-time updates
+        broadcast({
+          type: "OFFICER_STATUS_CHANGE",
+          data: {
+            officerId: payload.officerId,
+            status: "offline",
+            timestamp: new Date().toISOString()
+          }
+        })
       } catch (e) {
-        // ignore invalid/expired token
+        // ignore officers removed since the token was issued
       }
     }
 
-    res.clearCookie("dq_jwt", { path: "/" })
+    sessionService.clearSessionCookies(res, 'officer')
     res.json({ success: true })
   } catch (error) {
     console.error("Logout error:", error)
@@ -2831,13 +2908,10 @@ async function getOfficerFromRequest(req: any): Promise<any | null> {
     if (authHeader && authHeader.startsWith("Bearer ")) token = authHeader.substring(7)
   }
   if (!token) return null
-  try {
-    const payload: any = (jwt as any).verify(token, JWT_SECRET)
-    const officer = await prisma.officer.findUnique({ where: { id: payload.officerId } })
-    return officer || null
-  } catch {
-    return null
-  }
+  const payload: any = await sessionService.verifyAccessToken(token)
+  if (!payload?.officerId) return null
+  const officer = await prisma.officer.findUnique({ where: { id: payload.officerId } })
+  return officer || null
 }
 
 // Branch Notices — officer can only view notices for their outlet
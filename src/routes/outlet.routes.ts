@@ -9,6 +9,7 @@
 import express, { Request, Response } from "express"
 import { PrismaClient } from "@prisma/client"
 import { wsManager, OUTLET_DEVICES_ROOM } from "../services/wsManager"
+import deviceKeyService, { requireDeviceKey } from "../services/deviceKeyService"
 
 const router = express.Router()
 const prisma = new PrismaClient()
@@ -216,11 +217,50 @@ router.delete("/unlink-device", async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * POST /api/outlet/device-key/claim
+ * One-time pickup of the device API key issued at link time, for APKs that
+ * were not connected over WebSocket when the manager approved them.
+ * The pairing code is the setup code / QR session id the device displayed.
+ */
+router.post("/device-key/claim", async (req: Request, res: Response) => {
+  try {
+    const { deviceId, pairingCode } = req.body
+
+    if (!deviceId || !pairingCode) {
+      return res.status(400).json({
+        error: "Missing required fields: deviceId and pairingCode are required"
+      })
+    }
+
+    const deviceKey = await deviceKeyService.claimPendingKey(String(deviceId), String(pairingCode))
+    if (!deviceKey) {
+      return res.status(404).json({
+        error: "No device key waiting for pickup",
+        action: "relink_required"
+      })
+    }
+
+    res.setHeader("Cache-Control", "no-store")
+    res.json({
+      success: true,
+      deviceKey
+    })
+
+  } catch (error: any) {
+    console.error("❌ Device key claim error:", error)
+    res.status(500).json({
+      error: "Failed to claim device key",
+      details: error.message
+    })
+  }
+})
+
 /**
  * POST /api/outlet/heartbeat
  * Update device heartbeat/lastSeen timestamp
  */
-router.post("/heartbeat", async (req: Request, res: Response) => {
+router.post("/heartbeat", requireDeviceKey({ deviceId: req => req.body?.deviceId }), async (req: Request, res: Response) => {
   try {
     const { deviceId } = req.body
 
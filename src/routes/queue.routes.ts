@@ -1,7 +1,10 @@
 import { Router } from "express"
 import { prisma, broadcast } from "../server"
 import { getLastDailyReset } from "../utils/resetWindow"
-import * as jwt from "jsonwebtoken"
+import { validateOutletCode, validateTokenFormat } from "../utils/tokenFormat"
+import counterService from "../services/counterService"
+import priorityService, { PriorityError } from "../services/priorityService"
+import { authorize, optionalStaff } from "../services/accessControl"
 
 const router = Router()
 const PRIORITY_SERVICE_SETTING_KEY = 'priority_service_enabled'
@@ -13,23 +16,6 @@ const BILL_ENQUIRY_RATE_LIMIT_KEY = 'bill_enquiry_rate_limit_enabled'
 const SHOW_QUEUE_POSITION_KEY = 'show_queue_position'
 const SHOW_WAIT_TIME_KEY = 'show_wait_time'
 
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret"
-
-// GM Token verification function (shared from gm.routes.ts)
-function verifyGMToken(req: any): { gmId: string } | null {
-    let token = req.cookies?.dq_gm_jwt
-    if (!token) {
-        const authHeader = req.headers.authorization
-        if (authHeader && authHeader.startsWith("Bearer ")) token = authHeader.substring(7)
-    }
-    if (!token) return null
-    try {
-        const payload: any = jwt.verify(token, JWT_SECRET)
-        if (!payload.gmId) return null
-        return { gmId: payload.gmId }
-    } catch { return null }
-}
-
 async function getPriorityServiceEnabled() {
   const rows = await prisma.$queryRaw<{ booleanValue: boolean | null }[]>`
     SELECT "booleanValue"
@@ -85,7 +71,7 @@ router.get("/outlet/:outletId", async (req, res) => {
     const [waitingTokens, inServiceTokens, availableOfficers, recentlyCalledTokens] = await Promise.all([
       prisma.token.findMany({
         where: waitingTokensFilter,
-        orderBy: { tokenNumber: "asc" },
+        orderBy: { createdAt: "asc" },
         include: { customer: true },
       }),
       prisma.token.findMany({
@@ -176,7 +162,7 @@ router.get("/outlet/:outletId", async (req, res) => {
 router.get("/outlets", async (req, res) => {
   try {
     // Check for GM authentication and apply regional filtering
-    const gmAuth = verifyGMToken(req)
+    const gmAuth = await optionalStaff(req, ['gm'])
     let whereClause: any = { isActive: true }
 
     console.log('Queue outlets request - GM auth:', gmAuth ? 'authenticated' : 'not authenticated')
@@ -184,7 +170,7 @@ router.get("/outlets", async (req, res) => {
     if (gmAuth) {
       // GM user - enforce regional filtering
       const gm = await prisma.gM.findUnique({
-        where: { id: gmAuth.gmId },
+        where: { id: gmAuth.userId },
         select: { regionId: true }
       })
       
@@ -225,12 +211,12 @@ router.get("/outlets", async (req, res) => {
     console.error("Outlets fetch error:", error)
     // Try without the region include as fallback
     try {
-      const gmAuth = verifyGMToken(req)
+      const gmAuth = await optionalStaff(req, ['gm'])
       let whereClause: any = { isActive: true }
       
       if (gmAuth) {
         const gm = await prisma.gM.findUnique({
-          where: { id: gmAuth.gmId },
+          where: { id: gmAuth.userId },
           select: { regionId: true }
         })
         if (gm?.regionId) {
@@ -322,8 +308,8 @@ router.get('/services', async (req, res) => {
     const outletId = req.query.outletId as string | undefined
 
     let services = showAll
-      ? await prisma.$queryRaw`SELECT "id","code","title","description","isActive","order","isPriorityService","requireOtp","createdAt" FROM "Service" ORDER BY "order" ASC, "createdAt" ASC` as any[]
-      : await prisma.$queryRaw`SELECT "id","code","title","description","isActive","order","isPriorityService","requireOtp","createdAt" FROM "Service" WHERE "isActive" = true ORDER BY "order" ASC, "createdAt" ASC` as any[]
+      ? await prisma.$queryRaw`SELECT "id","code","title","description","isActive","order","isPriorityService","requireOtp","tokenPrefix","tokenPadding","tokenShowOutletCode","createdAt" FROM "Service" ORDER BY "order" ASC, "createdAt" ASC` as any[]
+      : await prisma.$queryRaw`SELECT "id","code","title","description","isActive","order","isPriorityService","requireOtp","tokenPrefix","tokenPadding","tokenShowOutletCode","createdAt" FROM "Service" WHERE "isActive" = true ORDER BY "order" ASC, "createdAt" ASC` as any[]
 
     if (outletId) {
       const overrides = await prisma.outletServiceSetting.findMany({
@@ -381,6 +367,63 @@ router.patch('/settings/priority-service', async (req, res) => {
   }
 })
 
+// --- Priority categories (senior citizen, differently abled, ...) ---
+
+router.get('/priority-categories', async (req, res) => {
+  try {
+    const categories = await priorityService.listCategories(req.query.all === 'true')
+    res.set('Cache-Control', 'no-store')
+    res.json(categories)
+  } catch (error) {
+    console.error('Priority categories fetch error:', error)
+    res.status(500).json({ error: 'Failed to fetch priority categories' })
+  }
+})
+
+router.post('/priority-categories', authorize({ roles: ['admin', 'gm'] }), async (req, res) => {
+  try {
+    const { code, name, weight, requiresVerification, verificationHint, hourlyQuota, isActive, order } = req.body || {}
+    const input = { code, name, weight, requiresVerification, verificationHint, hourlyQuota, isActive, order }
+    const validationError = priorityService.validateInput(input, true)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const category = await priorityService.createCategory(input)
+    res.json({ success: true, category })
+  } catch (error) {
+    if (error instanceof PriorityError) return res.status(error.status).json({ error: error.message })
+    console.error('Create priority category error:', error)
+    res.status(500).json({ error: 'Failed to create priority category' })
+  }
+})
+
+router.patch('/priority-categories/:id', authorize({ roles: ['admin', 'gm'] }), async (req, res) => {
+  try {
+    const { code, name, weight, requiresVerification, verificationHint, hourlyQuota, isActive, order } = req.body || {}
+    const input = { code, name, weight, requiresVerification, verificationHint, hourlyQuota, isActive, order }
+    const validationError = priorityService.validateInput(input, false)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const category = await priorityService.updateCategory(req.params.id, input)
+    res.json({ success: true, category })
+  } catch (error) {
+    if (error instanceof PriorityError) return res.status(error.status).json({ error: error.message })
+    console.error('Update priority category error:', error)
+    res.status(500).json({ error: 'Failed to update priority category' })
+  }
+})
+
+// Unused categories are deleted; categories already on tokens are deactivated so reports keep them
+router.delete('/priority-categories/:id', authorize({ roles: ['admin', 'gm'] }), async (req, res) => {
+  try {
+    const result = await priorityService.deleteCategory(req.params.id)
+    res.json({ success: true, ...result })
+  } catch (error) {
+    if (error instanceof PriorityError) return res.status(error.status).json({ error: error.message })
+    console.error('Delete priority category error:', error)
+    res.status(500).json({ error: 'Failed to delete priority category' })
+  }
+})
+
 router.get('/settings/show-service-type', async (_req, res) => {
   try {
     const rows = await prisma.$queryRaw<{ booleanValue: boolean | null }[]>`
@@ -579,19 +622,21 @@ router.patch('/settings/otp-verification', async (req, res) => {
 // Create service
 router.post('/services', async (req, res) => {
   try {
-    const { code, title, description, order, isPriorityService, requireOtp } = req.body
+    const { code, title, description, order, isPriorityService, requireOtp, tokenPrefix, tokenPadding, tokenShowOutletCode } = req.body
     if (!code || !title) return res.status(400).json({ error: 'code and title are required' })
+    const formatError = validateTokenFormat({ tokenPrefix, tokenPadding, tokenShowOutletCode })
+    if (formatError) return res.status(400).json({ error: formatError })
 
     const orderValue = order !== undefined ? order : 999
     const priorityValue = isPriorityService === true
     const requireOtpValue = requireOtp === true
 
     const service = await prisma.$executeRaw`
-      INSERT INTO "Service" ("id","code","title","description","order","isActive","isPriorityService","requireOtp","createdAt")
-      VALUES (gen_random_uuid()::text, ${code}, ${title}, ${description || null}, ${orderValue}, true, ${priorityValue}, ${requireOtpValue}, now())`
+      INSERT INTO "Service" ("id","code","title","description","order","isActive","isPriorityService","requireOtp","tokenPrefix","tokenPadding","tokenShowOutletCode","createdAt")
+      VALUES (gen_random_uuid()::text, ${code}, ${title}, ${description || null}, ${orderValue}, true, ${priorityValue}, ${requireOtpValue}, ${tokenPrefix || null}, ${tokenPadding ?? 3}, ${tokenShowOutletCode === true}, now())`
 
     // return created row
-    const created = await prisma.$queryRaw`SELECT "id","code","title","description","isActive","order","isPriorityService","requireOtp","createdAt" FROM "Service" WHERE "code" = ${code} LIMIT 1` as any[]
+    const created = await prisma.$queryRaw`SELECT "id","code","title","description","isActive","order","isPriorityService","requireOtp","tokenPrefix","tokenPadding","tokenShowOutletCode","createdAt" FROM "Service" WHERE "code" = ${code} LIMIT 1` as any[]
     
     // Broadcast updates to clients
     broadcast({ type: "SERVICES_UPDATED", data: created[0] })
@@ -608,7 +653,9 @@ router.post('/services', async (req, res) => {
 router.patch('/services/:id', async (req, res) => {
   try {
     const { id } = req.params
-    const { title, description, isActive, order, isPriorityService, requireOtp } = req.body
+    const { title, description, isActive, order, isPriorityService, requireOtp, tokenPrefix, tokenPadding, tokenShowOutletCode } = req.body
+    const formatError = validateTokenFormat({ tokenPrefix, tokenPadding, tokenShowOutletCode })
+    if (formatError) return res.status(400).json({ error: formatError })
 
     // build update query dynamically
     const data: any = {}
@@ -618,6 +665,10 @@ router.patch('/services/:id', async (req, res) => {
     if (order !== undefined) data.order = order
     if (isPriorityService !== undefined) data.isPriorityService = isPriorityService
     if (requireOtp !== undefined) data.requireOtp = requireOtp
+    // Format changes apply to tokens issued from now on; issued tokens keep their displayNumber
+    if (tokenPrefix !== undefined) data.tokenPrefix = tokenPrefix || null
+    if (tokenPadding !== undefined) data.tokenPadding = tokenPadding
+    if (tokenShowOutletCode !== undefined) data.tokenShowOutletCode = tokenShowOutletCode
 
     // use prisma.$executeRaw for simplicity
     const sets = Object.keys(data).map((k, idx) => `"${k}" = $${idx + 2}`).join(', ')
@@ -660,12 +711,14 @@ router.delete('/services/:id', async (req, res) => {
 // Create a new outlet (branch)
 router.post('/outlets', async (req, res) => {
   try {
-    const { name, location, regionId, provinceId, counterCount } = req.body
+    const { name, location, regionId, provinceId, counterCount, code } = req.body
     
     // Support both old (regionId) and new (provinceId) approaches
     if (!name || !location) {
       return res.status(400).json({ error: 'name and location are required' })
     }
+    const codeError = validateOutletCode(code)
+    if (codeError) return res.status(400).json({ error: codeError })
 
     let finalRegionId = regionId
     let finalProvinceId = provinceId
@@ -698,7 +751,8 @@ router.post('/outlets', async (req, res) => {
         regionId: finalRegionId, 
         provinceId: finalProvinceId,
         isActive: true, 
-        counterCount: counterCount ?? 0 
+        counterCount: counterCount ?? 0,
+        code: code || null
       }
     })
 
@@ -726,7 +780,8 @@ router.post('/outlets', async (req, res) => {
         generatedAt
       }
     })
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.code === 'P2002') return res.status(409).json({ error: 'Another outlet already uses this code' })
     console.error('Create outlet error:', error)
     res.status(500).json({ error: 'Failed to create outlet' })
   }
@@ -736,13 +791,16 @@ router.post('/outlets', async (req, res) => {
 router.patch('/outlets/:id', async (req, res) => {
   try {
     const { id } = req.params
-    const { name, location, regionId, provinceId, isActive, counterCount } = req.body
+    const { name, location, regionId, provinceId, isActive, counterCount, code } = req.body
+    const codeError = validateOutletCode(code)
+    if (codeError) return res.status(400).json({ error: codeError })
 
     const data: any = {}
     if (name !== undefined) data.name = name
     if (location !== undefined) data.location = location
     if (isActive !== undefined) data.isActive = isActive
     if (counterCount !== undefined) data.counterCount = counterCount
+    if (code !== undefined) data.code = code || null
     
     // Handle region/province updates
     if (provinceId !== undefined) {
@@ -769,8 +827,10 @@ router.patch('/outlets/:id', async (req, res) => {
     }
 
     const outlet = await prisma.outlet.update({ where: { id }, data })
+    if (counterCount !== undefined && counterCount !== null) await counterService.resizeCounters(id, Number(counterCount))
     res.json({ success: true, outlet })
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.code === 'P2002') return res.status(409).json({ error: 'Another outlet already uses this code' })
     console.error('Update outlet error:', error)
     res.status(500).json({ error: 'Failed to update outlet' })
   }
@@ -788,79 +848,15 @@ router.delete('/outlets/:id', async (req, res) => {
   }
 })
 
-// Get all counters and their current officer status for an outlet
+// Get all counters (capabilities, open/closed) and their current officer status for an outlet
 router.get("/outlet/:outletId/counters", async (req, res) => {
   try {
     const { outletId } = req.params
 
-    // Get outlet to know total counters
-    const outlet = await prisma.outlet.findUnique({
-      where: { id: outletId },
-      select: { counterCount: true }
-    })
-
+    const outlet = await prisma.outlet.findUnique({ where: { id: outletId }, select: { id: true } })
     if (!outlet) return res.status(404).json({ error: "Outlet not found" })
 
-    // Get all officers in this outlet (including offline ones with counter assignments)
-    const lastReset = getLastDailyReset()
-    const allOfficers = await prisma.officer.findMany({
-      where: {
-        outletId
-      },
-      select: {
-        id: true,
-        name: true,
-        counterNumber: true,
-        status: true,
-        lastLoginAt: true,
-        assignedServices: true
-      }
-    })
-
-    // Filter officers based on activity and counter assignment
-    const activeOfficers = allOfficers.filter(officer => {
-      // Include officers if they have a counter assignment OR are active
-      return officer.counterNumber !== null || 
-             (officer.status !== "offline" && 
-              officer.lastLoginAt && 
-              officer.lastLoginAt >= lastReset)
-    })
-
-    const counters = []
-    const totalCount = outlet.counterCount || 10
-
-    for (let i = 1; i <= totalCount; i++) {
-      const officer = activeOfficers.find(o => o.counterNumber === i)
-      counters.push({
-        number: i,
-        isStaffed: !!officer,
-        officer: officer ? {
-          id: officer.id,
-          name: officer.name,
-          status: officer.status,
-          services: officer.assignedServices
-        } : null
-      })
-    }
-
-    // Also include officers whose counterNumber is null or outside the configured range
-    const slottedIds = new Set(activeOfficers.filter(o => o.counterNumber && o.counterNumber >= 1 && o.counterNumber <= totalCount).map(o => o.id))
-    for (const officer of activeOfficers) {
-      if (!slottedIds.has(officer.id)) {
-        counters.push({
-          number: null,
-          isStaffed: true,
-          officer: {
-            id: officer.id,
-            name: officer.name,
-            status: officer.status,
-            services: officer.assignedServices
-          }
-        })
-      }
-    }
-
-    res.json(counters)
+    res.json(await counterService.listCounters(outletId))
   } catch (error) {
     console.error("Fetch counters error:", error)
     res.status(500).json({ error: "Failed to fetch counters" })
@@ -1,5 +1,6 @@
 import { Router } from "express"
 import { prisma } from "../server"
+import { displayToken } from "../utils/tokenFormat"
 
 const router = Router()
 
@@ -94,6 +95,7 @@ router.get("/*", async (req, res) => {
         } : null,
         token: tok ? {
           tokenNumber: tok.tokenNumber,
+          displayNumber: displayToken(tok),
           isPriority: tok.isPriority,
           isTransferred: tok.isTransferred,
           preferredLanguages: tok.preferredLanguages,
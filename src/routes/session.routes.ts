@@ -0,0 +1,190 @@
+import { Router } from "express"
+import { prisma } from "../server"
+import { authorize, assertOfficerAccess, canAccessOutlet, canAccessRegion, AccessDeniedError, AuthContext, ROLE_RANK, sendAccessError } from "../services/accessControl"
+import sessionService, { SessionUserType } from "../services/sessionService"
+import { systemLogger } from "../services/systemLogger"
+
+const router = Router()
+
+const SESSION_USER_TYPES: SessionUserType[] = ['officer', 'teleshop_manager', 'rtom', 'region_manager', 'gm', 'dgm', 'admin', 'kiosk']
+
+// Exchange a refresh token for a new access token (public - the refresh token is the credential)
+router.post("/refresh", async (req, res) => {
+  try {
+    const userType = SESSION_USER_TYPES.includes(req.body?.userType) ? req.body.userType as SessionUserType : undefined
+    const refreshToken = sessionService.readRefreshToken(req, userType)
+    if (!refreshToken) return res.status(401).json({ error: "Refresh token required" })
+
+    const session = await sessionService.refreshSession(refreshToken)
+    if (!session) {
+      if (userType) sessionService.clearSessionCookies(res, userType)
+      return res.status(401).json({ error: "Session expired or revoked" })
+    }
+
+    sessionService.setSessionCookies(res, session.userType, session)
+    res.json({
+      success: true,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresAt: session.accessTokenExpiresAt,
+    })
+  } catch (error) {
+    console.error("Session refresh error:", error)
+    res.status(500).json({ error: "Failed to refresh session" })
+  }
+})
+
+// Everything below acts on sessions of the signed-in staff member, or of staff they manage
+router.use(authorize())
+
+/**
+ * Check the caller may manage sessions of another user: they must outrank the
+ * target and the target must sit inside the caller's scope.
+ */
+async function assertCanManageUser(auth: AuthContext, userType: SessionUserType, userId: string) {
+  if (auth.role === 'admin') return
+
+  const targetRank = userType === 'kiosk' ? ROLE_RANK.officer : ROLE_RANK[userType]
+  if (ROLE_RANK[auth.role] <= targetRank) {
+    throw new AccessDeniedError(403, "You cannot manage sessions for this user")
+  }
+
+  switch (userType) {
+    case 'officer':
+      await assertOfficerAccess(auth, userId)
+      return
+    case 'kiosk':
+      if (!canAccessOutlet(auth, userId)) throw new AccessDeniedError(403, "You do not have access to this outlet")
+      return
+    case 'teleshop_manager': {
+      const tm = await prisma.teleshopManager.findUnique({ where: { id: userId }, select: { branchId: true, regionId: true } })
+      if (!tm || !(canAccessOutlet(auth, tm.branchId) || canAccessRegion(auth, tm.regionId))) {
+        throw new AccessDeniedError(403, "Teleshop manager not found in your scope")
+      }
+      return
+    }
+    case 'rtom':
+    case 'region_manager': {
+      const rtom = await prisma.rTOM.findUnique({ where: { id: userId }, select: { regionId: true } })
+      if (!rtom || !canAccessRegion(auth, rtom.regionId)) throw new AccessDeniedError(403, "RTOM not found in your scope")
+      return
+    }
+    case 'dgm': {
+      const dgm = await prisma.dGM.findUnique({ where: { id: userId }, select: { province: { select: { regionId: true } } } })
+      if (!dgm || !canAccessRegion(auth, dgm.province?.regionId)) throw new AccessDeniedError(403, "DGM not found in your scope")
+      return
+    }
+    default:
+      throw new AccessDeniedError(403, "You cannot manage sessions for this user")
+  }
+}
+
+// The session behind the caller's access token
+async function getCurrentSession(req: any) {
+  const sessionId = req.auth?.payload?.sid
+  return sessionId ? sessionService.getSession(sessionId) : null
+}
+
+// List my active sessions / devices
+router.get("/me", async (req, res) => {
+  try {
+    const current = await getCurrentSession(req)
+    if (!current) return res.status(401).json({ error: "Session not found" })
+
+    const sessions = await sessionService.listSessions(current.userType as SessionUserType, current.userId)
+    res.json({
+      success: true,
+      sessions: sessions.map(session => ({ ...session, isCurrent: session.id === current.id })),
+    })
+  } catch (error) {
+    console.error("List sessions error:", error)
+    res.status(500).json({ error: "Failed to fetch sessions" })
+  }
+})
+
+// Revoke one of my sessions (e.g. a lost device)
+router.delete("/me/:sessionId", async (req, res) => {
+  try {
+    const current = await getCurrentSession(req)
+    if (!current) return res.status(401).json({ error: "Session not found" })
+
+    const target = await sessionService.getSession(req.params.sessionId)
+    if (!target || target.userType !== current.userType || target.userId !== current.userId) {
+      return res.status(404).json({ error: "Session not found" })
+    }
+
+    await sessionService.revokeSession(target.id, `${current.userType}:${current.userId}`, 'revoked_by_user')
+    if (target.id === current.id) sessionService.clearSessionCookies(res, current.userType as SessionUserType)
+    res.json({ success: true })
+  } catch (error) {
+    console.error("Revoke session error:", error)
+    res.status(500).json({ error: "Failed to revoke session" })
+  }
+})
+
+// Log out everywhere; pass keepCurrent to stay signed in on this device
+router.post("/me/logout-all", async (req, res) => {
+  try {
+    const current = await getCurrentSession(req)
+    if (!current) return res.status(401).json({ error: "Session not found" })
+
+    const keepCurrent = Boolean(req.body?.keepCurrent)
+    const revoked = await sessionService.revokeAllSessions(
+      current.userType as SessionUserType,
+      current.userId,
+      `${current.userType}:${current.userId}`,
+      'logout_all',
+      keepCurrent ? current.id : undefined
+    )
+    if (!keepCurrent) sessionService.clearSessionCookies(res, current.userType as SessionUserType)
+    res.json({ success: true, revoked })
+  } catch (error) {
+    console.error("Logout everywhere error:", error)
+    res.status(500).json({ error: "Failed to log out sessions" })
+  }
+})
+
+// Managers: list active sessions of a staff member or kiosk (kiosk userId = outletId)
+router.get("/users/:userType/:userId", async (req, res) => {
+  try {
+    const userType = req.params.userType as SessionUserType
+    if (!SESSION_USER_TYPES.includes(userType)) return res.status(400).json({ error: "Invalid user type" })
+
+    await assertCanManageUser(req.auth!, userType, req.params.userId)
+    const sessions = await sessionService.listSessions(userType, req.params.userId)
+    res.json({ success: true, sessions })
+  } catch (error) {
+    if (sendAccessError(res, error)) return
+    console.error("List user sessions error:", error)
+    res.status(500).json({ error: "Failed to fetch sessions" })
+  }
+})
+
+// Managers: log a staff member or kiosk out everywhere
+router.post("/users/:userType/:userId/logout-all", async (req, res) => {
+  try {
+    const userType = req.params.userType as SessionUserType
+    const { userId } = req.params
+    if (!SESSION_USER_TYPES.includes(userType)) return res.status(400).json({ error: "Invalid user type" })
+
+    const auth = req.auth!
+    await assertCanManageUser(auth, userType, userId)
+    const revoked = await sessionService.revokeAllSessions(userType, userId, `${auth.role}:${auth.userId}`, req.body?.reason || 'revoked_by_manager')
+
+    await systemLogger.audit(auth.userId, auth.role, 'SESSIONS_REVOKED', `Logged out ${userType} ${userId} from ${revoked} session(s)`, {
+      targetType: userType,
+      targetId: userId,
+      outletId: userType === 'kiosk' ? userId : undefined,
+      metadata: { revoked, reason: req.body?.reason || null },
+      ipAddress: req.ip,
+    })
+
+    res.json({ success: true, revoked })
+  } catch (error) {
+    if (sendAccessError(res, error)) return
+    console.error("Revoke user sessions error:", error)
+    res.status(500).json({ error: "Failed to log out sessions" })
+  }
+})
+
+export default router
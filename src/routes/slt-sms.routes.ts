@@ -1,5 +1,6 @@
 import { Router } from 'express'
 import sltSmsService from '../services/sltSmsService'
+import otpRateLimiter from '../services/otpRateLimiter'
 
 const router = Router()
 
@@ -73,6 +74,11 @@ router.post('/send-otp', async (req, res) => {
       return res.status(400).json({ error: 'Invalid OTP code. Must be strictly a 4 to 6 digit numeric code.' });
     }
 
+    const decision = await otpRateLimiter.consume({ mobileNumber: to, userType: 'sms_api', ipAddress: req.ip })
+    if (!decision.allowed) {
+      return res.status(429).json({ error: decision.message, retryAfterSeconds: decision.retryAfterSeconds, success: false })
+    }
+
     const result = await sltSmsService.sendOTP(to, otpCode, language)
 
     if (result.success) {
@@ -1,6 +1,5 @@
 import { Router, Request, Response } from "express"
 import { prisma, broadcast, priorityBroadcast } from "../server"
-import * as jwt from "jsonwebtoken"
 import { randomUUID } from "crypto"
 import multer from "multer"
 import path from "path"
@@ -8,22 +7,34 @@ import otpService from "../services/otpService"
 import emailService from "../services/emailService"
 import sltSmsService from "../services/sltSmsService"
 import { getFrontendBaseUrl } from "../utils/urlHelper"
+import { getLastDailyReset } from "../utils/resetWindow"
 import { isValidSLMobile, isValidEmail, isValidName } from "../utils/validators"
 import { resolveUploadDir } from "../utils/uploadDir"
+import { authenticateStaff, sendAccessError } from "../services/accessControl"
+import sessionService from "../services/sessionService"
+import kioskCredentialService from "../services/kioskCredentialService"
+import deviceKeyService, { requireDeviceKey } from "../services/deviceKeyService"
+import queueDispatcher, { DISPATCH_STRATEGIES, isDispatchStrategy } from "../services/queueDispatcher"
+import noShowService from "../services/noShowService"
+import parkingService, { ParkingError } from "../services/parkingService"
+import remoteQueueService from "../services/remoteQueueService"
+import counterService, { COUNTER_TYPES, CounterError } from "../services/counterService"
+import priorityService from "../services/priorityService"
+import slaService, { SlaError } from "../services/slaService"
+import endOfDayService, { closingWindow, isIssuing } from "../services/endOfDayService"
 
 import { announceToIpSpeaker } from "../utils/announcer"
+import { displayToken } from "../utils/tokenFormat"
 
 const router = Router()
 
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret"
 const UPLOAD_DIR = resolveUploadDir(path.resolve(__dirname, "../.."))
 
 const promoVideoStorage = multer.diskStorage({
   destination: (_req, _file, cb) => cb(null, UPLOAD_DIR),
   filename: (_req, file, cb) => {
     const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`
-    const ext = path.extname(file.originalname || "").toLowerCase() || ".mp4"
-    cb(null, `promo-${uniqueSuffix}${ext}`)
+    cb(null, `promo-${uniqueSuffix}.mp4`)
   },
 })
 
@@ -33,7 +44,8 @@ const promoVideoUpload = multer({
   fileFilter: (_req, file, cb) => {
     const mime = (file.mimetype || "").toLowerCase()
     const ext = path.extname(file.originalname || "").toLowerCase()
-    const isMp4 = mime === "video/mp4" || ext === ".mp4"
+    // Public asset: both the extension and the declared type must be MP4
+    const isMp4 = mime === "video/mp4" && ext === ".mp4"
     if (!isMp4) {
       cb(new Error("Only MP4 files are supported"))
       return
@@ -72,7 +84,6 @@ const auditLog = (
       console.error("Audit log details:", { action, entityType, entityId, details });
     })
 }
-const JWT_EXPIRES = process.env.JWT_EXPIRES || undefined
 
 // Request OTP for teleshop manager login
 router.post("/request-otp", async (req, res) => {
@@ -94,10 +105,10 @@ router.post("/request-otp", async (req, res) => {
     }
 
     // Generate and send OTP
-    const result = await otpService.generateOTP(mobileNumber, 'teleshop_manager', teleshopManager.name)
+    const result = await otpService.generateOTP(mobileNumber, 'teleshop_manager', teleshopManager.name, { ipAddress: req.ip })
 
     if (!result.success) {
-      return res.status(500).json({ error: result.message })
+      return res.status(result.retryAfterSeconds ? 429 : 500).json({ error: result.message, retryAfterSeconds: result.retryAfterSeconds })
     }
 
     res.json({
@@ -168,24 +179,9 @@ router.post("/login", async (req, res) => {
       role: "teleshop_manager"
     }
 
-    const signOptions: any = {}
-    if (JWT_EXPIRES) {
-      signOptions.expiresIn = JWT_EXPIRES
-    }
-
-    const token = (jwt as any).sign(
-      tokenOptions,
-      JWT_SECRET as jwt.Secret,
-      signOptions
-    )
-
-    // Set httpOnly cookie
-    res.cookie("dq_teleshop_manager_jwt", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      path: "/",
-    })
+    // Start a server-side session and set the access/refresh httpOnly cookies
+    const session = await sessionService.startSession(req, 'teleshop_manager', teleshopManager.id, tokenOptions)
+    sessionService.setSessionCookies(res, 'teleshop_manager', session)
 
     res.json({
       success: true,
@@ -198,7 +194,9 @@ router.post("/login", async (req, res) => {
         branchId: teleshopManager.branchId,
         branchName: teleshopManager.branch?.name || null
       },
-      token,
+      token: session.accessToken,
+      refreshToken: session.refreshToken,
+      expiresAt: session.accessTokenExpiresAt,
       message: "Login successful"
     })
   } catch (error) {
@@ -210,24 +208,11 @@ router.post("/login", async (req, res) => {
 // Teleshop Manager logout
 router.post("/logout", async (req: any, res) => {
   try {
-    // Log before clearing cookie
-    const authHeader = req.headers.authorization
-    let managerId: string | null = null
-    try {
-      const rawToken = req.cookies?.dq_teleshop_manager_jwt ||
-        (authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : null)
-      if (rawToken) {
-        const payload: any = (jwt as any).verify(rawToken, JWT_SECRET)
-        managerId = payload?.teleshopManagerId ?? null
-      }
-    } catch (_) { }
+    // Revoke the session and log before clearing cookies
+    const payload: any = await sessionService.revokeFromRequest(req, 'teleshop_manager')
+    const managerId: string | null = payload?.teleshopManagerId ?? null
 
-    res.clearCookie("dq_teleshop_manager_jwt", {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      path: "/",
-    })
+    sessionService.clearSessionCookies(res, 'teleshop_manager')
 
     if (managerId) {
       auditLog(managerId, "LOGOUT", "teleshop_manager", managerId)
@@ -246,24 +231,8 @@ router.post("/logout", async (req: any, res) => {
 // Middleware to authenticate teleshop manager
 const authenticateTeleshopManager = async (req: any, res: any, next: any) => {
   try {
-    let token = req.cookies?.dq_teleshop_manager_jwt
-
-    if (!token) {
-      const authHeader = req.headers.authorization
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7)
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: "Teleshop Manager authentication required" })
-    }
-
-    const payload = (jwt as any).verify(token, JWT_SECRET)
-
-    if (payload.role !== "teleshop_manager") {
-      return res.status(403).json({ error: "Access denied. Teleshop Manager role required." })
-    }
+    const auth = await authenticateStaff(req, ['teleshop_manager'])
+    const payload = auth.payload
 
     // Verify teleshop manager still exists and is active
     const teleshopManager = await prisma.teleshopManager.findUnique({
@@ -288,9 +257,11 @@ const authenticateTeleshopManager = async (req: any, res: any, next: any) => {
       return res.status(401).json({ error: "Teleshop Manager not found or inactive" })
     }
 
+    req.auth = auth
     req.teleshopManager = teleshopManager
     next()
   } catch (error) {
+    if (sendAccessError(res, error)) return
     console.error("Teleshop Manager authentication error:", error)
     res.status(401).json({ error: "Invalid token" })
   }
@@ -360,8 +331,8 @@ router.get("/check-device-config/:deviceId", async (req, res) => {
   }
 })
 
-// Device heartbeat endpoint (public - no auth required)
-router.put('/device-heartbeat/:deviceId', async (req: Request, res: Response) => {
+// Device heartbeat endpoint (device key)
+router.put('/device-heartbeat/:deviceId', requireDeviceKey({ deviceId: req => req.params.deviceId }), async (req: Request, res: Response) => {
   try {
     const { deviceId } = req.params
     const { timestamp } = req.body
@@ -520,7 +491,7 @@ router.get("/apk-status/:deviceId", async (req, res) => {
 })
 
 // Fast heartbeat - immediate device status check (optimized for APK speed)
-router.get("/fast-heartbeat/:deviceId", async (req, res) => {
+router.get("/fast-heartbeat/:deviceId", requireDeviceKey({ deviceId: req => req.params.deviceId }), async (req, res) => {
   try {
     const { deviceId } = req.params
     
@@ -554,10 +525,10 @@ router.get("/fast-heartbeat/:deviceId", async (req, res) => {
 })
 
 // ========== HTTP POLLING ENDPOINTS FOR APK (Production Reliable) ==========
-// These endpoints are PUBLIC (no authentication) for APK polling
+// These endpoints take the device key issued at link time, scoped to the device's outlet
 
 // Get recent audio events for APK HTTP polling fallback
-router.get('/audio-events/:outletId', async (req: Request, res: Response) => {
+router.get('/audio-events/:outletId', requireDeviceKey({ outletId: req => req.params.outletId }), async (req: Request, res: Response) => {
   try {
     const { outletId } = req.params
     const since = req.query.since ? new Date(req.query.since as string) : new Date(Date.now() - 30000) // Last 30 seconds
@@ -591,7 +562,7 @@ router.get('/audio-events/:outletId', async (req: Request, res: Response) => {
 })
 
 // Acknowledge processed audio events (cleanup)
-router.post('/audio-events/:outletId/ack', async (req: Request, res: Response) => {
+router.post('/audio-events/:outletId/ack', requireDeviceKey({ outletId: req => req.params.outletId }), async (req: Request, res: Response) => {
   try {
     const { eventIds } = req.body
     
@@ -885,6 +856,7 @@ router.get("/kiosk-settings", async (req: any, res) => {
         name: true,
         location: true,
         kioskPassword: true,
+        kioskPasswordUpdatedAt: true,
         displaySettings: true
       }
     })
@@ -893,7 +865,9 @@ router.get("/kiosk-settings", async (req: any, res) => {
       return res.status(404).json({ error: "Outlet not found" })
     }
 
-    res.json({ success: true, outlet })
+    // The kiosk password is stored as a hash and is never returned
+    const { kioskPassword, ...rest } = outlet
+    res.json({ success: true, outlet: { ...rest, hasKioskPassword: !!kioskPassword } })
   } catch (error) {
     console.error("Get kiosk settings error:", error)
     res.status(500).json({ error: "Failed to fetch kiosk settings" })
@@ -912,11 +886,8 @@ router.post("/kiosk-settings", async (req: any, res) => {
 
     const updateData: any = {}
 
-    if (kioskPassword !== undefined) {
-      if (kioskPassword.length < 8) {
-        return res.status(400).json({ error: "Password must be at least 8 characters long" })
-      }
-      updateData.kioskPassword = kioskPassword
+    if (kioskPassword !== undefined && (typeof kioskPassword !== "string" || kioskPassword.length < 8)) {
+      return res.status(400).json({ error: "Password must be at least 8 characters long" })
     }
 
     if (promoVideoUrl !== undefined || enableBillPaymentOptions !== undefined) {
@@ -941,18 +912,26 @@ router.post("/kiosk-settings", async (req: any, res) => {
       updateData.displaySettings = displaySettings
     }
 
-    if (Object.keys(updateData).length === 0) {
+    if (Object.keys(updateData).length === 0 && kioskPassword === undefined) {
       return res.status(400).json({ error: "No fields to update" })
     }
 
-    const outlet = await prisma.outlet.update({
-      where: { id: teleshopManager.branchId },
-      data: updateData
-    })
+    // Hashes the password, signs out existing kiosk sessions and writes the audit entry
+    if (kioskPassword !== undefined) {
+      await kioskCredentialService.setPassword(teleshopManager.branchId, kioskPassword, {
+        userId: teleshopManager.id,
+        userRole: "teleshop_manager",
+        ipAddress: req.ip
+      })
+    }
+
+    const outlet = Object.keys(updateData).length > 0
+      ? await prisma.outlet.update({ where: { id: teleshopManager.branchId }, data: updateData })
+      : await prisma.outlet.findUniqueOrThrow({ where: { id: teleshopManager.branchId } })
 
     auditLog(teleshopManager.id, "KIOSK_SETTINGS_UPDATED", "outlet", outlet.id, {
       outletName: outlet.name,
-      updatedFields: Object.keys(updateData)
+      updatedFields: [...Object.keys(updateData), ...(kioskPassword !== undefined ? ["kioskPassword"] : [])]
     })
 
     res.json({
@@ -961,7 +940,7 @@ router.post("/kiosk-settings", async (req: any, res) => {
       outlet: {
         id: outlet.id,
         name: outlet.name,
-        kioskPassword: outlet.kioskPassword,
+        hasKioskPassword: !!outlet.kioskPassword,
         displaySettings: outlet.displaySettings
       }
     })
@@ -1236,46 +1215,11 @@ router.patch("/officers/:officerId/assign-counter", async (req: any, res) => {
       return res.status(403).json({ error: "Officer not found or not at your assigned outlet" })
     }
 
-    // If assigning a counter (not null), validate it
-    if (counterNumber !== null && counterNumber !== undefined) {
-      const parsed = Number(counterNumber)
-
-      // Validate counter number is valid
-      if (!Number.isInteger(parsed) || parsed < 1) {
-        return res.status(400).json({ error: "Counter number must be a positive integer" })
-      }
-
-      // Check outlet counter capacity
-      if (officer.outlet.counterCount && parsed > officer.outlet.counterCount) {
-        return res.status(400).json({
-          error: `Counter #${parsed} exceeds outlet capacity of ${officer.outlet.counterCount} counters`
-        })
-      }
-
-      // Check if counter is already assigned to another officer
-      const existingAssignment = await prisma.officer.findFirst({
-        where: {
-          outletId: officer.outletId,
-          counterNumber: parsed,
-          id: { not: officerId }
-        }
-      })
-
-      if (existingAssignment) {
-        return res.status(400).json({
-          error: `Counter #${parsed} is already assigned to ${existingAssignment.name}`
-        })
-      }
-    }
-
-    // Update officer counter assignment
-    const updatedOfficer = await prisma.officer.update({
-      where: { id: officerId },
-      data: { counterNumber: counterNumber === null ? null : Number(counterNumber) },
-      include: {
-        outlet: true
-      }
-    })
+    // Counter exists, is open and handles the officer's services; nobody else holds it
+    const updatedOfficer = await counterService.assignOfficer(
+      officerId,
+      counterNumber === null || counterNumber === undefined ? null : Number(counterNumber)
+    )
 
     // Broadcast update
     broadcast({
@@ -1290,6 +1234,7 @@ router.patch("/officers/:officerId/assign-counter", async (req: any, res) => {
 
     res.json({ success: true, officer: updatedOfficer })
   } catch (error: any) {
+    if (error instanceof CounterError) return res.status(error.status).json({ error: error.message })
     console.error("Assign counter error:", error)
     res.status(500).json({ error: "Failed to assign counter" })
   }
@@ -2319,6 +2264,7 @@ router.get('/service-case/*', async (req: any, res) => {
         token: token ? {
           id: token.id,
           tokenNumber: token.tokenNumber,
+          displayNumber: displayToken(token),
           isPriority: token.isPriority,
           isTransferred: token.isTransferred,
           preferredLanguages: token.preferredLanguages,
@@ -2705,6 +2651,7 @@ router.get("/audit-logs", async (req: any, res) => {
             token: {
               select: {
                 tokenNumber: true,
+                displayNumber: true,
                 billPaymentIntent: true,
                 billPaymentMethod: true,
                 billPaymentAmount: true,
@@ -2741,7 +2688,7 @@ router.get("/audit-logs", async (req: any, res) => {
 
       // 2. Transfer logs
       (logType === "all" || logType === "transfers")
-        ? (prisma as any).transferLog.findMany({
+        ? prisma.transferLog.findMany({
           where: {
             fromOfficerId: { in: officerIds },
             createdAt: dateRange
@@ -2750,6 +2697,7 @@ router.get("/audit-logs", async (req: any, res) => {
             token: {
               select: {
                 tokenNumber: true,
+                displayNumber: true,
                 outletId: true,
                 customer: { select: { id: true, name: true, mobileNumber: true } }
               }
@@ -2789,6 +2737,7 @@ router.get("/audit-logs", async (req: any, res) => {
             token: {
               select: {
                 tokenNumber: true,
+                displayNumber: true,
                 isPriority: true,
                 isTransferred: true,
                 accountRef: true,
@@ -2853,10 +2802,11 @@ router.get("/audit-logs", async (req: any, res) => {
         type: "completed_service",
         timestamp: cs.completedAt,
         officer: cs.officer ?? null,
-        description: `Token #${tok?.tokenNumber} — ${cs.service?.title || cs.service?.code} completed`,
+        description: `Token #${tok ? displayToken(tok) : "?"} — ${cs.service?.title || cs.service?.code} completed`,
         meta: {
           // Basic
           tokenNumber: tok?.tokenNumber,
+          displayNumber: tok ? displayToken(tok) : null,
           service: cs.service,
           durationSeconds: cs.duration ?? null,
           notes: cs.notes ?? null,
@@ -2910,9 +2860,10 @@ router.get("/audit-logs", async (req: any, res) => {
         type: "transfer",
         timestamp: tl.createdAt,
         officer: tl.fromOfficer ?? null,
-        description: `Token #${tl.token?.tokenNumber} transferred (Counter ${tl.fromCounterNumber ?? "?"} → ${tl.toCounterNumber ?? "?"})`,
+        description: `Token #${tl.token ? displayToken(tl.token) : "?"} transferred (Counter ${tl.fromCounterNumber ?? "?"} → ${tl.toCounterNumber ?? "?"})`,
         meta: {
           tokenNumber: tl.token?.tokenNumber,
+          displayNumber: tl.token ? displayToken(tl.token) : null,
           customer: tl.token?.customer,
           fromCounterNumber: tl.fromCounterNumber,
           toCounterNumber: tl.toCounterNumber,
@@ -2984,6 +2935,7 @@ router.get("/audit-logs", async (req: any, res) => {
           latestUpdate: sc.updates?.[0] ?? null,
           // Token details
           tokenNumber: tok?.tokenNumber ?? null,
+          displayNumber: tok ? displayToken(tok) : null,
           isPriority: tok?.isPriority ?? false,
           isTransferred: tok?.isTransferred ?? false,
           accountRef: tok?.accountRef ?? null,
@@ -3234,6 +3186,15 @@ router.post("/outlet-setup-qr", async (req: any, res) => {
       configuredAt: deviceRecord.configuredAt
     })
 
+    // Per-device API key; only ever sent to the device itself (or claimed once with its setup code)
+    const { key: deviceKey } = await deviceKeyService.issueKey({
+      deviceId,
+      outletId: outlet.id,
+      issuedBy: teleshopManager.id,
+      issuedVia: 'outlet_setup_qr',
+      pairingCode: setupCode
+    })
+
     // Send instant WebSocket notification to device (if connected)
     const isDeviceConnected = wsManager.isDeviceConnected(deviceId)
     console.log(`📡 WebSocket device connected: ${isDeviceConnected}`)
@@ -3243,6 +3204,7 @@ router.post("/outlet-setup-qr", async (req: any, res) => {
         type: "SETUP_COMPLETE",
         data: {
           success: true,
+          deviceKey,
           device: deviceRecord,
           outlet: {
             id: outlet.id,
@@ -3671,8 +3633,17 @@ router.get("/outlet-devices", async (req: any, res) => {
 
     const displaySettings = outlet?.displaySettings as any || {}
     const linkedDevices = displaySettings.linkedDevices || []
+    const deviceKeys = await deviceKeyService.getOutletKeys(teleshopManager.branchId)
 
-    res.json({ devices: linkedDevices })
+    res.json({
+      devices: linkedDevices.map((device: any) => {
+        const key = deviceKeys.get(device.deviceId)
+        return {
+          ...device,
+          apiKey: key ? { keyPrefix: key.keyPrefix, issuedAt: key.createdAt, lastUsedAt: key.lastUsedAt, lastUsedIp: key.lastUsedIp } : null
+        }
+      })
+    })
 
   } catch (error: any) {
     console.error("Get outlet devices error:", error)
@@ -3680,6 +3651,41 @@ router.get("/outlet-devices", async (req: any, res) => {
   }
 })
 
+// Revoke an outlet device's API key without removing the device (it must be linked again)
+router.delete("/outlet-devices/:deviceId/key", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    const { deviceId } = req.params
+
+    if (!teleshopManager.branchId) {
+      return res.status(403).json({ error: "You must be assigned to a branch" })
+    }
+
+    const revoked = await deviceKeyService.revokeDeviceKeys(deviceId, teleshopManager.id, req.body?.reason || 'revoked_by_manager', teleshopManager.branchId)
+    if (revoked === 0) {
+      return res.status(404).json({ error: "No active key for this device" })
+    }
+
+    wsManager.sendToDevice(deviceId, {
+      type: "DEVICE_KEY_REVOKED",
+      data: { deviceId, action: "RECONFIGURE_REQUIRED" }
+    })
+
+    auditLog(
+      teleshopManager.id,
+      "DEVICE_KEY_REVOKED",
+      "device",
+      deviceId,
+      { outletId: teleshopManager.branchId, revoked, reason: req.body?.reason || null }
+    )
+
+    res.json({ success: true, revoked })
+  } catch (error: any) {
+    console.error("Revoke device key error:", error)
+    res.status(500).json({ error: "Failed to revoke device key" })
+  }
+})
+
 // Remove/deactivate outlet device
 router.delete("/outlet-devices/:deviceId", async (req: any, res) => {
   try {
@@ -3766,6 +3772,8 @@ router.delete("/outlet-devices/:deviceId", async (req: any, res) => {
 
     console.log("✅ Database updated successfully")
 
+    const revokedKeys = await deviceKeyService.revokeDeviceKeys(deviceToRemove.deviceId, teleshopManager.id, 'device_removed', teleshopManager.branchId)
+
     // Send URGENT priority broadcasts (multiple delivery for reliability)
     const removalBroadcast = {
       type: "DEVICE_REMOVED",
@@ -3810,7 +3818,8 @@ router.delete("/outlet-devices/:deviceId", async (req: any, res) => {
           deviceIdParam: deviceIdParam,
           actualDeviceId: deviceToRemove.deviceId,
           deviceName: deviceToRemove.deviceName,
-          outletName: outlet.name
+          outletName: outlet.name,
+          revokedKeys
         }
       )
     })
@@ -4022,9 +4031,18 @@ router.post("/approve-link", async (req: any, res) => {
       managerName: teleshopManager.name
     }
 
+    // Per-device API key; sent only to the TV's own session socket (or claimed once with the session id)
+    const { key: deviceKey } = await deviceKeyService.issueKey({
+      deviceId: deviceLink.deviceId,
+      outletId: deviceLink.outletId,
+      issuedBy: teleshopManager.id,
+      issuedVia: 'approve_link',
+      pairingCode: sessionId
+    })
+
     wsManager.sendToSession(sessionId, {
       type: "LINK_ESTABLISHED",
-      data: linkData
+      data: { ...linkData, deviceKey }
     })
 
     // Also broadcast to outlet devices room
@@ -4171,6 +4189,8 @@ router.delete("/unlink-device-instant/:deviceId", async (req: any, res) => {
       })
     }
 
+    await deviceKeyService.revokeDeviceKeys(deviceId, teleshopManager.id, 'manager_logout', deviceLink.outletId)
+
     // Broadcast instant unlink to the TV display
     wsManager.sendToDevice(deviceId, {
       type: "DEVICE_UNLINKED",
@@ -4671,4 +4691,695 @@ router.put("/services/:serviceId", async (req: any, res) => {
   }
 })
 
+// --- DISPATCH STRATEGY ---
+// Outlet's next-token strategy plus per-service weight / target wait used by the weighted and SLA strategies
+router.get("/dispatch-settings", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const [strategy, services, overrides] = await Promise.all([
+      queueDispatcher.getOutletStrategy(teleshopManager.branchId),
+      prisma.service.findMany({ where: { isActive: true }, orderBy: [{ order: 'asc' }, { createdAt: 'asc' }], select: { id: true, code: true, title: true } }),
+      prisma.outletServiceSetting.findMany({ where: { outletId: teleshopManager.branchId } }),
+    ])
+    const overridesMap = new Map(overrides.map(o => [o.serviceId, o]))
+
+    res.json({
+      success: true,
+      strategy,
+      strategies: DISPATCH_STRATEGIES,
+      services: services.map(service => ({
+        ...service,
+        dispatchWeight: overridesMap.get(service.id)?.dispatchWeight ?? 1,
+        targetWaitMinutes: overridesMap.get(service.id)?.targetWaitMinutes ?? null,
+        // null thresholds fall back to the system defaults; 0 disables the step
+        agingRate: overridesMap.get(service.id)?.agingRate ?? 1,
+        agingAlertScore: overridesMap.get(service.id)?.agingAlertScore ?? null,
+        agingOverrideScore: overridesMap.get(service.id)?.agingOverrideScore ?? null,
+      })),
+    })
+  } catch (error) {
+    console.error("Fetch dispatch settings error:", error)
+    res.status(500).json({ error: "Failed to fetch dispatch settings" })
+  }
+})
+
+router.put("/dispatch-settings", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    const { strategy, services } = req.body || {}
+
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+    if (strategy !== undefined && !isDispatchStrategy(strategy)) {
+      return res.status(400).json({ error: `strategy must be one of: ${Object.keys(DISPATCH_STRATEGIES).join(", ")}` })
+    }
+    if (services !== undefined && !Array.isArray(services)) {
+      return res.status(400).json({ error: "services must be an array" })
+    }
+    for (const entry of services || []) {
+      if (!entry?.serviceId) return res.status(400).json({ error: "Each service entry needs a serviceId" })
+      if (entry.dispatchWeight !== undefined && !(Number(entry.dispatchWeight) > 0)) {
+        return res.status(400).json({ error: "dispatchWeight must be greater than 0" })
+      }
+      if (entry.targetWaitMinutes !== undefined && entry.targetWaitMinutes !== null && !(Number.isInteger(Number(entry.targetWaitMinutes)) && Number(entry.targetWaitMinutes) > 0)) {
+        return res.status(400).json({ error: "targetWaitMinutes must be a positive whole number" })
+      }
+      if (entry.agingRate !== undefined && !(Number(entry.agingRate) >= 0)) {
+        return res.status(400).json({ error: "agingRate must be 0 or more" })
+      }
+      for (const field of ["agingAlertScore", "agingOverrideScore"]) {
+        const value = entry[field]
+        if (value !== undefined && value !== null && !(Number.isInteger(Number(value)) && Number(value) >= 0)) {
+          return res.status(400).json({ error: `${field} must be a whole number of 0 or more` })
+        }
+      }
+    }
+
+    const serviceIds: string[] = Array.from(new Set((services || []).map((entry: any) => String(entry.serviceId))))
+    if (serviceIds.length > 0) {
+      const known = await prisma.service.findMany({ where: { id: { in: serviceIds } }, select: { id: true } })
+      const knownIds = new Set(known.map(service => service.id))
+      const unknown = serviceIds.filter(id => !knownIds.has(id))
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown serviceId: ${unknown.join(", ")}` })
+      }
+    }
+
+    // Strategy and every per-service override are saved together or not at all
+    await prisma.$transaction(async (tx) => {
+      if (strategy) {
+        await tx.outlet.update({ where: { id: teleshopManager.branchId }, data: { dispatchStrategy: strategy } })
+      }
+      for (const entry of services || []) {
+        const data: Record<string, any> = {}
+        if (entry.dispatchWeight !== undefined) data.dispatchWeight = Number(entry.dispatchWeight)
+        if (entry.targetWaitMinutes !== undefined) data.targetWaitMinutes = entry.targetWaitMinutes === null ? null : Number(entry.targetWaitMinutes)
+        if (entry.agingRate !== undefined) data.agingRate = Number(entry.agingRate)
+        if (entry.agingAlertScore !== undefined) data.agingAlertScore = entry.agingAlertScore === null ? null : Number(entry.agingAlertScore)
+        if (entry.agingOverrideScore !== undefined) data.agingOverrideScore = entry.agingOverrideScore === null ? null : Number(entry.agingOverrideScore)
+        await tx.outletServiceSetting.upsert({
+          where: { outletId_serviceId: { outletId: teleshopManager.branchId, serviceId: String(entry.serviceId) } },
+          update: data,
+          create: { outletId: teleshopManager.branchId, serviceId: String(entry.serviceId), ...data },
+        })
+      }
+    })
+
+    auditLog(teleshopManager.id, "UPDATE_DISPATCH_SETTINGS", "outlet", teleshopManager.branchId, {
+      strategy: strategy || null,
+      services: services || []
+    })
+
+    res.json({ success: true, strategy: await queueDispatcher.getOutletStrategy(teleshopManager.branchId) })
+  } catch (error) {
+    console.error("Update dispatch settings error:", error)
+    res.status(500).json({ error: "Failed to update dispatch settings" })
+  }
+})
+
+// ==================== NO-SHOW POLICY ====================
+
+router.get("/no-show-policy", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    res.json({ success: true, policy: await noShowService.getPolicy(teleshopManager.branchId) })
+  } catch (error) {
+    console.error("Fetch no-show policy error:", error)
+    res.status(500).json({ error: "Failed to fetch no-show policy" })
+  }
+})
+
+router.put("/no-show-policy", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const { enabled, graceMinutes, maxRecalls, requeueOffset } = req.body || {}
+    const input = { enabled, graceMinutes, maxRecalls, requeueOffset }
+    const validationError = noShowService.validatePolicy(input)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const before = await noShowService.getPolicy(teleshopManager.branchId)
+    const policy = await noShowService.updatePolicy(teleshopManager.branchId, input)
+
+    auditLog(teleshopManager.id, "UPDATE_NO_SHOW_POLICY", "outlet", teleshopManager.branchId, { before, after: policy })
+
+    res.json({ success: true, policy })
+  } catch (error) {
+    console.error("Update no-show policy error:", error)
+    res.status(500).json({ error: "Failed to update no-show policy" })
+  }
+})
+
+router.get("/no-show/analytics", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    const { timeframe = 'today' } = req.query
+
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    let startDate = new Date()
+    let endDate = new Date()
+
+    switch (timeframe) {
+      case 'week':
+        startDate.setDate(startDate.getDate() - startDate.getDay())
+        startDate.setHours(0, 0, 0, 0)
+        endDate.setHours(23, 59, 59, 999)
+        break
+      case 'month':
+        startDate.setDate(1)
+        startDate.setHours(0, 0, 0, 0)
+        endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0)
+        endDate.setHours(23, 59, 59, 999)
+        break
+      case 'today':
+      default:
+        startDate.setHours(0, 0, 0, 0)
+        endDate.setHours(23, 59, 59, 999)
+        break
+    }
+
+    const [policy, analytics] = await Promise.all([
+      noShowService.getPolicy(teleshopManager.branchId),
+      noShowService.getAnalytics([teleshopManager.branchId], startDate, endDate),
+    ])
+
+    res.json({
+      success: true,
+      timeframe,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      policy,
+      ...analytics,
+    })
+  } catch (error) {
+    console.error("No-show analytics error:", error)
+    res.status(500).json({ error: "Failed to fetch no-show analytics" })
+  }
+})
+
+// ==================== PARKED TOKENS ====================
+
+router.get("/park-settings", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const parked = await prisma.token.findMany({
+      where: { outletId: teleshopManager.branchId, status: "parked" },
+      orderBy: { tokenNumber: "asc" },
+      select: { id: true, tokenNumber: true, parkedAt: true, parkedUntil: true, parkCount: true, counterNumber: true },
+    })
+
+    res.json({ success: true, settings: await parkingService.getSettings(teleshopManager.branchId), parked })
+  } catch (error) {
+    console.error("Fetch park settings error:", error)
+    res.status(500).json({ error: "Failed to fetch park settings" })
+  }
+})
+
+router.put("/park-settings", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const { maxMinutes, maxPerToken } = req.body || {}
+    const input = { maxMinutes, maxPerToken }
+    const validationError = parkingService.validateSettings(input)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const before = await parkingService.getSettings(teleshopManager.branchId)
+    const settings = await parkingService.updateSettings(teleshopManager.branchId, input)
+
+    auditLog(teleshopManager.id, "UPDATE_PARK_SETTINGS", "outlet", teleshopManager.branchId, { before, after: settings })
+
+    res.json({ success: true, settings })
+  } catch (error) {
+    console.error("Update park settings error:", error)
+    res.status(500).json({ error: "Failed to update park settings" })
+  }
+})
+
+router.post("/tokens/:tokenId/park", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    const token = await prisma.token.findUnique({ where: { id: req.params.tokenId }, select: { outletId: true } })
+    if (!token || token.outletId !== teleshopManager.branchId) {
+      return res.status(404).json({ error: "Token not found" })
+    }
+
+    const parked = await parkingService.park(req.params.tokenId, { actor: "manager", minutes: req.body?.minutes })
+    auditLog(teleshopManager.id, "PARK_TOKEN", "token", parked.id, { tokenNumber: parked.tokenNumber, parkedUntil: parked.parkedUntil })
+
+    res.json({ success: true, token: parked })
+  } catch (error) {
+    if (error instanceof ParkingError) return res.status(error.status).json({ error: error.message })
+    console.error("Manager park token error:", error)
+    res.status(500).json({ error: "Failed to park token" })
+  }
+})
+
+router.post("/tokens/:tokenId/resume", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    const token = await prisma.token.findUnique({ where: { id: req.params.tokenId }, select: { outletId: true } })
+    if (!token || token.outletId !== teleshopManager.branchId) {
+      return res.status(404).json({ error: "Token not found" })
+    }
+
+    const resumed = await parkingService.resume(req.params.tokenId, "manager")
+    auditLog(teleshopManager.id, "RESUME_TOKEN", "token", resumed.id, { tokenNumber: resumed.tokenNumber })
+
+    res.json({ success: true, token: resumed })
+  } catch (error) {
+    if (error instanceof ParkingError) return res.status(error.status).json({ error: error.message })
+    console.error("Manager resume token error:", error)
+    res.status(500).json({ error: "Failed to resume token" })
+  }
+})
+
+// ==================== REMOTE QUEUE ====================
+
+router.get("/remote-join-settings", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const awaitingCheckIn = await prisma.token.findMany({
+      where: { outletId: teleshopManager.branchId, isRemote: true, checkedInAt: null, status: { in: ["waiting", "parked"] }, createdAt: { gte: getLastDailyReset() } },
+      orderBy: { tokenNumber: "asc" },
+      select: { id: true, tokenNumber: true, serviceTypes: true, status: true, createdAt: true, leaveNotifiedAt: true },
+    })
+
+    res.json({ success: true, settings: await remoteQueueService.getSettings(teleshopManager.branchId), awaitingCheckIn })
+  } catch (error) {
+    console.error("Fetch remote join settings error:", error)
+    res.status(500).json({ error: "Failed to fetch remote join settings" })
+  }
+})
+
+router.put("/remote-join-settings", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const { latitude, longitude, geofenceRadiusMeters, services } = req.body || {}
+    const input = { latitude, longitude, geofenceRadiusMeters, services }
+    const validationError = remoteQueueService.validateSettings(input)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const before = await remoteQueueService.getSettings(teleshopManager.branchId)
+    const settings = await remoteQueueService.updateSettings(teleshopManager.branchId, input)
+
+    auditLog(teleshopManager.id, "UPDATE_REMOTE_JOIN_SETTINGS", "outlet", teleshopManager.branchId, { before, after: settings })
+
+    res.json({ success: true, settings })
+  } catch (error) {
+    console.error("Update remote join settings error:", error)
+    res.status(500).json({ error: "Failed to update remote join settings" })
+  }
+})
+
+// ==================== COUNTERS ====================
+
+router.get("/counters", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    res.json({ success: true, counters: await counterService.listCounters(teleshopManager.branchId), types: COUNTER_TYPES })
+  } catch (error) {
+    console.error("Fetch counters error:", error)
+    res.status(500).json({ error: "Failed to fetch counters" })
+  }
+})
+
+router.post("/counters", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const { number, name, type, allowedServices, wheelchairAccessible, hearingLoop, seatedService } = req.body || {}
+    const input = { number, name, type, allowedServices, wheelchairAccessible, hearingLoop, seatedService }
+    const validationError = counterService.validateInput(input)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const counter = await counterService.createCounter(teleshopManager.branchId, input)
+    auditLog(teleshopManager.id, "CREATE_COUNTER", "counter", counter.id, { counter })
+
+    res.json({ success: true, counter })
+  } catch (error) {
+    if (error instanceof CounterError) return res.status(error.status).json({ error: error.message })
+    console.error("Create counter error:", error)
+    res.status(500).json({ error: "Failed to create counter" })
+  }
+})
+
+router.patch("/counters/:counterId", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const { number, name, type, allowedServices, wheelchairAccessible, hearingLoop, seatedService } = req.body || {}
+    const input = { number, name, type, allowedServices, wheelchairAccessible, hearingLoop, seatedService }
+    const validationError = counterService.validateInput(input)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const counter = await counterService.updateCounter(teleshopManager.branchId, req.params.counterId, input)
+    auditLog(teleshopManager.id, "UPDATE_COUNTER", "counter", counter.id, { changes: input })
+
+    res.json({ success: true, counter })
+  } catch (error) {
+    if (error instanceof CounterError) return res.status(error.status).json({ error: error.message })
+    console.error("Update counter error:", error)
+    res.status(500).json({ error: "Failed to update counter" })
+  }
+})
+
+// Open or close a counter ({ isOpen, reason })
+router.patch("/counters/:counterId/status", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const { isOpen, reason } = req.body || {}
+    if (typeof isOpen !== "boolean") return res.status(400).json({ error: "isOpen must be true or false" })
+    if (reason !== undefined && reason !== null && typeof reason !== "string") return res.status(400).json({ error: "reason must be text" })
+
+    const counter = await counterService.setOpen(teleshopManager.branchId, req.params.counterId, isOpen, reason)
+    auditLog(teleshopManager.id, isOpen ? "OPEN_COUNTER" : "CLOSE_COUNTER", "counter", counter.id, { number: counter.number, reason: counter.closedReason })
+
+    res.json({ success: true, counter })
+  } catch (error) {
+    if (error instanceof CounterError) return res.status(error.status).json({ error: error.message })
+    console.error("Update counter status error:", error)
+    res.status(500).json({ error: "Failed to update counter status" })
+  }
+})
+
+router.delete("/counters/:counterId", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const counter = await counterService.deleteCounter(teleshopManager.branchId, req.params.counterId)
+    auditLog(teleshopManager.id, "DELETE_COUNTER", "counter", counter.id, { number: counter.number })
+
+    res.json({ success: true })
+  } catch (error) {
+    if (error instanceof CounterError) return res.status(error.status).json({ error: error.message })
+    console.error("Delete counter error:", error)
+    res.status(500).json({ error: "Failed to delete counter" })
+  }
+})
+
+// ==================== PRIORITY CATEGORIES ====================
+
+router.get("/priority/analytics", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    const { timeframe = 'today' } = req.query
+
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    let startDate = new Date()
+    let endDate = new Date()
+
+    switch (timeframe) {
+      case 'week':
+        startDate.setDate(startDate.getDate() - startDate.getDay())
+        startDate.setHours(0, 0, 0, 0)
+        endDate.setHours(23, 59, 59, 999)
+        break
+      case 'month':
+        startDate.setDate(1)
+        startDate.setHours(0, 0, 0, 0)
+        endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0)
+        endDate.setHours(23, 59, 59, 999)
+        break
+      case 'today':
+      default:
+        startDate.setHours(0, 0, 0, 0)
+        endDate.setHours(23, 59, 59, 999)
+        break
+    }
+
+    const [categories, quotas, analytics] = await Promise.all([
+      priorityService.listCategories(true),
+      priorityService.quotaState(teleshopManager.branchId),
+      priorityService.getAnalytics([teleshopManager.branchId], startDate, endDate),
+    ])
+
+    res.json({
+      success: true,
+      timeframe,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      categories: categories.map(category => ({ ...category, quotaLastHour: quotas.get(category.id) || null })),
+      totals: analytics.totals,
+      byCategory: analytics.byCategory,
+    })
+  } catch (error) {
+    console.error("Priority analytics error:", error)
+    res.status(500).json({ error: "Failed to fetch priority analytics" })
+  }
+})
+
+// ==================== SLA TARGETS ====================
+
+router.get("/sla", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const [services, targets, definitions, policy, openBreaches] = await Promise.all([
+      prisma.service.findMany({ where: { isActive: true }, select: { id: true, code: true, title: true }, orderBy: { order: 'asc' } }),
+      slaService.getTargets(teleshopManager.branchId),
+      slaService.listDefinitions(teleshopManager.branchId),
+      slaService.getPolicy(),
+      prisma.slaBreach.findMany({
+        where: { outletId: teleshopManager.branchId, resolvedAt: null },
+        include: { token: { select: { tokenNumber: true, displayNumber: true, status: true, assignedTo: true } } },
+        orderBy: { breachedAt: 'asc' },
+      }),
+    ])
+
+    res.json({
+      success: true,
+      policy,
+      services: services.map(service => ({
+        ...service,
+        ...targets.get(service.code),
+        overrideId: definitions.find(d => d.serviceId === service.id && d.outletId === teleshopManager.branchId)?.id || null,
+      })),
+      openBreaches: openBreaches.map(breach => ({ ...breach, token: { ...breach.token, displayNumber: displayToken(breach.token) } })),
+    })
+  } catch (error) {
+    console.error("Get SLA targets error:", error)
+    res.status(500).json({ error: "Failed to fetch SLA targets" })
+  }
+})
+
+// Override a service's SLA for this branch
+router.put("/sla/:serviceId", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const { targetWaitMinutes, targetServiceMinutes, isActive } = req.body || {}
+    const input = { targetWaitMinutes, targetServiceMinutes, isActive }
+    const validationError = slaService.validateDefinition(input, false)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const definition = await slaService.saveDefinition(req.params.serviceId, teleshopManager.branchId, input)
+    auditLog(teleshopManager.id, "UPDATE_SLA_DEFINITION", "sla_definition", definition.id, { serviceId: req.params.serviceId, changes: input })
+
+    res.json({ success: true, definition })
+  } catch (error) {
+    if (error instanceof SlaError) return res.status(error.status).json({ error: error.message })
+    console.error("Update SLA definition error:", error)
+    res.status(500).json({ error: "Failed to update SLA definition" })
+  }
+})
+
+// Drop this branch's override; the service goes back to the default SLA
+router.delete("/sla/overrides/:definitionId", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const definition = await slaService.deleteDefinition(req.params.definitionId, teleshopManager.branchId)
+    auditLog(teleshopManager.id, "DELETE_SLA_DEFINITION", "sla_definition", definition.id, { serviceId: definition.serviceId })
+
+    res.json({ success: true })
+  } catch (error) {
+    if (error instanceof SlaError) return res.status(error.status).json({ error: error.message })
+    console.error("Delete SLA definition error:", error)
+    res.status(500).json({ error: "Failed to delete SLA definition" })
+  }
+})
+
+router.get("/sla/analytics", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    const { timeframe = 'today' } = req.query
+
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    let startDate = new Date()
+    let endDate = new Date()
+
+    switch (timeframe) {
+      case 'week':
+        startDate.setDate(startDate.getDate() - startDate.getDay())
+        startDate.setHours(0, 0, 0, 0)
+        endDate.setHours(23, 59, 59, 999)
+        break
+      case 'month':
+        startDate.setDate(1)
+        startDate.setHours(0, 0, 0, 0)
+        endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0)
+        endDate.setHours(23, 59, 59, 999)
+        break
+      case 'today':
+      default:
+        startDate.setHours(0, 0, 0, 0)
+        endDate.setHours(23, 59, 59, 999)
+        break
+    }
+
+    const [compliance, breaches] = await Promise.all([
+      slaService.getCompliance([teleshopManager.branchId], startDate, endDate),
+      prisma.slaBreach.findMany({
+        where: { outletId: teleshopManager.branchId, breachedAt: { gte: startDate, lte: endDate } },
+        include: { token: { select: { tokenNumber: true, displayNumber: true, assignedTo: true } } },
+        orderBy: { breachedAt: 'desc' },
+        take: 100,
+      }),
+    ])
+
+    res.json({
+      success: true,
+      timeframe,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      ...compliance,
+      recentBreaches: breaches.map(breach => ({ ...breach, token: { ...breach.token, displayNumber: displayToken(breach.token) } })),
+    })
+  } catch (error) {
+    console.error("SLA analytics error:", error)
+    res.status(500).json({ error: "Failed to fetch SLA analytics" })
+  }
+})
+
+// ==================== END OF DAY ====================
+
+router.get("/end-of-day-policy", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    res.json({ success: true, policy: await endOfDayService.getPolicy(teleshopManager.branchId) })
+  } catch (error) {
+    console.error("Fetch end-of-day policy error:", error)
+    res.status(500).json({ error: "Failed to fetch end-of-day policy" })
+  }
+})
+
+router.put("/end-of-day-policy", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const { closingTime, issuanceCutoffMinutes, action } = req.body || {}
+    const input = { closingTime, issuanceCutoffMinutes, action }
+    const validationError = endOfDayService.validatePolicy(input)
+    if (validationError) return res.status(400).json({ error: validationError })
+
+    const before = await endOfDayService.getPolicy(teleshopManager.branchId)
+    const policy = await endOfDayService.updatePolicy(teleshopManager.branchId, input)
+
+    auditLog(teleshopManager.id, "UPDATE_END_OF_DAY_POLICY", "outlet", teleshopManager.branchId, { before, after: policy })
+
+    res.json({ success: true, policy })
+  } catch (error) {
+    console.error("Update end-of-day policy error:", error)
+    res.status(500).json({ error: "Failed to update end-of-day policy" })
+  }
+})
+
+// Whether issuing has stopped and which waiting customers are unlikely to be served before closing
+router.get("/drain", async (req: any, res) => {
+  try {
+    const teleshopManager = req.teleshopManager
+    if (!teleshopManager.branchId) {
+      return res.status(400).json({ error: "No branch assigned to this manager" })
+    }
+
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: teleshopManager.branchId },
+      select: { id: true, closingTime: true, issuanceCutoffMinutes: true },
+    })
+    if (!outlet) return res.status(404).json({ error: "Outlet not found" })
+
+    const window = closingWindow(outlet)
+    res.json({
+      success: true,
+      closingTime: outlet.closingTime,
+      cutoffAt: window?.cutoffAt ?? null,
+      issuing: isIssuing(outlet),
+      drain: await endOfDayService.estimateDrain(outlet),
+    })
+  } catch (error) {
+    console.error("Drain estimate error:", error)
+    res.status(500).json({ error: "Failed to estimate end-of-day drain" })
+  }
+})
+
 export default router
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { Router, Request } from "express"
+import { prisma } from "../server"
+import { authorize, AuthContext } from "../services/accessControl"
+import otpService, { TwoFactorUserType } from "../services/otpService"
+import sessionService from "../services/sessionService"
+import { systemLogger } from "../services/systemLogger"
+
+const router = Router()
+
+// Admin, GM and DGM manage their own authenticator app here. Sessions that are
+// still waiting for a mandatory enrolment are allowed in (and only here).
+router.use(authorize({ roles: ['admin', 'gm', 'dgm'], allowMfaPending: true }))
+
+const actor = (req: Request) => {
+  const auth = req.auth as AuthContext
+  return { userType: auth.role as TwoFactorUserType, userId: auth.userId }
+}
+
+// Name shown in the authenticator app and the mobile number kept with the factor
+async function accountDetails(userType: TwoFactorUserType, userId: string): Promise<{ accountName: string; mobileNumber: string | null }> {
+  if (userType === 'gm') {
+    const gm = await prisma.gM.findUnique({ where: { id: userId }, select: { email: true, mobileNumber: true } })
+    return { accountName: gm?.email || gm?.mobileNumber || userId, mobileNumber: gm?.mobileNumber || null }
+  }
+  if (userType === 'dgm') {
+    const dgm = await prisma.dGM.findUnique({ where: { id: userId }, select: { email: true, mobileNumber: true } })
+    return { accountName: dgm?.email || dgm?.mobileNumber || userId, mobileNumber: dgm?.mobileNumber || null }
+  }
+  return { accountName: userId, mobileNumber: null }
+}
+
+// GET /status - enrolment state, backup codes left and whether the role requires it
+router.get("/status", async (req, res) => {
+  try {
+    const { userType, userId } = actor(req)
+    const status = await otpService.getTwoFactorStatus(userType, userId)
+    res.json({ success: true, ...status, enrollmentPending: !!req.auth?.payload?.mfaEnrollmentRequired })
+  } catch (error) {
+    console.error("Two-factor status error:", error)
+    res.status(500).json({ error: "Failed to fetch two-factor status" })
+  }
+})
+
+// POST /enroll - new secret + otpauth:// URL for the QR code; replacing an
+// enrolled authenticator needs its current code or a backup code
+router.post("/enroll", async (req, res) => {
+  try {
+    const { userType, userId } = actor(req)
+    const { totpCode, backupCode } = req.body || {}
+    const { accountName, mobileNumber } = await accountDetails(userType, userId)
+    const enrollment = await otpService.beginTotpEnrollment(userType, userId, accountName, mobileNumber, {
+      totpCode: totpCode ? String(totpCode) : undefined,
+      backupCode: backupCode ? String(backupCode) : undefined,
+    })
+    if (!enrollment.success) {
+      return res.status(enrollment.retryAfterSeconds ? 429 : 401).json({ error: enrollment.message, retryAfterSeconds: enrollment.retryAfterSeconds })
+    }
+
+    res.setHeader("Cache-Control", "no-store")
+    res.json(enrollment)
+  } catch (error) {
+    console.error("Two-factor enrol error:", error)
+    res.status(500).json({ error: "Failed to start authenticator enrolment" })
+  }
+})
+
+// POST /enroll/confirm - verify the first code; returns backup codes once
+router.post("/enroll/confirm", async (req, res) => {
+  try {
+    const { userType, userId } = actor(req)
+    const { totpCode } = req.body
+    if (!totpCode) return res.status(400).json({ error: "Authenticator code is required" })
+
+    const result = await otpService.confirmTotpEnrollment(userType, userId, String(totpCode))
+    if (!result.success) return res.status(400).json({ error: result.message })
+
+    await systemLogger.audit(userId, userType, 'TOTP_ENROLLED', `Authenticator app enrolled for ${userType} ${userId}`, {
+      targetType: userType,
+      targetId: userId,
+      ipAddress: req.ip,
+    })
+
+    // A session opened before enrolment is swapped for a full one
+    const payload = req.auth!.payload
+    let session = null
+    if (payload.mfaEnrollmentRequired) {
+      const { mfaEnrollmentRequired, sid, iat, exp, ...claims } = payload
+      await sessionService.revokeSession(sid, `${userType}:${userId}`, 'mfa_enrolled')
+      session = await sessionService.startSession(req, userType, userId, claims)
+      sessionService.setSessionCookies(res, userType, session)
+    }
+
+    res.setHeader("Cache-Control", "no-store")
+    res.json({
+      success: true,
+      message: result.message,
+      backupCodes: result.backupCodes,
+      ...(session ? { token: session.accessToken, refreshToken: session.refreshToken, expiresAt: session.accessTokenExpiresAt } : {}),
+    })
+  } catch (error) {
+    console.error("Two-factor confirm error:", error)
+    res.status(500).json({ error: "Failed to confirm authenticator enrolment" })
+  }
+})
+
+// POST /backup-codes/regenerate - invalidates the old set; requires a current authenticator code
+router.post("/backup-codes/regenerate", async (req, res) => {
+  try {
+    const { userType, userId } = actor(req)
+    const { totpCode } = req.body
+    if (!totpCode) return res.status(400).json({ error: "Authenticator code is required" })
+
+    const verified = await otpService.verifySecondFactor(userType, userId, { totpCode: String(totpCode) })
+    if (!verified.success) return res.status(verified.retryAfterSeconds ? 429 : 401).json({ error: verified.message, retryAfterSeconds: verified.retryAfterSeconds })
+
+    const { mobileNumber } = await accountDetails(userType, userId)
+    const backupCodes = await otpService.regenerateBackupCodes(userType, userId, mobileNumber)
+    await systemLogger.audit(userId, userType, 'TOTP_BACKUP_CODES_REGENERATED', `Backup codes regenerated for ${userType} ${userId}`, {
+      targetType: userType,
+      targetId: userId,
+      ipAddress: req.ip,
+    })
+
+    res.setHeader("Cache-Control", "no-store")
+    res.json({ success: true, backupCodes })
+  } catch (error) {
+    console.error("Backup code regeneration error:", error)
+    res.status(500).json({ error: "Failed to regenerate backup codes" })
+  }
+})
+
+// POST /disable - remove the authenticator app (not allowed where the role requires it)
+router.post("/disable", async (req, res) => {
+  try {
+    const { userType, userId } = actor(req)
+    const { totpCode, backupCode } = req.body
+    if (!totpCode && !backupCode) return res.status(400).json({ error: "Authenticator or backup code is required" })
+
+    if (await otpService.isTotpRequired(userType)) {
+      return res.status(403).json({ error: "An authenticator app is mandatory for your role" })
+    }
+
+    const verified = await otpService.verifySecondFactor(userType, userId, { totpCode, backupCode })
+    if (!verified.success) return res.status(verified.retryAfterSeconds ? 429 : 401).json({ error: verified.message, retryAfterSeconds: verified.retryAfterSeconds })
+
+    await otpService.disableTotp(userType, userId)
+    await systemLogger.audit(userId, userType, 'TOTP_DISABLED', `Authenticator app removed for ${userType} ${userId}`, {
+      targetType: userType,
+      targetId: userId,
+      ipAddress: req.ip,
+    })
+    res.json({ success: true })
+  } catch (error) {
+    console.error("Two-factor disable error:", error)
+    res.status(500).json({ error: "Failed to disable authenticator app" })
+  }
+})
+
+export default router
@@ -12,6 +12,7 @@ import compression from "compression"
 import pino from "pino"
 import { getNextDailyReset, getLastDailyReset } from "./utils/resetWindow"
 import smsHelper from "./utils/smsHelper"
+import { getNextTokenNumber, getTokenDisplayNumber } from "./utils/tokenHelper"
 
 // Import routes
 import customerRoutes from "./routes/customer.routes"
@@ -40,7 +41,23 @@ import { healthTracker } from "./services/healthTracker"
 import { systemLogger, requestLoggerMiddleware, errorLoggerMiddleware } from "./services/systemLogger"
 import { wsManager, OUTLET_DEVICES_ROOM, MANAGER_DEVICES_ROOM } from "./services/wsManager"
 import { resolveUploadDir } from "./utils/uploadDir"
+import { getClosures, isRecurringNoticeActive } from "./utils/branchStatus"
 import notificationSettingsRoutes from "./routes/notification-settings.routes"
+import sessionRoutes from "./routes/session.routes"
+import twoFactorRoutes from "./routes/two-factor.routes"
+import sessionService from "./services/sessionService"
+import kioskCredentialService from "./services/kioskCredentialService"
+import documentService from "./services/documentService"
+import otpRateLimiter from "./services/otpRateLimiter"
+import redactionService from "./services/redactionService"
+import dataRetentionService from "./services/dataRetentionService"
+import fieldEncryption from "./services/fieldEncryption"
+import tokenAging from "./services/tokenAging"
+import noShowService from "./services/noShowService"
+import parkingService from "./services/parkingService"
+import remoteQueueService from "./services/remoteQueueService"
+import slaService from "./services/slaService"
+import endOfDayService from "./services/endOfDayService"
 import { sendDailySummaries, getNotificationSettings } from "./services/dailySummaryService"
 // NOTE: qrSessionService and deviceLinkService disabled - using ManagerQRToken table instead
 // import { qrSessionService } from "./services/qrSessionService"
@@ -49,7 +66,18 @@ import { sendDailySummaries, getNotificationSettings } from "./services/dailySum
 export const prisma = new PrismaClient({
   log: process.env.NODE_ENV === 'development' ? ['warn', 'error'] : ['error'],
 })
-export const logger = pino({ level: process.env.LOG_LEVEL || 'info' })
+// NIC / email / SLT account / appointment contact columns are encrypted at rest
+prisma.$use(fieldEncryption.middleware())
+// Mobile numbers, NICs, emails, OTPs and JWTs are masked before anything is written out
+redactionService.installConsoleRedaction()
+export const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  hooks: {
+    logMethod(args, method) {
+      method.apply(this, redactionService.redactArgs(args) as Parameters<typeof method>)
+    },
+  },
+})
 
 // Global error handlers for better observability in production
 process.on("unhandledRejection", (reason, promise) => {
@@ -73,7 +101,9 @@ process.on("uncaughtException", (err) => {
 });
 
 const app = express()
-app.set("trust proxy", true)
+// Number of reverse proxies in front of the app. req.ip is read that many hops from the
+// right of X-Forwarded-For, so a client cannot pick its own address by sending the header.
+app.set("trust proxy", Math.max(0, Number(process.env.TRUST_PROXY_HOPS ?? 1)))
 const server = createServer(app)
 const wss = new WebSocketServer({ server })
 const PROJECT_ROOT = path.resolve(__dirname, "..")
@@ -121,8 +151,9 @@ app.use(
 app.use(compression({ threshold: Number(process.env.COMPRESS_THRESHOLD || 1024) }))
 app.use(cookieParser())
 app.use(express.json({ limit: '20mb' }))
-app.use("/uploads", express.static(UPLOAD_DIR))
-app.use("/api/uploads", express.static(UPLOAD_DIR))
+// Public assets only (promo videos etc.); customer documents live in PRIVATE_UPLOAD_DIR behind /api/document
+app.use("/uploads", express.static(UPLOAD_DIR, { index: false, dotfiles: "deny" }))
+app.use("/api/uploads", express.static(UPLOAD_DIR, { index: false, dotfiles: "deny" }))
 app.use("/public", express.static("public")) // 🚀 Serve the fixed outlet display
 
 // System logging middleware (logs errors and slow requests to database)
@@ -468,39 +499,8 @@ app.use("/api/utils", utilsRoutes)
 app.use("/api/outlet", outletRoutes)
 app.use("/api/app", appUpdateRoutes)
 app.use("/api/admin/notification-settings", notificationSettingsRoutes)
-
-// Helper: parse "HH:MM" string to total minutes
-function parseTimeToMinutes(t: string): number {
-  const [h, m] = t.split(":").map(Number)
-  return (h || 0) * 60 + (m || 0)
-}
-
-// Helper: check if a recurring closure notice is active right now
-function isRecurringNoticeActive(notice: any, now: Date): boolean {
-  if (!notice.isRecurring || notice.recurringType !== "weekly") return false
-  if (notice.recurringEndDate && new Date(notice.recurringEndDate) < now) return false
-
-  const dayNames = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"]
-  const todayName = dayNames[now.getDay()]
-  const days: string[] = Array.isArray(notice.recurringDays) ? notice.recurringDays : []
-  if (!days.includes(todayName)) return false
-
-  const nowMinutes = now.getHours() * 60 + now.getMinutes()
-
-  // Prefer explicit recurringStartTime / recurringEndTime fields (e.g. "12:30", "23:59")
-  if (notice.recurringStartTime && notice.recurringEndTime) {
-    const startMinutes = parseTimeToMinutes(notice.recurringStartTime)
-    const endMinutes = parseTimeToMinutes(notice.recurringEndTime)
-    return nowMinutes >= startMinutes && nowMinutes <= endMinutes
-  }
-
-  // Fall back to hour/minute from startsAt / endsAt datetime fields
-  const startTemplate = new Date(notice.startsAt)
-  const endTemplate = new Date(notice.endsAt)
-  const startMinutes = startTemplate.getHours() * 60 + startTemplate.getMinutes()
-  const endMinutes = endTemplate.getHours() * 60 + endTemplate.getMinutes()
-  return nowMinutes >= startMinutes && nowMinutes <= endMinutes
-}
+app.use("/api/sessions", sessionRoutes)
+app.use("/api/two-factor", twoFactorRoutes)
 
 // Public: Branch closed status check (no auth required)
 // Checks: mercantile holiday | active closure notice (blocking) | recurring closure notice
@@ -513,71 +513,25 @@ app.get("/api/branch-status/:outletId", async (req, res) => {
       return res.status(400).json({ error: "Invalid 'at' date provided" })
     }
 
-    const todayStart = new Date(now)
-    todayStart.setHours(0, 0, 0, 0)
-    const todayEnd = new Date(now)
-    todayEnd.setHours(23, 59, 59, 999)
-
-    // Run all 5 DB queries in parallel — saves up to 4× sequential round-trip latency
-    const [holidays, activeOneTime, recurringClosure, activeStandardOneTime, recurringStandard] = await Promise.all([
-      (prisma as any).mercantileHoliday.findMany({ select: { date: true, name: true, isRecurring: true } }),
-      (prisma as any).closureNotice.findFirst({
-        where: { outletId, isRecurring: false, startsAt: { lte: now }, endsAt: { gte: now }, noticeType: "closure" },
-        orderBy: { createdAt: "desc" },
-        select: { title: true, message: true }
-      }),
-      (prisma as any).closureNotice.findMany({
-        where: { outletId, isRecurring: true, noticeType: "closure" },
-        select: { title: true, message: true, isRecurring: true, recurringType: true, recurringDays: true, recurringEndDate: true, recurringStartTime: true, recurringEndTime: true, startsAt: true, endsAt: true }
-      }),
-      (prisma as any).closureNotice.findFirst({
+    // Mercantile holiday, then active one-time / recurring closure notices (same rules as the token-issuing checks)
+    const [closure, activeStandardOneTime, recurringStandard] = await Promise.all([
+      getClosures([outletId], now).then(closures => closures.get(outletId)),
+      prisma.closureNotice.findFirst({
         where: { outletId, noticeType: "standard", isRecurring: false, startsAt: { lte: now }, endsAt: { gte: now } },
         orderBy: { createdAt: "desc" },
         select: { title: true, message: true }
       }),
-      (prisma as any).closureNotice.findMany({
+      prisma.closureNotice.findMany({
         where: { outletId, noticeType: "standard", isRecurring: true },
         select: { title: true, message: true, isRecurring: true, recurringType: true, recurringDays: true, recurringEndDate: true, recurringStartTime: true, recurringEndTime: true, startsAt: true, endsAt: true }
       }),
     ])
 
-    // 1. Mercantile holiday check
-    for (const holiday of holidays) {
-      const hDate = new Date(holiday.date)
-      if (holiday.isRecurring) {
-        if (hDate.getMonth() === now.getMonth() && hDate.getDate() === now.getDate()) {
-          return res.json({ isClosed: true, reason: `Mercantile Holiday: ${holiday.name}`, activeNotice: null, standardNotice: null })
-        }
-      } else {
-        if (hDate >= todayStart && hDate <= todayEnd) {
-          return res.json({ isClosed: true, reason: `Mercantile Holiday: ${holiday.name}`, activeNotice: null, standardNotice: null })
-        }
-      }
+    if (closure) {
+      return res.json({ isClosed: true, reason: closure.reason, activeNotice: closure.notice, standardNotice: null })
     }
 
-    // 2. Active one-time CLOSURE notice
-    if (activeOneTime) {
-      return res.json({
-        isClosed: true,
-        reason: activeOneTime.title,
-        activeNotice: { title: activeOneTime.title, message: activeOneTime.message },
-        standardNotice: null
-      })
-    }
-
-    // 3. Recurring CLOSURE notices
-    for (const rn of recurringClosure) {
-      if (isRecurringNoticeActive(rn, now)) {
-        return res.json({
-          isClosed: true,
-          reason: rn.title,
-          activeNotice: { title: rn.title, message: rn.message },
-          standardNotice: null
-        })
-      }
-    }
-
-    // 4. Standard (dismissible) notices — branch is NOT closed, but show info banner
+    // Standard (dismissible) notices — branch is NOT closed, but show info banner
     let standardNotice: { title: string; message: string } | null = null
     if (activeStandardOneTime) {
       standardNotice = { title: activeStandardOneTime.title, message: activeStandardOneTime.message }
@@ -765,47 +719,55 @@ server.listen(PORT, "0.0.0.0", () => {
   })
 })
 
-// Periodic job: detect long-wait tokens and create alerts
-const LONG_WAIT_MINUTES = Number(process.env.LONG_WAIT_MINUTES || 10)
+// Periodic job: check waiting / in-service tokens against their SLA targets and escalate breaches
 // In production, reduce frequency to ease DB connection pressure
 const LONG_WAIT_CHECK_MS = process.env.NODE_ENV === "production" ? 1000 * 60 * 5 : 1000 * 60
 
-const checkLongWait = async () => {
+const checkSlaBreaches = async () => {
   try {
-    const cutoff = new Date(Date.now() - LONG_WAIT_MINUTES * 60 * 1000)
-    const tokens = await prisma.token.findMany({
-      where: {
-        status: "waiting",
-        createdAt: { lt: cutoff },
-      },
-      include: { outlet: true, customer: true },
-    })
-    if (tokens.length === 0) return
-
-    // Fetch existing alerts for these tokens in one query
-    const tokenIds = tokens.map(t => t.id)
-    const existingAlerts = await prisma.alert.findMany({
-      where: { type: "long_wait", relatedEntity: { in: tokenIds } },
-      select: { relatedEntity: true }
-    })
-    const existingSet = new Set(existingAlerts.map(a => a.relatedEntity))
-
-    for (const token of tokens) {
-      if (existingSet.has(token.id)) continue
-      const message = `Token #${token.tokenNumber} has been waiting more than ${LONG_WAIT_MINUTES} minutes at ${token.outlet.name}`
-      const alert = await prisma.alert.create({
-        data: { type: "long_wait", severity: "medium", message, relatedEntity: token.id, outletId: token.outletId },
-      })
-      broadcast({ type: "LONG_WAIT", data: { alert, token } })
-    }
+    await slaService.checkBreaches()
   } catch (err) {
-    logger.error({ err }, "Long-wait check error")
+    logger.error({ err }, "SLA breach check error")
   }
 }
 
 // Allow disabling the job via env if needed (e.g., multi-instance deployments)
 if (process.env.DISABLE_LONG_WAIT_JOB !== "true") {
-  setInterval(checkLongWait, LONG_WAIT_CHECK_MS)
+  setInterval(checkSlaBreaches, LONG_WAIT_CHECK_MS)
+  // Aging alerts name the officers who could take a starving token
+  setInterval(() => {
+    tokenAging.checkAgingTokens().catch(err => logger.error({ err }, "Token aging check error"))
+  }, LONG_WAIT_CHECK_MS)
+}
+
+// Periodic job: apply outlet no-show policies to called customers who have not arrived
+const NO_SHOW_CHECK_MS = Number(process.env.NO_SHOW_CHECK_MS || 30 * 1000)
+if (process.env.DISABLE_NO_SHOW_JOB !== "true") {
+  setInterval(() => {
+    noShowService.checkNoShows().catch(err => logger.error({ err }, "No-show check error"))
+  }, NO_SHOW_CHECK_MS)
+}
+
+// Periodic job: after an outlet's issuance cut-off, warn customers who will likely not be served before closing
+const DRAIN_CHECK_MS = Number(process.env.DRAIN_CHECK_MS || 60 * 1000)
+if (process.env.DISABLE_DRAIN_JOB !== "true") {
+  setInterval(() => {
+    endOfDayService.checkDrain().catch(err => logger.error({ err }, "Drain check error"))
+  }, DRAIN_CHECK_MS)
+}
+
+// Periodic job: parked tokens whose step-away time ran out are skipped
+if (process.env.DISABLE_PARK_EXPIRY_JOB !== "true") {
+  setInterval(() => {
+    parkingService.expireParkedTokens().catch(err => logger.error({ err }, "Parked token expiry error"))
+  }, 60 * 1000)
+}
+
+// Periodic job: tell remote customers when to leave for the outlet
+if (process.env.DISABLE_REMOTE_JOIN_JOB !== "true") {
+  setInterval(() => {
+    remoteQueueService.notifyLeaveNow().catch(err => logger.error({ err }, "Leave-now SMS job error"))
+  }, 60 * 1000)
 }
 
 // Officer presence monitoring - REMOVED automatic timeout system
@@ -973,16 +935,13 @@ async function processAppointments() {
 
           // Next token number for outlet today
           const lastReset = getLastDailyReset()
-          const lastToken = await tx.token.findFirst({
-            where: { outletId: apptRow.outletId, createdAt: { gte: lastReset } },
-            orderBy: { tokenNumber: 'desc' },
-            select: { tokenNumber: true }
-          })
-          const tokenNumber = (lastToken?.tokenNumber || 0) + 1
+          const tokenNumber = await getNextTokenNumber(tx, apptRow.outletId, apptRow.serviceTypes, lastReset)
+          const displayNumber = await getTokenDisplayNumber(tx, apptRow.outletId, apptRow.serviceTypes, tokenNumber)
 
           const newToken = await tx.token.create({
             data: {
               tokenNumber,
+              displayNumber,
               customerId: customer.id,
               serviceTypes: apptRow.serviceTypes,
               outletId: apptRow.outletId,
@@ -1128,6 +1087,29 @@ function scheduleDailyResetTick() {
       })
       logger.info('All officer statuses reset to offline (counter assignments preserved)')
 
+      // Drop staff sessions that expired or were revoked long ago
+      const purgedSessions = await sessionService.purgeStaleSessions()
+      if (purgedSessions > 0) logger.info(`Purged ${purgedSessions} stale staff sessions`)
+
+      // OTP rate-limit counters only matter for the current business day
+      await otpRateLimiter.purgeOldCounters()
+
+      // Rotate kiosk passwords whose rotation period has elapsed
+      const rotation = await kioskCredentialService.rotateDuePasswords()
+      if (rotation.rotated > 0 || rotation.skipped > 0) {
+        logger.info(`Kiosk password rotation: ${rotation.rotated} rotated, ${rotation.skipped} skipped (no recipient)`)
+      }
+
+      // Anonymize / purge personal data past its retention period
+      const retention = await dataRetentionService.runRetention()
+      logger.info({ anonymized: retention.anonymized, purged: retention.purged }, "Data retention applied")
+
+      // Carry over or cancel tokens still waiting at outlets with a closing time
+      const endOfDay = await endOfDayService.applyEndOfDay(ts)
+      if (endOfDay.carriedOver > 0 || endOfDay.cancelled > 0) {
+        logger.info(endOfDay, "End-of-day policy applied to leftover tokens")
+      }
+
       // Broadcast a lightweight signal; clients may optionally refresh views
       broadcast({ type: "DAILY_RESET", data: { timestamp: ts.toISOString() } })
     } catch (e) {
@@ -1141,6 +1123,28 @@ function scheduleDailyResetTick() {
 
 scheduleDailyResetTick()
 
+// Stored PII redaction rules (defaults apply until loaded)
+redactionService.start()
+  .catch((err) => logger.error({ err }, "Failed to load PII redaction policy"))
+
+// Encrypt PII columns written before field encryption, and move rows off retired keys
+fieldEncryption.reencryptStaleRows(prisma)
+  .then((counts) => {
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0)
+    if (total > 0) logger.info({ counts }, `Re-encrypted ${total} rows with field key ${fieldEncryption.activeKeyId}`)
+  })
+  .catch((err) => logger.error({ err }, "Failed to re-encrypt PII columns"))
+
+// Documents used to share the public upload directory; move them to private storage
+documentService.moveLegacyDocuments()
+  .then((count) => { if (count > 0) logger.info(`Moved ${count} documents to private storage`) })
+  .catch((err) => logger.error({ err }, "Failed to move legacy documents to private storage"))
+
+// Kiosk passwords used to be stored in plaintext; hash any that remain
+kioskCredentialService.hashLegacyPasswords()
+  .then((count) => { if (count > 0) logger.info(`Hashed ${count} legacy kiosk passwords`) })
+  .catch((err) => logger.error({ err }, "Failed to hash legacy kiosk passwords"))
+
 // ─── Daily Summary Notification Scheduler ────────────────────────────────────
 // Checks every minute if it's time to send the daily summary to teleshop managers
 let dailySummaryLastSentDate = '' // tracks which calendar date we already sent for
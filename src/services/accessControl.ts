@@ -0,0 +1,495 @@
+/**
+ * Access Control - Shared staff authentication and scope resolution
+ *
+ * Every staff portal (admin, GM, DGM, RTOM / region manager, teleshop manager,
+ * officer) signs its own JWT. This module reads whichever of those tokens the
+ * caller presents, places the caller in the staff hierarchy and resolves the
+ * regions, provinces and outlets they are allowed to act on, so routes can
+ * declare "role X, scoped to outlet Y" instead of repeating jwt.verify blocks.
+ */
+
+import type { Request, Response, NextFunction } from "express"
+import { prisma } from "../server"
+import sessionService, { SESSION_COOKIES } from "./sessionService"
+
+export type StaffRole =
+  | 'admin'
+  | 'gm'
+  | 'dgm'
+  | 'rtom'
+  | 'region_manager'
+  | 'teleshop_manager'
+  | 'officer'
+
+// Higher rank = wider authority. RTOMs and legacy region managers sit at the same level.
+export const ROLE_RANK: Record<StaffRole, number> = {
+  admin: 60,
+  gm: 50,
+  dgm: 40,
+  rtom: 30,
+  region_manager: 30,
+  teleshop_manager: 20,
+  officer: 10,
+}
+
+// Cookie each portal sets on login (admin only ever uses the Authorization header)
+const ROLE_COOKIES: Partial<Record<StaffRole, string>> = SESSION_COOKIES
+
+export interface AccessScope {
+  global: boolean
+  regionIds: string[]
+  provinceIds: string[]
+  outletIds: string[]
+}
+
+export interface AuthContext {
+  role: StaffRole
+  userId: string
+  payload: any
+  scope: AccessScope
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext
+    }
+  }
+}
+
+export class AccessDeniedError extends Error {
+  constructor(public readonly status: 401 | 403, message: string) {
+    super(message)
+    this.name = 'AccessDeniedError'
+  }
+}
+
+const uniq = (values: Array<string | null | undefined>): string[] =>
+  Array.from(new Set(values.filter((v): v is string => typeof v === 'string' && v.length > 0)))
+
+/**
+ * Work out which role a verified JWT payload belongs to.
+ * Payload shapes are the ones each login route already signs.
+ */
+function classifyPayload(payload: any): StaffRole | null {
+  if (!payload || typeof payload !== 'object') return null
+  if (payload.role === 'admin') return 'admin'
+  if (payload.gmId) return 'gm'
+  if (payload.dgmId) return 'dgm'
+  if (payload.teleshopManagerId) return 'teleshop_manager'
+  if (payload.officerId) return 'officer'
+  if (payload.managerId) return 'rtom'
+  // Legacy region managers only ever act through an RTOM token (see the fallback in authenticateStaff)
+  if (payload.role === 'region_manager') return 'region_manager'
+  return null
+}
+
+/**
+ * Collect candidate tokens from the request, preferring the cookies of the
+ * roles the route accepts, then the Authorization header.
+ */
+function collectTokens(req: Request, roles?: StaffRole[]): string[] {
+  const cookies = (req as any).cookies || {}
+  const cookieNames = uniq((roles && roles.length > 0 ? roles : Object.keys(ROLE_COOKIES) as StaffRole[])
+    .map(role => ROLE_COOKIES[role]))
+
+  const tokens: string[] = []
+  const authHeader = req.headers.authorization
+  if (authHeader && authHeader.startsWith('Bearer ')) tokens.push(authHeader.substring(7))
+  for (const name of cookieNames) {
+    if (cookies[name]) tokens.push(cookies[name])
+  }
+  return uniq(tokens)
+}
+
+/**
+ * Resolve the regions / provinces / outlets a caller may act on.
+ * Returns null when the account no longer exists or has been deactivated.
+ */
+async function resolveScope(role: StaffRole, payload: any): Promise<{ userId: string; scope: AccessScope } | null> {
+  switch (role) {
+    case 'admin':
+      return {
+        userId: payload.email || 'admin',
+        scope: { global: true, regionIds: [], provinceIds: [], outletIds: [] },
+      }
+
+    case 'gm': {
+      const gm = await prisma.gM.findUnique({
+        where: { id: payload.gmId },
+        select: { id: true, isActive: true, regionId: true },
+      })
+      if (!gm || !gm.isActive) return null
+      const regionIds = uniq([gm.regionId])
+      const [provinces, outlets] = regionIds.length > 0
+        ? await Promise.all([
+          prisma.province.findMany({ where: { regionId: { in: regionIds } }, select: { id: true } }),
+          prisma.outlet.findMany({ where: { regionId: { in: regionIds } }, select: { id: true } }),
+        ])
+        : [[], []]
+      return {
+        userId: gm.id,
+        scope: {
+          global: false,
+          regionIds,
+          provinceIds: provinces.map(p => p.id),
+          outletIds: outlets.map(o => o.id),
+        },
+      }
+    }
+
+    case 'dgm': {
+      const dgm = await prisma.dGM.findUnique({
+        where: { id: payload.dgmId },
+        select: { id: true, isActive: true, provinceId: true, regionIds: true, province: { select: { regionId: true } } },
+      })
+      if (!dgm || !dgm.isActive) return null
+      // DGMs are scoped by province; regionIds is the legacy pre-province assignment
+      const outlets = await prisma.outlet.findMany({
+        where: {
+          OR: [
+            ...(dgm.provinceId ? [{ provinceId: dgm.provinceId }] : []),
+            ...(dgm.regionIds.length > 0 ? [{ regionId: { in: dgm.regionIds } }] : []),
+          ],
+        },
+        select: { id: true },
+      })
+      return {
+        userId: dgm.id,
+        scope: {
+          global: false,
+          regionIds: uniq([dgm.province?.regionId, ...dgm.regionIds]),
+          provinceIds: uniq([dgm.provinceId]),
+          outletIds: dgm.provinceId || dgm.regionIds.length > 0 ? outlets.map(o => o.id) : [],
+        },
+      }
+    }
+
+    case 'rtom': {
+      const rtom = await prisma.rTOM.findUnique({
+        where: { id: payload.managerId },
+        select: {
+          id: true,
+          isActive: true,
+          regionId: true,
+          Outlet: { select: { id: true } },
+          teleshopManagers: { select: { branchId: true } },
+        },
+      })
+      if (!rtom || !rtom.isActive) return null
+      return {
+        userId: rtom.id,
+        scope: {
+          global: false,
+          regionIds: uniq([rtom.regionId]),
+          provinceIds: [],
+          outletIds: uniq([
+            ...rtom.Outlet.map(o => o.id),
+            ...rtom.teleshopManagers.map(tm => tm.branchId),
+          ]),
+        },
+      }
+    }
+
+    case 'region_manager': {
+      const region = await prisma.region.findFirst({
+        where: payload.mobileNumber ? { managerMobile: payload.mobileNumber } : { managerEmail: payload.email },
+        select: { id: true, managerId: true, outlets: { select: { id: true } } },
+      })
+      if (!region) return null
+      return {
+        userId: region.managerId || region.id,
+        scope: {
+          global: false,
+          regionIds: [region.id],
+          provinceIds: [],
+          outletIds: region.outlets.map(o => o.id),
+        },
+      }
+    }
+
+    case 'teleshop_manager': {
+      const tm = await prisma.teleshopManager.findUnique({
+        where: { id: payload.teleshopManagerId },
+        select: { id: true, isActive: true, regionId: true, branchId: true },
+      })
+      if (!tm || !tm.isActive) return null
+      return {
+        userId: tm.id,
+        scope: {
+          global: false,
+          regionIds: uniq([tm.regionId]),
+          provinceIds: [],
+          outletIds: uniq([tm.branchId]),
+        },
+      }
+    }
+
+    case 'officer': {
+      const officer = await prisma.officer.findUnique({
+        where: { id: payload.officerId },
+        select: { id: true, isActive: true, outletId: true },
+      })
+      if (!officer || !officer.isActive) return null
+      return {
+        userId: officer.id,
+        scope: { global: false, regionIds: [], provinceIds: [], outletIds: [officer.outletId] },
+      }
+    }
+  }
+}
+
+/**
+ * Authenticate the caller against the accepted roles.
+ * Throws AccessDeniedError(401) when no valid token is present and
+ * AccessDeniedError(403) when the caller's role is not accepted.
+ */
+export async function authenticateStaff(
+  req: Request,
+  roles?: StaffRole[],
+  options: { allowMfaPending?: boolean } = {}
+): Promise<AuthContext> {
+  const tokens = collectTokens(req, roles)
+  if (tokens.length === 0) throw new AccessDeniedError(401, 'Authentication required')
+
+  let rejectedRole: StaffRole | null = null
+  for (const token of tokens) {
+    // Rejects expired tokens, tokens issued before sessions existed and revoked sessions
+    const payload = await sessionService.verifyAccessToken(token)
+    if (!payload) continue
+
+    let role = classifyPayload(payload)
+    if (!role) continue
+    // RTOM tokens carry managerId; fall back to the legacy region-manager lookup if the RTOM row is gone
+    if (roles && !roles.includes(role) && !(role === 'rtom' && roles.includes('region_manager'))) {
+      rejectedRole = role
+      continue
+    }
+
+    let resolved = await resolveScope(role, payload)
+    if (!resolved && role === 'rtom') {
+      role = 'region_manager'
+      resolved = await resolveScope(role, payload)
+    }
+    if (!resolved) throw new AccessDeniedError(401, 'Account not found or inactive')
+    // Sessions opened before a mandatory authenticator is enrolled may only reach the enrolment endpoints
+    if (payload.mfaEnrollmentRequired && !options.allowMfaPending) {
+      throw new AccessDeniedError(403, 'Authenticator app enrolment required')
+    }
+    if (roles && !roles.includes(role)) {
+      rejectedRole = role
+      continue
+    }
+
+    return { role, userId: resolved.userId, payload, scope: resolved.scope }
+  }
+
+  if (rejectedRole) throw new AccessDeniedError(403, `Access denied for role ${rejectedRole}`)
+  throw new AccessDeniedError(401, 'Invalid or expired token')
+}
+
+/**
+ * authenticateStaff() for public routes that narrow their answer for signed-in
+ * staff: resolves to null instead of throwing when the caller is not one of `roles`.
+ */
+export async function optionalStaff(req: Request, roles?: StaffRole[]): Promise<AuthContext | null> {
+  try {
+    return await authenticateStaff(req, roles)
+  } catch (error) {
+    if (error instanceof AccessDeniedError) return null
+    throw error
+  }
+}
+
+/**
+ * Roles at or above the given level, e.g. rolesAtLeast('rtom') →
+ * admin, gm, dgm, rtom, region_manager.
+ */
+export function rolesAtLeast(minRole: StaffRole): StaffRole[] {
+  return (Object.keys(ROLE_RANK) as StaffRole[]).filter(role => ROLE_RANK[role] >= ROLE_RANK[minRole])
+}
+
+export function canAccessOutlet(auth: AuthContext, outletId: string | null | undefined): boolean {
+  if (!outletId) return false
+  return auth.scope.global || auth.scope.outletIds.includes(outletId)
+}
+
+export function canAccessRegion(auth: AuthContext, regionId: string | null | undefined): boolean {
+  if (!regionId) return false
+  return auth.scope.global || auth.scope.regionIds.includes(regionId)
+}
+
+/**
+ * Prisma `where` fragment restricting a query on an outlet-owned model to the caller's scope.
+ * Admins get an empty filter.
+ */
+export function outletScopeFilter(auth: AuthContext, field: string = 'outletId'): Record<string, any> {
+  if (auth.scope.global) return {}
+  return { [field]: { in: auth.scope.outletIds } }
+}
+
+/**
+ * Throws AccessDeniedError(403) unless the caller can act on the outlet.
+ */
+export function assertOutletAccess(auth: AuthContext, outletId: string | null | undefined) {
+  if (!canAccessOutlet(auth, outletId)) {
+    throw new AccessDeniedError(403, 'You do not have access to this outlet')
+  }
+}
+
+/**
+ * Throws AccessDeniedError(403) unless the caller can act on the region.
+ */
+export function assertRegionAccess(auth: AuthContext, regionId: string | null | undefined) {
+  if (!canAccessRegion(auth, regionId)) {
+    throw new AccessDeniedError(403, 'You do not have access to this region')
+  }
+}
+
+/**
+ * Resolve the outlet an officer belongs to and check it is in scope.
+ */
+export async function assertOfficerAccess(auth: AuthContext, officerId: string) {
+  const officer = await prisma.officer.findUnique({ where: { id: officerId }, select: { id: true, outletId: true } })
+  if (!officer) throw new AccessDeniedError(403, 'Officer not found in your scope')
+  assertOutletAccess(auth, officer.outletId)
+  return officer
+}
+
+export function sendAccessError(res: Response, error: unknown): boolean {
+  if (error instanceof AccessDeniedError) {
+    res.status(error.status).json({ error: error.message })
+    return true
+  }
+  return false
+}
+
+interface AuthorizeOptions {
+  /** Accepted roles. Defaults to every staff role. */
+  roles?: StaffRole[]
+  /** Shorthand for roles: rolesAtLeast(minRole). Ignored when `roles` is given. */
+  minRole?: StaffRole
+  /** Where to read the outlet the request acts on; the request is rejected if it is out of scope. */
+  outlet?: (req: Request) => string | null | undefined | Promise<string | null | undefined>
+  /** Accept sessions still waiting for mandatory authenticator enrolment */
+  allowMfaPending?: boolean
+}
+
+/**
+ * Route middleware: authenticate, resolve scope and (optionally) enforce an outlet scope.
+ *
+ *   router.patch("/outlets/:outletId", authorize({ minRole: 'rtom', outlet: req => req.params.outletId }), handler)
+ *
+ * The resolved context is available to the handler as `req.auth`.
+ */
+export function authorize(options: AuthorizeOptions = {}) {
+  const roles = options.roles || (options.minRole ? rolesAtLeast(options.minRole) : undefined)
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const auth = await authenticateStaff(req, roles, { allowMfaPending: options.allowMfaPending })
+      if (options.outlet) {
+        const outletId = await options.outlet(req)
+        if (outletId !== undefined) assertOutletAccess(auth, outletId)
+      }
+      req.auth = auth
+      next()
+    } catch (error) {
+      if (sendAccessError(res, error)) return
+      console.error('Authorization error:', error)
+      res.status(500).json({ error: 'Authorization failed' })
+    }
+  }
+}
+
+/**
+ * Route middleware for routers that already run `authorize()` via router.use:
+ * enforces the outlet scope for a single route without re-authenticating.
+ *
+ *   router.use(authorize({ roles: ['rtom', 'region_manager'] }))
+ *   router.delete("/outlets/:outletId", scopeTo(outletOf.param('outletId')), handler)
+ */
+export function scopeTo(outlet: NonNullable<AuthorizeOptions['outlet']>) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.auth) throw new AccessDeniedError(401, 'Authentication required')
+      assertOutletAccess(req.auth, await outlet(req))
+      next()
+    } catch (error) {
+      if (sendAccessError(res, error)) return
+      console.error('Scope check error:', error)
+      res.status(500).json({ error: 'Authorization failed' })
+    }
+  }
+}
+
+/**
+ * Same as scopeTo() for resources that belong to a region rather than an outlet.
+ */
+export function scopeToRegion(region: (req: Request) => string | null | undefined | Promise<string | null | undefined>) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.auth) throw new AccessDeniedError(401, 'Authentication required')
+      assertRegionAccess(req.auth, await region(req))
+      next()
+    } catch (error) {
+      if (sendAccessError(res, error)) return
+      console.error('Scope check error:', error)
+      res.status(500).json({ error: 'Authorization failed' })
+    }
+  }
+}
+
+/**
+ * Outlet resolvers for `authorize({ outlet })` / `scopeTo()` when the route only carries a child id.
+ */
+export const outletOf = {
+  param: (name: string) => (req: Request) => req.params[name],
+  body: (name: string) => (req: Request) => (req.body ? req.body[name] : undefined),
+  query: (name: string) => (req: Request) => req.query[name] as string | undefined,
+  officer: (param: string = 'officerId') => async (req: Request) => {
+    const officer = await prisma.officer.findUnique({ where: { id: req.params[param] }, select: { outletId: true } })
+    return officer?.outletId ?? null
+  },
+  breakLog: (param: string = 'breakId') => async (req: Request) => {
+    const breakLog = await prisma.breakLog.findUnique({
+      where: { id: req.params[param] },
+      select: { Officer: { select: { outletId: true } } },
+    })
+    return breakLog?.Officer.outletId ?? null
+  },
+  closureNotice: (param: string = 'noticeId') => async (req: Request) => {
+    const notice = await prisma.closureNotice.findUnique({ where: { id: req.params[param] }, select: { outletId: true } })
+    return notice?.outletId ?? null
+  },
+  alert: (param: string = 'alertId') => async (req: Request) => {
+    const alert = await prisma.alert.findUnique({ where: { id: req.params[param] }, select: { outletId: true, relatedEntity: true } })
+    if (!alert) return null
+    if (alert.outletId) return alert.outletId
+    // Older alerts only carry the token they are about
+    if (!alert.relatedEntity) return null
+    const token = await prisma.token.findUnique({ where: { id: alert.relatedEntity }, select: { outletId: true } })
+    return token?.outletId ?? null
+  },
+  feedback: (param: string = 'feedbackId') => async (req: Request) => {
+    const feedback = await prisma.feedback.findUnique({ where: { id: req.params[param] }, select: { token: { select: { outletId: true } } } })
+    return feedback?.token.outletId ?? null
+  },
+  serviceCase: (refNumber: (req: Request) => string | undefined) => async (req: Request) => {
+    const ref = refNumber(req)
+    if (!ref) return null
+    const serviceCase = await prisma.serviceCase.findUnique({ where: { refNumber: ref }, select: { outletId: true } })
+    return serviceCase?.outletId ?? null
+  },
+}
+
+/**
+ * Region resolvers for `scopeToRegion()`.
+ */
+export const regionOf = {
+  param: (name: string) => (req: Request) => req.params[name],
+  teleshopManager: (param: string = 'teleshopManagerId') => async (req: Request) => {
+    const tm = await prisma.teleshopManager.findUnique({ where: { id: req.params[param] }, select: { regionId: true } })
+    return tm?.regionId ?? null
+  },
+}
@@ -0,0 +1,264 @@
+/**
+ * Backup Export Service - Re-verified, streamed and optionally encrypted backups
+ *
+ * An export needs a one-time grant: the admin re-enters the password and a
+ * second factor (authenticator, backup code or SMS code), which yields a grant
+ * valid for a few minutes and a single download. The passphrase, if any, is
+ * given at that point and held only in memory with the grant.
+ *
+ * Tables are read page by page and written to the response as they arrive,
+ * so the backup is never built in memory. Encrypted columns stay ciphertext
+ * (see fieldEncryption). The OTP table is not exported at all: SMS codes are
+ * short-lived, and authenticator secrets / backup codes would let anyone
+ * holding the file pass the second factor. Staff re-enrol after a restore.
+ *
+ * Plain output is JSON:
+ *   { format, formatVersion, schemaVersion, exportedAt, encryption, tables, counts, checksum }
+ * where checksum.value is the SHA-256 of every byte before `,"checksum":`.
+ *
+ * Passphrase output is `DQMPENC1\n` + a JSON header line (scrypt salt, IV)
+ * + AES-256-GCM ciphertext of the JSON above + the 16-byte auth tag.
+ * scripts/restoreBackup.ts reads both forms (BACKUP_PASSPHRASE) and checks the checksum.
+ */
+
+import fs from "fs"
+import path from "path"
+import type { Writable } from "stream"
+import { createCipheriv, createHash, randomBytes, scryptSync, CipherGCM } from "crypto"
+import { prisma } from "../server"
+import fieldEncryption, { ENCRYPTED_FIELDS } from "./fieldEncryption"
+import { ENCRYPTED_BACKUP_MAGIC, BACKUP_CHECKSUM_MARKER } from "../utils/backupFile"
+
+export interface BackupGrant {
+  id: string
+  actor: string
+  passphrase?: string
+  expiresAt: number
+}
+
+export interface BackupExportResult {
+  counts: Record<string, number>
+  totalRecords: number
+  checksum: string
+  encrypted: boolean
+}
+
+// The slice of a Prisma model delegate an export needs; paging is keyset on idField
+interface PagedDelegate {
+  findMany(args: { where: object; orderBy: Record<string, 'asc'>; take: number }): Promise<Record<string, unknown>[]>
+}
+
+interface BackupTable {
+  key: string
+  delegate: (db: typeof prisma) => PagedDelegate
+  idField: 'id' | 'token'
+  where?: object
+}
+
+export const BACKUP_FORMAT = 'dqmp-backup'
+export const BACKUP_FORMAT_VERSION = '2.0'
+const PAGE_SIZE = 1000
+const GRANT_TTL_MS = 5 * 60 * 1000
+const MIN_PASSPHRASE_LENGTH = 12
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 }
+
+// Export order; restore inserts in dependency order on its own
+const BACKUP_TABLES: BackupTable[] = [
+  { key: 'regions', delegate: db => db.region, idField: 'id' },
+  { key: 'outlets', delegate: db => db.outlet, idField: 'id' },
+  { key: 'officers', delegate: db => db.officer, idField: 'id' },
+  { key: 'counters', delegate: db => db.counter, idField: 'id' },
+  { key: 'slaDefinitions', delegate: db => db.slaDefinition, idField: 'id' },
+  { key: 'customers', delegate: db => db.customer, idField: 'id' },
+  { key: 'tokens', delegate: db => db.token, idField: 'id' },
+  { key: 'tokenSequences', delegate: db => db.tokenSequence, idField: 'id' },
+  { key: 'slaBreaches', delegate: db => db.slaBreach, idField: 'id' },
+  { key: 'feedback', delegate: db => db.feedback, idField: 'id' },
+  { key: 'completedServices', delegate: db => db.completedService, idField: 'id' },
+  { key: 'services', delegate: db => db.service, idField: 'id' },
+  { key: 'priorityCategories', delegate: db => db.priorityCategory, idField: 'id' },
+  { key: 'appointments', delegate: db => db.appointment, idField: 'id' },
+  { key: 'breakLogs', delegate: db => db.breakLog, idField: 'id' },
+  { key: 'transferLogs', delegate: db => db.transferLog, idField: 'id' },
+  { key: 'tokenJourneySteps', delegate: db => db.tokenJourneyStep, idField: 'id' },
+  { key: 'noShowEvents', delegate: db => db.noShowEvent, idField: 'id' },
+  { key: 'serviceCases', delegate: db => db.serviceCase, idField: 'id' },
+  { key: 'serviceCaseUpdates', delegate: db => db.serviceCaseUpdate, idField: 'id' },
+  { key: 'closureNotices', delegate: db => db.closureNotice, idField: 'id' },
+  { key: 'managerQRTokens', delegate: db => db.managerQRToken, idField: 'token' },
+  { key: 'teleshopManagers', delegate: db => db.teleshopManager, idField: 'id' },
+  { key: 'gms', delegate: db => db.gM, idField: 'id' },
+  { key: 'dgms', delegate: db => db.dGM, idField: 'id' },
+  { key: 'sltBills', delegate: db => db.sltBill, idField: 'id' },
+  { key: 'mercantileHolidays', delegate: db => db.mercantileHoliday, idField: 'id' },
+  { key: 'documents', delegate: db => db.document, idField: 'id' },
+  { key: 'alerts', delegate: db => db.alert, idField: 'id' },
+]
+
+/**
+ * Latest applied migration name, used as the schema version of a backup
+ */
+export function getSchemaVersion(): string {
+  try {
+    const migrationsDir = path.resolve(__dirname, '../../prisma/migrations')
+    const names = fs.readdirSync(migrationsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort()
+    return names[names.length - 1] || 'unknown'
+  } catch {
+    return 'unknown'
+  }
+}
+
+const deriveKey = (passphrase: string, salt: Buffer) =>
+  scryptSync(passphrase, salt, 32, SCRYPT_PARAMS)
+
+/**
+ * Writes to the destination, optionally through AES-256-GCM, hashing the plaintext as it goes
+ */
+class BackupWriter {
+  private hash = createHash('sha256')
+  private cipher: CipherGCM | null = null
+
+  constructor(private out: Writable, passphrase?: string) {
+    if (passphrase) {
+      const salt = randomBytes(16)
+      const iv = randomBytes(12)
+      this.cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv)
+      const header = { format: BACKUP_FORMAT, cipher: 'aes-256-gcm', kdf: { name: 'scrypt', ...SCRYPT_PARAMS, salt: salt.toString('base64') }, iv: iv.toString('base64') }
+      this.out.write(ENCRYPTED_BACKUP_MAGIC + JSON.stringify(header) + '\n')
+    }
+  }
+
+  async write(text: string, hashed: boolean = true): Promise<void> {
+    if (hashed) this.hash.update(text)
+    const chunk = this.cipher ? this.cipher.update(text, 'utf8') : Buffer.from(text, 'utf8')
+    if (chunk.length > 0 && !this.out.write(chunk)) {
+      await new Promise<void>((resolve, reject) => {
+        const onDrain = () => { this.out.off('error', onError); resolve() }
+        const onError = (error: Error) => { this.out.off('drain', onDrain); reject(error) }
+        this.out.once('drain', onDrain)
+        this.out.once('error', onError)
+      })
+    }
+  }
+
+  digest(): string {
+    return this.hash.digest('hex')
+  }
+
+  end(): void {
+    if (this.cipher) {
+      const final = this.cipher.final()
+      if (final.length > 0) this.out.write(final)
+      this.out.write(this.cipher.getAuthTag())
+    }
+    this.out.end()
+  }
+}
+
+class BackupExportService {
+  private grants = new Map<string, BackupGrant>()
+
+  validatePassphrase(passphrase: unknown): string | null {
+    if (passphrase === undefined || passphrase === null || passphrase === '') return null
+    if (typeof passphrase !== 'string' || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return `Backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+    }
+    return null
+  }
+
+  /**
+   * One-time export grant for an admin who has just re-verified
+   */
+  createGrant(actor: string, passphrase?: string): { grant: string; expiresAt: Date; encrypted: boolean } {
+    this.purgeExpiredGrants()
+    const id = randomBytes(24).toString('base64url')
+    const expiresAt = Date.now() + GRANT_TTL_MS
+    this.grants.set(id, { id, actor, passphrase: passphrase || undefined, expiresAt })
+    return { grant: id, expiresAt: new Date(expiresAt), encrypted: !!passphrase }
+  }
+
+  /**
+   * Take (and invalidate) a grant. It must belong to the admin presenting it.
+   */
+  consumeGrant(grantId: string, actor: string): BackupGrant | null {
+    const grant = this.grants.get(grantId)
+    if (!grant) return null
+    this.grants.delete(grantId)
+    if (grant.expiresAt < Date.now() || grant.actor !== actor) return null
+    return grant
+  }
+
+  private purgeExpiredGrants() {
+    const now = Date.now()
+    for (const [id, grant] of this.grants) {
+      if (grant.expiresAt < now) this.grants.delete(id)
+    }
+  }
+
+  /**
+   * Stream every backup table to `out`. The caller sets response headers first.
+   */
+  async streamBackup(out: Writable, options: { passphrase?: string } = {}): Promise<BackupExportResult> {
+    const writer = new BackupWriter(out, options.passphrase)
+    const counts: Record<string, number> = {}
+
+    const meta = {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      // Kept for restore scripts that look for the 1.x field
+      version: BACKUP_FORMAT_VERSION,
+      schemaVersion: getSchemaVersion(),
+      exportedAt: new Date().toISOString(),
+      // Encrypted columns are exported as ciphertext; restoring needs these keys configured
+      encryption: {
+        format: 'enc:v1',
+        keyIds: fieldEncryption.keyIds,
+        fields: Object.fromEntries(Object.entries(ENCRYPTED_FIELDS).map(([model, fields]) => [model, Object.keys(fields)])),
+      },
+    }
+    await writer.write(JSON.stringify(meta).slice(0, -1) + ',"tables":{')
+
+    for (let t = 0; t < BACKUP_TABLES.length; t++) {
+      const table = BACKUP_TABLES[t]
+      const delegate = table.delegate(prisma)
+      await writer.write(`${t > 0 ? ',' : ''}${JSON.stringify(table.key)}:[`)
+
+      let count = 0
+      let cursor: string | undefined
+      for (;;) {
+        const after = cursor ? { [table.idField]: { gt: cursor } } : {}
+        const rows = await fieldEncryption.withCiphertextReads(() => delegate.findMany({
+          where: table.where ? { AND: [table.where, after] } : after,
+          orderBy: { [table.idField]: 'asc' },
+          take: PAGE_SIZE,
+        }))
+        for (const row of rows) {
+          await writer.write(`${count > 0 ? ',' : ''}${JSON.stringify(row)}`)
+          count++
+        }
+        if (rows.length < PAGE_SIZE) break
+        cursor = String(rows[rows.length - 1][table.idField])
+      }
+
+      await writer.write(']')
+      counts[table.key] = count
+    }
+
+    await writer.write(`},"counts":${JSON.stringify(counts)}`)
+    const checksum = writer.digest()
+    await writer.write(`${BACKUP_CHECKSUM_MARKER}${JSON.stringify({ algorithm: 'sha256', value: checksum })}}`, false)
+    writer.end()
+
+    return {
+      counts,
+      totalRecords: Object.values(counts).reduce((sum, value) => sum + value, 0),
+      checksum,
+      encrypted: !!options.passphrase,
+    }
+  }
+}
+
+export default new BackupExportService()
@@ -0,0 +1,357 @@
+/**
+ * Counter Service - The physical service counters of an outlet
+ *
+ * Each outlet has numbered Counter rows (seeded from Outlet.counterCount the
+ * first time they are needed). Officers and tokens still refer to a counter
+ * by its number; the row adds what the counter can do:
+ *
+ *   type             - standard | express | priority | business (shown on
+ *                      displays and the manager screen)
+ *   allowedServices  - service codes handled there; empty means every
+ *                      service. /next-token only offers an officer tokens
+ *                      for services both they and their counter handle.
+ *   accessibility    - wheelchairAccessible, hearingLoop, seatedService
+ *   isOpen           - closed counters cannot be assigned, take transfers
+ *                      or call tokens
+ *
+ * Assignment locks the counter row so two managers cannot put different
+ * officers on one counter at once. Officers can still end up sharing one
+ * (e.g. an older assignment made before counters were tracked); that is
+ * detected when an officer comes online or asks for the next token, raised
+ * as a 'counter_conflict' alert and blocks calling until it is resolved.
+ */
+
+import type { Prisma } from "@prisma/client"
+import { prisma, broadcast } from "../server"
+import { getLastDailyReset } from "../utils/resetWindow"
+import { toStringArray, hasAny } from "./queueDispatcher"
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+export type CounterType = 'standard' | 'express' | 'priority' | 'business'
+
+export const COUNTER_TYPES: Record<CounterType, string> = {
+  standard: 'All-purpose counter',
+  express: 'Quick transactions',
+  priority: 'Elderly, disabled and expectant customers first',
+  business: 'Business and corporate customers',
+}
+
+export interface CounterInput {
+  number?: number
+  name?: string | null
+  type?: CounterType
+  allowedServices?: string[]
+  wheelchairAccessible?: boolean
+  hearingLoop?: boolean
+  seatedService?: boolean
+}
+
+export interface CounterClaim {
+  counterNumber: number
+  officers: { id: string; name: string; status: string }[]
+}
+
+export class CounterError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'CounterError'
+  }
+}
+
+const MAX_COUNTER_NUMBER = 99
+const MAX_NAME_LENGTH = 40
+const ONLINE_STATUSES = ['available', 'serving', 'on_break']
+// One conflict alert per counter per window; the conflict stays visible on the counters screen
+const CONFLICT_ALERT_WINDOW_MS = 60 * 60 * 1000
+
+export function isCounterType(value: unknown): value is CounterType {
+  return typeof value === 'string' && value in COUNTER_TYPES
+}
+
+/**
+ * Whether a counter takes tokens for any of these services
+ */
+export function counterHandles(counter: { allowedServices: string[] }, services: string[]): boolean {
+  return counter.allowedServices.length === 0 || hasAny(counter.allowedServices, services)
+}
+
+class CounterService {
+  /**
+   * Create counters 1..Outlet.counterCount for an outlet that has none yet
+   */
+  async ensureCounters(outletId: string, db: Db = prisma): Promise<void> {
+    const existing = await db.counter.count({ where: { outletId } })
+    if (existing > 0) return
+    const outlet = await db.outlet.findUnique({ where: { id: outletId }, select: { counterCount: true } })
+    const total = Math.min(outlet?.counterCount || 0, MAX_COUNTER_NUMBER)
+    if (total === 0) return
+    await db.counter.createMany({
+      data: Array.from({ length: total }, (_, i) => ({ outletId, number: i + 1 })),
+      skipDuplicates: true,
+    })
+  }
+
+  async getCounter(outletId: string, number: number, db: Db = prisma) {
+    await this.ensureCounters(outletId, db)
+    return db.counter.findUnique({ where: { outletId_number: { outletId, number } } })
+  }
+
+  /**
+   * Counters with their staffing, for managers, displays and kiosks
+   */
+  async listCounters(outletId: string) {
+    await this.ensureCounters(outletId)
+    const lastReset = getLastDailyReset()
+    const [counters, officers] = await Promise.all([
+      prisma.counter.findMany({ where: { outletId }, orderBy: { number: 'asc' } }),
+      prisma.officer.findMany({
+        where: { outletId },
+        select: { id: true, name: true, counterNumber: true, status: true, lastLoginAt: true, assignedServices: true },
+      }),
+    ])
+
+    // Officers with a counter assignment, or online since the last reset
+    const activeOfficers = officers.filter(officer =>
+      officer.counterNumber !== null ||
+      (officer.status !== 'offline' && officer.lastLoginAt && officer.lastLoginAt >= lastReset)
+    )
+
+    const numbers = new Set(counters.map(counter => counter.number))
+    const rows: any[] = counters.map(counter => {
+      const assigned = activeOfficers.filter(officer => officer.counterNumber === counter.number)
+      // The officer actually at the counter, if any, is listed first
+      assigned.sort((a, b) => Number(b.status !== 'offline') - Number(a.status !== 'offline'))
+      const officer = assigned[0]
+      return {
+        id: counter.id,
+        number: counter.number,
+        name: counter.name,
+        type: counter.type,
+        allowedServices: counter.allowedServices,
+        wheelchairAccessible: counter.wheelchairAccessible,
+        hearingLoop: counter.hearingLoop,
+        seatedService: counter.seatedService,
+        isOpen: counter.isOpen,
+        closedReason: counter.closedReason,
+        closedAt: counter.closedAt,
+        isStaffed: !!officer,
+        officer: officer ? { id: officer.id, name: officer.name, status: officer.status, services: officer.assignedServices } : null,
+        conflict: assigned.filter(o => o.status !== 'offline').length > 1
+          ? assigned.filter(o => o.status !== 'offline').map(o => ({ id: o.id, name: o.name, status: o.status }))
+          : null,
+      }
+    })
+
+    // Officers without a counter, or on a number that no longer exists
+    for (const officer of activeOfficers) {
+      if (officer.counterNumber !== null && numbers.has(officer.counterNumber)) continue
+      rows.push({
+        number: null,
+        isStaffed: true,
+        officer: { id: officer.id, name: officer.name, status: officer.status, services: officer.assignedServices },
+      })
+    }
+    return rows
+  }
+
+  validateInput(input: CounterInput): string | null {
+    const { number, name, type, allowedServices, wheelchairAccessible, hearingLoop, seatedService } = input
+    if (number !== undefined && !(Number.isInteger(number) && number >= 1 && number <= MAX_COUNTER_NUMBER)) {
+      return `number must be a whole number from 1 to ${MAX_COUNTER_NUMBER}`
+    }
+    if (name !== undefined && name !== null && !(typeof name === 'string' && name.trim().length <= MAX_NAME_LENGTH)) {
+      return `name must be text of at most ${MAX_NAME_LENGTH} characters`
+    }
+    if (type !== undefined && !isCounterType(type)) {
+      return `type must be one of: ${Object.keys(COUNTER_TYPES).join(', ')}`
+    }
+    if (allowedServices !== undefined && !(Array.isArray(allowedServices) && allowedServices.every(code => typeof code === 'string' && code.trim()))) {
+      return 'allowedServices must be a list of service codes'
+    }
+    for (const [field, value] of Object.entries({ wheelchairAccessible, hearingLoop, seatedService })) {
+      if (value !== undefined && typeof value !== 'boolean') return `${field} must be true or false`
+    }
+    return null
+  }
+
+  private async checkServiceCodes(codes: string[] | undefined) {
+    if (!codes || codes.length === 0) return
+    const known = await prisma.service.findMany({ where: { code: { in: codes } }, select: { code: true } })
+    const missing = codes.filter(code => !known.some(service => service.code === code))
+    if (missing.length > 0) throw new CounterError(`Unknown service code(s): ${missing.join(', ')}`)
+  }
+
+  private fields(input: CounterInput) {
+    return {
+      ...(input.name !== undefined ? { name: input.name ? input.name.trim() : null } : {}),
+      ...(input.type !== undefined ? { type: input.type } : {}),
+      ...(input.allowedServices !== undefined ? { allowedServices: Array.from(new Set(input.allowedServices.map(code => code.trim()))) } : {}),
+      ...(input.wheelchairAccessible !== undefined ? { wheelchairAccessible: input.wheelchairAccessible } : {}),
+      ...(input.hearingLoop !== undefined ? { hearingLoop: input.hearingLoop } : {}),
+      ...(input.seatedService !== undefined ? { seatedService: input.seatedService } : {}),
+    }
+  }
+
+  /**
+   * Keep Outlet.counterCount (still shown on dashboards) equal to the number of counters
+   */
+  private async syncCounterCount(outletId: string) {
+    const total = await prisma.counter.count({ where: { outletId } })
+    await prisma.outlet.update({ where: { id: outletId }, data: { counterCount: total } })
+  }
+
+  /**
+   * Match the counters to a new Outlet.counterCount: add missing numbers up to it and
+   * remove higher ones nobody is assigned to (those keep Outlet.counterCount above the target)
+   */
+  async resizeCounters(outletId: string, total: number) {
+    await this.ensureCounters(outletId)
+    const target = Math.max(0, Math.min(total, MAX_COUNTER_NUMBER))
+    if (target > 0) {
+      await prisma.counter.createMany({
+        data: Array.from({ length: target }, (_, i) => ({ outletId, number: i + 1 })),
+        skipDuplicates: true,
+      })
+    }
+    const assigned = await prisma.officer.findMany({
+      where: { outletId, counterNumber: { gt: target } },
+      select: { counterNumber: true },
+    })
+    await prisma.counter.deleteMany({
+      where: { outletId, number: { gt: target, notIn: assigned.map(officer => officer.counterNumber!) } },
+    })
+    await this.syncCounterCount(outletId)
+  }
+
+  async createCounter(outletId: string, input: CounterInput) {
+    await this.checkServiceCodes(input.allowedServices)
+    await this.ensureCounters(outletId)
+    let number = input.number
+    if (number === undefined) {
+      const highest = await prisma.counter.aggregate({ where: { outletId }, _max: { number: true } })
+      number = (highest._max.number ?? 0) + 1
+      if (number > MAX_COUNTER_NUMBER) throw new CounterError(`An outlet can have at most ${MAX_COUNTER_NUMBER} counters`)
+    }
+    const taken = await prisma.counter.findUnique({ where: { outletId_number: { outletId, number } }, select: { id: true } })
+    if (taken) throw new CounterError(`Counter #${number} already exists`, 409)
+
+    const counter = await prisma.counter.create({ data: { outletId, number, ...this.fields(input) } })
+    await this.syncCounterCount(outletId)
+    broadcast({ type: 'COUNTER_UPDATED', data: { outletId, counter } })
+    return counter
+  }
+
+  async updateCounter(outletId: string, counterId: string, input: CounterInput) {
+    if (input.number !== undefined) throw new CounterError('A counter keeps its number; create a new counter instead')
+    await this.checkServiceCodes(input.allowedServices)
+    const existing = await prisma.counter.findFirst({ where: { id: counterId, outletId } })
+    if (!existing) throw new CounterError('Counter not found at this outlet', 404)
+    const counter = await prisma.counter.update({ where: { id: counterId }, data: this.fields(input) })
+    broadcast({ type: 'COUNTER_UPDATED', data: { outletId, counter } })
+    return counter
+  }
+
+  /**
+   * Open or close a counter. Closing keeps the officer assigned but stops them calling tokens there.
+   */
+  async setOpen(outletId: string, counterId: string, isOpen: boolean, reason?: string | null) {
+    const existing = await prisma.counter.findFirst({ where: { id: counterId, outletId } })
+    if (!existing) throw new CounterError('Counter not found at this outlet', 404)
+    const counter = await prisma.counter.update({
+      where: { id: counterId },
+      data: isOpen
+        ? { isOpen: true, closedReason: null, closedAt: null }
+        : { isOpen: false, closedReason: reason?.trim() || null, closedAt: existing.isOpen ? new Date() : existing.closedAt },
+    })
+    broadcast({ type: 'COUNTER_STATUS_CHANGED', data: { outletId, counterId, number: counter.number, isOpen: counter.isOpen, closedReason: counter.closedReason } })
+    return counter
+  }
+
+  async deleteCounter(outletId: string, counterId: string) {
+    const counter = await prisma.counter.findFirst({ where: { id: counterId, outletId } })
+    if (!counter) throw new CounterError('Counter not found at this outlet', 404)
+    const assigned = await prisma.officer.findFirst({ where: { outletId, counterNumber: counter.number }, select: { name: true } })
+    if (assigned) throw new CounterError(`Counter #${counter.number} is assigned to ${assigned.name}; unassign them first`, 409)
+    await prisma.counter.delete({ where: { id: counterId } })
+    await this.syncCounterCount(outletId)
+    broadcast({ type: 'COUNTER_UPDATED', data: { outletId, counterId, deleted: true } })
+    return counter
+  }
+
+  /**
+   * Put an officer on a counter (null unassigns). The counter row is locked so
+   * concurrent assignments of the same counter are serialised.
+   */
+  async assignOfficer(officerId: string, counterNumber: number | null) {
+    return prisma.$transaction(async tx => {
+      const officer = await tx.officer.findUnique({ where: { id: officerId }, select: { id: true, outletId: true, assignedServices: true } })
+      if (!officer) throw new CounterError('Officer not found', 404)
+
+      if (counterNumber !== null) {
+        if (!Number.isInteger(counterNumber) || counterNumber < 1) throw new CounterError('Counter number must be a positive integer')
+        const counter = await this.getCounter(officer.outletId, counterNumber, tx)
+        if (!counter) throw new CounterError(`Counter #${counterNumber} does not exist at this outlet`)
+        await tx.$executeRaw`SELECT id FROM "Counter" WHERE id = ${counter.id} FOR UPDATE`
+
+        if (!counter.isOpen) throw new CounterError(`Counter #${counterNumber} is closed${counter.closedReason ? ` (${counter.closedReason})` : ''}`, 409)
+        const services = toStringArray(officer.assignedServices)
+        if (services.length > 0 && !counterHandles(counter, services)) {
+          throw new CounterError(`Counter #${counterNumber} only handles ${counter.allowedServices.join(', ')}; the officer has none of these services`)
+        }
+        const holder = await tx.officer.findFirst({
+          where: { outletId: officer.outletId, counterNumber, id: { not: officerId } },
+          select: { name: true },
+        })
+        if (holder) throw new CounterError(`Counter #${counterNumber} is already assigned to ${holder.name}`, 409)
+      }
+
+      return tx.officer.update({ where: { id: officerId }, data: { counterNumber }, include: { outlet: true } })
+    })
+  }
+
+  /**
+   * Other online officers on the same counter as this officer
+   */
+  async findClaimConflict(officer: { id: string; outletId: string; counterNumber: number | null }): Promise<CounterClaim | null> {
+    if (!officer.counterNumber) return null
+    const others = await prisma.officer.findMany({
+      where: { outletId: officer.outletId, counterNumber: officer.counterNumber, id: { not: officer.id }, status: { in: ONLINE_STATUSES } },
+      select: { id: true, name: true, status: true },
+    })
+    return others.length > 0 ? { counterNumber: officer.counterNumber, officers: others } : null
+  }
+
+  /**
+   * Detect a shared counter for an officer who just came online or asked for a token;
+   * raises a 'counter_conflict' alert (at most one per counter per hour) and broadcasts it
+   */
+  async reportClaimConflict(officer: { id: string; name: string; outletId: string; counterNumber: number | null }): Promise<CounterClaim | null> {
+    const conflict = await this.findClaimConflict(officer)
+    if (!conflict) return null
+
+    const counter = await this.getCounter(officer.outletId, conflict.counterNumber)
+    const relatedEntity = counter?.id || `${officer.outletId}:${conflict.counterNumber}`
+    const recent = await prisma.alert.findFirst({
+      where: { type: 'counter_conflict', relatedEntity, createdAt: { gte: new Date(Date.now() - CONFLICT_ALERT_WINDOW_MS) } },
+      select: { id: true },
+    })
+    if (!recent) {
+      const names = [officer.name, ...conflict.officers.map(o => o.name)]
+      const alert = await prisma.alert.create({
+        data: {
+          type: 'counter_conflict',
+          severity: 'high',
+          message: `Counter #${conflict.counterNumber} is claimed by ${names.join(' and ')}. Reassign one of them so customers are not sent to the wrong officer.`,
+          relatedEntity,
+          outletId: officer.outletId,
+        },
+      })
+      broadcast({ type: 'COUNTER_CONFLICT', data: { alert, outletId: officer.outletId, counterNumber: conflict.counterNumber, officerIds: [officer.id, ...conflict.officers.map(o => o.id)] } })
+    }
+    return conflict
+  }
+}
+
+export const counterService = new CounterService()
+export default counterService
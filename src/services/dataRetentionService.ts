@@ -0,0 +1,485 @@
+/**
+ * Data Retention Service - Scheduled anonymization and right-to-erasure
+ *
+ * Customer-facing tables keep their rows (ids, timestamps, outlets, services,
+ * ratings) so analytics stay valid; only the personal fields are replaced or
+ * cleared once a row is older than the configured number of days. Transient
+ * tables (SMS OTPs, daily action counters) are deleted instead.
+ *
+ * Erasure requests scrub one mobile number across every table immediately,
+ * including the number inside log, audit and note text, whether raised by an
+ * admin or by the customer after OTP verification. Stores left alone on
+ * purpose (staff accounts, exported backups) are listed in each result.
+ * Each run and each erasure is written to AuditLog; the erasure request keeps
+ * only a hash and a masked form of the number once processed.
+ */
+
+import fs from "fs"
+import { createHash } from "crypto"
+import { Prisma } from "@prisma/client"
+import { prisma } from "../server"
+import { systemLogger } from "./systemLogger"
+
+export type AnonymizedTable = 'customer' | 'token' | 'feedback' | 'appointment'
+export type PurgedTable = 'otp' | 'dailyActionTracker'
+
+export interface AnonymizeRule {
+  enabled: boolean
+  afterDays: number
+  /** Fields to scrub; must be in ANONYMIZABLE_FIELDS for the table */
+  fields: string[]
+}
+
+export interface PurgeRule {
+  enabled: boolean
+  afterDays: number
+}
+
+export interface RetentionPolicy {
+  enabled: boolean
+  tables: Record<AnonymizedTable, AnonymizeRule>
+  purge: Record<PurgedTable, PurgeRule>
+}
+
+export interface RetentionRunResult {
+  dryRun: boolean
+  anonymized: Record<AnonymizedTable, number>
+  purged: Record<PurgedTable, number>
+}
+
+export interface ErasureActor {
+  userId: string
+  userRole: string
+  ipAddress?: string
+}
+
+const POLICY_SETTING_KEY = 'data_retention_policy'
+const BATCH_SIZE = 500
+// Placeholder for required text columns; constant so anonymized rows never match a real lookup
+const ANONYMIZED = 'ANONYMIZED'
+const ACTIVE_TOKEN_STATUSES = ['waiting', 'called', 'serving', 'in_service']
+
+// Field → value written when the field is scrubbed
+export const ANONYMIZABLE_FIELDS: Record<AnonymizedTable, Record<string, unknown>> = {
+  customer: { name: ANONYMIZED, mobileNumber: ANONYMIZED, sltMobileNumber: null, nicNumber: null, email: null },
+  token: { sltTelephoneNumber: null, accountRef: null, billPaymentCustomAmounts: Prisma.DbNull },
+  feedback: { comment: null, resolutionComment: null },
+  appointment: { name: ANONYMIZED, mobileNumber: ANONYMIZED, sltTelephoneNumber: null, notes: null },
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  enabled: true,
+  tables: {
+    customer: { enabled: true, afterDays: 365, fields: Object.keys(ANONYMIZABLE_FIELDS.customer) },
+    token: { enabled: true, afterDays: 365, fields: Object.keys(ANONYMIZABLE_FIELDS.token) },
+    feedback: { enabled: true, afterDays: 365, fields: Object.keys(ANONYMIZABLE_FIELDS.feedback) },
+    appointment: { enabled: true, afterDays: 180, fields: Object.keys(ANONYMIZABLE_FIELDS.appointment) },
+  },
+  purge: {
+    otp: { enabled: true, afterDays: 7 },
+    dailyActionTracker: { enabled: true, afterDays: 30 },
+  },
+}
+
+// Free-text / JSON columns where a number can appear inside a message, note or log payload.
+// Erasure rewrites the number in place; the rows themselves are kept.
+const FREE_TEXT_COLUMNS: { table: string; column: string; json?: boolean }[] = [
+  { table: 'SystemLog', column: 'message' },
+  { table: 'SystemLog', column: 'stackTrace' },
+  { table: 'SystemLog', column: 'metadata', json: true },
+  { table: 'AuditLog', column: 'message' },
+  { table: 'AuditLog', column: 'changes', json: true },
+  { table: 'AuditLog', column: 'metadata', json: true },
+  { table: 'TeleshopManagerAuditLog', column: 'details', json: true },
+  { table: 'Alert', column: 'message' },
+  { table: 'TransferLog', column: 'notes' },
+  { table: 'CompletedService', column: 'notes' },
+  { table: 'ServiceCaseUpdate', column: 'note' },
+]
+
+// Stores erasure deliberately leaves alone; reported with every erasure
+const ERASURE_EXCLUSIONS = [
+  'Staff accounts (Officer, TeleshopManager, RTOM, GM, DGM, Region manager contact): employee records, not customer data',
+  'Backup files already exported: immutable, expire with the backup retention schedule',
+]
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+export const hashMobile = (mobile: string) => createHash('sha256').update(normalizeMobile(mobile)).digest('hex')
+
+export const maskMobile = (mobile: string) => {
+  const digits = normalizeMobile(mobile)
+  return digits.length > 3 ? `${'*'.repeat(digits.length - 3)}${digits.slice(-3)}` : '***'
+}
+
+/**
+ * Local 10-digit form (0771234567) for hashing / comparison
+ */
+function normalizeMobile(mobile: string): string {
+  const digits = (mobile || '').replace(/\D/g, '')
+  if (digits.startsWith('94') && digits.length === 11) return `0${digits.slice(2)}`
+  if (digits.length === 9) return `0${digits}`
+  return digits
+}
+
+/**
+ * Every spelling of a number that may have been stored
+ */
+function mobileVariants(mobile: string): string[] {
+  const local = normalizeMobile(mobile)
+  const national = local.startsWith('0') ? local.slice(1) : local
+  return Array.from(new Set([mobile.trim(), local, national, `94${national}`, `+94${national}`]))
+}
+
+/**
+ * Postgres regex matching any spelling of the number (0…, 94…, +94… or bare national digits)
+ */
+function mobilePattern(mobile: string): string {
+  const local = normalizeMobile(mobile)
+  const national = local.startsWith('0') ? local.slice(1) : local
+  return `(\\+?94|0)?${national}`
+}
+
+function scrubData(table: AnonymizedTable, fields: string[]): Record<string, unknown> {
+  const catalogue = ANONYMIZABLE_FIELDS[table]
+  const data: Record<string, unknown> = { anonymizedAt: new Date() }
+  for (const field of fields) {
+    if (field in catalogue) data[field] = catalogue[field]
+  }
+  return data
+}
+
+class DataRetentionService {
+  async getPolicy(): Promise<RetentionPolicy> {
+    const setting = await prisma.systemSetting.findUnique({ where: { key: POLICY_SETTING_KEY } })
+    let stored: any = {}
+    if (setting?.value) {
+      try {
+        stored = JSON.parse(setting.value)
+      } catch (error) {
+        console.error('[DataRetention] Invalid stored policy, using defaults:', error)
+      }
+    }
+    return this.normalizePolicy(stored)
+  }
+
+  private normalizePolicy(input: any): RetentionPolicy {
+    const defaults = DEFAULT_RETENTION_POLICY
+    const days = (value: any, fallback: number) => (Number.isFinite(Number(value)) && Number(value) >= 1 ? Math.floor(Number(value)) : fallback)
+
+    const tables = {} as Record<AnonymizedTable, AnonymizeRule>
+    for (const table of Object.keys(defaults.tables) as AnonymizedTable[]) {
+      const rule = input?.tables?.[table] || {}
+      const fields = Array.isArray(rule.fields)
+        ? rule.fields.filter((field: any) => typeof field === 'string' && field in ANONYMIZABLE_FIELDS[table])
+        : defaults.tables[table].fields
+      tables[table] = {
+        enabled: typeof rule.enabled === 'boolean' ? rule.enabled : defaults.tables[table].enabled,
+        afterDays: days(rule.afterDays, defaults.tables[table].afterDays),
+        fields,
+      }
+    }
+
+    const purge = {} as Record<PurgedTable, PurgeRule>
+    for (const table of Object.keys(defaults.purge) as PurgedTable[]) {
+      const rule = input?.purge?.[table] || {}
+      purge[table] = {
+        enabled: typeof rule.enabled === 'boolean' ? rule.enabled : defaults.purge[table].enabled,
+        afterDays: days(rule.afterDays, defaults.purge[table].afterDays),
+      }
+    }
+
+    return { enabled: typeof input?.enabled === 'boolean' ? input.enabled : defaults.enabled, tables, purge }
+  }
+
+  /**
+   * Merge a partial policy into the stored one and persist it
+   */
+  async updatePolicy(changes: any): Promise<RetentionPolicy> {
+    const current = await this.getPolicy()
+    const tables: any = { ...current.tables }
+    for (const [table, rule] of Object.entries(changes?.tables || {})) {
+      if (table in tables && rule && typeof rule === 'object') tables[table] = { ...tables[table], ...(rule as object) }
+    }
+    const purge: any = { ...current.purge }
+    for (const [table, rule] of Object.entries(changes?.purge || {})) {
+      if (table in purge && rule && typeof rule === 'object') purge[table] = { ...purge[table], ...(rule as object) }
+    }
+    const merged = this.normalizePolicy({
+      enabled: typeof changes?.enabled === 'boolean' ? changes.enabled : current.enabled,
+      tables,
+      purge,
+    })
+    await prisma.systemSetting.upsert({
+      where: { key: POLICY_SETTING_KEY },
+      update: { value: JSON.stringify(merged) },
+      create: { key: POLICY_SETTING_KEY, value: JSON.stringify(merged) },
+    })
+    return merged
+  }
+
+  /**
+   * Ids of rows due for anonymization under the rule (one batch)
+   */
+  private async dueIds(table: AnonymizedTable, cutoff: Date): Promise<string[]> {
+    switch (table) {
+      case 'customer': {
+        // Only customers with no recent or unfinished business
+        const rows = await prisma.customer.findMany({
+          where: {
+            anonymizedAt: null,
+            createdAt: { lt: cutoff },
+            tokens: { none: { OR: [{ createdAt: { gte: cutoff } }, { status: { in: ACTIVE_TOKEN_STATUSES } }] } },
+            serviceCases: { none: { completedAt: null } },
+          },
+          select: { id: true },
+          take: BATCH_SIZE,
+        })
+        return rows.map(r => r.id)
+      }
+      case 'token': {
+        const rows = await prisma.token.findMany({
+          where: { anonymizedAt: null, createdAt: { lt: cutoff }, status: { notIn: ACTIVE_TOKEN_STATUSES } },
+          select: { id: true },
+          take: BATCH_SIZE,
+        })
+        return rows.map(r => r.id)
+      }
+      case 'feedback': {
+        const rows = await prisma.feedback.findMany({
+          where: { anonymizedAt: null, createdAt: { lt: cutoff } },
+          select: { id: true },
+          take: BATCH_SIZE,
+        })
+        return rows.map(r => r.id)
+      }
+      case 'appointment': {
+        const rows = await prisma.appointment.findMany({
+          where: { anonymizedAt: null, appointmentAt: { lt: cutoff } },
+          select: { id: true },
+          take: BATCH_SIZE,
+        })
+        return rows.map(r => r.id)
+      }
+    }
+  }
+
+  private async anonymizeRows(table: AnonymizedTable, ids: string[], fields: string[]): Promise<number> {
+    if (ids.length === 0) return 0
+    const data: any = scrubData(table, fields)
+    const where = { id: { in: ids } }
+    switch (table) {
+      case 'customer': return (await prisma.customer.updateMany({ where, data })).count
+      case 'token': return (await prisma.token.updateMany({ where, data })).count
+      case 'feedback': return (await prisma.feedback.updateMany({ where, data })).count
+      case 'appointment': return (await prisma.appointment.updateMany({ where, data })).count
+    }
+  }
+
+  /**
+   * Apply the retention policy. With dryRun, only counts what would change (first batch per table).
+   */
+  async runRetention(options: { dryRun?: boolean; actor?: ErasureActor } = {}): Promise<RetentionRunResult> {
+    const policy = await this.getPolicy()
+    const dryRun = !!options.dryRun
+    const result: RetentionRunResult = {
+      dryRun,
+      anonymized: { customer: 0, token: 0, feedback: 0, appointment: 0 },
+      purged: { otp: 0, dailyActionTracker: 0 },
+    }
+    if (!policy.enabled) return result
+
+    for (const table of Object.keys(policy.tables) as AnonymizedTable[]) {
+      const rule = policy.tables[table]
+      if (!rule.enabled || rule.fields.length === 0) continue
+      const cutoff = daysAgo(rule.afterDays)
+
+      if (dryRun) {
+        result.anonymized[table] = (await this.dueIds(table, cutoff)).length
+        continue
+      }
+      // Batches keep each statement small; rows leave the due set once anonymizedAt is set
+      for (;;) {
+        const ids = await this.dueIds(table, cutoff)
+        if (ids.length === 0) break
+        result.anonymized[table] += await this.anonymizeRows(table, ids, rule.fields)
+        if (ids.length < BATCH_SIZE) break
+      }
+    }
+
+    const otpRule = policy.purge.otp
+    if (otpRule.enabled) {
+      // Authenticator secrets and backup codes are credentials, not history; only SMS codes age out
+      const where = { channel: 'sms', createdAt: { lt: daysAgo(otpRule.afterDays) } }
+      result.purged.otp = dryRun ? await prisma.oTP.count({ where }) : (await prisma.oTP.deleteMany({ where })).count
+    }
+    const trackerRule = policy.purge.dailyActionTracker
+    if (trackerRule.enabled) {
+      const where = { createdAt: { lt: daysAgo(trackerRule.afterDays) } }
+      result.purged.dailyActionTracker = dryRun
+        ? await prisma.dailyActionTracker.count({ where })
+        : (await prisma.dailyActionTracker.deleteMany({ where })).count
+    }
+
+    if (!dryRun) {
+      const actor = options.actor || { userId: 'system', userRole: 'system' }
+      await systemLogger.audit(actor.userId, actor.userRole, 'DATA_RETENTION_RUN', 'Retention policy applied', {
+        metadata: { anonymized: result.anonymized, purged: result.purged },
+        ipAddress: actor.ipAddress,
+      })
+    }
+    return result
+  }
+
+  /**
+   * Record an erasure request. Admin requests can be processed straight away.
+   */
+  async createErasureRequest(mobileNumber: string, requestedBy: string, requestedVia: 'admin' | 'customer', reason?: string) {
+    const subjectHash = hashMobile(mobileNumber)
+    const existing = await prisma.erasureRequest.findFirst({ where: { subjectHash, status: 'pending' } })
+    if (existing) return existing
+
+    return prisma.erasureRequest.create({
+      data: {
+        subjectHash,
+        subjectMasked: maskMobile(mobileNumber),
+        mobileNumber: normalizeMobile(mobileNumber),
+        requestedBy,
+        requestedVia,
+        reason: reason || null,
+      },
+    })
+  }
+
+  async listErasureRequests(status?: string) {
+    return prisma.erasureRequest.findMany({
+      where: status ? { status } : {},
+      select: {
+        id: true, subjectMasked: true, requestedBy: true, requestedVia: true, reason: true,
+        status: true, processedAt: true, processedBy: true, result: true, createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+    })
+  }
+
+  async rejectErasureRequest(id: string, actor: ErasureActor, note?: string) {
+    const request = await prisma.erasureRequest.findUnique({ where: { id } })
+    if (!request || request.status !== 'pending') return null
+
+    const updated = await prisma.erasureRequest.update({
+      where: { id },
+      data: { status: 'rejected', mobileNumber: null, processedAt: new Date(), processedBy: `${actor.userRole}:${actor.userId}`, result: { note: note || null } },
+    })
+    await systemLogger.audit(actor.userId, actor.userRole, 'DATA_ERASURE_REJECTED', `Erasure request for ${request.subjectMasked} rejected`, {
+      targetType: 'erasure_request',
+      targetId: id,
+      metadata: { note: note || null },
+      ipAddress: actor.ipAddress,
+    })
+    return updated
+  }
+
+  /**
+   * Scrub every record tied to the request's mobile number, then forget the number
+   */
+  async processErasureRequest(id: string, actor: ErasureActor) {
+    const request = await prisma.erasureRequest.findUnique({ where: { id } })
+    if (!request || request.status !== 'pending' || !request.mobileNumber) return null
+
+    const result = await this.eraseMobileNumber(request.mobileNumber)
+    const updated = await prisma.erasureRequest.update({
+      where: { id },
+      data: {
+        status: 'completed',
+        mobileNumber: null,
+        processedAt: new Date(),
+        processedBy: `${actor.userRole}:${actor.userId}`,
+        result: result as any,
+      },
+    })
+
+    await systemLogger.audit(actor.userId, actor.userRole, 'DATA_ERASURE_COMPLETED', `Personal data erased for ${request.subjectMasked}`, {
+      targetType: 'erasure_request',
+      targetId: id,
+      metadata: { requestedVia: request.requestedVia, requestedBy: request.requestedBy, ...result },
+      ipAddress: actor.ipAddress,
+    })
+    return updated
+  }
+
+  private async eraseMobileNumber(mobileNumber: string) {
+    const variants = mobileVariants(mobileNumber)
+    const customers = await prisma.customer.findMany({
+      where: { OR: [{ mobileNumber: { in: variants } }, { sltMobileNumber: { in: variants } }] },
+      select: { id: true },
+    })
+    const customerIds = customers.map(c => c.id)
+    const tokens = customerIds.length > 0
+      ? await prisma.token.findMany({ where: { customerId: { in: customerIds } }, select: { id: true } })
+      : []
+    const tokenIds = tokens.map(t => t.id)
+    const serviceCases = customerIds.length > 0
+      ? await prisma.serviceCase.findMany({ where: { customerId: { in: customerIds } }, select: { id: true, refNumber: true } })
+      : []
+
+    // Documents attached to the customer, their tokens or service cases
+    const relatedEntities = [
+      ...customerIds.map(id => `customer:${id}`),
+      ...tokenIds.flatMap(id => [`token:${id}`, id]),
+      ...serviceCases.flatMap(sc => [`serviceCase:${sc.id}`, `serviceCase:${sc.refNumber}`, sc.id, sc.refNumber]),
+    ]
+    const documents = relatedEntities.length > 0
+      ? await prisma.document.findMany({ where: { relatedEntity: { in: relatedEntities } }, select: { id: true, filepath: true } })
+      : []
+    for (const document of documents) {
+      await fs.promises.unlink(document.filepath).catch(() => undefined)
+    }
+
+    const all = (table: AnonymizedTable) => Object.keys(ANONYMIZABLE_FIELDS[table])
+    const pattern = mobilePattern(mobileNumber)
+    const freeTextScrubs = FREE_TEXT_COLUMNS.map(({ table, column, json }) => json
+      ? prisma.$executeRawUnsafe(
+        `UPDATE "${table}" SET "${column}" = regexp_replace("${column}"::text, $1, '${ANONYMIZED}', 'g')::jsonb WHERE "${column}"::text ~ $1`,
+        pattern
+      )
+      : prisma.$executeRawUnsafe(
+        `UPDATE "${table}" SET "${column}" = regexp_replace("${column}", $1, '${ANONYMIZED}', 'g') WHERE "${column}" ~ $1`,
+        pattern
+      ))
+
+    const [customerCount, tokenCount, feedbackCount, appointmentCount, documentCount, otpCount, trackerCount, rateLimitCount, sltBillCount, ...freeTextCounts] = await prisma.$transaction([
+      prisma.customer.updateMany({ where: { id: { in: customerIds } }, data: scrubData('customer', all('customer')) as any }),
+      prisma.token.updateMany({ where: { id: { in: tokenIds } }, data: scrubData('token', all('token')) as any }),
+      prisma.feedback.updateMany({ where: { customerId: { in: customerIds } }, data: scrubData('feedback', all('feedback')) as any }),
+      prisma.appointment.updateMany({ where: { mobileNumber: { in: variants } }, data: scrubData('appointment', all('appointment')) as any }),
+      prisma.document.deleteMany({ where: { id: { in: documents.map(d => d.id) } } }),
+      prisma.oTP.deleteMany({ where: { mobileNumber: { in: variants }, userType: 'customer' } }),
+      prisma.dailyActionTracker.deleteMany({ where: { mobileNumber: { in: variants } } }),
+      prisma.otpRateLimit.deleteMany({ where: { dimension: 'mobile', subject: { in: variants } } }),
+      prisma.sltBill.updateMany({ where: { mobileNumber: { in: variants } }, data: { mobileNumber: null } }),
+      ...freeTextScrubs,
+    ])
+
+    const freeText: Record<string, number> = {}
+    FREE_TEXT_COLUMNS.forEach(({ table, column }, index) => {
+      if (freeTextCounts[index] > 0) freeText[`${table}.${column}`] = freeTextCounts[index]
+    })
+
+    return {
+      customers: customerCount.count,
+      tokens: tokenCount.count,
+      feedback: feedbackCount.count,
+      appointments: appointmentCount.count,
+      documents: documentCount.count,
+      otps: otpCount.count,
+      dailyActionTrackers: trackerCount.count,
+      otpRateLimits: rateLimitCount.count,
+      sltBills: sltBillCount.count,
+      freeText,
+      excluded: ERASURE_EXCLUSIONS,
+    }
+  }
+}
+
+export default new DataRetentionService()
@@ -0,0 +1,259 @@
+/**
+ * Device Key Service - Per-device API keys for outlet TVs, IP speakers and log shippers
+ *
+ * A key is issued when a teleshop manager links a device to an outlet and is
+ * bound to that device id and outlet. Only a SHA-256 hash is stored. Devices
+ * send the key in the `X-Device-Key` header; requireDeviceKey() resolves it
+ * and rejects calls that name another device or another outlet.
+ *
+ * The plaintext key reaches the device over its WebSocket when it is linked.
+ * If the socket is down, the device can claim it once over HTTP with the
+ * pairing code it showed in its QR (setup code / QR session id). The pickup
+ * copy is stored encrypted under that pairing code, so it survives restarts
+ * and works on any instance without the server keeping a usable plaintext.
+ *
+ * DEVICE_API_KEY_MODE defaults to 'permissive' so devices linked before keys
+ * existed keep working until they are relinked; a device that already has a
+ * key must present it in either mode. Switch to 'enforce' once every device
+ * shows a key in the outlet-devices view.
+ */
+
+import type { Request, Response, NextFunction } from "express"
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto"
+import { prisma } from "../server"
+import { authenticateStaff, AccessDeniedError } from "./accessControl"
+
+export interface DeviceIdentity {
+  keyId: string
+  deviceId: string
+  outletId: string
+  deviceType: string
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      device?: DeviceIdentity
+    }
+  }
+}
+
+export interface IssueDeviceKeyParams {
+  deviceId: string
+  outletId: string
+  deviceType?: string
+  issuedBy: string
+  issuedVia: string
+  /** Secret the device already holds (setup code / QR session id); allows a one-time HTTP pickup */
+  pairingCode?: string
+}
+
+type DeviceRequestField = (req: Request) => string | null | undefined
+
+export interface RequireDeviceKeyOptions {
+  /** Where the request names its device; must match the key */
+  deviceId?: DeviceRequestField
+  /** Where the request names its outlet; must match the key */
+  outletId?: DeviceRequestField
+  /** Also accept a signed-in staff member (web portals shipping their own logs) */
+  allowStaff?: boolean
+}
+
+const KEY_HEADER = 'x-device-key'
+const KEY_PREFIX = 'dqd_'
+const PICKUP_TTL_MS = 10 * 60 * 1000
+// Avoid a write per heartbeat; lastUsedAt only needs minute precision
+const TOUCH_INTERVAL_MS = 60 * 1000
+// 'permissive' lets devices without any key through (logged) while they are relinked after rollout
+const ENFORCEMENT = process.env.DEVICE_API_KEY_MODE === 'enforce' ? 'enforce' : 'permissive'
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex')
+
+// AES-256-GCM under a key derived from the pairing code; a wrong code fails the auth tag
+const pickupKeyFor = (deviceId: string, pairingCode: string) =>
+  createHash('sha256').update(`device-key-pickup:${deviceId}:${pairingCode}`).digest()
+
+function sealPickup(key: string, deviceId: string, pairingCode: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', pickupKeyFor(deviceId, pairingCode), iv)
+  const ciphertext = Buffer.concat([cipher.update(key, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join(':')
+}
+
+function openPickup(sealed: string, deviceId: string, pairingCode: string): string | null {
+  try {
+    const [iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'base64url'))
+    const decipher = createDecipheriv('aes-256-gcm', pickupKeyFor(deviceId, pairingCode), iv)
+    decipher.setAuthTag(tag)
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+  } catch {
+    return null
+  }
+}
+
+class DeviceKeyService {
+  private lastTouched = new Map<string, number>()
+
+  /**
+   * Issue a new key for a device. Earlier keys of the same device are revoked.
+   * The plaintext is returned once and is not recoverable afterwards.
+   */
+  async issueKey(params: IssueDeviceKeyParams): Promise<{ keyId: string; key: string; keyPrefix: string }> {
+    await this.revokeDeviceKeys(params.deviceId, params.issuedBy, 'reissued')
+
+    const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`
+    const keyPrefix = key.slice(0, KEY_PREFIX.length + 6)
+    const pickup = params.pairingCode
+      ? { pickupCipher: sealPickup(key, params.deviceId, params.pairingCode), pickupExpiresAt: new Date(Date.now() + PICKUP_TTL_MS) }
+      : {}
+    const record = await prisma.deviceApiKey.create({
+      data: {
+        deviceId: params.deviceId,
+        outletId: params.outletId,
+        deviceType: params.deviceType || 'android_tv',
+        keyPrefix,
+        keyHash: hashKey(key),
+        issuedBy: params.issuedBy,
+        issuedVia: params.issuedVia,
+        ...pickup,
+      },
+    })
+    return { keyId: record.id, key, keyPrefix }
+  }
+
+  /**
+   * One-time HTTP pickup of a freshly issued key, for devices that missed the WebSocket message
+   */
+  async claimPendingKey(deviceId: string, pairingCode: string): Promise<string | null> {
+    const pending = await prisma.deviceApiKey.findFirst({
+      where: { deviceId, revokedAt: null, pickupCipher: { not: null }, pickupExpiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, pickupCipher: true },
+    })
+    if (!pending?.pickupCipher) return null
+
+    const key = openPickup(pending.pickupCipher, deviceId, pairingCode)
+    if (!key) return null
+
+    // Only the first claim clears the pickup and gets the key
+    const claimed = await prisma.deviceApiKey.updateMany({
+      where: { id: pending.id, pickupCipher: pending.pickupCipher },
+      data: { pickupCipher: null, pickupExpiresAt: null },
+    })
+    return claimed.count > 0 ? key : null
+  }
+
+  /**
+   * Whether a device has a live key (such devices must present it even in permissive mode)
+   */
+  async hasLiveKey(deviceId: string): Promise<boolean> {
+    const count = await prisma.deviceApiKey.count({ where: { deviceId, revokedAt: null } })
+    return count > 0
+  }
+
+  /**
+   * Resolve a presented key to its device, or null when unknown / revoked
+   */
+  async verifyKey(key: string, ipAddress?: string): Promise<DeviceIdentity | null> {
+    if (!key || !key.startsWith(KEY_PREFIX)) return null
+    const record = await prisma.deviceApiKey.findUnique({ where: { keyHash: hashKey(key) } })
+    if (!record || record.revokedAt) return null
+
+    const last = this.lastTouched.get(record.id) || record.lastUsedAt?.getTime() || 0
+    if (Date.now() - last > TOUCH_INTERVAL_MS) {
+      this.lastTouched.set(record.id, Date.now())
+      prisma.deviceApiKey.update({ where: { id: record.id }, data: { lastUsedAt: new Date(), lastUsedIp: ipAddress || null } })
+        .catch((error) => console.error('Device key touch failed:', error))
+    }
+    return { keyId: record.id, deviceId: record.deviceId, outletId: record.outletId, deviceType: record.deviceType }
+  }
+
+  /**
+   * Revoke every live key of a device. Returns how many were revoked.
+   */
+  async revokeDeviceKeys(deviceId: string, revokedBy: string, reason: string = 'revoked', outletId?: string): Promise<number> {
+    const result = await prisma.deviceApiKey.updateMany({
+      where: { deviceId, revokedAt: null, ...(outletId ? { outletId } : {}) },
+      data: { revokedAt: new Date(), revokedBy, revokeReason: reason, pickupCipher: null, pickupExpiresAt: null },
+    })
+    return result.count
+  }
+
+  /**
+   * Live keys of an outlet's devices, keyed by device id (for the outlet-devices view)
+   */
+  async getOutletKeys(outletId: string) {
+    const keys = await prisma.deviceApiKey.findMany({
+      where: { outletId, revokedAt: null },
+      select: { id: true, deviceId: true, deviceType: true, keyPrefix: true, createdAt: true, lastUsedAt: true, lastUsedIp: true },
+    })
+    return new Map(keys.map(key => [key.deviceId, key]))
+  }
+
+  get enforcementMode() {
+    return ENFORCEMENT
+  }
+}
+
+const deviceKeyService = new DeviceKeyService()
+export default deviceKeyService
+
+const readDeviceKey = (req: Request): string | null => {
+  const header = req.headers[KEY_HEADER]
+  if (typeof header === 'string' && header) return header
+  const authHeader = req.headers.authorization
+  if (authHeader && authHeader.startsWith('Device ')) return authHeader.substring(7)
+  return null
+}
+
+/**
+ * Route middleware for device endpoints. Sets req.device (or req.auth when a
+ * staff session is accepted instead) and rejects requests that name a device
+ * or outlet the key was not issued for.
+ *
+ *   router.get('/audio-events/:outletId', requireDeviceKey({ outletId: req => req.params.outletId }), handler)
+ */
+export function requireDeviceKey(options: RequireDeviceKeyOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = readDeviceKey(req)
+
+      if (!key) {
+        if (options.allowStaff) {
+          try {
+            req.auth = await authenticateStaff(req)
+            return next()
+          } catch (error) {
+            if (!(error instanceof AccessDeniedError)) throw error
+          }
+        }
+        const namedDevice = options.deviceId?.(req)
+        if (ENFORCEMENT === 'permissive' && !(namedDevice && await deviceKeyService.hasLiveKey(namedDevice))) {
+          console.warn(`[DeviceKey] Unauthenticated device call allowed (permissive mode): ${req.method} ${req.originalUrl}`)
+          return next()
+        }
+        return res.status(401).json({ error: 'Device key required', action: 'relink_required', shouldReset: true })
+      }
+
+      const device = await deviceKeyService.verifyKey(key, req.ip)
+      if (!device) {
+        return res.status(401).json({ error: 'Invalid or revoked device key', action: 'relink_required', shouldReset: true })
+      }
+
+      const claimedDevice = options.deviceId?.(req)
+      if (claimedDevice && claimedDevice !== device.deviceId) {
+        return res.status(403).json({ error: 'Device key was issued for another device' })
+      }
+      const claimedOutlet = options.outletId?.(req)
+      if (claimedOutlet && claimedOutlet !== device.outletId) {
+        return res.status(403).json({ error: 'Device is not linked to this outlet' })
+      }
+
+      req.device = device
+      next()
+    } catch (error) {
+      console.error('Device key check error:', error)
+      res.status(500).json({ error: 'Device authentication failed' })
+    }
+  }
+}
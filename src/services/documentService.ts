@@ -0,0 +1,167 @@
+/**
+ * Document Service - Private document storage, scope checks and signed downloads
+ *
+ * Customer documents live in PRIVATE_UPLOAD_DIR, which is never served
+ * statically (UPLOAD_DIR stays public for promo videos and other display
+ * assets). Access is tied to Document.relatedEntity: the entity is resolved to
+ * the outlet(s) it belongs to and the caller must have one of them in scope.
+ * Downloads go through short-lived HMAC-signed URLs so they can be opened
+ * directly by a browser without a bearer token.
+ */
+
+import fs from "fs"
+import path from "path"
+import { createHmac, timingSafeEqual } from "crypto"
+import { prisma } from "../server"
+import { AuthContext, AccessDeniedError, canAccessOutlet } from "./accessControl"
+import { resolvePrivateUploadDir, resolveUploadDir } from "../utils/uploadDir"
+
+const PROJECT_ROOT = path.resolve(__dirname, "../..")
+export const PRIVATE_UPLOAD_DIR = resolvePrivateUploadDir(PROJECT_ROOT)
+const PUBLIC_UPLOAD_DIR = resolveUploadDir(PROJECT_ROOT)
+
+const URL_SECRET = process.env.DOCUMENT_URL_SECRET || process.env.JWT_SECRET || "dev-secret"
+const DEFAULT_URL_TTL_SECONDS = Math.max(30, Number(process.env.DOCUMENT_URL_TTL_SECONDS || 300))
+
+// Extension → accepted MIME types. Both must match for an upload to be stored.
+export const ALLOWED_DOCUMENT_TYPES: Record<string, string[]> = {
+  ".pdf": ["application/pdf"],
+  ".jpg": ["image/jpeg"],
+  ".jpeg": ["image/jpeg"],
+  ".png": ["image/png"],
+  ".webp": ["image/webp"],
+  ".doc": ["application/msword"],
+  ".docx": ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+}
+
+export type DocumentEntityType = 'serviceCase' | 'token' | 'customer' | 'appointment' | 'outlet'
+const ENTITY_TYPES: DocumentEntityType[] = ['serviceCase', 'token', 'customer', 'appointment', 'outlet']
+
+export interface SignedDownload {
+  url: string
+  expiresAt: Date
+}
+
+class DocumentService {
+  isAllowedFile(originalName: string, mimeType: string): boolean {
+    const ext = path.extname(originalName || "").toLowerCase()
+    const allowed = ALLOWED_DOCUMENT_TYPES[ext]
+    return !!allowed && allowed.includes((mimeType || "").toLowerCase())
+  }
+
+  /**
+   * Parse `type:id`. Legacy rows hold a bare id (service case id / ref number or token id).
+   */
+  parseEntity(relatedEntity: string): { type: DocumentEntityType | null; id: string } {
+    const separator = relatedEntity.indexOf(':')
+    if (separator > 0) {
+      const type = relatedEntity.slice(0, separator) as DocumentEntityType
+      if (ENTITY_TYPES.includes(type)) return { type, id: relatedEntity.slice(separator + 1) }
+    }
+    return { type: null, id: relatedEntity }
+  }
+
+  /**
+   * Outlets the related entity belongs to, or null when the entity does not exist
+   */
+  async resolveEntityOutlets(relatedEntity: string): Promise<string[] | null> {
+    const { type, id } = this.parseEntity(relatedEntity)
+    if (!id) return null
+
+    switch (type) {
+      case 'serviceCase': {
+        const serviceCase = await prisma.serviceCase.findFirst({ where: { OR: [{ id }, { refNumber: id }] }, select: { outletId: true } })
+        return serviceCase ? [serviceCase.outletId] : null
+      }
+      case 'token': {
+        const token = await prisma.token.findUnique({ where: { id }, select: { outletId: true } })
+        return token ? [token.outletId] : null
+      }
+      case 'appointment': {
+        const appointment = await prisma.appointment.findUnique({ where: { id }, select: { outletId: true } })
+        return appointment ? [appointment.outletId] : null
+      }
+      case 'outlet': {
+        const outlet = await prisma.outlet.findUnique({ where: { id }, select: { id: true } })
+        return outlet ? [outlet.id] : null
+      }
+      case 'customer': {
+        // Customers are not outlet-bound; staff may see their documents where the customer was served
+        const tokens = await prisma.token.findMany({ where: { customerId: id }, select: { outletId: true }, distinct: ['outletId'] })
+        return tokens.length > 0 ? tokens.map(t => t.outletId) : null
+      }
+      default: {
+        const serviceCase = await prisma.serviceCase.findFirst({ where: { OR: [{ id }, { refNumber: id }] }, select: { outletId: true } })
+        if (serviceCase) return [serviceCase.outletId]
+        const token = await prisma.token.findUnique({ where: { id }, select: { outletId: true } })
+        return token ? [token.outletId] : null
+      }
+    }
+  }
+
+  /**
+   * Throw unless the caller may see documents of the entity
+   */
+  async assertEntityAccess(auth: AuthContext, relatedEntity: string): Promise<void> {
+    const outletIds = await this.resolveEntityOutlets(relatedEntity)
+    if (!outletIds) throw new AccessDeniedError(403, 'Related record not found or not accessible')
+    if (auth.scope.global) return
+    if (!outletIds.some(outletId => canAccessOutlet(auth, outletId))) {
+      throw new AccessDeniedError(403, 'You do not have access to documents of this record')
+    }
+  }
+
+  private sign(documentId: string, expires: number, actor: string): string {
+    return createHmac('sha256', URL_SECRET).update(`${documentId}.${expires}.${actor}`).digest('base64url')
+  }
+
+  /**
+   * Short-lived download URL. The actor is embedded so downloads can be audited.
+   */
+  signDownloadUrl(documentId: string, actor: string, ttlSeconds: number = DEFAULT_URL_TTL_SECONDS): SignedDownload {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds
+    const params = new URLSearchParams({ expires: String(expires), actor, sig: this.sign(documentId, expires, actor) })
+    return {
+      url: `/api/document/download/${encodeURIComponent(documentId)}?${params.toString()}`,
+      expiresAt: new Date(expires * 1000),
+    }
+  }
+
+  verifyDownloadSignature(documentId: string, expires: string, actor: string, signature: string): boolean {
+    const expiresAt = Number(expires)
+    if (!Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now() || !signature) return false
+    const expected = Buffer.from(this.sign(documentId, expiresAt, actor))
+    const given = Buffer.from(String(signature))
+    return expected.length === given.length && timingSafeEqual(expected, given)
+  }
+
+  /**
+   * Move documents uploaded before private storage existed out of the public
+   * upload directory (run once at startup).
+   */
+  async moveLegacyDocuments(): Promise<number> {
+    fs.mkdirSync(PRIVATE_UPLOAD_DIR, { recursive: true })
+    const documents = await prisma.document.findMany({ select: { id: true, filepath: true } })
+
+    let moved = 0
+    for (const document of documents) {
+      const current = path.resolve(document.filepath)
+      if (current.startsWith(PRIVATE_UPLOAD_DIR + path.sep)) continue
+      if (!current.startsWith(PUBLIC_UPLOAD_DIR + path.sep) || !fs.existsSync(current)) continue
+
+      const target = path.join(PRIVATE_UPLOAD_DIR, path.basename(current))
+      try {
+        fs.renameSync(current, target)
+      } catch {
+        // Different volume: copy then remove
+        fs.copyFileSync(current, target)
+        fs.unlinkSync(current)
+      }
+      await prisma.document.update({ where: { id: document.id }, data: { filepath: target } })
+      moved++
+    }
+    return moved
+  }
+}
+
+export default new DocumentService()
@@ -0,0 +1,370 @@
+/**
+ * End-of-Day Service - Issuance cut-off, drain mode and leftover tokens
+ *
+ * An outlet opts in by setting Outlet.closingTime ("HH:MM", server local
+ * time). Then:
+ *
+ *   cut-off  - kiosk and mobile registration stop issuanceCutoffMinutes
+ *              before closing (remote joins and token switches included)
+ *   drain    - from the cut-off the periodic check estimates which waiting
+ *              tokens the officers on duty can still serve before closing
+ *              (average service time of today's tokens, officers working in
+ *              parallel, queue in priority then token-number order) and
+ *              sends a one-time SMS to customers who will likely miss out
+ *   reset    - at the daily reset tick, tokens issued before the outlet's
+ *              last closing time and still waiting follow
+ *              Outlet.endOfDayPolicy (tokens issued since, e.g. the morning
+ *              before a midday reset, are left alone):
+ *                carry_over - re-issued as a priority token for the new day
+ *                             (old token 'carried_over', bills and journey
+ *                             steps move across, Token.carriedOverFromId).
+ *                             When the outlet is closed on the new day
+ *                             (holiday / closure notice) the tokens wait for
+ *                             the next reset, up to CARRY_OVER_LOOKBACK_DAYS.
+ *                             SLA wait starts when the outlet opens again
+ *                             (see slaService)
+ *                cancel     - cancelled
+ *
+ * Outlets without a closing time keep issuing all day and their leftover
+ * tokens are left as they are.
+ */
+
+import type { Prisma } from "@prisma/client"
+import { prisma, broadcast } from "../server"
+import { getLastDailyReset } from "../utils/resetWindow"
+import { getNextTokenNumber, getTokenDisplayNumber } from "../utils/tokenHelper"
+import { getTrackingUrl } from "../utils/urlHelper"
+import { displayToken } from "../utils/tokenFormat"
+import { getClosedOutlets } from "../utils/branchStatus"
+import sltSmsService from "./sltSmsService"
+import { toStringArray } from "./queueDispatcher"
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+export type EndOfDayAction = 'carry_over' | 'cancel'
+
+export interface EndOfDayPolicy {
+  closingTime: string | null
+  issuanceCutoffMinutes: number
+  action: EndOfDayAction
+}
+
+export interface DrainEstimate {
+  closesAt: string
+  minutesLeft: number
+  officersOnDuty: number
+  avgServiceMinutes: number
+  waiting: number
+  canServe: number
+  atRisk: { tokenId: string; tokenNumber: number; displayNumber: string; position: number; notifiedAt: Date | null }[]
+}
+
+export class EndOfDayError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 409) {
+    super(message)
+    this.name = 'EndOfDayError'
+  }
+}
+
+const END_OF_DAY_ACTIONS: EndOfDayAction[] = ['carry_over', 'cancel']
+const MAX_CUTOFF_MINUTES = 240
+const DEFAULT_SERVICE_MINUTES = 10
+const SERVICE_SAMPLE_SIZE = 20
+const ON_DUTY_STATUSES = ['available', 'serving', 'on_break']
+const QUEUED_STATUSES = ['waiting', 'parked']
+// Leftovers held back while the outlet is closed are still carried over this many days later
+const CARRY_OVER_LOOKBACK_DAYS = 4
+const DAY_MS = 24 * 60 * 60 * 1000
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+type OutletHours = { closingTime: string | null; issuanceCutoffMinutes: number }
+
+const customerLanguage = (preferredLanguages: unknown): 'en' | 'si' | 'ta' => {
+  const first = String(toStringArray(preferredLanguages)[0] || '').toLowerCase()
+  return first === 'si' || first === 'ta' ? first : 'en'
+}
+
+export function isEndOfDayAction(value: unknown): value is EndOfDayAction {
+  return typeof value === 'string' && (END_OF_DAY_ACTIONS as string[]).includes(value)
+}
+
+/**
+ * Closing time and issuance cut-off on the calendar day of `now` (null when the outlet has no closing time)
+ */
+export function closingWindow(outlet: OutletHours, now: Date = new Date()): { closesAt: Date; cutoffAt: Date } | null {
+  if (!outlet.closingTime || !TIME_PATTERN.test(outlet.closingTime)) return null
+  const [hours, minutes] = outlet.closingTime.split(':').map(Number)
+  const closesAt = new Date(now)
+  closesAt.setHours(hours, minutes, 0, 0)
+  return { closesAt, cutoffAt: new Date(closesAt.getTime() - outlet.issuanceCutoffMinutes * 60000) }
+}
+
+/**
+ * Whether new tokens may still be issued at the outlet
+ */
+export function isIssuing(outlet: OutletHours, now: Date = new Date()): boolean {
+  const window = closingWindow(outlet, now)
+  return !window || now < window.cutoffAt
+}
+
+class EndOfDayService {
+  async getPolicy(outletId: string): Promise<EndOfDayPolicy | null> {
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: outletId },
+      select: { closingTime: true, issuanceCutoffMinutes: true, endOfDayPolicy: true },
+    })
+    if (!outlet) return null
+    return {
+      closingTime: outlet.closingTime,
+      issuanceCutoffMinutes: outlet.issuanceCutoffMinutes,
+      action: isEndOfDayAction(outlet.endOfDayPolicy) ? outlet.endOfDayPolicy : 'carry_over',
+    }
+  }
+
+  /**
+   * Validate a partial policy update. Returns an error message or null.
+   */
+  validatePolicy(input: Partial<EndOfDayPolicy>): string | null {
+    if (input.closingTime !== undefined && input.closingTime !== null && !(typeof input.closingTime === 'string' && TIME_PATTERN.test(input.closingTime))) {
+      return 'closingTime must be HH:MM (24-hour), or null to switch end-of-day rules off'
+    }
+    if (input.issuanceCutoffMinutes !== undefined && !(Number.isInteger(input.issuanceCutoffMinutes) && input.issuanceCutoffMinutes >= 0 && input.issuanceCutoffMinutes <= MAX_CUTOFF_MINUTES)) {
+      return `issuanceCutoffMinutes must be a whole number from 0 to ${MAX_CUTOFF_MINUTES}`
+    }
+    if (input.action !== undefined && !isEndOfDayAction(input.action)) {
+      return `action must be one of: ${END_OF_DAY_ACTIONS.join(', ')}`
+    }
+    return null
+  }
+
+  async updatePolicy(outletId: string, input: Partial<EndOfDayPolicy>): Promise<EndOfDayPolicy | null> {
+    await prisma.outlet.update({
+      where: { id: outletId },
+      data: {
+        closingTime: input.closingTime,
+        issuanceCutoffMinutes: input.issuanceCutoffMinutes,
+        endOfDayPolicy: input.action,
+      },
+    })
+    return this.getPolicy(outletId)
+  }
+
+  /**
+   * Why no token can be issued at the outlet right now, or null when it can
+   */
+  async checkIssuing(outletId: string, now: Date = new Date(), db: Db = prisma): Promise<EndOfDayError | null> {
+    const outlet = await db.outlet.findUnique({ where: { id: outletId }, select: { closingTime: true, issuanceCutoffMinutes: true } })
+    if (!outlet || isIssuing(outlet, now)) return null
+    return new EndOfDayError(`This outlet has stopped issuing tokens for today (closes at ${outlet.closingTime}). Please visit us on the next business day.`)
+  }
+
+  /**
+   * Which waiting tokens the officers on duty can still serve before closing
+   */
+  async estimateDrain(outlet: { id: string } & OutletHours, now: Date = new Date()): Promise<DrainEstimate | null> {
+    const window = closingWindow(outlet, now)
+    if (!window) return null
+
+    const [queued, officersOnDuty, recent] = await Promise.all([
+      prisma.token.findMany({
+        where: { outletId: outlet.id, status: { in: QUEUED_STATUSES }, createdAt: { gte: getLastDailyReset(now) } },
+        select: { id: true, tokenNumber: true, displayNumber: true, isPriority: true, drainNotifiedAt: true },
+        orderBy: [{ isPriority: 'desc' }, { createdAt: 'asc' }],
+      }),
+      prisma.officer.count({ where: { outletId: outlet.id, isActive: true, status: { in: ON_DUTY_STATUSES }, counterNumber: { not: null } } }),
+      prisma.token.findMany({
+        where: { outletId: outlet.id, status: 'completed', startedAt: { not: null }, completedAt: { gte: getLastDailyReset(now) } },
+        select: { startedAt: true, completedAt: true },
+        orderBy: { completedAt: 'desc' },
+        take: SERVICE_SAMPLE_SIZE,
+      }),
+    ])
+
+    const avgServiceMinutes = recent.length > 0
+      ? recent.reduce((sum, t) => sum + (t.completedAt!.getTime() - t.startedAt!.getTime()) / 60000, 0) / recent.length
+      : DEFAULT_SERVICE_MINUTES
+    const minutesLeft = Math.max(0, (window.closesAt.getTime() - now.getTime()) / 60000)
+    const canServe = Math.floor((minutesLeft * officersOnDuty) / Math.max(1, avgServiceMinutes))
+
+    return {
+      closesAt: window.closesAt.toISOString(),
+      minutesLeft: Math.round(minutesLeft),
+      officersOnDuty,
+      avgServiceMinutes: Math.round(avgServiceMinutes * 10) / 10,
+      waiting: queued.length,
+      canServe: Math.min(canServe, queued.length),
+      atRisk: queued.slice(canServe).map((token, index) => ({
+        tokenId: token.id,
+        tokenNumber: token.tokenNumber,
+        displayNumber: displayToken(token),
+        position: canServe + index + 1,
+        notifiedAt: token.drainNotifiedAt,
+      })),
+    }
+  }
+
+  /**
+   * Drain mode: from the cut-off, warn customers who will likely not be served. Returns the number of SMS sent.
+   */
+  async checkDrain(now: Date = new Date()): Promise<number> {
+    const outlets = await prisma.outlet.findMany({
+      where: { isActive: true, closingTime: { not: null } },
+      select: { id: true, name: true, closingTime: true, issuanceCutoffMinutes: true, endOfDayPolicy: true },
+    })
+
+    let sent = 0
+    for (const outlet of outlets) {
+      if (isIssuing(outlet, now)) continue
+      const estimate = await this.estimateDrain(outlet, now)
+      if (!estimate) continue
+      broadcast({ type: 'DRAIN_STATUS', data: { outletId: outlet.id, ...estimate } })
+
+      const pending = estimate.atRisk.filter(entry => !entry.notifiedAt)
+      if (pending.length === 0) continue
+      const tokens = await prisma.token.findMany({
+        where: { id: { in: pending.map(entry => entry.tokenId) } },
+        include: { customer: { select: { mobileNumber: true } } },
+      })
+      for (const token of tokens) {
+        try {
+          const claimed = await prisma.token.updateMany({ where: { id: token.id, drainNotifiedAt: null }, data: { drainNotifiedAt: now } })
+          if (claimed.count === 0 || !token.customer.mobileNumber || token.customer.mobileNumber === 'N/A') continue
+          await sltSmsService.sendClosingWarning(token.customer.mobileNumber, {
+            tokenNumber: displayToken(token),
+            outletName: outlet.name,
+            closingTime: outlet.closingTime!,
+            carryOver: outlet.endOfDayPolicy !== 'cancel',
+            trackingUrl: getTrackingUrl(token.id),
+          }, customerLanguage(token.preferredLanguages))
+          sent++
+        } catch (err) {
+          console.error(`Closing warning SMS failed for token #${token.tokenNumber}:`, err)
+        }
+      }
+    }
+    return sent
+  }
+
+  /**
+   * Run at the daily reset tick: carry over or cancel tokens still waiting after the outlet last closed
+   */
+  async applyEndOfDay(now: Date = new Date()) {
+    const currentReset = getLastDailyReset(now)
+    const outlets = await prisma.outlet.findMany({
+      where: { closingTime: { not: null } },
+      select: { id: true, name: true, endOfDayPolicy: true, closingTime: true, issuanceCutoffMinutes: true },
+    })
+
+    const totals = { carriedOver: 0, cancelled: 0 }
+    for (const outlet of outlets) {
+      const window = closingWindow(outlet, now)
+      if (!window) continue
+      // Most recent closing at or before now, and the next one (the business day tokens are carried into)
+      const lastClose = window.closesAt <= now ? window.closesAt : new Date(window.closesAt.getTime() - DAY_MS)
+      const nextClose = new Date(lastClose.getTime() + DAY_MS)
+
+      const carryOver = outlet.endOfDayPolicy !== 'cancel'
+      if (carryOver) {
+        // Checked an hour before the next closing, when a closure notice for that day is in force
+        const closed = await getClosedOutlets([outlet.id], new Date(nextClose.getTime() - 60 * 60 * 1000))
+        if (closed.has(outlet.id)) {
+          console.log(`[EndOfDay] ${outlet.name} is closed on the next business day (${closed.get(outlet.id)}); leftover tokens wait for the next reset`)
+          continue
+        }
+      }
+
+      const leftovers = await prisma.token.findMany({
+        where: {
+          outletId: outlet.id,
+          status: { in: QUEUED_STATUSES },
+          createdAt: { gte: new Date(currentReset.getTime() - CARRY_OVER_LOOKBACK_DAYS * DAY_MS), lt: lastClose < currentReset ? lastClose : currentReset },
+        },
+        include: { customer: { select: { mobileNumber: true } } },
+        orderBy: { createdAt: 'asc' },
+      })
+      if (leftovers.length === 0) continue
+
+      let carriedOver = 0
+      let cancelled = 0
+      for (const token of leftovers) {
+        try {
+          let next: { id: string; tokenNumber: number; displayNumber: string | null } | null = null
+          if (carryOver) {
+            next = await this.carryOver(token, currentReset, now)
+            if (!next) continue
+            carriedOver++
+          } else {
+            const claimed = await prisma.token.updateMany({ where: { id: token.id, status: { in: QUEUED_STATUSES } }, data: { status: 'cancelled' } })
+            if (claimed.count === 0) continue
+            await prisma.slaBreach.updateMany({ where: { tokenId: token.id, resolvedAt: null }, data: { resolvedAt: now } })
+            cancelled++
+          }
+
+          const mobile = token.customer.mobileNumber
+          if (mobile && mobile !== 'N/A') {
+            await sltSmsService.sendEndOfDayOutcome(mobile, {
+              tokenNumber: displayToken(token),
+              outletName: outlet.name,
+              newTokenNumber: next ? displayToken(next) : undefined,
+              trackingUrl: next ? getTrackingUrl(next.id) : undefined,
+            }, customerLanguage(token.preferredLanguages)).catch(err => console.error(`End-of-day SMS failed for token #${token.tokenNumber}:`, err))
+          }
+        } catch (err) {
+          console.error(`End-of-day ${carryOver ? 'carry-over' : 'cancel'} failed for token #${token.tokenNumber}:`, err)
+        }
+      }
+
+      totals.carriedOver += carriedOver
+      totals.cancelled += cancelled
+      broadcast({ type: 'END_OF_DAY_APPLIED', data: { outletId: outlet.id, action: carryOver ? 'carry_over' : 'cancel', carriedOver, cancelled } })
+    }
+    return totals
+  }
+
+  /**
+   * Re-issue a leftover token as a priority token in the new business day
+   */
+  private async carryOver(token: Prisma.TokenGetPayload<{}>, currentReset: Date, now: Date) {
+    return prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT id FROM "Outlet" WHERE id = ${token.outletId} FOR UPDATE`
+      const claimed = await tx.token.updateMany({ where: { id: token.id, status: { in: QUEUED_STATUSES } }, data: { status: 'carried_over' } })
+      if (claimed.count === 0) return null
+
+      const tokenNumber = await getNextTokenNumber(tx, token.outletId, token.serviceTypes, currentReset)
+      const displayNumber = await getTokenDisplayNumber(tx, token.outletId, token.serviceTypes, tokenNumber)
+      const next = await tx.token.create({
+        data: {
+          tokenNumber,
+          displayNumber,
+          customerId: token.customerId,
+          outletId: token.outletId,
+          serviceTypes: token.serviceTypes,
+          status: 'waiting',
+          isPriority: true,
+          preferredLanguages: (token.preferredLanguages ?? undefined) as Prisma.InputJsonValue | undefined,
+          accountRef: token.accountRef,
+          sltTelephoneNumber: token.sltTelephoneNumber,
+          billPaymentIntent: token.billPaymentIntent,
+          billPaymentAmount: token.billPaymentAmount,
+          billPaymentMethod: token.billPaymentMethod,
+          billPaymentCustomAmounts: (token.billPaymentCustomAmounts ?? undefined) as Prisma.InputJsonValue | undefined,
+          isRemote: token.isRemote,
+          travelMinutes: token.travelMinutes,
+          priorityCategoryId: token.priorityCategoryId,
+          priorityVerification: token.priorityVerification,
+          priorityVerifiedAt: token.priorityVerifiedAt,
+          priorityVerifiedBy: token.priorityVerifiedBy,
+          carriedOverFromId: token.id,
+        },
+      })
+
+      await tx.tokenBill.updateMany({ where: { tokenId: token.id }, data: { tokenId: next.id } })
+      await tx.tokenJourneyStep.updateMany({ where: { tokenId: token.id }, data: { tokenId: next.id } })
+      await tx.slaBreach.updateMany({ where: { tokenId: token.id, resolvedAt: null }, data: { resolvedAt: now } })
+      return next
+    }, { timeout: 10000 })
+  }
+}
+
+export const endOfDayService = new EndOfDayService()
+export default endOfDayService
@@ -0,0 +1,424 @@
+/**
+ * Field Encryption - Transparent application-level encryption of PII columns
+ *
+ * Designated columns (NIC, email, SLT account holder details, appointment
+ * contact details) are stored as AES-256-GCM ciphertext:
+ *
+ *   enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>      (base64url parts)
+ *
+ * The key id lets keys rotate: new writes use the first key in
+ * FIELD_ENCRYPTION_KEYS, older keys stay listed for reading until
+ * reencryptStaleRows() has moved every row to the active key.
+ *
+ * Columns we search on also get a deterministic HMAC in a sibling `*Hash`
+ * column. The Prisma middleware rewrites equality / `in` filters on those
+ * columns to the hash column, so `where: { nicNumber }` keeps working,
+ * including through relation filters (`customer: { nicNumber }`).
+ *
+ * Reads are decrypted wherever the ciphertext appears in a result (nested
+ * includes and raw queries too). Backups wrap their reads in
+ * withCiphertextReads() so exported rows stay encrypted; restores pass the
+ * ciphertext through unchanged.
+ */
+
+import { AsyncLocalStorage } from "async_hooks"
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "crypto"
+import { Prisma } from "@prisma/client"
+
+export interface EncryptedFieldSpec {
+  /** Sibling column holding a deterministic lookup hash */
+  hashField?: string
+  /** Canonical form hashed for lookups (e.g. one spelling of a mobile number) */
+  normalize?: (value: string) => string
+}
+
+const normalizeMobile = (value: string) => {
+  const digits = value.replace(/\D/g, '')
+  if (digits.startsWith('94') && digits.length === 11) return `0${digits.slice(2)}`
+  if (digits.length === 9) return `0${digits}`
+  return digits
+}
+
+// Model → field → spec. Changing this list needs reencryptStaleRows({ force: true }).
+export const ENCRYPTED_FIELDS: Record<string, Record<string, EncryptedFieldSpec>> = {
+  Customer: {
+    nicNumber: { hashField: 'nicNumberHash', normalize: (value) => value.replace(/\s+/g, '').toUpperCase() },
+    email: { hashField: 'emailHash', normalize: (value) => value.trim().toLowerCase() },
+  },
+  SltBill: {
+    accountName: {},
+    accountAddress: {},
+  },
+  Appointment: {
+    name: {},
+    mobileNumber: { hashField: 'mobileNumberHash', normalize: normalizeMobile },
+  },
+  // Authenticator (TOTP) shared secrets
+  OTP: {
+    secret: {},
+  },
+}
+
+const CIPHER_PREFIX = 'enc:v1:'
+const ALGORITHM = 'aes-256-gcm'
+const REENCRYPT_BATCH_SIZE = 200
+
+// Actions whose `data` (and nested writes) are encrypted
+const WRITE_ACTIONS = new Set(['create', 'createMany', 'createManyAndReturn', 'update', 'updateMany', 'upsert'])
+
+interface FieldKey {
+  id: string
+  key: Buffer
+}
+
+/**
+ * FIELD_ENCRYPTION_KEYS="2024b:<base64 32 bytes>,2024a:<base64 32 bytes>" (first is active).
+ * Without it a development key is derived from JWT_SECRET.
+ */
+function loadKeys(): FieldKey[] {
+  const configured = (process.env.FIELD_ENCRYPTION_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':')
+      const id = entry.slice(0, separator)
+      const key = Buffer.from(entry.slice(separator + 1), 'base64')
+      if (separator <= 0 || /[^A-Za-z0-9_-]/.test(id) || key.length !== 32) {
+        throw new Error(`Invalid FIELD_ENCRYPTION_KEYS entry for key id '${id}': expected <id>:<base64 32-byte key>`)
+      }
+      return { id, key }
+    })
+  if (configured.length > 0) return configured
+
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('[FieldEncryption] FIELD_ENCRYPTION_KEYS is not set; using a key derived from JWT_SECRET')
+  }
+  const secret = process.env.JWT_SECRET || 'dev-secret'
+  return [{ id: 'dev', key: createHash('sha256').update(`field-encryption:${secret}`).digest() }]
+}
+
+const HASH_SECRET = process.env.FIELD_HASH_KEY || `field-hash:${process.env.JWT_SECRET || 'dev-secret'}`
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype
+
+class FieldEncryptionService {
+  private keys = loadKeys()
+  private ciphertextReads = new AsyncLocalStorage<boolean>()
+  private relations: Record<string, Record<string, string>> | null = null
+
+  get activeKeyId(): string {
+    return this.keys[0].id
+  }
+
+  get keyIds(): string[] {
+    return this.keys.map(k => k.id)
+  }
+
+  isCiphertext(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(CIPHER_PREFIX)
+  }
+
+  keyIdOf(value: string): string | null {
+    return this.isCiphertext(value) ? value.slice(CIPHER_PREFIX.length).split(':')[0] : null
+  }
+
+  encrypt(plaintext: string): string {
+    const { id, key } = this.keys[0]
+    const iv = randomBytes(12)
+    const cipher = createCipheriv(ALGORITHM, key, iv)
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+    const tag = cipher.getAuthTag()
+    return `${CIPHER_PREFIX}${id}:${iv.toString('base64url')}:${tag.toString('base64url')}:${ciphertext.toString('base64url')}`
+  }
+
+  /**
+   * Plaintext of a stored value. Plaintext (not yet migrated) values pass through.
+   */
+  decrypt(value: string): string {
+    if (!this.isCiphertext(value)) return value
+    const [keyId, iv, tag, ciphertext] = value.slice(CIPHER_PREFIX.length).split(':')
+    const fieldKey = this.keys.find(k => k.id === keyId)
+    if (!fieldKey) throw new Error(`Field encryption key '${keyId}' is not configured`)
+    const decipher = createDecipheriv(ALGORITHM, fieldKey.key, Buffer.from(iv, 'base64url'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8')
+  }
+
+  /**
+   * Deterministic lookup hash for a searchable field
+   */
+  hash(model: string, field: string, value: string): string {
+    const spec = ENCRYPTED_FIELDS[model]?.[field]
+    const canonical = spec?.normalize ? spec.normalize(value) : value
+    return createHmac('sha256', HASH_SECRET).update(`${model}.${field}:${canonical}`).digest('hex')
+  }
+
+  /**
+   * Run `fn` against the stored values: reads return ciphertext and filters are not
+   * rewritten (backups, sync to another database, key rotation)
+   */
+  withCiphertextReads<T>(fn: () => Promise<T>): Promise<T> {
+    return this.ciphertextReads.run(true, fn)
+  }
+
+  /**
+   * Prisma middleware: encrypt writes, rewrite hashed lookups, decrypt results
+   */
+  middleware(): Prisma.Middleware {
+    return async (params, next) => {
+      const model = params.model
+      const ciphertextReads = !!this.ciphertextReads.getStore()
+      if (model) {
+        const args = params.args || {}
+        if (WRITE_ACTIONS.has(params.action)) {
+          if (params.action === 'upsert') {
+            args.create = this.transformData(model, args.create)
+            args.update = this.transformData(model, args.update)
+          } else {
+            args.data = this.transformData(model, args.data)
+          }
+        }
+        if (args.where && !ciphertextReads) args.where = this.transformWhere(model, args.where)
+        params.args = args
+      }
+
+      const result = await next(params)
+      if (ciphertextReads) return result
+      return this.decryptDeep(result)
+    }
+  }
+
+  private relationTargets(model: string): Record<string, string> {
+    if (!this.relations) {
+      this.relations = {}
+      for (const dmmfModel of Prisma.dmmf.datamodel.models) {
+        const targets: Record<string, string> = {}
+        for (const field of dmmfModel.fields) {
+          if (field.kind === 'object') targets[field.name] = field.type
+        }
+        this.relations[dmmfModel.name] = targets
+      }
+    }
+    return this.relations[model] || {}
+  }
+
+  private encryptField(model: string, field: string, spec: EncryptedFieldSpec, value: any, out: Record<string, any>) {
+    // `{ set: value }` is the long form of an update
+    const raw = isPlainObject(value) && 'set' in value ? value.set : value
+    if (typeof raw === 'string') {
+      // Restored backups already carry ciphertext and its hash
+      if (this.isCiphertext(raw)) {
+        out[field] = raw
+        return
+      }
+      out[field] = this.encrypt(raw)
+      if (spec.hashField) out[spec.hashField] = this.hash(model, field, raw)
+    } else {
+      out[field] = value
+      if (spec.hashField && raw === null) out[spec.hashField] = null
+    }
+  }
+
+  private transformData(model: string, data: any): any {
+    if (Array.isArray(data)) return data.map(item => this.transformData(model, item))
+    if (!isPlainObject(data)) return data
+
+    const fields = ENCRYPTED_FIELDS[model] || {}
+    const relations = this.relationTargets(model)
+    const out: Record<string, any> = {}
+    for (const [key, value] of Object.entries(data)) {
+      if (fields[key]) {
+        this.encryptField(model, key, fields[key], value, out)
+      } else if (relations[key] && isPlainObject(value)) {
+        out[key] = this.transformNestedWrite(relations[key], value)
+      } else if (!(key in out)) {
+        out[key] = value
+      }
+    }
+    return out
+  }
+
+  private transformNestedWrite(model: string, write: Record<string, any>): Record<string, any> {
+    const each = (value: any, fn: (item: any) => any) => (Array.isArray(value) ? value.map(fn) : fn(value))
+    const out: Record<string, any> = { ...write }
+    if (write.create) out.create = this.transformData(model, write.create)
+    if (write.createMany?.data) out.createMany = { ...write.createMany, data: this.transformData(model, write.createMany.data) }
+    if (write.connectOrCreate) {
+      out.connectOrCreate = each(write.connectOrCreate, (item) => ({
+        ...item,
+        where: this.transformWhere(model, item.where),
+        create: this.transformData(model, item.create),
+      }))
+    }
+    if (write.update) {
+      out.update = each(write.update, (item) => (isPlainObject(item) && 'where' in item && 'data' in item
+        ? { ...item, where: this.transformWhere(model, item.where), data: this.transformData(model, item.data) }
+        : this.transformData(model, item)))
+    }
+    if (write.updateMany) {
+      out.updateMany = each(write.updateMany, (item) => ({
+        ...item,
+        where: this.transformWhere(model, item.where),
+        data: this.transformData(model, item.data),
+      }))
+    }
+    if (write.upsert) {
+      out.upsert = each(write.upsert, (item) => ({
+        ...item,
+        ...(item.where ? { where: this.transformWhere(model, item.where) } : {}),
+        create: this.transformData(model, item.create),
+        update: this.transformData(model, item.update),
+      }))
+    }
+    return out
+  }
+
+  /**
+   * Point equality / `in` / `not` filters on searchable fields at their hash column.
+   * Other operators (contains, startsWith…) cannot work on ciphertext and are left as-is.
+   */
+  private transformWhere(model: string, where: any): any {
+    if (Array.isArray(where)) return where.map(item => this.transformWhere(model, item))
+    if (!isPlainObject(where)) return where
+
+    const fields = ENCRYPTED_FIELDS[model] || {}
+    const relations = this.relationTargets(model)
+    const out: Record<string, any> = {}
+    for (const [key, value] of Object.entries(where)) {
+      const spec = fields[key]
+      if (key === 'AND' || key === 'OR' || key === 'NOT') {
+        out[key] = this.transformWhere(model, value)
+      } else if (spec?.hashField && value !== null && value !== undefined) {
+        const hashFilter = this.hashFilter(model, key, value)
+        if (hashFilter === undefined) out[key] = value
+        else out[spec.hashField] = hashFilter
+      } else if (relations[key] && isPlainObject(value)) {
+        const target = relations[key]
+        const nested: Record<string, any> = {}
+        const isListFilter = ['some', 'every', 'none', 'is', 'isNot'].some(op => op in value)
+        if (isListFilter) {
+          for (const [op, filter] of Object.entries(value)) nested[op] = this.transformWhere(target, filter)
+          out[key] = nested
+        } else {
+          out[key] = this.transformWhere(target, value)
+        }
+      } else {
+        out[key] = value
+      }
+    }
+    return out
+  }
+
+  private hashFilter(model: string, field: string, value: any): any {
+    const hashOne = (v: any) => (typeof v === 'string' ? this.hash(model, field, v) : v)
+    if (typeof value === 'string') return hashOne(value)
+    if (!isPlainObject(value)) return undefined
+
+    const supported = ['equals', 'in', 'notIn', 'not']
+    if (!Object.keys(value).every(op => supported.includes(op))) return undefined
+    const out: Record<string, any> = {}
+    if ('equals' in value) out.equals = hashOne(value.equals)
+    if ('in' in value) out.in = Array.isArray(value.in) ? value.in.map(hashOne) : value.in
+    if ('notIn' in value) out.notIn = Array.isArray(value.notIn) ? value.notIn.map(hashOne) : value.notIn
+    if ('not' in value) {
+      // `{ not: null }` is a presence check on the column itself
+      if (typeof value.not === 'string') out.not = hashOne(value.not)
+      else return undefined
+    }
+    return out
+  }
+
+  private decryptDeep(value: any): any {
+    if (typeof value === 'string') return this.isCiphertext(value) ? this.safeDecrypt(value) : value
+    if (Array.isArray(value)) {
+      for (let i = 0; i < value.length; i++) value[i] = this.decryptDeep(value[i])
+      return value
+    }
+    if (isPlainObject(value)) {
+      for (const key of Object.keys(value)) value[key] = this.decryptDeep(value[key])
+    }
+    return value
+  }
+
+  private safeDecrypt(value: string): string | null {
+    try {
+      return this.decrypt(value)
+    } catch (error) {
+      // A wrong / missing key must not take down the whole response
+      console.error(`[FieldEncryption] Could not decrypt value (key ${this.keyIdOf(value)}):`, (error as Error).message)
+      return null
+    }
+  }
+
+  /**
+   * Count stored values per key id (and legacy plaintext) for each encrypted field
+   */
+  async getStatus(client: any) {
+    return this.withCiphertextReads(async () => {
+      const fields: Record<string, Record<string, number>> = {}
+      for (const [model, specs] of Object.entries(ENCRYPTED_FIELDS)) {
+        const delegate = client[model.charAt(0).toLowerCase() + model.slice(1)]
+        for (const field of Object.keys(specs)) {
+          const counts: Record<string, number> = {}
+          const plaintext = await delegate.count({ where: { [field]: { not: null }, NOT: { [field]: { startsWith: CIPHER_PREFIX } } } })
+          if (plaintext > 0) counts.plaintext = plaintext
+          for (const keyId of this.keyIds) {
+            const count = await delegate.count({ where: { [field]: { startsWith: `${CIPHER_PREFIX}${keyId}:` } } })
+            if (count > 0) counts[keyId] = count
+          }
+          fields[`${model}.${field}`] = counts
+        }
+      }
+      return { activeKeyId: this.activeKeyId, keyIds: this.keyIds, fields }
+    })
+  }
+
+  /**
+   * Rewrite rows still in plaintext or under an older key with the active key
+   * (also fills in missing lookup hashes). `force` rewrites every row, e.g.
+   * after FIELD_HASH_KEY changed.
+   */
+  async reencryptStaleRows(client: any, options: { force?: boolean } = {}): Promise<Record<string, number>> {
+    const updated: Record<string, number> = {}
+    const activePrefix = `${CIPHER_PREFIX}${this.activeKeyId}:`
+
+    for (const [model, specs] of Object.entries(ENCRYPTED_FIELDS)) {
+      const delegate = client[model.charAt(0).toLowerCase() + model.slice(1)]
+      const fieldNames = Object.keys(specs)
+      const staleFilter = options.force
+        ? { OR: fieldNames.map(field => ({ [field]: { not: null } })) }
+        : { OR: fieldNames.map(field => ({ AND: [{ [field]: { not: null } }, { NOT: { [field]: { startsWith: activePrefix } } }] })) }
+      const select = Object.fromEntries([['id', true], ...fieldNames.map(field => [field, true])])
+
+      let cursor: string | undefined
+      updated[model] = 0
+      for (;;) {
+        const rows: any[] = await this.withCiphertextReads(() => delegate.findMany({
+          where: staleFilter,
+          select,
+          orderBy: { id: 'asc' },
+          take: REENCRYPT_BATCH_SIZE,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        }))
+        if (rows.length === 0) break
+
+        for (const row of rows) {
+          const data: Record<string, any> = {}
+          for (const field of fieldNames) {
+            if (typeof row[field] === 'string') data[field] = this.decrypt(row[field])
+          }
+          await delegate.update({ where: { id: row.id }, data })
+          updated[model]++
+        }
+        cursor = rows[rows.length - 1].id
+        if (rows.length < REENCRYPT_BATCH_SIZE) break
+      }
+    }
+    return updated
+  }
+}
+
+export const fieldEncryption = new FieldEncryptionService()
+export default fieldEncryption
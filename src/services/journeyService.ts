@@ -0,0 +1,216 @@
+/**
+ * Journey Service - Multi-step visits across counters
+ *
+ * A journey is the ordered list of services a customer needs in one visit
+ * (TokenJourneyStep rows). While it runs, Token.serviceTypes holds only the
+ * current step so /next-token routes the token to officers of that service.
+ *
+ * Completing a step records its CompletedService row (wait and service time)
+ * and puts the token straight back in the queue for the next step as a
+ * transferred token (with a TransferLog), so the dispatcher's transfer
+ * priority applies and call-transferred-token works as usual. After the
+ * last step Token.serviceTypes is restored to every step's service and the
+ * normal completion flow (service case, completion SMS) runs.
+ *
+ * Step status: pending -> queued -> completed
+ */
+
+import type { Prisma, TokenJourneyStep } from "@prisma/client"
+import { prisma } from "../server"
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+export interface JourneyStepInput {
+  serviceCode: string
+  counterNumber?: number | null
+}
+
+export interface StepCompletion {
+  completedStep: TokenJourneyStep
+  nextStep: TokenJourneyStep | null
+  totalSteps: number
+}
+
+export const MAX_JOURNEY_STEPS = 10
+
+export class JourneyError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'JourneyError'
+  }
+}
+
+const minutesBetween = (from: Date | null | undefined, to: Date | null | undefined) =>
+  from && to ? Math.max(0, Math.round((to.getTime() - from.getTime()) / 60000)) : null
+
+class JourneyService {
+  /**
+   * Validate steps against active services. Returns an error message or null.
+   */
+  async validateSteps(steps: unknown, db: Db = prisma): Promise<string | null> {
+    if (!Array.isArray(steps) || steps.length < 2) return "A journey needs at least two steps"
+    if (steps.length > MAX_JOURNEY_STEPS) return `A journey can have at most ${MAX_JOURNEY_STEPS} steps`
+    for (const step of steps) {
+      if (!step || typeof step.serviceCode !== "string" || !step.serviceCode) return "Each step needs a serviceCode"
+      if (step.counterNumber !== undefined && step.counterNumber !== null && !(Number.isInteger(Number(step.counterNumber)) && Number(step.counterNumber) > 0)) {
+        return "counterNumber must be a positive whole number"
+      }
+    }
+    const codes = [...new Set((steps as JourneyStepInput[]).map(s => s.serviceCode))]
+    const found = await db.service.findMany({ where: { code: { in: codes }, isActive: true }, select: { code: true } })
+    const missing = codes.filter(code => !found.some(s => s.code === code))
+    return missing.length > 0 ? `Unknown or inactive service: ${missing.join(", ")}` : null
+  }
+
+  /**
+   * Create the journey for a token that has not been completed yet. The first
+   * step is the one the token is waiting for (or being served for) right now.
+   */
+  async planJourney(tokenId: string, steps: JourneyStepInput[], db: Db = prisma): Promise<TokenJourneyStep[]> {
+    const token = await db.token.findUnique({ where: { id: tokenId }, select: { status: true, calledAt: true, createdAt: true } })
+    if (!token) throw new JourneyError("Token not found", 404)
+    if (token.status === "completed") throw new JourneyError("Token is already completed")
+
+    const existing = await db.tokenJourneyStep.count({ where: { tokenId, status: "completed" } })
+    if (existing > 0) throw new JourneyError("Journey already started; steps can no longer be re-planned")
+    await db.tokenJourneyStep.deleteMany({ where: { tokenId } })
+
+    const now = new Date()
+    await db.tokenJourneyStep.createMany({
+      data: steps.map((step, index) => ({
+        tokenId,
+        stepNumber: index + 1,
+        serviceCode: step.serviceCode,
+        counterNumber: step.counterNumber ? Number(step.counterNumber) : null,
+        status: index === 0 ? "queued" : "pending",
+        queuedAt: index === 0 ? token.createdAt : null,
+        startedAt: index === 0 && token.status !== "waiting" ? token.calledAt || now : null,
+      })),
+    })
+    await db.token.update({ where: { id: tokenId }, data: { serviceTypes: [steps[0].serviceCode] } })
+    return this.getSteps(tokenId, db)
+  }
+
+  async getSteps(tokenId: string, db: Db = prisma): Promise<TokenJourneyStep[]> {
+    return db.tokenJourneyStep.findMany({ where: { tokenId }, orderBy: { stepNumber: "asc" } })
+  }
+
+  async hasJourney(tokenId: string): Promise<boolean> {
+    return (await prisma.tokenJourneyStep.count({ where: { tokenId } })) > 0
+  }
+
+  /**
+   * Complete the current step for the officer serving the token and re-queue it for the next one
+   */
+  async completeCurrentStep(tokenId: string, officerId: string, notes?: string): Promise<StepCompletion | null> {
+    return prisma.$transaction(async (tx) => {
+      const steps = await this.getSteps(tokenId, tx)
+      const current = steps.find(step => step.status === "queued")
+      if (!current) return null
+
+      const token = await tx.token.findUnique({ where: { id: tokenId } })
+      if (!token) throw new JourneyError("Token not found", 404)
+
+      const now = new Date()
+      const startedAt = token.startedAt || token.calledAt || current.startedAt || now
+      // Only the first of two concurrent completions moves the step on
+      const claimed = await tx.tokenJourneyStep.updateMany({
+        where: { id: current.id, status: "queued" },
+        data: { status: "completed", officerId, startedAt, completedAt: now },
+      })
+      if (claimed.count === 0) throw new JourneyError("This journey step has already been completed", 409)
+      const completedStep = await tx.tokenJourneyStep.findUniqueOrThrow({ where: { id: current.id } })
+
+      const service = await tx.service.findUnique({ where: { code: current.serviceCode }, select: { id: true } })
+      if (service) {
+        const tm = await tx.teleshopManager.findFirst({ where: { branchId: token.outletId }, select: { id: true } })
+        await tx.completedService.create({
+          data: {
+            tokenId,
+            serviceId: service.id,
+            officerId,
+            teleshopManagerId: tm?.id || null,
+            customerId: token.customerId,
+            outletId: token.outletId,
+            journeyStep: current.stepNumber,
+            startedAt,
+            duration: minutesBetween(startedAt, now) ?? 0,
+            waitMinutes: minutesBetween(current.queuedAt, startedAt),
+            notes: notes || `Journey step ${current.stepNumber} of ${steps.length} completed by officer`,
+          },
+        })
+      }
+
+      const next = steps.find(step => step.stepNumber > current.stepNumber && step.status === "pending") || null
+      if (!next) {
+        // Reports read the token's services; give them the whole journey back
+        await tx.token.update({ where: { id: tokenId }, data: { serviceTypes: steps.map(step => step.serviceCode) } })
+        return { completedStep, nextStep: null, totalSteps: steps.length }
+      }
+
+      const nextStep = await tx.tokenJourneyStep.update({
+        where: { id: next.id },
+        data: { status: "queued", queuedAt: now },
+      })
+      await tx.transferLog.create({
+        data: {
+          tokenId,
+          fromOfficerId: officerId,
+          fromCounterNumber: token.counterNumber,
+          toCounterNumber: next.counterNumber,
+          previousServiceTypes: token.serviceTypes,
+          newServiceTypes: [next.serviceCode],
+          notes: `Journey step ${next.stepNumber} of ${steps.length}`,
+        },
+      })
+      await tx.token.update({
+        where: { id: tokenId },
+        data: {
+          serviceTypes: [next.serviceCode],
+          counterNumber: next.counterNumber,
+          status: "waiting",
+          assignedTo: null,
+          calledAt: null,
+          startedAt: null,
+          isTransferred: true,
+        },
+      })
+      return { completedStep, nextStep, totalSteps: steps.length }
+    }, { timeout: 10000 })
+  }
+
+  /**
+   * Journey view for customers and officers, with service titles
+   */
+  async describe(tokenId: string) {
+    const steps = await this.getSteps(tokenId)
+    if (steps.length === 0) return null
+    const services = await prisma.service.findMany({
+      where: { code: { in: steps.map(step => step.serviceCode) } },
+      select: { code: true, title: true },
+    })
+    const titles = new Map(services.map(s => [s.code, s.title]))
+    const current = steps.find(step => step.status === "queued") || null
+    return {
+      totalSteps: steps.length,
+      currentStep: current?.stepNumber ?? null,
+      completedSteps: steps.filter(step => step.status === "completed").length,
+      steps: steps.map(step => ({
+        stepNumber: step.stepNumber,
+        serviceCode: step.serviceCode,
+        serviceTitle: titles.get(step.serviceCode) || step.serviceCode,
+        counterNumber: step.counterNumber,
+        status: step.status,
+        startedAt: step.startedAt,
+        completedAt: step.completedAt,
+        serviceMinutes: minutesBetween(step.startedAt, step.completedAt),
+      })),
+      remainingSteps: steps
+        .filter(step => step.status !== "completed")
+        .map(step => ({ stepNumber: step.stepNumber, serviceTitle: titles.get(step.serviceCode) || step.serviceCode, counterNumber: step.counterNumber })),
+    }
+  }
+}
+
+export const journeyService = new JourneyService()
+export default journeyService
@@ -0,0 +1,259 @@
+/**
+ * Kiosk Credential Service - Hashed, rotatable kiosk passwords with lockout
+ *
+ * Kiosk passwords are stored as bcrypt hashes and are only ever shown once,
+ * when they are generated. Failed logins are counted per kiosk device (the
+ * device id the kiosk app sends, else the client IP) and lock that device for
+ * a while. A separate outlet-wide counter never locks out kiosks that have
+ * signed in before: once it trips, only devices not yet known at the outlet
+ * are held back, so a flood of bad guesses cannot take the outlet offline.
+ * Outlets may opt into automatic rotation, in which case the new password is
+ * emailed to the outlet's teleshop managers.
+ */
+
+import * as bcrypt from "bcrypt"
+import { prisma } from "../server"
+import { generateSecurePassword } from "../utils/passwordGenerator"
+import { systemLogger } from "./systemLogger"
+import sessionService from "./sessionService"
+import emailService from "./emailService"
+
+const BCRYPT_ROUNDS = 10
+const MAX_ATTEMPTS_PER_DEVICE = Math.max(1, Number(process.env.KIOSK_MAX_FAILED_ATTEMPTS || 5))
+const MAX_ATTEMPTS_PER_OUTLET = Math.max(MAX_ATTEMPTS_PER_DEVICE, Number(process.env.KIOSK_MAX_FAILED_ATTEMPTS_PER_OUTLET || 20))
+const LOCKOUT_MINUTES = Math.max(1, Number(process.env.KIOSK_LOCKOUT_MINUTES || 15))
+// Outlet-wide counter row; when locked it only holds back unknown devices
+const ALL_DEVICES = '*'
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{8,128}$/
+
+export interface KioskActor {
+  userId: string
+  userRole: string
+  ipAddress?: string
+}
+
+/** Who is trying to sign in: the kiosk's own device id when it sends one, else its IP */
+export interface KioskLoginSource {
+  deviceId?: string | null
+  ipAddress: string
+}
+
+export type KioskLoginCheck =
+  | { ok: true }
+  | { ok: false; reason: 'invalid' }
+  | { ok: false; reason: 'locked'; retryAfterSeconds: number }
+
+const isBcryptHash = (value: string) => /^\$2[aby]\$\d{2}\$/.test(value)
+
+const loginSubject = (source: KioskLoginSource) =>
+  source.deviceId && DEVICE_ID_PATTERN.test(source.deviceId) ? `device:${source.deviceId}` : `ip:${source.ipAddress}`
+
+class KioskCredentialService {
+  async hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, BCRYPT_ROUNDS)
+  }
+
+  /**
+   * Seconds until the device may try again, or 0 when not locked.
+   * The outlet-wide lock only applies to devices that have never signed in at the outlet.
+   */
+  private async lockedForSeconds(outletId: string, subject: string): Promise<number> {
+    const rows = await prisma.kioskLoginAttempt.findMany({
+      where: { outletId, subject: { in: [subject, ALL_DEVICES] } },
+      select: { subject: true, lockedUntil: true, lastSucceededAt: true },
+    })
+    const own = rows.find(r => r.subject === subject)
+    const outletWide = rows.find(r => r.subject === ALL_DEVICES)
+    const knownDevice = !!own?.lastSucceededAt
+    const until = Math.max(
+      0,
+      own?.lockedUntil?.getTime() ?? 0,
+      knownDevice ? 0 : outletWide?.lockedUntil?.getTime() ?? 0,
+    )
+    return until > Date.now() ? Math.ceil((until - Date.now()) / 1000) : 0
+  }
+
+  private async recordFailure(outletId: string, subject: string, maxAttempts: number) {
+    const now = new Date()
+    const row = await prisma.kioskLoginAttempt.upsert({
+      where: { outletId_subject: { outletId, subject } },
+      create: { outletId, subject, failedAttempts: 1, lastFailedAt: now },
+      update: { failedAttempts: { increment: 1 }, lastFailedAt: now },
+    })
+    if (row.failedAttempts >= maxAttempts) {
+      await prisma.kioskLoginAttempt.update({
+        where: { id: row.id },
+        data: { failedAttempts: 0, lockedUntil: new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000) },
+      })
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Check a kiosk login attempt. Legacy plaintext passwords are accepted once
+   * and replaced by their hash.
+   */
+  async verifyLogin(outlet: { id: string; kioskPassword: string | null }, password: string, source: KioskLoginSource): Promise<KioskLoginCheck> {
+    const subject = loginSubject(source)
+    const locked = await this.lockedForSeconds(outlet.id, subject)
+    if (locked > 0) return { ok: false, reason: 'locked', retryAfterSeconds: locked }
+
+    const stored = outlet.kioskPassword
+    let valid = false
+    if (stored) {
+      valid = isBcryptHash(stored) ? await bcrypt.compare(password, stored) : stored === password
+    }
+
+    if (!valid) {
+      const deviceLocked = await this.recordFailure(outlet.id, subject, MAX_ATTEMPTS_PER_DEVICE)
+      const outletLocked = await this.recordFailure(outlet.id, ALL_DEVICES, MAX_ATTEMPTS_PER_OUTLET)
+      if (deviceLocked || outletLocked) {
+        await systemLogger.audit('kiosk', 'kiosk', 'KIOSK_LOGIN_LOCKED', `Kiosk login locked after repeated failures`, {
+          targetType: 'outlet',
+          targetId: outlet.id,
+          outletId: outlet.id,
+          metadata: { scope: deviceLocked ? 'device' : 'unknown_devices', subject, lockoutMinutes: LOCKOUT_MINUTES },
+          ipAddress: source.ipAddress,
+        })
+      }
+      const retryAfterSeconds = await this.lockedForSeconds(outlet.id, subject)
+      return retryAfterSeconds > 0 ? { ok: false, reason: 'locked', retryAfterSeconds } : { ok: false, reason: 'invalid' }
+    }
+
+    // Remember the device so an outlet-wide lock does not shut it out later
+    await prisma.kioskLoginAttempt.upsert({
+      where: { outletId_subject: { outletId: outlet.id, subject } },
+      create: { outletId: outlet.id, subject, lastSucceededAt: new Date() },
+      update: { failedAttempts: 0, lockedUntil: null, lastSucceededAt: new Date() },
+    })
+    if (stored && !isBcryptHash(stored)) {
+      await prisma.outlet.update({ where: { id: outlet.id }, data: { kioskPassword: await this.hashPassword(password) } })
+    }
+    return { ok: true }
+  }
+
+  /**
+   * Store a new kiosk password, end existing kiosk sessions and write an audit entry
+   */
+  async setPassword(outletId: string, password: string, actor: KioskActor, action: string = 'KIOSK_PASSWORD_SET') {
+    await prisma.outlet.update({
+      where: { id: outletId },
+      data: { kioskPassword: await this.hashPassword(password), kioskPasswordUpdatedAt: new Date() },
+    })
+    await prisma.kioskLoginAttempt.updateMany({ where: { outletId }, data: { failedAttempts: 0, lockedUntil: null } })
+    const revokedSessions = await sessionService.revokeAllSessions('kiosk', outletId, `${actor.userRole}:${actor.userId}`, 'password_changed')
+
+    await systemLogger.audit(actor.userId, actor.userRole, action, `Kiosk password changed for outlet ${outletId}`, {
+      targetType: 'outlet',
+      targetId: outletId,
+      outletId,
+      metadata: { revokedSessions },
+      ipAddress: actor.ipAddress,
+    })
+  }
+
+  /**
+   * Generate and store a new password. The plaintext is returned to the caller
+   * for one-time display and is not recoverable afterwards.
+   */
+  async resetPassword(outletId: string, actor: KioskActor, action: string = 'KIOSK_PASSWORD_RESET'): Promise<string> {
+    const password = generateSecurePassword()
+    await this.setPassword(outletId, password, actor, action)
+    return password
+  }
+
+  async clearLockout(outletId: string, actor: KioskActor): Promise<number> {
+    // Known-device markers are kept; only the counters and locks are reset
+    const result = await prisma.kioskLoginAttempt.updateMany({
+      where: { outletId, lockedUntil: { not: null } },
+      data: { failedAttempts: 0, lockedUntil: null },
+    })
+    await systemLogger.audit(actor.userId, actor.userRole, 'KIOSK_LOCKOUT_CLEARED', `Kiosk login lockout cleared for outlet ${outletId}`, {
+      targetType: 'outlet',
+      targetId: outletId,
+      outletId,
+      ipAddress: actor.ipAddress,
+    })
+    return result.count
+  }
+
+  async setRotationSchedule(outletId: string, rotationDays: number | null, actor: KioskActor) {
+    await prisma.outlet.update({ where: { id: outletId }, data: { kioskPasswordRotationDays: rotationDays } })
+    await systemLogger.audit(actor.userId, actor.userRole, 'KIOSK_PASSWORD_ROTATION_UPDATED',
+      rotationDays ? `Kiosk password rotation set to every ${rotationDays} days` : 'Kiosk password rotation disabled', {
+        targetType: 'outlet',
+        targetId: outletId,
+        outletId,
+        changes: { kioskPasswordRotationDays: rotationDays },
+        ipAddress: actor.ipAddress,
+      })
+  }
+
+  /**
+   * Hash any kiosk passwords still stored in plaintext (run once at startup)
+   */
+  async hashLegacyPasswords(): Promise<number> {
+    const outlets = await prisma.outlet.findMany({
+      where: { kioskPassword: { not: null } },
+      select: { id: true, kioskPassword: true },
+    })
+    let upgraded = 0
+    for (const outlet of outlets) {
+      if (!outlet.kioskPassword || isBcryptHash(outlet.kioskPassword)) continue
+      await prisma.outlet.update({
+        where: { id: outlet.id },
+        data: { kioskPassword: await this.hashPassword(outlet.kioskPassword) },
+      })
+      upgraded++
+    }
+    return upgraded
+  }
+
+  /**
+   * Rotate passwords of outlets whose rotation period has elapsed. The new
+   * password is emailed to the outlet's active teleshop managers; outlets with
+   * no one to receive it are skipped so the kiosk is not locked out.
+   */
+  async rotateDuePasswords(): Promise<{ rotated: number; skipped: number }> {
+    const outlets = await prisma.outlet.findMany({
+      where: { isActive: true, kioskPasswordRotationDays: { gt: 0 } },
+      select: {
+        id: true,
+        name: true,
+        kioskPasswordUpdatedAt: true,
+        createdAt: true,
+        kioskPasswordRotationDays: true,
+        teleshopManagers: { where: { isActive: true }, select: { email: true, name: true } },
+      },
+    })
+
+    let rotated = 0
+    let skipped = 0
+    for (const outlet of outlets) {
+      const lastChanged = outlet.kioskPasswordUpdatedAt || outlet.createdAt
+      const dueAt = lastChanged.getTime() + outlet.kioskPasswordRotationDays! * 24 * 60 * 60 * 1000
+      if (dueAt > Date.now()) continue
+
+      const recipients = outlet.teleshopManagers.map(tm => tm.email).filter((email): email is string => !!email)
+      if (recipients.length === 0) {
+        skipped++
+        console.warn(`[KioskCredentials] Rotation due for ${outlet.name} but no teleshop manager email to deliver it`)
+        continue
+      }
+
+      const password = await this.resetPassword(outlet.id, { userId: 'system', userRole: 'system' }, 'KIOSK_PASSWORD_ROTATED')
+      const sent = await emailService.sendRawEmail({
+        to: recipients.join(','),
+        subject: `New kiosk password - ${outlet.name}`,
+        text: `The kiosk password for ${outlet.name} was rotated on schedule.\n\nNew password: ${password}\n\nKiosks at this outlet must sign in again.`,
+        html: `<p>The kiosk password for <strong>${outlet.name}</strong> was rotated on schedule.</p><p>New password: <strong>${password}</strong></p><p>Kiosks at this outlet must sign in again.</p>`,
+      })
+      if (!sent) console.error(`[KioskCredentials] Rotated password for ${outlet.name} but email delivery failed`)
+      rotated++
+    }
+    return { rotated, skipped }
+  }
+}
+
+export default new KioskCredentialService()
@@ -0,0 +1,353 @@
+/**
+ * Load Balancing Service - Pointing customers at a quieter nearby outlet
+ *
+ * Neighbours are the other active outlets under the same RTOM; when none of
+ * those qualify, the outlets in the same province. A neighbour qualifies when
+ *
+ *   - it is open now (no mercantile holiday or closure notice, see branchStatus)
+ *     and has not passed its end-of-day issuance cut-off (see endOfDayService)
+ *   - every requested service is on offer: an officer on duty covers it at an
+ *     open counter that handles it (see counterService)
+ *   - for remote tokens, the services can be joined remotely there
+ *
+ * Suggestions are only made once the outlet has `minWaitingTokens` waiting
+ * for the requested services, and only for neighbours whose estimated wait
+ * is at least `minSavingMinutes` shorter (SystemSetting
+ * 'load_balancing_policy'). Waits use the same estimate as registration.
+ *
+ * A customer may switch a waiting token that has not been called (and, for
+ * remote tokens, has not checked in) to any qualifying neighbour. The token
+ * takes the next number there, keeps its services, priority claim and bills,
+ * and records the outlet it came from.
+ */
+
+import type { Prisma } from "@prisma/client"
+import { prisma, broadcast } from "../server"
+import { getLastDailyReset } from "../utils/resetWindow"
+import { getClosedOutlets } from "../utils/branchStatus"
+import { calculateEstimatedWaitTime } from "../utils/waitEstimate"
+import { getNextTokenNumber, getTokenDisplayNumber } from "../utils/tokenHelper"
+import { getTrackingUrl } from "../utils/urlHelper"
+import { displayToken } from "../utils/tokenFormat"
+import sltSmsService from "./sltSmsService"
+import remoteQueueService, { distanceMeters } from "./remoteQueueService"
+import { counterHandles } from "./counterService"
+import { isIssuing } from "./endOfDayService"
+import { toStringArray, hasAny } from "./queueDispatcher"
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+export type NeighbourScope = 'rtom' | 'province'
+
+export interface LoadBalancingPolicy {
+  enabled: boolean
+  /** Waiting tokens (for the requested services) before other outlets are suggested */
+  minWaitingTokens: number
+  /** How much shorter a neighbour's estimated wait must be */
+  minSavingMinutes: number
+  maxSuggestions: number
+}
+
+export interface OutletLoad {
+  outletId: string
+  name: string
+  location: string
+  scope: NeighbourScope | null
+  waiting: number
+  officersOnDuty: number
+  estimatedWaitMinutes: number
+  distanceKm: number | null
+}
+
+export class LoadBalancingError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'LoadBalancingError'
+  }
+}
+
+const POLICY_SETTING_KEY = 'load_balancing_policy'
+const POLICY_CACHE_MS = 60 * 1000
+const ON_DUTY_STATUSES = ['available', 'serving']
+
+export const DEFAULT_LOAD_BALANCING_POLICY: LoadBalancingPolicy = {
+  enabled: true,
+  minWaitingTokens: 5,
+  minSavingMinutes: 10,
+  maxSuggestions: 3,
+}
+
+type OutletRow = { id: string; name: string; location: string; rtomId: string | null; provinceId: string | null; latitude: number | null; longitude: number | null; closingTime: string | null; issuanceCutoffMinutes: number }
+
+const OUTLET_SELECT = { id: true, name: true, location: true, rtomId: true, provinceId: true, latitude: true, longitude: true, closingTime: true, issuanceCutoffMinutes: true } as const
+
+class LoadBalancingService {
+  private cachedPolicy: { policy: LoadBalancingPolicy; loadedAt: number } | null = null
+
+  async getPolicy(): Promise<LoadBalancingPolicy> {
+    if (this.cachedPolicy && Date.now() - this.cachedPolicy.loadedAt < POLICY_CACHE_MS) {
+      return this.cachedPolicy.policy
+    }
+
+    let stored: any = {}
+    try {
+      const setting = await prisma.systemSetting.findUnique({ where: { key: POLICY_SETTING_KEY } })
+      if (setting?.value) stored = JSON.parse(setting.value)
+    } catch (error) {
+      console.error('[LoadBalancing] Invalid stored policy, using defaults:', error)
+    }
+
+    const count = (key: 'minWaitingTokens' | 'minSavingMinutes' | 'maxSuggestions') =>
+      Number.isInteger(stored?.[key]) && stored[key] >= 0 ? stored[key] : DEFAULT_LOAD_BALANCING_POLICY[key]
+    const policy: LoadBalancingPolicy = {
+      enabled: typeof stored?.enabled === 'boolean' ? stored.enabled : DEFAULT_LOAD_BALANCING_POLICY.enabled,
+      minWaitingTokens: count('minWaitingTokens'),
+      minSavingMinutes: count('minSavingMinutes'),
+      maxSuggestions: count('maxSuggestions'),
+    }
+    this.cachedPolicy = { policy, loadedAt: Date.now() }
+    return policy
+  }
+
+  validatePolicy(input: Partial<LoadBalancingPolicy>): string | null {
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') return 'enabled must be true or false'
+    if (input.minWaitingTokens !== undefined && !(Number.isInteger(input.minWaitingTokens) && input.minWaitingTokens >= 0 && input.minWaitingTokens <= 500)) {
+      return 'minWaitingTokens must be a whole number from 0 to 500'
+    }
+    if (input.minSavingMinutes !== undefined && !(Number.isInteger(input.minSavingMinutes) && input.minSavingMinutes >= 0 && input.minSavingMinutes <= 240)) {
+      return 'minSavingMinutes must be a whole number from 0 to 240'
+    }
+    if (input.maxSuggestions !== undefined && !(Number.isInteger(input.maxSuggestions) && input.maxSuggestions >= 1 && input.maxSuggestions <= 10)) {
+      return 'maxSuggestions must be a whole number from 1 to 10'
+    }
+    return null
+  }
+
+  async updatePolicy(changes: Partial<LoadBalancingPolicy>): Promise<LoadBalancingPolicy> {
+    const merged: LoadBalancingPolicy = { ...(await this.getPolicy()), ...changes }
+    await prisma.systemSetting.upsert({
+      where: { key: POLICY_SETTING_KEY },
+      update: { value: JSON.stringify(merged) },
+      create: { key: POLICY_SETTING_KEY, value: JSON.stringify(merged) },
+    })
+    this.cachedPolicy = { policy: merged, loadedAt: Date.now() }
+    return merged
+  }
+
+  /**
+   * Waiting tokens for the services and officers on duty covering them, per outlet;
+   * `offered` is false when some service has no officer at an open counter that handles it
+   */
+  private async measure(outletIds: string[], serviceTypes: string[], db: Db = prisma) {
+    const [tokens, officers, counters] = await Promise.all([
+      db.token.findMany({
+        where: { outletId: { in: outletIds }, status: 'waiting', createdAt: { gte: getLastDailyReset() }, serviceTypes: { hasSome: serviceTypes } },
+        select: { outletId: true },
+      }),
+      db.officer.findMany({
+        where: { outletId: { in: outletIds }, isActive: true, status: { in: ON_DUTY_STATUSES } },
+        select: { outletId: true, counterNumber: true, assignedServices: true },
+      }),
+      db.counter.findMany({ where: { outletId: { in: outletIds } }, select: { outletId: true, number: true, isOpen: true, allowedServices: true } }),
+    ])
+
+    const result = new Map<string, { waiting: number; officersOnDuty: number; offered: boolean }>()
+    for (const outletId of outletIds) {
+      const outletCounters = counters.filter(c => c.outletId === outletId)
+      const staffed = officers
+        .filter(o => o.outletId === outletId && o.counterNumber !== null)
+        .map(o => ({ services: toStringArray(o.assignedServices), counter: outletCounters.find(c => c.number === o.counterNumber) }))
+        // Outlets whose counters were never set up are not restricted by them
+        .filter(o => outletCounters.length === 0 || (!!o.counter && o.counter.isOpen))
+      const covers = (code: string) => staffed.some(o => o.services.includes(code) && (!o.counter || counterHandles(o.counter, [code])))
+      result.set(outletId, {
+        waiting: tokens.filter(t => t.outletId === outletId).length,
+        officersOnDuty: staffed.filter(o => hasAny(o.services, serviceTypes)).length,
+        offered: serviceTypes.every(covers),
+      })
+    }
+    return result
+  }
+
+  /**
+   * Open neighbours that offer the services (and take remote joins when asked), RTOM first
+   */
+  private async qualifyingNeighbours(origin: OutletRow, serviceTypes: string[], remote: boolean, now: Date): Promise<OutletLoad[]> {
+    const scopes: { scope: NeighbourScope; where: Prisma.OutletWhereInput }[] = []
+    if (origin.rtomId) scopes.push({ scope: 'rtom', where: { rtomId: origin.rtomId } })
+    if (origin.provinceId) scopes.push({ scope: 'province', where: { provinceId: origin.provinceId } })
+
+    const seen = new Set([origin.id])
+    const found: OutletLoad[] = []
+    for (const { scope, where } of scopes) {
+      const outlets = (await prisma.outlet.findMany({ where: { ...where, isActive: true }, select: OUTLET_SELECT }))
+        .filter(outlet => !seen.has(outlet.id))
+      outlets.forEach(outlet => seen.add(outlet.id))
+      if (outlets.length === 0) continue
+
+      const ids = outlets.map(outlet => outlet.id)
+      const [closed, loads] = await Promise.all([getClosedOutlets(ids, now), this.measure(ids, serviceTypes)])
+      for (const outlet of outlets) {
+        const load = loads.get(outlet.id)!
+        if (closed.has(outlet.id) || !isIssuing(outlet, now) || !load.offered) continue
+        if (remote && await remoteQueueService.checkJoin(outlet.id, serviceTypes)) continue
+        found.push({
+          outletId: outlet.id,
+          name: outlet.name,
+          location: outlet.location,
+          scope,
+          waiting: load.waiting,
+          officersOnDuty: load.officersOnDuty,
+          estimatedWaitMinutes: await calculateEstimatedWaitTime(outlet.id, load.waiting + 1),
+          distanceKm: origin.latitude !== null && origin.longitude !== null && outlet.latitude !== null && outlet.longitude !== null
+            ? Math.round(distanceMeters(origin.latitude, origin.longitude, outlet.latitude, outlet.longitude) / 100) / 10
+            : null,
+        })
+      }
+    }
+    return found
+  }
+
+  /**
+   * Quieter outlets nearby for a customer about to join (or, with `waitingAhead`, already in) an outlet's queue
+   */
+  async getSuggestions(outletId: string, serviceTypes: string[], options: { remote?: boolean; waitingAhead?: number; now?: Date } = {}) {
+    const now = options.now || new Date()
+    const origin = await prisma.outlet.findUnique({ where: { id: outletId }, select: OUTLET_SELECT })
+    if (!origin) throw new LoadBalancingError('Outlet not found', 404)
+    if (!Array.isArray(serviceTypes) || serviceTypes.length === 0) throw new LoadBalancingError('At least one service is required')
+
+    const [policy, loads] = await Promise.all([this.getPolicy(), this.measure([outletId], serviceTypes)])
+    const load = loads.get(outletId)!
+    const ahead = options.waitingAhead ?? load.waiting
+    const current: OutletLoad = {
+      outletId,
+      name: origin.name,
+      location: origin.location,
+      scope: null,
+      waiting: load.waiting,
+      officersOnDuty: load.officersOnDuty,
+      estimatedWaitMinutes: await calculateEstimatedWaitTime(outletId, ahead + 1),
+      distanceKm: null,
+    }
+
+    const crowded = policy.enabled && load.waiting >= policy.minWaitingTokens
+    if (!crowded) return { crowded, current, alternatives: [] as OutletLoad[] }
+
+    const neighbours = (await this.qualifyingNeighbours(origin, serviceTypes, !!options.remote, now))
+      .filter(n => current.estimatedWaitMinutes - n.estimatedWaitMinutes >= Math.max(1, policy.minSavingMinutes))
+    // Stay within the RTOM when it has anything better; the province is the fallback
+    const nearest = neighbours.some(n => n.scope === 'rtom') ? neighbours.filter(n => n.scope === 'rtom') : neighbours
+    const alternatives = nearest
+      .sort((a, b) => a.estimatedWaitMinutes - b.estimatedWaitMinutes || (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity))
+      .slice(0, policy.maxSuggestions)
+    return { crowded, current, alternatives }
+  }
+
+  /**
+   * Why a token cannot move to another outlet, or null when it can
+   */
+  switchBlocker(token: { status: string; calledAt: Date | null; isRemote: boolean; checkedInAt: Date | null }): string | null {
+    if (token.status !== 'waiting' && token.status !== 'parked') return 'Only waiting tokens can move to another outlet'
+    if (token.calledAt) return 'This token has already been called'
+    if (token.isRemote && token.checkedInAt) return 'You have already checked in at this outlet'
+    return null
+  }
+
+  /**
+   * Suggestions for an existing token, measured from its place in the queue
+   */
+  async getTokenSuggestions(tokenId: string) {
+    const token = await prisma.token.findUnique({ where: { id: tokenId } })
+    if (!token) throw new LoadBalancingError('Token not found', 404)
+    const blocker = this.switchBlocker(token)
+    if (blocker) return { switchable: false, reason: blocker, crowded: false, current: null, alternatives: [] as OutletLoad[] }
+
+    const waitingAhead = await prisma.token.count({
+      where: { outletId: token.outletId, status: 'waiting', createdAt: { gte: getLastDailyReset(), lt: token.createdAt } },
+    })
+    const suggestions = await this.getSuggestions(token.outletId, token.serviceTypes, { remote: token.isRemote, waitingAhead })
+    return { switchable: true, reason: null, ...suggestions }
+  }
+
+  /**
+   * Move a waiting token to a neighbouring outlet; it takes the next number there and
+   * joins the end of that queue (queue order and positions follow createdAt)
+   */
+  async switchToken(tokenId: string, targetOutletId: string) {
+    const token = await prisma.token.findUnique({ where: { id: tokenId }, include: { outlet: { select: OUTLET_SELECT } } })
+    if (!token) throw new LoadBalancingError('Token not found', 404)
+    const blocker = this.switchBlocker(token)
+    if (blocker) throw new LoadBalancingError(blocker, 409)
+    if (targetOutletId === token.outletId) throw new LoadBalancingError('The token is already at this outlet')
+
+    const now = new Date()
+    const neighbours = await this.qualifyingNeighbours(token.outlet, token.serviceTypes, token.isRemote, now)
+    if (!neighbours.some(n => n.outletId === targetOutletId)) {
+      throw new LoadBalancingError('That outlet is not nearby, is closed, or does not offer your services right now')
+    }
+
+    const fromOutletId = token.outletId
+    const switched = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT id FROM "Token" WHERE id = ${tokenId} FOR UPDATE`
+      const locked = await tx.token.findUniqueOrThrow({ where: { id: tokenId } })
+      const lockedBlocker = this.switchBlocker(locked)
+      if (lockedBlocker || locked.outletId !== fromOutletId) throw new LoadBalancingError(lockedBlocker || 'The token has changed; please try again', 409)
+
+      // Same serialisation as registration at the target outlet
+      await tx.$executeRaw`SELECT id FROM "Outlet" WHERE id = ${targetOutletId} FOR UPDATE`
+      if (locked.isRemote) {
+        const joinError = await remoteQueueService.checkJoin(targetOutletId, locked.serviceTypes, tx)
+        if (joinError) throw new LoadBalancingError(joinError.message, 409)
+      }
+
+      const tokenNumber = await getNextTokenNumber(tx, targetOutletId, locked.serviceTypes, getLastDailyReset())
+      const displayNumber = await getTokenDisplayNumber(tx, targetOutletId, locked.serviceTypes, tokenNumber)
+
+      // Breaches belong to the outlet the customer left
+      await tx.slaBreach.updateMany({ where: { tokenId, resolvedAt: null }, data: { resolvedAt: now } })
+      await tx.tokenJourneyStep.updateMany({ where: { tokenId, status: 'pending' }, data: { counterNumber: null } })
+
+      return tx.token.update({
+        where: { id: tokenId },
+        data: {
+          outletId: targetOutletId,
+          tokenNumber,
+          displayNumber,
+          assignedTo: null,
+          counterNumber: null,
+          isTransferred: false,
+          requeuedAfter: null,
+          createdAt: now,
+          switchedFromOutletId: fromOutletId,
+          switchedAt: now,
+        },
+        include: { customer: true, outlet: true },
+      })
+    }, { timeout: 10000 })
+
+    const estimate = await remoteQueueService.estimate(switched)
+    broadcast({ type: 'TOKEN_SWITCHED', data: { token: switched, fromOutletId, toOutletId: targetOutletId } })
+    broadcast({ type: 'NEW_TOKEN', data: switched })
+
+    void (async () => {
+      try {
+        const first = String(toStringArray(switched.preferredLanguages)[0] || '').toLowerCase()
+        await sltSmsService.sendTokenConfirmation(switched.customer.mobileNumber, {
+          tokenNumber: displayToken(switched),
+          queuePosition: estimate.position,
+          outletName: switched.outlet.name,
+          trackingUrl: getTrackingUrl(switched.id),
+          estimatedWait: estimate.etaMinutes,
+        }, first === 'si' || first === 'ta' ? first : 'en')
+      } catch (smsError) {
+        console.error('Switched token confirmation SMS failed:', smsError)
+      }
+    })()
+
+    return { token: switched, fromOutletId, queuePosition: estimate.position, estimatedWait: estimate.etaMinutes }
+  }
+}
+
+export const loadBalancingService = new LoadBalancingService()
+export default loadBalancingService
@@ -0,0 +1,332 @@
+/**
+ * No-Show Service - Outlet no-show policy for called customers
+ *
+ * When an outlet enables the policy, a called token (in_service) whose
+ * customer has not been confirmed at the counter (Token.arrivedAt) within
+ * the grace period is:
+ *
+ *   1. recalled (SMS + display announcement) until it reaches maxRecalls, then
+ *   2. skipped and either left skipped for a manual recall (skip SMS) or,
+ *      with requeueOffset > 0, put back in the queue that many places behind
+ *      the next waiting customer (Token.requeuedAfter, requeue SMS). The
+ *      weighted and SLA strategies count its wait from that token's arrival.
+ *
+ * Every recall / skip, automatic or manual, is kept as a NoShowEvent so
+ * analytics can report no-show rates per service and hour.
+ */
+
+import type { Prisma } from "@prisma/client"
+import { prisma, broadcast } from "../server"
+import { getLastDailyReset } from "../utils/resetWindow"
+import { getTrackingUrl } from "../utils/urlHelper"
+import { displayToken, spokenToken } from "../utils/tokenFormat"
+import sltSmsService from "./sltSmsService"
+import { toStringArray } from "./queueDispatcher"
+
+export interface NoShowPolicy {
+  enabled: boolean
+  graceMinutes: number
+  maxRecalls: number
+  requeueOffset: number
+}
+
+export type NoShowAction = 'recalled' | 'skipped' | 'requeued'
+
+export interface NoShowRateRow {
+  called: number
+  noShows: number
+  recalls: number
+  rate: number
+}
+
+const MAX_GRACE_MINUTES = 60
+const MAX_RECALLS = 5
+const MAX_REQUEUE_OFFSET = 50
+
+const customerLanguage = (preferredLanguages: unknown): 'en' | 'si' | 'ta' => {
+  const first = String(toStringArray(preferredLanguages)[0] || '').toLowerCase()
+  return first === 'si' || first === 'ta' ? first : 'en'
+}
+
+// Analytics hours are outlet-local (Asia/Colombo, UTC+5:30), not server time
+const SL_OFFSET_MS = 5.5 * 60 * 60 * 1000
+const sriLankaHour = (date: Date) => new Date(date.getTime() + SL_OFFSET_MS).getUTCHours()
+
+const rate = (noShows: number, called: number) => called > 0 ? Math.round((noShows / called) * 1000) / 10 : 0
+
+class NoShowService {
+  async getPolicy(outletId: string): Promise<NoShowPolicy | null> {
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: outletId },
+      select: { noShowEnabled: true, noShowGraceMinutes: true, noShowMaxRecalls: true, noShowRequeueOffset: true },
+    })
+    if (!outlet) return null
+    return {
+      enabled: outlet.noShowEnabled,
+      graceMinutes: outlet.noShowGraceMinutes,
+      maxRecalls: outlet.noShowMaxRecalls,
+      requeueOffset: outlet.noShowRequeueOffset,
+    }
+  }
+
+  /**
+   * Validate a partial policy update. Returns an error message or null.
+   */
+  validatePolicy(input: Partial<NoShowPolicy>): string | null {
+    if (input.enabled !== undefined && typeof input.enabled !== 'boolean') return 'enabled must be true or false'
+    const checks: [keyof NoShowPolicy, number, number][] = [
+      ['graceMinutes', 1, MAX_GRACE_MINUTES],
+      ['maxRecalls', 0, MAX_RECALLS],
+      ['requeueOffset', 0, MAX_REQUEUE_OFFSET],
+    ]
+    for (const [field, min, max] of checks) {
+      const value = input[field]
+      if (value === undefined) continue
+      if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+        return `${field} must be a whole number from ${min} to ${max}`
+      }
+    }
+    return null
+  }
+
+  async updatePolicy(outletId: string, input: Partial<NoShowPolicy>): Promise<NoShowPolicy | null> {
+    await prisma.outlet.update({
+      where: { id: outletId },
+      data: {
+        noShowEnabled: input.enabled,
+        noShowGraceMinutes: input.graceMinutes,
+        noShowMaxRecalls: input.maxRecalls,
+        noShowRequeueOffset: input.requeueOffset,
+      },
+    })
+    return this.getPolicy(outletId)
+  }
+
+  async recordEvent(
+    token: { id: string; outletId: string; assignedTo: string | null; serviceTypes: string[]; recallCount: number; calledAt: Date | null },
+    action: NoShowAction,
+    source: 'policy' | 'manual',
+    db: Prisma.TransactionClient | typeof prisma = prisma
+  ) {
+    return db.noShowEvent.create({
+      data: {
+        tokenId: token.id,
+        outletId: token.outletId,
+        officerId: token.assignedTo,
+        serviceTypes: token.serviceTypes,
+        action,
+        source,
+        recallCount: token.recallCount,
+        calledAt: token.calledAt || new Date(),
+      },
+    })
+  }
+
+  /**
+   * Number the token should queue behind so that `offset` waiting customers go first.
+   * Queue order is arrival time, or that of the token a re-queued one sits behind.
+   */
+  async requeuePosition(outletId: string, tokenId: string, offset: number): Promise<number | null> {
+    const waiting = await prisma.token.findMany({
+      where: { outletId, status: 'waiting', isTransferred: false, id: { not: tokenId }, createdAt: { gte: getLastDailyReset() } },
+      select: { tokenNumber: true, requeuedAfter: true, createdAt: true },
+    })
+    if (waiting.length === 0) return null
+    const arrivals = new Map(waiting.map(t => [t.tokenNumber, t.createdAt]))
+    const order = waiting
+      .map(t => ({ number: t.requeuedAfter ?? t.tokenNumber, at: (t.requeuedAfter != null ? arrivals.get(t.requeuedAfter) : null) ?? t.createdAt }))
+      .sort((a, b) => a.at.getTime() - b.at.getTime())
+    return order[Math.min(offset, order.length) - 1].number
+  }
+
+  /**
+   * Apply the policy to every called customer who has not shown up
+   */
+  async checkNoShows(): Promise<{ recalled: number; skipped: number; requeued: number }> {
+    const result = { recalled: 0, skipped: 0, requeued: 0 }
+    const outlets = await prisma.outlet.findMany({
+      where: { noShowEnabled: true, isActive: true },
+      select: { id: true, name: true, noShowGraceMinutes: true, noShowMaxRecalls: true, noShowRequeueOffset: true },
+    })
+    if (outlets.length === 0) return result
+
+    const now = Date.now()
+    for (const outlet of outlets) {
+      const overdue = await prisma.token.findMany({
+        where: {
+          outletId: outlet.id,
+          status: 'in_service',
+          arrivedAt: null,
+          calledAt: { lt: new Date(now - outlet.noShowGraceMinutes * 60000) },
+          createdAt: { gte: getLastDailyReset() },
+        },
+        include: { customer: true },
+      })
+
+      for (const token of overdue) {
+        try {
+          if (token.recallCount < outlet.noShowMaxRecalls) {
+            if (await this.autoRecall(token, outlet.name)) result.recalled++
+          } else {
+            const action = await this.autoSkip(token, outlet.name, outlet.noShowRequeueOffset)
+            if (action === 'requeued') result.requeued++
+            else if (action === 'skipped') result.skipped++
+          }
+        } catch (err) {
+          console.error(`No-show handling failed for token #${token.tokenNumber}:`, err)
+        }
+      }
+    }
+    return result
+  }
+
+  private async autoRecall(token: any, outletName: string): Promise<boolean> {
+    const claimed = await prisma.token.updateMany({
+      where: { id: token.id, status: 'in_service', arrivedAt: null },
+      data: { calledAt: new Date(), recallCount: { increment: 1 } },
+    })
+    if (claimed.count === 0) return false
+    const recalled = await prisma.token.findUniqueOrThrow({ where: { id: token.id }, include: { customer: true, officer: true, outlet: true } })
+    await this.recordEvent({ ...token, recallCount: recalled.recallCount }, 'recalled', 'policy')
+
+    const customerLang = customerLanguage(recalled.preferredLanguages)
+    const firstName = recalled.customer.name.split(' ')[0]
+    sltSmsService.sendCustomerRecalled(recalled.customer.mobileNumber, {
+      firstName,
+      tokenNumber: displayToken(recalled),
+      outletName,
+      recoveryUrl: getTrackingUrl(recalled.id),
+      counterNumber: recalled.counterNumber || undefined,
+    }, customerLang).catch((smsError: any) => {
+      console.error('No-show recall SMS failed:', smsError)
+    })
+
+    broadcast({
+      type: 'TOKEN_RECALLED',
+      data: { ...recalled, spokenNumber: spokenToken(recalled), customerLang, firstName, customerName: recalled.customer.name, autoRecall: true },
+    })
+    return true
+  }
+
+  /**
+   * Skip the token (or put it back in the queue). Null when the customer turned up meanwhile.
+   */
+  private async autoSkip(token: any, outletName: string, requeueOffset: number): Promise<NoShowAction | null> {
+    const requeuedAfter = requeueOffset > 0 ? await this.requeuePosition(token.outletId, token.id, requeueOffset) : null
+    const requeue = requeueOffset > 0
+
+    const skipped = await prisma.$transaction(async (tx) => {
+      // The officer may have confirmed arrival or finished since the check started
+      const claimed = await tx.token.updateMany({
+        where: { id: token.id, status: 'in_service', arrivedAt: null },
+        data: requeue
+          ? { status: 'waiting', assignedTo: null, counterNumber: null, calledAt: null, startedAt: null, recallCount: 0, requeuedAfter }
+          : { status: 'skipped', assignedTo: null, counterNumber: null },
+      })
+      if (claimed.count === 0) return null
+      const updated = await tx.token.findUniqueOrThrow({ where: { id: token.id }, include: { customer: true, outlet: true } })
+      await this.recordEvent(token, requeue ? 'requeued' : 'skipped', 'policy', tx)
+      if (token.assignedTo) {
+        await tx.officer.update({ where: { id: token.assignedTo }, data: { status: 'available' } })
+      }
+      return updated
+    })
+    if (!skipped) return null
+
+    try {
+      const smsDetails = {
+        firstName: skipped.customer.name.split(' ')[0],
+        tokenNumber: displayToken(skipped),
+        outletName,
+        recoveryUrl: getTrackingUrl(skipped.id),
+      }
+      const lang = customerLanguage(skipped.preferredLanguages)
+      if (requeue) await sltSmsService.sendCustomerRequeued(skipped.customer.mobileNumber, smsDetails, lang)
+      else await sltSmsService.sendCustomerSkipped(skipped.customer.mobileNumber, smsDetails, lang)
+    } catch (smsError) {
+      console.error('No-show skip SMS failed:', smsError)
+    }
+
+    broadcast({ type: requeue ? 'TOKEN_UPDATED' : 'TOKEN_SKIPPED', data: { ...skipped, noShow: true } })
+    if (token.assignedTo) {
+      broadcast({ type: 'OFFICER_STATUS_CHANGE', data: { officerId: token.assignedTo, status: 'available', timestamp: new Date().toISOString() } })
+    }
+    return requeue ? 'requeued' : 'skipped'
+  }
+
+  /**
+   * No-show rates per service and per hour of the call. A token counts once as a
+   * no-show however many times it was recalled.
+   */
+  async getAnalytics(outletIds: string[], startDate: Date, endDate: Date) {
+    const [calledTokens, events, services] = await Promise.all([
+      prisma.token.findMany({
+        where: { outletId: { in: outletIds }, calledAt: { not: null }, createdAt: { gte: startDate, lte: endDate } },
+        select: { id: true, serviceTypes: true, calledAt: true },
+      }),
+      prisma.noShowEvent.findMany({
+        where: { outletId: { in: outletIds }, createdAt: { gte: startDate, lte: endDate } },
+        select: { tokenId: true, serviceTypes: true, action: true, source: true, calledAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.service.findMany({ select: { code: true, title: true } }),
+    ])
+    const titles = new Map(services.map(s => [s.code, s.title]))
+
+    const empty = (): NoShowRateRow => ({ called: 0, noShows: 0, recalls: 0, rate: 0 })
+    const byService = new Map<string, NoShowRateRow>()
+    const byHour = new Map<number, NoShowRateRow>()
+    const row = <K>(map: Map<K, NoShowRateRow>, key: K) => {
+      if (!map.has(key)) map.set(key, empty())
+      return map.get(key)!
+    }
+
+    // A token is counted in the hour it was first called; recalls move Token.calledAt but
+    // the events keep each earlier call time. Re-queued tokens may not have been called again.
+    const called = new Map<string, { serviceTypes: string[]; hour: number }>()
+    for (const event of events) {
+      if (!called.has(event.tokenId)) called.set(event.tokenId, { serviceTypes: event.serviceTypes, hour: sriLankaHour(event.calledAt) })
+    }
+    for (const token of calledTokens) {
+      if (!called.has(token.id)) called.set(token.id, { serviceTypes: token.serviceTypes, hour: sriLankaHour(token.calledAt!) })
+    }
+    for (const call of called.values()) {
+      for (const code of call.serviceTypes) row(byService, code).called++
+      row(byHour, call.hour).called++
+    }
+
+    const noShowTokens = new Set<string>()
+    const totals = { called: called.size, noShows: 0, recalls: 0, skipped: 0, requeued: 0, automatic: 0, manual: 0, rate: 0 }
+    for (const event of events) {
+      if (event.source === 'manual') totals.manual++
+      else totals.automatic++
+      if (event.action === 'recalled') {
+        totals.recalls++
+        for (const code of event.serviceTypes) row(byService, code).recalls++
+        row(byHour, sriLankaHour(event.calledAt)).recalls++
+        continue
+      }
+      if (event.action === 'requeued') totals.requeued++
+      else totals.skipped++
+      if (noShowTokens.has(event.tokenId)) continue
+      noShowTokens.add(event.tokenId)
+      for (const code of event.serviceTypes) row(byService, code).noShows++
+      row(byHour, called.get(event.tokenId)!.hour).noShows++
+    }
+    totals.noShows = noShowTokens.size
+    totals.rate = rate(totals.noShows, totals.called)
+
+    return {
+      totals,
+      byService: [...byService.entries()]
+        .map(([serviceCode, r]) => ({ serviceCode, serviceTitle: titles.get(serviceCode) || serviceCode, ...r, rate: rate(r.noShows, r.called) }))
+        .sort((a, b) => b.rate - a.rate),
+      byHour: [...byHour.entries()]
+        .map(([hour, r]) => ({ hour, ...r, rate: rate(r.noShows, r.called) }))
+        .sort((a, b) => a.hour - b.hour),
+    }
+  }
+}
+
+export const noShowService = new NoShowService()
+export default noShowService
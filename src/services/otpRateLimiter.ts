@@ -0,0 +1,263 @@
+/**
+ * OTP Rate Limiter - Shared abuse protection for every OTP / SMS code flow
+ *
+ * Each send is counted per business day against several dimensions: the
+ * mobile number (separately per user type), the caller's IP (req.ip, taken
+ * TRUST_PROXY_HOPS from the right of X-Forwarded-For) and the outlet. Checking
+ * and counting happen under row locks, so parallel requests cannot slip past.
+ * Every dimension has a cooldown, a daily cap and an optional progressive
+ * delay that doubles the cooldown once a number keeps asking for codes.
+ * Hitting a daily cap blocks that subject until the next business day.
+ *
+ * Generalises the per-day counter used for bill SMS enquiries (DailyActionTracker)
+ * and reads its policy from SystemSetting so it can be tuned without a deploy.
+ */
+
+import { prisma } from "../server"
+
+export type RateLimitDimension = 'mobile' | 'ip' | 'outlet'
+
+export interface RateLimitRule {
+  /** Minimum seconds between two sends */
+  cooldownSeconds: number
+  /** Sends allowed per business day; 0 = unlimited */
+  dailyCap: number
+  /** Sends per day after which the cooldown doubles on every send; 0 = off */
+  progressiveAfter: number
+  /** Upper bound for the progressive cooldown */
+  maxCooldownSeconds: number
+}
+
+export interface OtpRateLimitPolicy {
+  enabled: boolean
+  mobile: RateLimitRule
+  ip: RateLimitRule
+  outlet: RateLimitRule
+  /** Overrides of the mobile rule per user type, e.g. { customer: { dailyCap: 8 } } */
+  userTypes: Record<string, Partial<RateLimitRule>>
+}
+
+export interface OtpRequestContext {
+  mobileNumber: string
+  userType: string
+  ipAddress?: string | null
+  outletId?: string | null
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; dimension: RateLimitDimension; reason: 'cooldown' | 'daily_cap' | 'blocked'; retryAfterSeconds: number; message: string }
+
+const POLICY_SETTING_KEY = 'otp_rate_limit_policy'
+const POLICY_CACHE_MS = 60 * 1000
+// IP and outlet counters are shared by all user types
+const ANY_USER_TYPE = '*'
+
+export const DEFAULT_OTP_RATE_LIMIT_POLICY: OtpRateLimitPolicy = {
+  enabled: true,
+  mobile: { cooldownSeconds: 30, dailyCap: 10, progressiveAfter: 3, maxCooldownSeconds: 15 * 60 },
+  ip: { cooldownSeconds: 0, dailyCap: 60, progressiveAfter: 0, maxCooldownSeconds: 0 },
+  outlet: { cooldownSeconds: 0, dailyCap: 1000, progressiveAfter: 0, maxCooldownSeconds: 0 },
+  userTypes: {
+    officer: { dailyCap: 6 },
+    teleshop_manager: { dailyCap: 6 },
+    rtom: { dailyCap: 6 },
+    gm: { dailyCap: 6 },
+    dgm: { dailyCap: 6 },
+    admin: { dailyCap: 6 },
+  },
+}
+
+/**
+ * Business day (Asia/Colombo, UTC+5:30) as YYYY-MM-DD, and when it ends
+ */
+function businessDay(now: Date = new Date()): { dateKey: string; endsAt: Date } {
+  const slOffset = 5.5 * 60 * 60 * 1000
+  const slNow = new Date(now.getTime() + slOffset)
+  const dateKey = slNow.toISOString().slice(0, 10)
+  const slMidnight = Date.UTC(slNow.getUTCFullYear(), slNow.getUTCMonth(), slNow.getUTCDate() + 1)
+  return { dateKey, endsAt: new Date(slMidnight - slOffset) }
+}
+
+function effectiveCooldown(rule: RateLimitRule, sentToday: number): number {
+  if (rule.progressiveAfter > 0 && sentToday >= rule.progressiveAfter) {
+    const doubled = rule.cooldownSeconds * Math.pow(2, sentToday - rule.progressiveAfter + 1)
+    return Math.min(Math.max(rule.maxCooldownSeconds, rule.cooldownSeconds), doubled)
+  }
+  return rule.cooldownSeconds
+}
+
+function sanitizeRule(input: any, fallback: RateLimitRule): RateLimitRule {
+  const num = (value: any, def: number) => (Number.isFinite(Number(value)) && Number(value) >= 0 ? Math.floor(Number(value)) : def)
+  return {
+    cooldownSeconds: num(input?.cooldownSeconds, fallback.cooldownSeconds),
+    dailyCap: num(input?.dailyCap, fallback.dailyCap),
+    progressiveAfter: num(input?.progressiveAfter, fallback.progressiveAfter),
+    maxCooldownSeconds: num(input?.maxCooldownSeconds, fallback.maxCooldownSeconds),
+  }
+}
+
+class OtpRateLimiter {
+  private cachedPolicy: { policy: OtpRateLimitPolicy; loadedAt: number } | null = null
+
+  /**
+   * Current policy (SystemSetting override merged over the defaults)
+   */
+  async getPolicy(): Promise<OtpRateLimitPolicy> {
+    if (this.cachedPolicy && Date.now() - this.cachedPolicy.loadedAt < POLICY_CACHE_MS) {
+      return this.cachedPolicy.policy
+    }
+
+    let stored: any = {}
+    try {
+      const setting = await prisma.systemSetting.findUnique({ where: { key: POLICY_SETTING_KEY } })
+      if (setting?.value) stored = JSON.parse(setting.value)
+    } catch (error) {
+      console.error('[OtpRateLimiter] Invalid stored policy, using defaults:', error)
+    }
+
+    const policy = this.normalizePolicy(stored)
+    this.cachedPolicy = { policy, loadedAt: Date.now() }
+    return policy
+  }
+
+  private normalizePolicy(input: any): OtpRateLimitPolicy {
+    const defaults = DEFAULT_OTP_RATE_LIMIT_POLICY
+    const userTypes: Record<string, Partial<RateLimitRule>> = { ...defaults.userTypes }
+    if (input?.userTypes && typeof input.userTypes === 'object') {
+      for (const [userType, override] of Object.entries(input.userTypes)) {
+        if (override === null) {
+          delete userTypes[userType]
+        } else if (typeof override === 'object') {
+          userTypes[userType] = sanitizeRule({ ...defaults.mobile, ...userTypes[userType], ...(override as object) }, defaults.mobile)
+        }
+      }
+    }
+    return {
+      enabled: typeof input?.enabled === 'boolean' ? input.enabled : defaults.enabled,
+      mobile: sanitizeRule({ ...defaults.mobile, ...input?.mobile }, defaults.mobile),
+      ip: sanitizeRule({ ...defaults.ip, ...input?.ip }, defaults.ip),
+      outlet: sanitizeRule({ ...defaults.outlet, ...input?.outlet }, defaults.outlet),
+      userTypes,
+    }
+  }
+
+  /**
+   * Merge a partial policy into the stored one and persist it
+   */
+  async updatePolicy(changes: any): Promise<OtpRateLimitPolicy> {
+    const current = await this.getPolicy()
+    const merged = this.normalizePolicy({
+      ...current,
+      ...changes,
+      mobile: { ...current.mobile, ...changes?.mobile },
+      ip: { ...current.ip, ...changes?.ip },
+      outlet: { ...current.outlet, ...changes?.outlet },
+      userTypes: { ...current.userTypes, ...changes?.userTypes },
+    })
+    await prisma.systemSetting.upsert({
+      where: { key: POLICY_SETTING_KEY },
+      update: { value: JSON.stringify(merged) },
+      create: { key: POLICY_SETTING_KEY, value: JSON.stringify(merged) },
+    })
+    this.cachedPolicy = { policy: merged, loadedAt: Date.now() }
+    return merged
+  }
+
+  /**
+   * Check every dimension for the request and, when all allow it, count the send.
+   * Call this immediately before sending the SMS.
+   */
+  async consume(context: OtpRequestContext): Promise<RateLimitDecision> {
+    const policy = await this.getPolicy()
+    if (!policy.enabled) return { allowed: true }
+
+    const now = new Date()
+    const { dateKey, endsAt } = businessDay(now)
+    const checks: Array<{ dimension: RateLimitDimension; subject: string; userType: string; rule: RateLimitRule }> = [
+      {
+        dimension: 'mobile',
+        subject: context.mobileNumber,
+        userType: context.userType,
+        rule: { ...policy.mobile, ...policy.userTypes[context.userType] },
+      },
+    ]
+    if (context.ipAddress) checks.push({ dimension: 'ip', subject: context.ipAddress, userType: ANY_USER_TYPE, rule: policy.ip })
+    if (context.outletId) checks.push({ dimension: 'outlet', subject: context.outletId, userType: ANY_USER_TYPE, rule: policy.outlet })
+
+    // Lock every counter row before checking it (fixed order, so concurrent requests cannot deadlock):
+    // parallel requests for the same number / IP / outlet queue up and each sees the previous send
+    checks.sort((a, b) => `${a.dimension}:${a.subject}`.localeCompare(`${b.dimension}:${b.subject}`))
+
+    return prisma.$transaction(async (tx): Promise<RateLimitDecision> => {
+      const counters = []
+      for (const check of checks) {
+        const key = { dimension: check.dimension, subject: check.subject, userType: check.userType, date: dateKey }
+        // Single-statement upsert (INSERT ... ON CONFLICT DO UPDATE); the row stays locked until commit
+        counters.push(await tx.otpRateLimit.upsert({
+          where: { dimension_subject_userType_date: key },
+          create: { ...key, count: 0 },
+          update: { updatedAt: now },
+        }))
+      }
+
+      for (const [i, check] of checks.entries()) {
+        const counter = counters[i]
+        if (counter.blockedUntil && counter.blockedUntil > now) {
+          const retryAfterSeconds = Math.ceil((counter.blockedUntil.getTime() - now.getTime()) / 1000)
+          return { allowed: false, dimension: check.dimension, reason: 'blocked', retryAfterSeconds, message: 'Too many code requests today. Please try again tomorrow.' }
+        }
+        if (check.rule.dailyCap > 0 && counter.count >= check.rule.dailyCap) {
+          const retryAfterSeconds = Math.ceil((endsAt.getTime() - now.getTime()) / 1000)
+          return { allowed: false, dimension: check.dimension, reason: 'daily_cap', retryAfterSeconds, message: 'Daily limit for verification codes reached. Please try again tomorrow.' }
+        }
+        const cooldown = effectiveCooldown(check.rule, counter.count)
+        if (cooldown > 0 && counter.lastSentAt) {
+          const waitMs = counter.lastSentAt.getTime() + cooldown * 1000 - now.getTime()
+          if (waitMs > 0) {
+            const retryAfterSeconds = Math.ceil(waitMs / 1000)
+            return { allowed: false, dimension: check.dimension, reason: 'cooldown', retryAfterSeconds, message: `Please wait ${retryAfterSeconds}s before requesting another code` }
+          }
+        }
+      }
+
+      for (const [i, check] of checks.entries()) {
+        const count = counters[i].count + 1
+        await tx.otpRateLimit.update({
+          where: { id: counters[i].id },
+          data: { count, lastSentAt: now, ...(check.rule.dailyCap > 0 && count >= check.rule.dailyCap ? { blockedUntil: endsAt } : {}) },
+        })
+      }
+      return { allowed: true }
+    })
+  }
+
+  /**
+   * Subjects blocked for the rest of the business day (admin view)
+   */
+  async listBlocked() {
+    return prisma.otpRateLimit.findMany({
+      where: { date: businessDay().dateKey, blockedUntil: { gt: new Date() } },
+      orderBy: { updatedAt: 'desc' },
+    })
+  }
+
+  /**
+   * Lift a block and reset that subject's counter for today
+   */
+  async unblock(id: string): Promise<boolean> {
+    const result = await prisma.otpRateLimit.deleteMany({ where: { id } })
+    return result.count > 0
+  }
+
+  /**
+   * Drop counters from previous business days
+   */
+  async purgeOldCounters(): Promise<number> {
+    const result = await prisma.otpRateLimit.deleteMany({ where: { date: { lt: businessDay().dateKey } } })
+    return result.count
+  }
+}
+
+export const otpRateLimiter = new OtpRateLimiter()
+export default otpRateLimiter
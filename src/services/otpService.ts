@@ -1,24 +1,64 @@
 import { prisma } from '../server'
 import sltSmsService from './sltSmsService'
+import otpRateLimiter from './otpRateLimiter'
+import crypto from 'crypto'
+import { generateTotpSecret, verifyTotpCode, buildOtpAuthUrl, TOTP_STEP_SECONDS } from '../utils/totp'
 
-export type UserType = 'officer' | 'teleshop_manager' | 'rtom' | 'gm' | 'dgm'
+export type UserType = 'officer' | 'teleshop_manager' | 'rtom' | 'gm' | 'dgm' | 'admin'
 
 interface OTPGenerationResult {
   success: boolean
   message: string
   otpId?: string
+  /** Set when the request was refused by the rate-limit policy */
+  retryAfterSeconds?: number
 }
 
+export interface OTPRequestContext {
+  ipAddress?: string | null
+  outletId?: string | null
+}
+
+// Roles that may enrol an authenticator app (TOTP) and backup codes
+export type TwoFactorUserType = 'admin' | 'gm' | 'dgm'
+
+export interface TwoFactorStatus {
+  totpEnrolled: boolean
+  backupCodesRemaining: number
+  required: boolean
+}
+
+export interface SecondFactorInput {
+  totpCode?: string
+  backupCode?: string
+}
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'SLT DQMS'
+// Wrong authenticator / backup codes per account before it is locked; each further lockout doubles in length
+const MAX_SECOND_FACTOR_FAILURES = Math.max(1, Number(process.env.TOTP_MAX_FAILED_ATTEMPTS || 5))
+const SECOND_FACTOR_LOCKOUT_MINUTES = Math.max(1, Number(process.env.TOTP_LOCKOUT_MINUTES || 15))
+const MAX_SECOND_FACTOR_LOCKOUT_MINUTES = 24 * 60
+const TOTP_REQUIRED_SETTING_KEY = 'totp_required_roles'
+// Persistent factors (enrolled secrets, backup codes) never expire on their own
+const NEVER_EXPIRES = new Date('9999-12-31T00:00:00.000Z')
+
+const hashBackupCode = (code: string) =>
+  crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toUpperCase()).digest('hex')
+
 interface OTPVerificationResult {
   success: boolean
   message: string
   userId?: string
+  /** Set while the account is locked after repeated wrong authenticator / backup codes */
+  retryAfterSeconds?: number
 }
 
 class OTPService {
   private readonly OTP_LENGTH = 4
   private readonly OTP_EXPIRY_MINUTES = 5
   private readonly MAX_ATTEMPTS = 3
+  private readonly TOTP_ENROLLMENT_MINUTES = 15
+  private readonly BACKUP_CODE_COUNT = 10
 
   /**
    * Generate a random 4-digit OTP code
@@ -30,8 +70,14 @@ class OTPService {
   /**
    * Generate and send OTP to user's mobile number
    */
-  async generateOTP(mobileNumber: string, userType: UserType, userName?: string): Promise<OTPGenerationResult> {
+  async generateOTP(mobileNumber: string, userType: UserType, userName?: string, context: OTPRequestContext = {}): Promise<OTPGenerationResult> {
     try {
+      // Shared cooldown / daily-cap policy before anything is sent
+      const decision = await otpRateLimiter.consume({ mobileNumber, userType, ...context })
+      if (!decision.allowed) {
+        return { success: false, message: decision.message, retryAfterSeconds: decision.retryAfterSeconds }
+      }
+
       // Generate OTP code
       const otpCode = this.generateOTPCode()
       const expiresAt = new Date(Date.now() + this.OTP_EXPIRY_MINUTES * 60 * 1000)
@@ -41,6 +87,7 @@ class OTPService {
         where: {
           mobileNumber,
           userType,
+          channel: 'sms',
           verified: false
         }
       })
@@ -92,6 +139,7 @@ class OTPService {
         where: {
           mobileNumber,
           userType,
+          channel: 'sms',
           verified: false
         },
         orderBy: {
@@ -195,6 +243,7 @@ class OTPService {
         where: {
           mobileNumber,
           userType,
+          channel: 'sms',
           verified: true,
           createdAt: {
             lt: new Date(Date.now() - 24 * 60 * 60 * 1000) // Older than 24 hours
@@ -233,6 +282,290 @@ class OTPService {
       console.error('Error cleaning up expired OTPs:', error)
     }
   }
+
+  // ─── Authenticator app (TOTP) and backup codes ─────────────────────────────
+  // Stored in the OTP table: channel 'totp' rows hold the shared secret,
+  // channel 'backup' rows hold one hashed backup code each.
+
+  /**
+   * Roles for which an authenticator app is mandatory (SystemSetting policy)
+   */
+  async getRequiredTotpRoles(): Promise<TwoFactorUserType[]> {
+    const setting = await prisma.systemSetting.findUnique({ where: { key: TOTP_REQUIRED_SETTING_KEY } })
+    if (!setting?.value) return []
+    try {
+      const roles = JSON.parse(setting.value)
+      return Array.isArray(roles) ? roles.filter((r: unknown): r is TwoFactorUserType => r === 'admin' || r === 'gm' || r === 'dgm') : []
+    } catch {
+      return []
+    }
+  }
+
+  async setRequiredTotpRoles(roles: TwoFactorUserType[]): Promise<TwoFactorUserType[]> {
+    const value = JSON.stringify(Array.from(new Set(roles)))
+    await prisma.systemSetting.upsert({
+      where: { key: TOTP_REQUIRED_SETTING_KEY },
+      update: { value },
+      create: { key: TOTP_REQUIRED_SETTING_KEY, value },
+    })
+    return this.getRequiredTotpRoles()
+  }
+
+  async isTotpRequired(userType: TwoFactorUserType): Promise<boolean> {
+    return (await this.getRequiredTotpRoles()).includes(userType)
+  }
+
+  private async findEnrolledTotp(userType: TwoFactorUserType, userId: string) {
+    return prisma.oTP.findFirst({
+      where: { userType, userId, channel: 'totp', verified: true },
+      orderBy: { createdAt: 'desc' },
+    })
+  }
+
+  async getTwoFactorStatus(userType: TwoFactorUserType, userId: string): Promise<TwoFactorStatus> {
+    const [totp, backupCodesRemaining, required] = await Promise.all([
+      this.findEnrolledTotp(userType, userId),
+      prisma.oTP.count({ where: { userType, userId, channel: 'backup', verified: false } }),
+      this.isTotpRequired(userType),
+    ])
+    return { totpEnrolled: !!totp, backupCodesRemaining, required }
+  }
+
+  /**
+   * Start enrolment: create a pending secret and return the otpauth:// URL to render as a QR code.
+   * Replacing an enrolled authenticator needs a current authenticator or backup code, so a
+   * session alone cannot swap in another device. The existing authenticator keeps working
+   * until the new one is confirmed.
+   */
+  async beginTotpEnrollment(
+    userType: TwoFactorUserType,
+    userId: string,
+    accountName: string,
+    mobileNumber: string | null | undefined,
+    currentFactor: SecondFactorInput = {}
+  ): Promise<
+    | { success: true; secret: string; otpauthUrl: string; expiresInMinutes: number }
+    | { success: false; message: string; retryAfterSeconds?: number }
+  > {
+    if (await this.findEnrolledTotp(userType, userId)) {
+      if (!currentFactor.totpCode && !currentFactor.backupCode) {
+        return { success: false, message: 'Enter a code from your current authenticator app or a backup code to replace it' }
+      }
+      const verified = await this.verifySecondFactor(userType, userId, currentFactor)
+      if (!verified.success) return { success: false, message: verified.message, retryAfterSeconds: verified.retryAfterSeconds }
+    }
+
+    await prisma.oTP.deleteMany({ where: { userType, userId, channel: 'totp', verified: false } })
+
+    const secret = generateTotpSecret()
+    await prisma.oTP.create({
+      data: {
+        userType,
+        userId,
+        mobileNumber: mobileNumber || null,
+        channel: 'totp',
+        otpCode: '',
+        secret,
+        verified: false,
+        expiresAt: new Date(Date.now() + this.TOTP_ENROLLMENT_MINUTES * 60 * 1000),
+      },
+    })
+
+    return {
+      success: true,
+      secret,
+      otpauthUrl: buildOtpAuthUrl(secret, accountName, TOTP_ISSUER),
+      expiresInMinutes: this.TOTP_ENROLLMENT_MINUTES,
+    }
+  }
+
+  /**
+   * Confirm enrolment with a code from the app. Replaces any previous
+   * authenticator and issues a fresh set of backup codes (returned once).
+   */
+  async confirmTotpEnrollment(userType: TwoFactorUserType, userId: string, code: string): Promise<{ success: boolean; message: string; backupCodes?: string[] }> {
+    const pending = await prisma.oTP.findFirst({
+      where: { userType, userId, channel: 'totp', verified: false, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    })
+    if (!pending?.secret) {
+      return { success: false, message: 'No pending authenticator enrolment. Please start again.' }
+    }
+
+    const step = verifyTotpCode(pending.secret, code)
+    if (step === null) {
+      return { success: false, message: 'Invalid authenticator code' }
+    }
+
+    const confirmed = await prisma.$transaction(async tx => {
+      const claimed = await tx.oTP.updateMany({
+        where: { id: pending.id, verified: false },
+        data: { verified: true, expiresAt: NEVER_EXPIRES, usedAt: new Date(step * TOTP_STEP_SECONDS * 1000) },
+      })
+      if (claimed.count === 0) return false
+      await tx.oTP.deleteMany({ where: { userType, userId, channel: 'totp', verified: true, id: { not: pending.id } } })
+      return true
+    })
+    if (!confirmed) {
+      return { success: false, message: 'No pending authenticator enrolment. Please start again.' }
+    }
+
+    const backupCodes = await this.regenerateBackupCodes(userType, userId, pending.mobileNumber)
+    return { success: true, message: 'Authenticator app enrolled', backupCodes }
+  }
+
+  /**
+   * Replace all backup codes. Plain codes are returned once and stored hashed.
+   */
+  async regenerateBackupCodes(userType: TwoFactorUserType, userId: string, mobileNumber?: string | null): Promise<string[]> {
+    const codes = Array.from({ length: this.BACKUP_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex').toUpperCase()
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`
+    })
+
+    await prisma.oTP.deleteMany({ where: { userType, userId, channel: 'backup' } })
+    await prisma.oTP.createMany({
+      data: codes.map(code => ({
+        userType,
+        userId,
+        mobileNumber: mobileNumber || null,
+        channel: 'backup',
+        otpCode: hashBackupCode(code),
+        verified: false,
+        expiresAt: NEVER_EXPIRES,
+      })),
+    })
+    return codes
+  }
+
+  /**
+   * Verify a code from the authenticator app. A code (time step) is accepted only once.
+   */
+  async verifyTotp(userType: TwoFactorUserType, userId: string, code: string): Promise<OTPVerificationResult> {
+    const totp = await this.findEnrolledTotp(userType, userId)
+    if (!totp?.secret) return { success: false, message: 'No authenticator app enrolled' }
+
+    const step = verifyTotpCode(totp.secret, code)
+    if (step === null) return { success: false, message: 'Invalid authenticator code' }
+
+    // Consume the step atomically so two concurrent requests cannot both accept the same code
+    const stepStart = new Date(step * TOTP_STEP_SECONDS * 1000)
+    const consumed = await prisma.oTP.updateMany({
+      where: { id: totp.id, OR: [{ usedAt: null }, { usedAt: { lt: stepStart } }] },
+      data: { usedAt: stepStart },
+    })
+    if (consumed.count === 0) return { success: false, message: 'This authenticator code was already used' }
+    return { success: true, message: 'Authenticator code verified', userId }
+  }
+
+  /**
+   * Verify and consume a one-time backup code
+   */
+  async verifyBackupCode(userType: TwoFactorUserType, userId: string, code: string): Promise<OTPVerificationResult> {
+    const result = await prisma.oTP.updateMany({
+      where: { userType, userId, channel: 'backup', verified: false, usedAt: null, otpCode: hashBackupCode(String(code || '')) },
+      data: { verified: true, usedAt: new Date() },
+    })
+    if (result.count === 0) return { success: false, message: 'Invalid or already used backup code' }
+    return { success: true, message: 'Backup code accepted', userId }
+  }
+
+  /**
+   * Seconds until the account may try another authenticator / backup code, or 0
+   */
+  private async secondFactorLockedFor(userType: TwoFactorUserType, userId: string): Promise<number> {
+    const attempt = await prisma.twoFactorAttempt.findUnique({
+      where: { userType_userId: { userType, userId } },
+      select: { lockedUntil: true },
+    })
+    const waitMs = attempt?.lockedUntil ? attempt.lockedUntil.getTime() - Date.now() : 0
+    return waitMs > 0 ? Math.ceil(waitMs / 1000) : 0
+  }
+
+  /**
+   * Count a wrong code; returns the lockout in seconds when this failure locked the account
+   */
+  private async recordSecondFactorFailure(userType: TwoFactorUserType, userId: string): Promise<number> {
+    const now = new Date()
+    const attempt = await prisma.twoFactorAttempt.upsert({
+      where: { userType_userId: { userType, userId } },
+      create: { userType, userId, failedAttempts: 1, lastFailedAt: now },
+      update: { failedAttempts: { increment: 1 }, lastFailedAt: now },
+    })
+    if (attempt.failedAttempts < MAX_SECOND_FACTOR_FAILURES) return 0
+
+    const minutes = Math.min(MAX_SECOND_FACTOR_LOCKOUT_MINUTES, SECOND_FACTOR_LOCKOUT_MINUTES * Math.pow(2, attempt.lockouts))
+    await prisma.twoFactorAttempt.update({
+      where: { id: attempt.id },
+      data: { failedAttempts: 0, lockouts: { increment: 1 }, lockedUntil: new Date(now.getTime() + minutes * 60 * 1000) },
+    })
+    console.warn(`[2FA] ${userType} ${userId} locked for ${minutes} minute(s) after ${MAX_SECOND_FACTOR_FAILURES} wrong codes`)
+    return minutes * 60
+  }
+
+  /**
+   * Verify whichever second factor the user supplied (authenticator code or backup code).
+   * Wrong codes count towards a per-account lockout with backoff; a correct code clears it.
+   */
+  async verifySecondFactor(userType: TwoFactorUserType, userId: string, input: SecondFactorInput): Promise<OTPVerificationResult> {
+    if (!input.totpCode && !input.backupCode) return { success: false, message: 'Authenticator or backup code is required' }
+
+    const lockedFor = await this.secondFactorLockedFor(userType, userId)
+    if (lockedFor > 0) {
+      return { success: false, message: `Too many wrong codes. Please try again in ${Math.ceil(lockedFor / 60)} minute(s).`, retryAfterSeconds: lockedFor }
+    }
+
+    const result = input.totpCode
+      ? await this.verifyTotp(userType, userId, input.totpCode)
+      : await this.verifyBackupCode(userType, userId, input.backupCode!)
+
+    if (result.success) {
+      await prisma.twoFactorAttempt.deleteMany({ where: { userType, userId } })
+      return result
+    }
+    const lockedNow = await this.recordSecondFactorFailure(userType, userId)
+    if (lockedNow > 0) {
+      return { success: false, message: `Too many wrong codes. Please try again in ${Math.ceil(lockedNow / 60)} minute(s).`, retryAfterSeconds: lockedNow }
+    }
+    return result
+  }
+
+  /**
+   * Login step 2 for admin / GM / DGM: accepts an SMS OTP, an authenticator
+   * code or a backup code. When TOTP is mandatory for the role, SMS alone is
+   * refused once an authenticator is enrolled; users who have not enrolled yet
+   * are let in with `mfaEnrollmentRequired` so they can only enrol.
+   */
+  async verifyLoginFactors(
+    userType: TwoFactorUserType,
+    userId: string,
+    input: SecondFactorInput & { mobileNumber?: string; otpCode?: string }
+  ): Promise<OTPVerificationResult & { mfaEnrollmentRequired?: boolean }> {
+    const status = await this.getTwoFactorStatus(userType, userId)
+
+    let result: OTPVerificationResult
+    if (input.totpCode || input.backupCode) {
+      result = await this.verifySecondFactor(userType, userId, input)
+    } else if (input.otpCode && input.mobileNumber) {
+      if (status.required && status.totpEnrolled) {
+        return { success: false, message: 'Authenticator app code or backup code is required for this account' }
+      }
+      result = await this.verifyOTP(input.mobileNumber, input.otpCode, userType)
+    } else {
+      return { success: false, message: 'A security code is required' }
+    }
+
+    if (!result.success) return result
+    return { ...result, mfaEnrollmentRequired: status.required && !status.totpEnrolled }
+  }
+
+  /**
+   * Remove the authenticator app and backup codes
+   */
+  async disableTotp(userType: TwoFactorUserType, userId: string): Promise<void> {
+    await prisma.oTP.deleteMany({ where: { userType, userId, channel: { in: ['totp', 'backup'] } } })
+    await prisma.twoFactorAttempt.deleteMany({ where: { userType, userId } })
+  }
 }
 
 export default new OTPService()
@@ -0,0 +1,192 @@
+/**
+ * Parking Service - Customers stepping away without losing their place
+ *
+ * A parked token (status 'parked') is out of the queue: /next-token never
+ * picks it and it is not counted in anyone's position. It keeps its token
+ * number, so on resume it is back in front of everyone who came later.
+ * Time spent parked (Token.parkedMinutes) is left out of wait estimates and
+ * aging scores.
+ *
+ * Limits are per outlet: Outlet.parkMaxMinutes (0 turns parking off) and
+ * Outlet.parkMaxPerToken. A token still parked at parkedUntil is skipped
+ * and the customer gets the skip SMS; an officer can recall it as usual.
+ */
+
+import { prisma, broadcast } from "../server"
+import { getTrackingUrl } from "../utils/urlHelper"
+import { displayToken } from "../utils/tokenFormat"
+import sltSmsService from "./sltSmsService"
+import { toStringArray } from "./queueDispatcher"
+
+export type ParkActor = 'customer' | 'officer' | 'manager'
+
+export interface ParkingSettings {
+  maxMinutes: number
+  maxPerToken: number
+}
+
+export class ParkingError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 = 400) {
+    super(message)
+    this.name = 'ParkingError'
+  }
+}
+
+const MAX_PARK_MINUTES = 120
+const MAX_PARKS_PER_TOKEN = 10
+
+const minutesSince = (date: Date) => Math.max(0, Math.round((Date.now() - date.getTime()) / 60000))
+
+class ParkingService {
+  async getSettings(outletId: string): Promise<ParkingSettings | null> {
+    const outlet = await prisma.outlet.findUnique({ where: { id: outletId }, select: { parkMaxMinutes: true, parkMaxPerToken: true } })
+    return outlet ? { maxMinutes: outlet.parkMaxMinutes, maxPerToken: outlet.parkMaxPerToken } : null
+  }
+
+  validateSettings(input: Partial<ParkingSettings>): string | null {
+    if (input.maxMinutes !== undefined && !(Number.isInteger(input.maxMinutes) && input.maxMinutes >= 0 && input.maxMinutes <= MAX_PARK_MINUTES)) {
+      return `maxMinutes must be a whole number from 0 to ${MAX_PARK_MINUTES}`
+    }
+    if (input.maxPerToken !== undefined && !(Number.isInteger(input.maxPerToken) && input.maxPerToken >= 1 && input.maxPerToken <= MAX_PARKS_PER_TOKEN)) {
+      return `maxPerToken must be a whole number from 1 to ${MAX_PARKS_PER_TOKEN}`
+    }
+    return null
+  }
+
+  async updateSettings(outletId: string, input: Partial<ParkingSettings>): Promise<ParkingSettings | null> {
+    await prisma.outlet.update({
+      where: { id: outletId },
+      data: { parkMaxMinutes: input.maxMinutes, parkMaxPerToken: input.maxPerToken },
+    })
+    return this.getSettings(outletId)
+  }
+
+  /**
+   * Park a waiting token (customers, managers) or the token an officer is serving.
+   * `minutes` defaults to, and may not exceed, the outlet maximum.
+   */
+  async park(tokenId: string, options: { actor: ParkActor; minutes?: number; officerId?: string }) {
+    const token = await prisma.token.findUnique({
+      where: { id: tokenId },
+      include: { outlet: { select: { parkMaxMinutes: true, parkMaxPerToken: true } } },
+    })
+    if (!token) throw new ParkingError('Token not found', 404)
+
+    const { parkMaxMinutes, parkMaxPerToken } = token.outlet
+    if (parkMaxMinutes <= 0) throw new ParkingError('Stepping away is not available at this outlet')
+    if (token.parkCount >= parkMaxPerToken) {
+      throw new ParkingError(`This token has already stepped away ${token.parkCount} time(s); the limit is ${parkMaxPerToken}`)
+    }
+
+    const servingOfficer = token.status === 'in_service' ? token.assignedTo : null
+    if (token.status !== 'waiting' && !(options.actor === 'officer' && token.status === 'in_service' && servingOfficer === options.officerId)) {
+      throw new ParkingError('Only waiting tokens can step away')
+    }
+
+    const minutes = options.minutes === undefined ? parkMaxMinutes : Number(options.minutes)
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > parkMaxMinutes) {
+      throw new ParkingError(`minutes must be a whole number from 1 to ${parkMaxMinutes}`)
+    }
+
+    const now = new Date()
+    const parked = await prisma.$transaction(async (tx) => {
+      // Only park it if nobody called it meanwhile
+      const claimed = await tx.token.updateMany({
+        where: { id: tokenId, status: token.status },
+        data: {
+          status: 'parked',
+          parkedAt: now,
+          parkedUntil: new Date(now.getTime() + minutes * 60000),
+          parkCount: { increment: 1 },
+          // An officer-parked customer comes back to the same counter
+          ...(servingOfficer ? { assignedTo: null, calledAt: null, startedAt: null, arrivedAt: null } : {}),
+        },
+      })
+      if (claimed.count === 0) throw new ParkingError('Token was called before it could step away')
+      if (servingOfficer) {
+        await tx.officer.update({ where: { id: servingOfficer }, data: { status: 'available' } })
+      }
+      return tx.token.findUniqueOrThrow({ where: { id: tokenId }, include: { customer: true, outlet: true } })
+    })
+
+    broadcast({ type: 'TOKEN_PARKED', data: { ...parked, parkedBy: options.actor } })
+    if (servingOfficer) {
+      broadcast({ type: 'OFFICER_STATUS_CHANGE', data: { officerId: servingOfficer, status: 'available', timestamp: now.toISOString() } })
+    }
+    return parked
+  }
+
+  /**
+   * Put a parked token back in the queue at its original place
+   */
+  async resume(tokenId: string, actor: ParkActor) {
+    const token = await prisma.token.findUnique({ where: { id: tokenId } })
+    if (!token) throw new ParkingError('Token not found', 404)
+    if (token.status !== 'parked') throw new ParkingError('Token is not parked')
+
+    const claimed = await prisma.token.updateMany({
+      where: { id: tokenId, status: 'parked' },
+      data: {
+        status: 'waiting',
+        parkedAt: null,
+        parkedUntil: null,
+        parkedMinutes: { increment: token.parkedAt ? minutesSince(token.parkedAt) : 0 },
+      },
+    })
+    if (claimed.count === 0) throw new ParkingError('Token is not parked')
+
+    const resumed = await prisma.token.findUniqueOrThrow({ where: { id: tokenId }, include: { customer: true, outlet: true } })
+    broadcast({ type: 'TOKEN_RESUMED', data: { ...resumed, resumedBy: actor } })
+    return resumed
+  }
+
+  /**
+   * Skip tokens that stayed parked past their time
+   */
+  async expireParkedTokens(): Promise<number> {
+    const expired = await prisma.token.findMany({
+      where: { status: 'parked', parkedUntil: { lt: new Date() } },
+      include: { customer: true, outlet: true },
+    })
+
+    let count = 0
+    for (const token of expired) {
+      const claimed = await prisma.token.updateMany({
+        where: { id: token.id, status: 'parked' },
+        data: {
+          status: 'skipped',
+          parkedAt: null,
+          parkedUntil: null,
+          parkedMinutes: { increment: token.parkedAt ? minutesSince(token.parkedAt) : 0 },
+        },
+      })
+      if (claimed.count === 0) continue
+      count++
+
+      try {
+        const first = String(toStringArray(token.preferredLanguages)[0] || '').toLowerCase()
+        await sltSmsService.sendCustomerSkipped(token.customer.mobileNumber, {
+          firstName: token.customer.name.split(' ')[0],
+          tokenNumber: displayToken(token),
+          outletName: token.outlet?.name || 'SLT Office',
+          recoveryUrl: getTrackingUrl(token.id),
+        }, first === 'si' || first === 'ta' ? first : 'en')
+      } catch (smsError) {
+        console.error('Parked token expiry SMS failed:', smsError)
+      }
+      broadcast({ type: 'TOKEN_SKIPPED', data: { ...token, status: 'skipped', parkExpired: true } })
+    }
+    return count
+  }
+
+  /**
+   * Minutes left before a parked token expires
+   */
+  minutesLeft(token: { status: string; parkedUntil: Date | null }): number | null {
+    if (token.status !== 'parked' || !token.parkedUntil) return null
+    return Math.max(0, Math.ceil((token.parkedUntil.getTime() - Date.now()) / 60000))
+  }
+}
+
+export const parkingService = new ParkingService()
+export default parkingService
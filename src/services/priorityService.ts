@@ -0,0 +1,266 @@
+/**
+ * Priority Service - Named priority categories for tokens
+ *
+ * Token.isPriority still marks a token to be served ahead of the regular
+ * queue (set by priority services, transfers and officers as before). A
+ * customer may also claim a PriorityCategory at registration (senior
+ * citizen, differently abled, expectant mother, corporate / VIP, ...):
+ *
+ *   weight                - among priority tokens, higher weights are
+ *                           called first (uncategorised priority = 1)
+ *   requiresVerification  - the officer checks the claim at the counter
+ *                           (verificationHint says what to ask for); the
+ *                           token starts 'pending' and becomes 'verified'
+ *                           or 'rejected'. Claims made online
+ *                           (/customer/register) are not served ahead of
+ *                           the queue while they are pending. Rejecting
+ *                           a claim removes only the priority it added
+ *                           (Token.priorityFromClaim)
+ *   hourlyQuota           - at most this many tokens of the category are
+ *                           called ahead of the queue per outlet in any
+ *                           60 minutes; beyond that they queue as regular
+ *                           tokens so the regular queue keeps moving
+ *
+ * Categories are shared by all outlets; usage is reported per outlet.
+ */
+
+import type { Prisma } from "@prisma/client"
+import { prisma, broadcast } from "../server"
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+export type PriorityVerification = 'pending' | 'verified' | 'rejected'
+
+export interface PriorityCategoryInput {
+  code?: string
+  name?: string
+  weight?: number
+  requiresVerification?: boolean
+  verificationHint?: string | null
+  hourlyQuota?: number | null
+  isActive?: boolean
+  order?: number
+}
+
+export interface PriorityQuotaState {
+  quota: number
+  used: number
+  reached: boolean
+}
+
+export class PriorityError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'PriorityError'
+  }
+}
+
+export const DEFAULT_PRIORITY_WEIGHT = 1
+const MAX_WEIGHT = 10
+const MAX_HOURLY_QUOTA = 1000
+const QUOTA_WINDOW_MS = 60 * 60 * 1000
+const CODE_PATTERN = /^[a-z][a-z0-9_]{1,29}$/
+
+const rate = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0)
+
+class PriorityService {
+  async listCategories(includeInactive = false) {
+    return prisma.priorityCategory.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    })
+  }
+
+  validateInput(input: PriorityCategoryInput, creating: boolean): string | null {
+    const { code, name, weight, requiresVerification, verificationHint, hourlyQuota, isActive, order } = input
+    if (creating && (!code || !name)) return 'code and name are required'
+    if (code !== undefined && !(typeof code === 'string' && CODE_PATTERN.test(code))) {
+      return 'code must be 2-30 lowercase letters, digits or underscores, starting with a letter'
+    }
+    if (name !== undefined && !(typeof name === 'string' && name.trim())) return 'name must not be empty'
+    if (weight !== undefined && !(Number.isInteger(weight) && weight >= 1 && weight <= MAX_WEIGHT)) {
+      return `weight must be a whole number from 1 to ${MAX_WEIGHT}`
+    }
+    if (requiresVerification !== undefined && typeof requiresVerification !== 'boolean') return 'requiresVerification must be true or false'
+    if (verificationHint !== undefined && verificationHint !== null && typeof verificationHint !== 'string') return 'verificationHint must be text'
+    if (hourlyQuota !== undefined && hourlyQuota !== null && !(Number.isInteger(hourlyQuota) && hourlyQuota >= 1 && hourlyQuota <= MAX_HOURLY_QUOTA)) {
+      return `hourlyQuota must be a whole number from 1 to ${MAX_HOURLY_QUOTA}, or null for no quota`
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') return 'isActive must be true or false'
+    if (order !== undefined && !Number.isInteger(order)) return 'order must be a whole number'
+    return null
+  }
+
+  private fields(input: PriorityCategoryInput) {
+    return {
+      ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+      ...(input.weight !== undefined ? { weight: input.weight } : {}),
+      ...(input.requiresVerification !== undefined ? { requiresVerification: input.requiresVerification } : {}),
+      ...(input.verificationHint !== undefined ? { verificationHint: input.verificationHint?.trim() || null } : {}),
+      ...(input.hourlyQuota !== undefined ? { hourlyQuota: input.hourlyQuota } : {}),
+      ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+      ...(input.order !== undefined ? { order: input.order } : {}),
+    }
+  }
+
+  async createCategory(input: PriorityCategoryInput) {
+    const existing = await prisma.priorityCategory.findUnique({ where: { code: input.code! } })
+    if (existing) throw new PriorityError(`Priority category '${input.code}' already exists`, 409)
+    const category = await prisma.priorityCategory.create({ data: { code: input.code!, name: input.name!.trim(), ...this.fields(input) } })
+    broadcast({ type: 'PRIORITY_CATEGORIES_UPDATED', data: category })
+    return category
+  }
+
+  async updateCategory(id: string, input: PriorityCategoryInput) {
+    if (input.code !== undefined) throw new PriorityError('A category keeps its code; create a new category instead')
+    const existing = await prisma.priorityCategory.findUnique({ where: { id } })
+    if (!existing) throw new PriorityError('Priority category not found', 404)
+    const category = await prisma.priorityCategory.update({ where: { id }, data: this.fields(input) })
+    broadcast({ type: 'PRIORITY_CATEGORIES_UPDATED', data: category })
+    return category
+  }
+
+  /**
+   * Delete an unused category; one that tokens already used is deactivated instead so reports keep it
+   */
+  async deleteCategory(id: string) {
+    const existing = await prisma.priorityCategory.findUnique({ where: { id } })
+    if (!existing) throw new PriorityError('Priority category not found', 404)
+    const used = await prisma.token.count({ where: { priorityCategoryId: id } })
+    const category = used > 0
+      ? await prisma.priorityCategory.update({ where: { id }, data: { isActive: false } })
+      : await prisma.priorityCategory.delete({ where: { id } })
+    broadcast({ type: 'PRIORITY_CATEGORIES_UPDATED', data: category })
+    return { category, deactivated: used > 0 }
+  }
+
+  /**
+   * Token fields for a claimed category code (none when no code is given)
+   */
+  async resolveClaim(code: unknown, db: Db = prisma): Promise<{ priorityCategoryId: string; priorityVerification: PriorityVerification | null } | null> {
+    if (code === undefined || code === null || code === '') return null
+    if (typeof code !== 'string') throw new PriorityError('priorityCategory must be a category code')
+    const category = await db.priorityCategory.findUnique({ where: { code } })
+    if (!category || !category.isActive) throw new PriorityError(`Unknown priority category '${code}'`)
+    return { priorityCategoryId: category.id, priorityVerification: category.requiresVerification ? 'pending' : null }
+  }
+
+  /**
+   * Calls in the last hour against each category quota at an outlet
+   */
+  async quotaState(outletId: string, now: Date = new Date()): Promise<Map<string, PriorityQuotaState>> {
+    const limited = await prisma.priorityCategory.findMany({ where: { hourlyQuota: { not: null } }, select: { id: true, hourlyQuota: true } })
+    const state = new Map<string, PriorityQuotaState>()
+    if (limited.length === 0) return state
+    const calls = await prisma.token.groupBy({
+      by: ['priorityCategoryId'],
+      where: {
+        outletId,
+        isPriority: true,
+        priorityCategoryId: { in: limited.map(c => c.id) },
+        calledAt: { gte: new Date(now.getTime() - QUOTA_WINDOW_MS), lte: now },
+      },
+      _count: { _all: true },
+    })
+    const used = new Map(calls.map(c => [c.priorityCategoryId, c._count._all]))
+    for (const category of limited) {
+      const count = used.get(category.id) || 0
+      state.set(category.id, { quota: category.hourlyQuota!, used: count, reached: count >= category.hourlyQuota! })
+    }
+    return state
+  }
+
+  /**
+   * Officer's verdict on a claimed category; a rejected claim loses its priority
+   */
+  async verify(tokenId: string, officerId: string, verified: boolean) {
+    const token = await prisma.token.findUnique({ where: { id: tokenId }, include: { priorityCategory: true } })
+    if (!token) throw new PriorityError('Token not found', 404)
+    if (token.assignedTo !== officerId || token.status !== 'in_service') {
+      throw new PriorityError('Only the officer serving this token can verify its priority claim', 403)
+    }
+    if (!token.priorityCategory) throw new PriorityError('This token has no priority category to verify')
+    if (token.priorityVerification !== 'pending') throw new PriorityError(`This claim is already ${token.priorityVerification || 'accepted without verification'}`, 409)
+
+    const updated = await prisma.token.update({
+      where: { id: tokenId },
+      data: {
+        priorityVerification: verified ? 'verified' : 'rejected',
+        priorityVerifiedAt: new Date(),
+        priorityVerifiedBy: officerId,
+        // A rejection only takes back priority the claim itself gave (not a priority service's or a transfer's)
+        isPriority: verified || (token.isPriority && !token.priorityFromClaim),
+        priorityFromClaim: verified,
+      },
+      include: { customer: true, outlet: true, priorityCategory: true },
+    })
+    broadcast({ type: 'TOKEN_UPDATED', data: updated })
+    return updated
+  }
+
+  /**
+   * How often each category was claimed, verified and served per outlet (tokens created in the range)
+   */
+  async getAnalytics(outletIds: string[], startDate: Date, endDate: Date) {
+    const [tokens, categories, outlets] = await Promise.all([
+      prisma.token.findMany({
+        where: { outletId: { in: outletIds }, createdAt: { gte: startDate, lte: endDate }, OR: [{ isPriority: true }, { priorityCategoryId: { not: null } }] },
+        select: { outletId: true, priorityCategoryId: true, priorityVerification: true, status: true, createdAt: true, startedAt: true },
+      }),
+      prisma.priorityCategory.findMany({ orderBy: [{ order: 'asc' }, { createdAt: 'asc' }] }),
+      prisma.outlet.findMany({ where: { id: { in: outletIds } }, select: { id: true, name: true } }),
+    ])
+    const regularTotal = await prisma.token.count({ where: { outletId: { in: outletIds }, createdAt: { gte: startDate, lte: endDate } } })
+
+    type Row = { issued: number; served: number; verified: number; rejected: number; pending: number; waitMinutes: number; waited: number }
+    const empty = (): Row => ({ issued: 0, served: 0, verified: 0, rejected: 0, pending: 0, waitMinutes: 0, waited: 0 })
+    const add = (row: Row, token: typeof tokens[number]) => {
+      row.issued++
+      if (token.status === 'completed') row.served++
+      if (token.priorityVerification === 'verified') row.verified++
+      else if (token.priorityVerification === 'rejected') row.rejected++
+      else if (token.priorityVerification === 'pending') row.pending++
+      if (token.startedAt) {
+        row.waitMinutes += (token.startedAt.getTime() - token.createdAt.getTime()) / 60000
+        row.waited++
+      }
+    }
+    const finish = (row: Row) => ({
+      issued: row.issued,
+      served: row.served,
+      verified: row.verified,
+      rejected: row.rejected,
+      pending: row.pending,
+      rejectionRate: rate(row.rejected, row.verified + row.rejected),
+      avgWaitMinutes: row.waited > 0 ? Math.round((row.waitMinutes / row.waited) * 10) / 10 : 0,
+    })
+
+    // Key '' holds priority tokens without a category (priority services, transfers, officer flag)
+    const byCategory = new Map<string, Row>()
+    const byOutlet = new Map<string, Map<string, Row>>()
+    for (const token of tokens) {
+      const key = token.priorityCategoryId || ''
+      if (!byCategory.has(key)) byCategory.set(key, empty())
+      add(byCategory.get(key)!, token)
+      if (!byOutlet.has(token.outletId)) byOutlet.set(token.outletId, new Map())
+      const outletRows = byOutlet.get(token.outletId)!
+      if (!outletRows.has(key)) outletRows.set(key, empty())
+      add(outletRows.get(key)!, token)
+    }
+
+    const label = (key: string) => {
+      const category = categories.find(c => c.id === key)
+      return category ? { categoryId: category.id, code: category.code, name: category.name } : { categoryId: null, code: null, name: 'Uncategorised priority' }
+    }
+    const rows = (map: Map<string, Row>) => [...map.entries()].map(([key, row]) => ({ ...label(key), ...finish(row) })).sort((a, b) => b.issued - a.issued)
+
+    return {
+      totals: { tokens: regularTotal, priorityTokens: tokens.length, priorityShare: rate(tokens.length, regularTotal) },
+      byCategory: rows(byCategory),
+      byOutlet: outlets.map(outlet => ({ outletId: outlet.id, outletName: outlet.name, categories: rows(byOutlet.get(outlet.id) || new Map()) })),
+    }
+  }
+}
+
+export const priorityService = new PriorityService()
+export default priorityService
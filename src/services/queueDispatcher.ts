@@ -0,0 +1,495 @@
+/**
+ * Queue Dispatcher - Picks the next waiting token for an officer
+ *
+ * Selection happens in fixed stages; only the last one depends on the
+ * outlet's strategy (Outlet.dispatchStrategy):
+ *
+ *   1. Unmatched override   - officer asked for any waiting token (allowUnmatched)
+ *   2. Transfer priority    - tokens transferred to this counter, then to any
+ *                             counter with the officer's services, oldest first
+ *   3. Aging override       - a token for the officer's services whose aging
+ *                             score passed the override score (see tokenAging),
+ *                             whatever its language preference
+ *   4. Candidate pool       - tokens for this counter, else the general pool,
+ *                             restricted to the officer's services
+ *
+ * "The officer's services" are their assigned services narrowed to what
+ * their counter handles (Counter.allowedServices); an officer on a closed
+ * counter gets nothing (see counterService).
+ *   5. Language filter      - token has no preference or shares a language
+ *   6. Priority flag        - isPriority tokens ahead of the rest, higher
+ *                             category weight first; a category past its
+ *                             hourly quota queues as regular (priorityService)
+ *   7. Strategy ranking     - strict_fifo | service_weighted | sla_aware | language_first
+ *
+ * Only 'waiting' tokens are candidates, so parked tokens (customer stepped
+ * away) are passed over and pick up their token-number place on resume.
+ * Remote tokens that have not checked in at the outlet are held the same
+ * way (see remoteQueueService) and keep their place until check-in.
+ *
+ * Every decision returns an explanation (stage, ranking with scores, rejected
+ * tokens with reasons). Scores are computed against one `now` and ties break
+ * on token number, so the same queue always gives the same answer.
+ */
+
+import { prisma } from "../server"
+import { getLastDailyReset } from "../utils/resetWindow"
+import tokenAging from "./tokenAging"
+import counterService from "./counterService"
+import priorityService, { DEFAULT_PRIORITY_WEIGHT } from "./priorityService"
+import slaService from "./slaService"
+
+export type DispatchStrategyName = 'strict_fifo' | 'service_weighted' | 'sla_aware' | 'language_first'
+
+export const DISPATCH_STRATEGIES: Record<DispatchStrategyName, string> = {
+  strict_fifo: 'Lowest token number first',
+  service_weighted: 'Minutes waited multiplied by the service weight',
+  sla_aware: 'Minutes waited as a share of the service SLA target wait',
+  language_first: 'Exact language matches before tokens without a preference',
+}
+
+export const DEFAULT_DISPATCH_STRATEGY: DispatchStrategyName = 'strict_fifo'
+const DEFAULT_TARGET_WAIT_MINUTES = Number(process.env.LONG_WAIT_MINUTES || 10)
+const RANKING_LIMIT = 5
+const AGING_SCAN_LIMIT = 20
+
+export type DispatchStage = 'unmatched_override' | 'transfer_priority' | 'aging_override' | 'priority_flag' | 'strategy'
+
+export interface DispatchOfficer {
+  id: string
+  name: string
+  outletId: string
+  counterNumber: number | null
+  services: string[]
+  languages: string[]
+  /** Set when the officer's counter is closed */
+  counterClosed?: string
+}
+
+export interface RankedToken {
+  tokenId: string
+  tokenNumber: number
+  score: number
+  reasons: string[]
+}
+
+export interface DispatchExplanation {
+  strategy: DispatchStrategyName
+  stage: DispatchStage | null
+  pool: 'counter' | 'general' | 'transferred' | 'aged' | 'any' | null
+  evaluatedAt: string
+  considered: number
+  chosen: RankedToken | null
+  ranking: RankedToken[]
+  rejected: { tokenId: string; tokenNumber: number; reason: string }[]
+}
+
+export interface DispatchResult {
+  token: any | null
+  explanation: DispatchExplanation
+  /** Officer setup problem (no services / languages) */
+  error?: string
+  /** Nothing to serve right now */
+  message?: string
+}
+
+interface ServiceDispatchSettings {
+  weight: number
+  targetWaitMinutes: number
+}
+
+export function isDispatchStrategy(value: unknown): value is DispatchStrategyName {
+  return typeof value === 'string' && value in DISPATCH_STRATEGIES
+}
+
+/**
+ * Officer.assignedServices / languages and Token.preferredLanguages are JSON that
+ * may hold an array, a JSON string or an object map
+ */
+export function toStringArray(val: unknown): string[] {
+  try {
+    if (!val) return []
+    if (Array.isArray(val)) return val.filter(v => typeof v === 'string') as string[]
+    if (typeof val === 'string') {
+      const parsed = JSON.parse(val)
+      return Array.isArray(parsed) ? parsed.filter(v => typeof v === 'string') : []
+    }
+    if (typeof val === 'object') return Object.values(val).filter(v => typeof v === 'string') as string[]
+  } catch { }
+  return []
+}
+
+export const hasAny = (a: string[], b: string[]) => a.some(x => b.some(y => String(x).toUpperCase() === String(y).toUpperCase()))
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Excludes remote tokens whose customer has not checked in at the outlet yet
+ */
+export const CALLABLE = { NOT: { isRemote: true, checkedInAt: null } }
+
+/**
+ * Place in arrival order (ms); a no-show put back in the queue sits just behind the token it was
+ * re-queued after. Arrival time rather than tokenNumber, since wrapped sequences reuse low numbers.
+ */
+export const queuePlace = (token: { createdAt: Date; requeuedAfter?: number | null }, requeueAnchors: Map<number, Date>) =>
+  token.requeuedAfter != null
+    ? (requeueAnchors.get(token.requeuedAfter)?.getTime() ?? Date.now()) + 0.5
+    : token.createdAt.getTime()
+
+class QueueDispatcher {
+  async loadOfficer(officerId: string): Promise<DispatchOfficer | null> {
+    const officer = await prisma.officer.findUnique({
+      where: { id: officerId },
+      select: { id: true, name: true, outletId: true, counterNumber: true, assignedServices: true, languages: true },
+    })
+    if (!officer) return null
+    let services = toStringArray(officer.assignedServices)
+    let counterClosed: string | undefined
+    if (officer.counterNumber && officer.counterNumber > 0) {
+      const counter = await counterService.getCounter(officer.outletId, officer.counterNumber)
+      if (counter && counter.allowedServices.length > 0) services = services.filter(code => hasAny([code], counter.allowedServices))
+      if (counter && !counter.isOpen) counterClosed = `Counter #${counter.number} is closed${counter.closedReason ? ` (${counter.closedReason})` : ''}. Ask your manager to open it or move you to another counter.`
+    }
+    return {
+      id: officer.id,
+      name: officer.name,
+      outletId: officer.outletId,
+      counterNumber: officer.counterNumber,
+      services,
+      languages: toStringArray(officer.languages),
+      ...(counterClosed ? { counterClosed } : {}),
+    }
+  }
+
+  async getOutletStrategy(outletId: string): Promise<DispatchStrategyName> {
+    const outlet = await prisma.outlet.findUnique({ where: { id: outletId }, select: { dispatchStrategy: true } })
+    return isDispatchStrategy(outlet?.dispatchStrategy) ? outlet!.dispatchStrategy as DispatchStrategyName : DEFAULT_DISPATCH_STRATEGY
+  }
+
+  /**
+   * Per-service weight and target wait for an outlet, keyed by service code
+   */
+  async getServiceSettings(outletId: string): Promise<Map<string, ServiceDispatchSettings>> {
+    const [settings, targets] = await Promise.all([
+      prisma.outletServiceSetting.findMany({
+        where: { outletId },
+        select: { dispatchWeight: true, service: { select: { code: true } } },
+      }),
+      slaService.getTargets(outletId),
+    ])
+    const weights = new Map(settings.map(s => [s.service.code, s.dispatchWeight > 0 ? s.dispatchWeight : 1]))
+    return new Map([...targets.entries()].map(([code, target]) => [code, {
+      weight: weights.get(code) ?? 1,
+      targetWaitMinutes: target.targetWaitMinutes > 0 ? target.targetWaitMinutes : DEFAULT_TARGET_WAIT_MINUTES,
+    }]))
+  }
+
+  private emptyExplanation(strategy: DispatchStrategyName, now: Date): DispatchExplanation {
+    return { strategy, stage: null, pool: null, evaluatedAt: now.toISOString(), considered: 0, chosen: null, ranking: [], rejected: [] }
+  }
+
+  /**
+   * Choose the next token for the officer without claiming it
+   */
+  async selectNext(officer: DispatchOfficer, options: { allowUnmatched?: boolean; strategy?: DispatchStrategyName; now?: Date } = {}): Promise<DispatchResult> {
+    const now = options.now || new Date()
+    const strategy = options.strategy || await this.getOutletStrategy(officer.outletId)
+    const explanation = this.emptyExplanation(strategy, now)
+    const lastReset = getLastDailyReset()
+
+    if (officer.counterClosed) {
+      return { token: null, explanation, error: officer.counterClosed }
+    }
+
+    if (options.allowUnmatched) {
+      const token = await prisma.token.findFirst({
+        where: { outletId: officer.outletId, status: 'waiting', isTransferred: false, createdAt: { gte: lastReset }, ...CALLABLE },
+        orderBy: { createdAt: 'asc' },
+        include: { customer: true },
+      })
+      if (!token) return { token: null, explanation, message: 'No waiting tokens available' }
+      explanation.stage = 'unmatched_override'
+      explanation.pool = 'any'
+      explanation.considered = 1
+      explanation.chosen = { tokenId: token.id, tokenNumber: token.tokenNumber, score: 0, reasons: ['Service / language matching bypassed; longest waiting token'] }
+      return { token, explanation }
+    }
+
+    if (officer.services.length === 0) {
+      return { token: null, explanation, error: 'You have no assigned services for this counter. Please contact your manager.' }
+    }
+    if (officer.languages.length === 0) {
+      return { token: null, explanation, error: 'You have no assigned languages. Please contact your manager.' }
+    }
+
+    // Transferred customers (and journeys moving to their next step) already waited in another
+    // queue: first those sent to this counter, then those sent to any counter with the service
+    const transferScopes = officer.counterNumber && officer.counterNumber > 0 ? [officer.counterNumber, null] : [null]
+    for (const counterNumber of transferScopes) {
+      const transferred = await prisma.token.findFirst({
+        where: {
+          outletId: officer.outletId,
+          status: 'waiting',
+          isTransferred: true,
+          counterNumber,
+          serviceTypes: { hasSome: officer.services },
+          createdAt: { gte: lastReset },
+          ...CALLABLE,
+        },
+        orderBy: { createdAt: 'asc' },
+        include: { customer: true },
+      })
+      if (transferred) {
+        explanation.stage = 'transfer_priority'
+        explanation.pool = 'transferred'
+        explanation.considered = 1
+        explanation.chosen = {
+          tokenId: transferred.id,
+          tokenNumber: transferred.tokenNumber,
+          score: 0,
+          reasons: [counterNumber
+            ? `Transferred to counter ${counterNumber}; transferred customers are served before new arrivals`
+            : 'Transferred for this service; transferred customers are served before new arrivals'],
+        }
+        return { token: transferred, explanation }
+      }
+    }
+
+    const baseWhere = {
+      outletId: officer.outletId,
+      status: 'waiting',
+      isTransferred: false,
+      serviceTypes: { hasSome: officer.services },
+      createdAt: { gte: lastReset },
+      ...CALLABLE,
+    }
+
+    // Tokens that aged past the override score go to the first officer with the service
+    const counterScope = officer.counterNumber && officer.counterNumber > 0 ? [{ counterNumber: officer.counterNumber }, { counterNumber: null }] : [{ counterNumber: null }]
+    const oldest = await prisma.token.findMany({
+      where: { ...baseWhere, OR: counterScope },
+      orderBy: { createdAt: 'asc' },
+      take: AGING_SCAN_LIMIT,
+      include: { customer: true },
+    })
+    if (oldest.length > 0) {
+      const agingSettings = await tokenAging.getSettings(officer.outletId)
+      const aged = oldest
+        .map(token => ({ token, aging: tokenAging.score(token, agingSettings, now) }))
+        // Re-queued no-shows keep their original arrival time but not its aging
+        .filter(a => a.aging.state === 'override' && a.token.requeuedAfter == null)
+        .sort((a, b) => b.aging.score - a.aging.score || a.token.createdAt.getTime() - b.token.createdAt.getTime())
+      if (aged.length > 0) {
+        const reasonsFor = (a: typeof aged[number]) => {
+          const tokenLangs = toStringArray(a.token.preferredLanguages)
+          return [
+            `Waited ${a.aging.waitedMinutes} min; aging score ${a.aging.score} passed override score ${a.aging.overrideScore}`,
+            tokenLangs.length === 0 || hasAny(tokenLangs, officer.languages) ? 'Language preference met' : `Language preference (${tokenLangs.join('/')}) waived`,
+          ]
+        }
+        explanation.stage = 'aging_override'
+        explanation.pool = 'aged'
+        explanation.considered = oldest.length
+        explanation.ranking = aged.slice(0, RANKING_LIMIT).map(a => ({ tokenId: a.token.id, tokenNumber: a.token.tokenNumber, score: a.aging.score, reasons: reasonsFor(a) }))
+        explanation.chosen = explanation.ranking[0]
+        return { token: aged[0].token, explanation }
+      }
+    }
+
+    // Priority and regular tokens are fetched separately so a long priority queue cannot
+    // crowd regular tokens out of the candidates once a category quota is reached
+    const fetchCandidates = async (counterNumber: number | null | undefined, take: number) => {
+      const [priority, regular] = await Promise.all([true, false].map(isPriority => prisma.token.findMany({
+        where: { ...baseWhere, counterNumber, isPriority },
+        orderBy: { createdAt: 'asc' },
+        take,
+        include: { customer: true, priorityCategory: true },
+      })))
+      return [...priority, ...regular]
+    }
+
+    // Tokens for this counter first, then the general pool
+    let pool: 'counter' | 'general' = 'counter'
+    let candidates = await fetchCandidates(officer.counterNumber && officer.counterNumber > 0 ? officer.counterNumber : undefined, 20)
+    if (candidates.length === 0) {
+      pool = 'general'
+      candidates = await fetchCandidates(null, 50)
+    }
+    explanation.pool = pool
+    explanation.considered = candidates.length
+
+    const eligible: { token: typeof candidates[number]; languageMatch: boolean }[] = []
+    for (const token of candidates) {
+      const tokenLangs = toStringArray(token.preferredLanguages)
+      if (tokenLangs.length === 0) {
+        eligible.push({ token, languageMatch: false })
+      } else if (hasAny(tokenLangs, officer.languages)) {
+        eligible.push({ token, languageMatch: true })
+      } else {
+        explanation.rejected.push({ tokenId: token.id, tokenNumber: token.tokenNumber, reason: `Language mismatch: wants ${tokenLangs.join('/')}` })
+      }
+    }
+
+    if (eligible.length === 0) {
+      return { token: null, explanation, message: 'No tokens match your assigned services and languages right now' }
+    }
+
+    const serviceSettings = strategy === 'service_weighted' || strategy === 'sla_aware'
+      ? await this.getServiceSettings(officer.outletId)
+      : new Map<string, ServiceDispatchSettings>()
+
+    // Category quotas only matter when a categorised priority token is in the running
+    const quotas = eligible.some(e => e.token.isPriority && e.token.priorityCategoryId)
+      ? await priorityService.quotaState(officer.outletId, now)
+      : new Map()
+    const priorityOf = (token: typeof candidates[number]): { weight: number; reason: string | null } => {
+      if (!token.isPriority) return { weight: 0, reason: null }
+      const category = token.priorityCategory
+      if (!category) return { weight: DEFAULT_PRIORITY_WEIGHT, reason: 'Marked as priority customer' }
+      const quota = quotas.get(category.id)
+      if (quota?.reached) return { weight: 0, reason: `${category.name} quota of ${quota.quota} per hour reached; queued as a regular token` }
+      return { weight: category.weight, reason: `Priority: ${category.name} (weight ${category.weight})` }
+    }
+
+    // A re-queued no-show takes its place and wait from the arrival of the token it was put behind
+    // (the latest token with that number, should a wrapped sequence have reused it)
+    const anchorNumbers = Array.from(new Set(eligible.map(e => e.token.requeuedAfter).filter((n): n is number => n != null)))
+    const requeueAnchors = new Map<number, Date>()
+    if (anchorNumbers.length > 0) {
+      const anchors = await prisma.token.findMany({
+        where: { outletId: officer.outletId, tokenNumber: { in: anchorNumbers }, createdAt: { gte: lastReset } },
+        select: { tokenNumber: true, createdAt: true },
+      })
+      for (const anchor of anchors) {
+        const seen = requeueAnchors.get(anchor.tokenNumber)
+        if (!seen || anchor.createdAt > seen) requeueAnchors.set(anchor.tokenNumber, anchor.createdAt)
+      }
+    }
+
+    const ranked = eligible.map(({ token, languageMatch }) => {
+      const scored = this.score(strategy, token, languageMatch, serviceSettings, now, requeueAnchors)
+      const priority = priorityOf(token)
+      return { token, priorityWeight: priority.weight, score: scored.score, reasons: priority.reason ? [priority.reason, ...scored.reasons] : scored.reasons }
+    })
+    ranked.sort((a, b) => {
+      if (a.priorityWeight !== b.priorityWeight) return b.priorityWeight - a.priorityWeight
+      if (b.score !== a.score) return b.score - a.score
+      return queuePlace(a.token, requeueAnchors) - queuePlace(b.token, requeueAnchors)
+    })
+
+    explanation.ranking = ranked.slice(0, RANKING_LIMIT).map(r => ({ tokenId: r.token.id, tokenNumber: r.token.tokenNumber, score: r.score, reasons: r.reasons }))
+    const winner = ranked[0]
+    explanation.stage = winner.priorityWeight > 0 ? 'priority_flag' : 'strategy'
+    explanation.chosen = explanation.ranking[0]
+    return { token: winner.token, explanation }
+  }
+
+  /**
+   * Higher score is served first (after priority tokens)
+   */
+  private score(
+    strategy: DispatchStrategyName,
+    token: { tokenNumber: number; createdAt: Date; serviceTypes: string[]; requeuedAfter: number | null; parkedMinutes: number },
+    languageMatch: boolean,
+    serviceSettings: Map<string, ServiceDispatchSettings>,
+    now: Date,
+    requeueAnchors: Map<number, Date> = new Map()
+  ): { score: number; reasons: string[] } {
+    // Re-queued no-shows wait as if they arrived with the token they were put behind (no wait when it is unknown)
+    const waitingSince = token.requeuedAfter != null ? requeueAnchors.get(token.requeuedAfter) ?? now : token.createdAt
+    const waitedMinutes = Math.max(0, (now.getTime() - waitingSince.getTime()) / 60000 - token.parkedMinutes)
+    const languageReason = languageMatch ? 'Language match' : 'No language preference'
+    const requeueReason = token.requeuedAfter != null ? [`Re-queued after a no-show; wait counted from token #${token.requeuedAfter}`] : []
+
+    switch (strategy) {
+      case 'service_weighted': {
+        const weights = token.serviceTypes.map(code => serviceSettings.get(code)?.weight ?? 1)
+        const weight = weights.length > 0 ? Math.max(...weights) : 1
+        return {
+          score: round(waitedMinutes * weight),
+          reasons: [`Waited ${round(waitedMinutes)} min × service weight ${weight}`, ...requeueReason, languageReason],
+        }
+      }
+      case 'sla_aware': {
+        // The strictest target among the token's services
+        const targets = token.serviceTypes.map(code => serviceSettings.get(code)?.targetWaitMinutes ?? DEFAULT_TARGET_WAIT_MINUTES)
+        const target = targets.length > 0 ? Math.min(...targets) : DEFAULT_TARGET_WAIT_MINUTES
+        const share = waitedMinutes / target
+        return {
+          score: round(share),
+          reasons: [`Waited ${round(waitedMinutes)} of ${target} min target (${Math.round(share * 100)}%)`, ...requeueReason, languageReason],
+        }
+      }
+      case 'language_first':
+        // Arrival order still orders tokens inside each language group (via the tie-break)
+        return { score: languageMatch ? 1 : 0, reasons: [languageReason, `Token #${token.tokenNumber}`] }
+      case 'strict_fifo':
+      default:
+        return {
+          score: 0,
+          reasons: [token.requeuedAfter != null ? `Re-queued after a no-show, behind token #${token.requeuedAfter}` : `Token #${token.tokenNumber} in arrival order`, languageReason],
+        }
+    }
+  }
+
+  /**
+   * Assign the token to the officer if it is still waiting (false when another officer got it first)
+   */
+  async claimToken(tokenId: string, officer: { id: string; counterNumber: number | null }): Promise<boolean> {
+    const result = await prisma.token.updateMany({
+      where: { id: tokenId, status: 'waiting' },
+      data: {
+        status: 'in_service',
+        assignedTo: officer.id,
+        counterNumber: officer.counterNumber,
+        calledAt: new Date(),
+        startedAt: new Date(),
+        // A fresh call: the no-show clock starts again
+        arrivedAt: null,
+        recallCount: 0,
+        requeuedAfter: null,
+      },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Why a manually called token does (or does not) fit the dispatch rules for this counter,
+   * and which token Next would have picked instead
+   */
+  async explainToken(
+    officer: DispatchOfficer,
+    token: { id: string; tokenNumber: number; serviceTypes: string[]; preferredLanguages: unknown; isTransferred: boolean; counterNumber: number | null; createdAt: Date }
+  ) {
+    const tokenLangs = toStringArray(token.preferredLanguages)
+    const serviceMatch = hasAny(token.serviceTypes || [], officer.services)
+    const languageMatch = tokenLangs.length === 0 || hasAny(tokenLangs, officer.languages)
+
+    let transferPosition: number | null = null
+    if (token.isTransferred && token.counterNumber) {
+      transferPosition = await prisma.token.count({
+        where: {
+          outletId: officer.outletId,
+          status: 'waiting',
+          isTransferred: true,
+          counterNumber: token.counterNumber,
+          createdAt: { gte: getLastDailyReset(), lt: token.createdAt },
+        },
+      }) + 1
+    }
+
+    const next = await this.selectNext(officer)
+    return {
+      serviceMatch,
+      languageMatch,
+      transferPosition,
+      dispatcherChoice: next.explanation.chosen,
+      followsDispatchOrder: next.explanation.chosen?.tokenId === token.id,
+      explanation: next.explanation,
+    }
+  }
+}
+
+export const queueDispatcher = new QueueDispatcher()
+export default queueDispatcher
@@ -0,0 +1,337 @@
+/**
+ * Redaction Service - Masks personal data before it reaches any log sink
+ *
+ * One rule set is applied to pino, the global console and SystemLog batches:
+ * free-text patterns (mobile numbers, NICs, emails, OTP codes, JWTs) and
+ * object field names (password, otpCode, nicNumber, ...). Rules live in
+ * SystemSetting so compliance can tighten them without a deploy.
+ *
+ * Redaction has to be synchronous (console / pino call sites are), so the
+ * policy is compiled into memory and refreshed in the background. Every
+ * redaction is counted per rule and per field path pattern (indices and ids
+ * collapsed, capped) so admins can see what is being masked; SystemLog rows
+ * also record the paths they had redacted.
+ */
+
+import { prisma } from "../server"
+
+export type MaskStyle = 'full' | 'partial'
+
+export interface RedactionPattern {
+  name: string
+  /** Regular expression source */
+  pattern: string
+  flags?: string
+  mask: MaskStyle
+  /** Characters kept at the end for partial masks (e.g. last 3 digits of a mobile) */
+  keepEnd?: number
+  /** Replacement string instead of masking (may use $1..$9), e.g. to keep an "OTP:" prefix */
+  replacement?: string
+  enabled: boolean
+}
+
+export interface RedactionField {
+  /** Object key, matched case-insensitively */
+  name: string
+  mask: MaskStyle
+  keepEnd?: number
+}
+
+export interface RedactionPolicy {
+  enabled: boolean
+  patterns: RedactionPattern[]
+  fields: RedactionField[]
+}
+
+export interface RedactionResult<T> {
+  value: T
+  /** Paths (or "message") and the rule that masked them, e.g. "body.mobileNumber:field" */
+  redactions: string[]
+}
+
+const POLICY_SETTING_KEY = 'pii_redaction_policy'
+const REFRESH_INTERVAL_MS = 60 * 1000
+const MAX_DEPTH = 6
+// Distinct path:rule counters kept for the stats view; further paths are pooled under OTHER_PATHS
+const MAX_PATH_STATS = 500
+const OTHER_PATHS = '(other)'
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  enabled: true,
+  patterns: [
+    { name: 'jwt', pattern: 'eyJ[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+', mask: 'full', enabled: true },
+    { name: 'email', pattern: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}', mask: 'full', enabled: true },
+    { name: 'otp', pattern: '\\b(otp|code|pin)(\\s*(?:code)?\\s*(?:is)?\\s*[:=]?\\s*["\']?)\\d{4,8}\\b', flags: 'i', mask: 'full', replacement: '$1$2[REDACTED]', enabled: true },
+    { name: 'mobile', pattern: '(?<!\\d)(?:\\+94|94|0)7\\d{8}(?!\\d)', mask: 'partial', keepEnd: 3, enabled: true },
+    { name: 'nic', pattern: '(?<![\\dA-Za-z])(?:\\d{9}[VvXx]|(?:19|20)\\d{10})(?![\\dA-Za-z])', mask: 'partial', keepEnd: 2, enabled: true },
+  ],
+  fields: [
+    { name: 'password', mask: 'full' },
+    { name: 'kioskPassword', mask: 'full' },
+    { name: 'otp', mask: 'full' },
+    { name: 'otpCode', mask: 'full' },
+    { name: 'totpCode', mask: 'full' },
+    { name: 'backupCode', mask: 'full' },
+    { name: 'secret', mask: 'full' },
+    { name: 'accessToken', mask: 'full' },
+    { name: 'refreshToken', mask: 'full' },
+    { name: 'authorization', mask: 'full' },
+    { name: 'cookie', mask: 'full' },
+    { name: 'deviceKey', mask: 'full' },
+    { name: 'mobileNumber', mask: 'partial', keepEnd: 3 },
+    { name: 'mobile', mask: 'partial', keepEnd: 3 },
+    { name: 'nicNumber', mask: 'partial', keepEnd: 2 },
+    { name: 'nic', mask: 'partial', keepEnd: 2 },
+    { name: 'email', mask: 'full' },
+  ],
+}
+
+interface CompiledPattern {
+  rule: RedactionPattern
+  regex: RegExp
+}
+
+const maskValue = (value: string, mask: MaskStyle, keepEnd: number = 0, label?: string): string => {
+  if (mask === 'full' || keepEnd <= 0 || value.length <= keepEnd) return label ? `[REDACTED:${label}]` : '[REDACTED]'
+  return '*'.repeat(value.length - keepEnd) + value.slice(-keepEnd)
+}
+
+// Stats key for a field path: array indices and id-like segments collapse so paths stay a bounded set
+const pathPattern = (path: string): string =>
+  path
+    .replace(/\[\d+\]/g, '[]')
+    .split('.')
+    .map(segment => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) || /^\d+$/.test(segment) ? ':id' : segment)
+    .join('.')
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null)
+
+class RedactionService {
+  private policy: RedactionPolicy = DEFAULT_REDACTION_POLICY
+  private compiled: CompiledPattern[] = []
+  private fieldIndex = new Map<string, RedactionField>()
+  private counts = { byRule: {} as Record<string, number>, byPath: {} as Record<string, number>, since: new Date() }
+  private refreshTimer: NodeJS.Timeout | null = null
+  private consoleInstalled = false
+
+  constructor() {
+    this.compile(DEFAULT_REDACTION_POLICY)
+  }
+
+  private compile(policy: RedactionPolicy) {
+    const compiled: CompiledPattern[] = []
+    for (const rule of policy.patterns) {
+      if (!rule.enabled) continue
+      try {
+        const flags = Array.from(new Set(`${rule.flags || ''}g`)).join('')
+        compiled.push({ rule, regex: new RegExp(rule.pattern, flags) })
+      } catch (error) {
+        // Keep logging working even if a stored rule is broken
+        process.stderr.write(`[Redaction] Skipping invalid pattern "${rule.name}": ${(error as Error).message}\n`)
+      }
+    }
+    this.policy = policy
+    this.compiled = compiled
+    this.fieldIndex = new Map(policy.fields.map(field => [field.name.toLowerCase(), field]))
+  }
+
+  private normalizePolicy(input: any): RedactionPolicy {
+    const defaults = DEFAULT_REDACTION_POLICY
+    const patterns = Array.isArray(input?.patterns)
+      ? input.patterns
+        .filter((p: any) => p && typeof p.name === 'string' && typeof p.pattern === 'string')
+        .map((p: any): RedactionPattern => ({
+          name: p.name,
+          pattern: p.pattern,
+          flags: typeof p.flags === 'string' ? p.flags.replace(/[^gimsuy]/g, '') : undefined,
+          mask: p.mask === 'partial' ? 'partial' : 'full',
+          keepEnd: Number.isFinite(Number(p.keepEnd)) ? Math.max(0, Math.floor(Number(p.keepEnd))) : undefined,
+          replacement: typeof p.replacement === 'string' ? p.replacement : undefined,
+          enabled: p.enabled !== false,
+        }))
+      : defaults.patterns
+    const fields = Array.isArray(input?.fields)
+      ? input.fields
+        .filter((f: any) => f && typeof f.name === 'string' && f.name.trim())
+        .map((f: any): RedactionField => ({
+          name: f.name.trim(),
+          mask: f.mask === 'partial' ? 'partial' : 'full',
+          keepEnd: Number.isFinite(Number(f.keepEnd)) ? Math.max(0, Math.floor(Number(f.keepEnd))) : undefined,
+        }))
+      : defaults.fields
+    return { enabled: typeof input?.enabled === 'boolean' ? input.enabled : defaults.enabled, patterns, fields }
+  }
+
+  /**
+   * Load the stored policy and keep it fresh (other instances may change it)
+   */
+  async start(): Promise<void> {
+    await this.refresh()
+    if (!this.refreshTimer) {
+      this.refreshTimer = setInterval(() => { this.refresh().catch(() => undefined) }, REFRESH_INTERVAL_MS)
+      this.refreshTimer.unref()
+    }
+  }
+
+  async refresh(): Promise<RedactionPolicy> {
+    const setting = await prisma.systemSetting.findUnique({ where: { key: POLICY_SETTING_KEY } })
+    let stored: any = {}
+    if (setting?.value) {
+      try {
+        stored = JSON.parse(setting.value)
+      } catch {
+        stored = {}
+      }
+    }
+    this.compile(this.normalizePolicy(stored))
+    return this.policy
+  }
+
+  getPolicy(): RedactionPolicy {
+    return this.policy
+  }
+
+  /**
+   * Replace the policy (patterns / fields lists are replaced as a whole when given).
+   * Returns the stored policy plus any patterns that failed to compile.
+   */
+  async updatePolicy(changes: any): Promise<{ policy: RedactionPolicy; invalidPatterns: string[] }> {
+    const merged = this.normalizePolicy({ ...this.policy, ...changes })
+    const invalidPatterns = merged.patterns.filter(rule => {
+      try {
+        new RegExp(rule.pattern, rule.flags)
+        return false
+      } catch {
+        return true
+      }
+    }).map(rule => rule.name)
+    if (invalidPatterns.length > 0) return { policy: this.policy, invalidPatterns }
+
+    await prisma.systemSetting.upsert({
+      where: { key: POLICY_SETTING_KEY },
+      update: { value: JSON.stringify(merged) },
+      create: { key: POLICY_SETTING_KEY, value: JSON.stringify(merged) },
+    })
+    this.compile(merged)
+    return { policy: merged, invalidPatterns }
+  }
+
+  private count(rule: string, path: string) {
+    this.counts.byRule[rule] = (this.counts.byRule[rule] || 0) + 1
+    let key = `${pathPattern(path)}:${rule}`
+    if (!(key in this.counts.byPath) && Object.keys(this.counts.byPath).length >= MAX_PATH_STATS) {
+      key = `${OTHER_PATHS}:${rule}`
+    }
+    this.counts.byPath[key] = (this.counts.byPath[key] || 0) + 1
+  }
+
+  /**
+   * Mask PII inside free text
+   */
+  redactText(text: string, path: string = 'message', redactions?: string[]): string {
+    if (!this.policy.enabled || !text) return text
+    let result = text
+    for (const { rule, regex } of this.compiled) {
+      regex.lastIndex = 0
+      if (!regex.test(result)) continue
+      regex.lastIndex = 0
+      result = rule.replacement !== undefined
+        ? result.replace(regex, rule.replacement)
+        : result.replace(regex, (match) => maskValue(match, rule.mask, rule.keepEnd, rule.name))
+      this.count(rule.name, path)
+      redactions?.push(`${path}:${rule.name}`)
+    }
+    return result
+  }
+
+  private redactNode(value: unknown, path: string, depth: number, seen: WeakSet<object>, redactions: string[]): unknown {
+    if (typeof value === 'string') return this.redactText(value, path, redactions)
+    if (!value || typeof value !== 'object') return value
+    if (depth > MAX_DEPTH || seen.has(value)) return value
+    seen.add(value)
+
+    if (value instanceof Error) {
+      const copy = new Error(this.redactText(value.message, `${path}.message`, redactions))
+      copy.name = value.name
+      copy.stack = value.stack ? this.redactText(value.stack, `${path}.stack`, redactions) : undefined
+      return copy
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactNode(item, `${path}[${index}]`, depth + 1, seen, redactions))
+    }
+    if (!isPlainObject(value)) return value
+
+    const out: Record<string, unknown> = {}
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = path ? `${path}.${key}` : key
+      const field = this.fieldIndex.get(key.toLowerCase())
+      if (field && child !== null && child !== undefined && child !== '' && typeof child !== 'object') {
+        out[key] = maskValue(String(child), field.mask, field.keepEnd)
+        this.count('field', childPath)
+        redactions.push(`${childPath}:field`)
+      } else {
+        out[key] = this.redactNode(child, childPath, depth + 1, seen, redactions)
+      }
+    }
+    return out
+  }
+
+  /**
+   * Mask PII in any value (strings, errors, plain objects and arrays).
+   * Class instances other than Error are passed through untouched.
+   */
+  redact<T>(value: T, path: string = ''): RedactionResult<T> {
+    const redactions: string[] = []
+    if (!this.policy.enabled) return { value, redactions }
+    const result = this.redactNode(value, path, 0, new WeakSet(), redactions) as T
+    return { value: result, redactions: Array.from(new Set(redactions)) }
+  }
+
+  redactArgs(args: unknown[]): unknown[] {
+    if (!this.policy.enabled) return args
+    return args.map((arg, index) => this.redact(arg, typeof arg === 'string' ? 'message' : `arg${index}`).value)
+  }
+
+  /**
+   * Route console.log / info / warn / error / debug through the redaction rules
+   */
+  installConsoleRedaction(): void {
+    if (this.consoleInstalled) return
+    this.consoleInstalled = true
+    const methods = ['log', 'info', 'warn', 'error', 'debug'] as const
+    for (const method of methods) {
+      const original = console[method].bind(console)
+      console[method] = (...args: unknown[]) => {
+        let safeArgs = args
+        try {
+          safeArgs = this.redactArgs(args)
+        } catch {
+          safeArgs = args
+        }
+        original(...safeArgs)
+      }
+    }
+  }
+
+  /**
+   * What has been masked since startup, per rule and per field path (admin view)
+   */
+  getStats() {
+    const topPaths = Object.entries(this.counts.byPath)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 100)
+      .map(([key, count]) => {
+        const separator = key.lastIndexOf(':')
+        return { path: key.slice(0, separator), rule: key.slice(separator + 1), count }
+      })
+    return { since: this.counts.since, byRule: { ...this.counts.byRule }, topPaths }
+  }
+
+  resetStats() {
+    this.counts = { byRule: {}, byPath: {}, since: new Date() }
+  }
+}
+
+export const redactionService = new RedactionService()
+export default redactionService
@@ -0,0 +1,312 @@
+/**
+ * Remote Queue Service - Joining an outlet's queue from home
+ *
+ * Services opt in per outlet (OutletServiceSetting.remoteJoinEnabled) with an
+ * optional cap on remote tokens waiting at once (remoteJoinCap). A remote
+ * token queues like any other but cannot be called until the customer
+ * checks in at the outlet:
+ *
+ *   kiosk     - the outlet kiosk finds the token by number or mobile
+ *   qr        - the customer scans the outlet's door QR (manager QR token)
+ *   geofence  - the tracking page sends the phone's position, which must be
+ *               within Outlet.geofenceRadiusMeters of the outlet
+ *
+ * Until then /next-token passes over it; a remote token that reaches the
+ * front without checking in is "held" and keeps its place. Customers get
+ * a leave-now SMS once the ETA drops to their travel time plus a buffer.
+ */
+
+import type { Prisma } from "@prisma/client"
+import { prisma, broadcast } from "../server"
+import { getLastDailyReset } from "../utils/resetWindow"
+import { getTrackingUrl } from "../utils/urlHelper"
+import { calculateEstimatedWaitTime } from "../utils/waitEstimate"
+import { displayToken } from "../utils/tokenFormat"
+import sltSmsService from "./sltSmsService"
+import { toStringArray } from "./queueDispatcher"
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+export type CheckInMethod = 'kiosk' | 'qr' | 'geofence'
+
+export interface RemoteServiceSetting {
+  enabled: boolean
+  cap: number | null
+}
+
+export interface RemoteJoinSettingsInput {
+  latitude?: number | null
+  longitude?: number | null
+  geofenceRadiusMeters?: number
+  services?: { serviceId: string; remoteJoinEnabled?: boolean; remoteJoinCap?: number | null }[]
+}
+
+export class RemoteQueueError extends Error {
+  constructor(message: string, public readonly status: 400 | 403 | 404 | 409 = 400) {
+    super(message)
+    this.name = 'RemoteQueueError'
+  }
+}
+
+const DEFAULT_TRAVEL_MINUTES = Number(process.env.REMOTE_DEFAULT_TRAVEL_MINUTES || 20)
+const LEAVE_BUFFER_MINUTES = Number(process.env.REMOTE_LEAVE_BUFFER_MINUTES || 10)
+const MAX_TRAVEL_MINUTES = 180
+const MAX_GEOFENCE_METERS = 5000
+
+/**
+ * Great-circle distance in metres
+ */
+export function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(lat2 - lat1)
+  const dLon = toRad(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+class RemoteQueueService {
+  async getServiceSettings(outletId: string, db: Db = prisma): Promise<Map<string, RemoteServiceSetting>> {
+    const rows = await db.outletServiceSetting.findMany({
+      where: { outletId },
+      select: { remoteJoinEnabled: true, remoteJoinCap: true, service: { select: { code: true } } },
+    })
+    return new Map(rows.map(row => [row.service.code, { enabled: row.remoteJoinEnabled, cap: row.remoteJoinCap }]))
+  }
+
+  /**
+   * Outlet location, geofence and per-service remote joining for the manager screen
+   */
+  async getSettings(outletId: string) {
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: outletId },
+      select: { latitude: true, longitude: true, geofenceRadiusMeters: true },
+    })
+    if (!outlet) return null
+    const [services, settings, counts] = await Promise.all([
+      prisma.service.findMany({ where: { isActive: true }, orderBy: [{ order: 'asc' }, { createdAt: 'asc' }], select: { id: true, code: true, title: true } }),
+      this.getServiceSettings(outletId),
+      this.activeRemoteCounts(outletId),
+    ])
+    return {
+      ...outlet,
+      services: services.map(service => ({
+        serviceId: service.id,
+        code: service.code,
+        title: service.title,
+        remoteJoinEnabled: settings.get(service.code)?.enabled ?? false,
+        remoteJoinCap: settings.get(service.code)?.cap ?? null,
+        activeRemoteTokens: counts.get(service.code) || 0,
+      })),
+    }
+  }
+
+  validateSettings(input: RemoteJoinSettingsInput): string | null {
+    const { latitude, longitude, geofenceRadiusMeters, services } = input
+    if ((latitude === null) !== (longitude === null)) return 'latitude and longitude must be cleared together'
+    if (latitude !== undefined && latitude !== null && !(Number.isFinite(latitude) && latitude >= -90 && latitude <= 90)) {
+      return 'latitude must be between -90 and 90'
+    }
+    if (longitude !== undefined && longitude !== null && !(Number.isFinite(longitude) && longitude >= -180 && longitude <= 180)) {
+      return 'longitude must be between -180 and 180'
+    }
+    if (geofenceRadiusMeters !== undefined && !(Number.isInteger(geofenceRadiusMeters) && geofenceRadiusMeters >= 10 && geofenceRadiusMeters <= MAX_GEOFENCE_METERS)) {
+      return `geofenceRadiusMeters must be a whole number from 10 to ${MAX_GEOFENCE_METERS}`
+    }
+    if (services !== undefined && !Array.isArray(services)) return 'services must be an array'
+    for (const entry of services || []) {
+      if (!entry?.serviceId) return 'Each service entry needs a serviceId'
+      if (entry.remoteJoinEnabled !== undefined && typeof entry.remoteJoinEnabled !== 'boolean') return 'remoteJoinEnabled must be true or false'
+      if (entry.remoteJoinCap !== undefined && entry.remoteJoinCap !== null && !(Number.isInteger(entry.remoteJoinCap) && entry.remoteJoinCap >= 0)) {
+        return 'remoteJoinCap must be a whole number of 0 or more, or null for no cap'
+      }
+    }
+    return null
+  }
+
+  async updateSettings(outletId: string, input: RemoteJoinSettingsInput) {
+    await prisma.outlet.update({
+      where: { id: outletId },
+      data: { latitude: input.latitude, longitude: input.longitude, geofenceRadiusMeters: input.geofenceRadiusMeters },
+    })
+    for (const entry of input.services || []) {
+      const data = { remoteJoinEnabled: entry.remoteJoinEnabled, remoteJoinCap: entry.remoteJoinCap }
+      await prisma.outletServiceSetting.upsert({
+        where: { outletId_serviceId: { outletId, serviceId: entry.serviceId } },
+        update: data,
+        create: { outletId, serviceId: entry.serviceId, ...data },
+      })
+    }
+    return this.getSettings(outletId)
+  }
+
+  /**
+   * Remote tokens still in the queue for each service today
+   */
+  async activeRemoteCounts(outletId: string, db: Db = prisma): Promise<Map<string, number>> {
+    const tokens = await db.token.findMany({
+      where: { outletId, isRemote: true, status: { in: ['waiting', 'parked'] }, createdAt: { gte: getLastDailyReset() } },
+      select: { serviceTypes: true },
+    })
+    const counts = new Map<string, number>()
+    for (const token of tokens) {
+      for (const code of token.serviceTypes) counts.set(code, (counts.get(code) || 0) + 1)
+    }
+    return counts
+  }
+
+  /**
+   * Services open for remote joining at an outlet, with the places left under each cap
+   */
+  async listJoinableServices(outletId: string) {
+    const [settings, counts, services] = await Promise.all([
+      this.getServiceSettings(outletId),
+      this.activeRemoteCounts(outletId),
+      prisma.service.findMany({ where: { isActive: true }, orderBy: [{ order: 'asc' }, { createdAt: 'asc' }], select: { code: true, title: true } }),
+    ])
+    return services
+      .filter(service => settings.get(service.code)?.enabled)
+      .map(service => {
+        const cap = settings.get(service.code)!.cap
+        const active = counts.get(service.code) || 0
+        return { ...service, cap, placesLeft: cap === null ? null : Math.max(0, cap - active) }
+      })
+  }
+
+  validateTravelMinutes(value: unknown): string | null {
+    if (value === undefined || value === null) return null
+    const minutes = Number(value)
+    return Number.isInteger(minutes) && minutes >= 0 && minutes <= MAX_TRAVEL_MINUTES
+      ? null
+      : `travelMinutes must be a whole number from 0 to ${MAX_TRAVEL_MINUTES}`
+  }
+
+  /**
+   * Why these services cannot be joined remotely right now, or null when they can.
+   * Run it inside the token-issuing transaction so concurrent joins cannot pass the cap.
+   */
+  async checkJoin(outletId: string, serviceTypes: string[], db: Db = prisma): Promise<RemoteQueueError | null> {
+    const settings = await this.getServiceSettings(outletId, db)
+    const counts = await this.activeRemoteCounts(outletId, db)
+    for (const code of serviceTypes) {
+      const setting = settings.get(code)
+      if (!setting?.enabled) return new RemoteQueueError(`Service ${code} cannot be joined remotely at this outlet`, 403)
+      if (setting.cap !== null && (counts.get(code) || 0) >= setting.cap) {
+        return new RemoteQueueError(`The remote queue for ${code} is full. Please try again later or visit the outlet.`, 409)
+      }
+    }
+    return null
+  }
+
+  /**
+   * Place and ETA of a waiting token (position 1 means next)
+   */
+  async estimate(token: { outletId: string; createdAt: Date }) {
+    const position = await prisma.token.count({
+      where: { outletId: token.outletId, status: 'waiting', createdAt: { gte: getLastDailyReset(), lt: token.createdAt } },
+    }) + 1
+    return { position, etaMinutes: await calculateEstimatedWaitTime(token.outletId, position) }
+  }
+
+  /**
+   * Remote-join details for the tracking page (null for walk-in tokens)
+   */
+  async describe(token: { id: string; outletId: string; tokenNumber: number; createdAt: Date; status: string; isRemote: boolean; checkedInAt: Date | null; checkInMethod: string | null; travelMinutes: number | null; leaveNotifiedAt: Date | null }) {
+    if (!token.isRemote) return null
+    const waiting = token.status === 'waiting' && !token.checkedInAt
+    const estimate = waiting ? await this.estimate(token) : null
+    const travelMinutes = token.travelMinutes ?? DEFAULT_TRAVEL_MINUTES
+    return {
+      checkInRequired: !token.checkedInAt,
+      checkedInAt: token.checkedInAt,
+      checkInMethod: token.checkInMethod,
+      held: !!estimate && estimate.position === 1,
+      etaMinutes: estimate?.etaMinutes ?? null,
+      leaveInMinutes: estimate ? Math.max(0, estimate.etaMinutes - travelMinutes - LEAVE_BUFFER_MINUTES) : null,
+      leaveNotifiedAt: token.leaveNotifiedAt,
+    }
+  }
+
+  /**
+   * Mark a remote customer as arrived so the token can be called
+   */
+  async checkIn(tokenId: string, method: CheckInMethod, proof: { outletId?: string; qrToken?: string; latitude?: unknown; longitude?: unknown }) {
+    const token = await prisma.token.findUnique({
+      where: { id: tokenId },
+      include: { outlet: { select: { id: true, latitude: true, longitude: true, geofenceRadiusMeters: true } } },
+    })
+    if (!token) throw new RemoteQueueError('Token not found', 404)
+    if (!token.isRemote) throw new RemoteQueueError('This token was issued at the outlet and needs no check-in')
+    if (token.checkedInAt) return prisma.token.findUniqueOrThrow({ where: { id: tokenId }, include: { customer: true, outlet: true } })
+    if (token.status !== 'waiting' && token.status !== 'parked') throw new RemoteQueueError('Token is no longer in the queue')
+
+    switch (method) {
+      case 'kiosk':
+        if (proof.outletId !== token.outletId) throw new RemoteQueueError('This token belongs to another outlet', 403)
+        break
+      case 'qr': {
+        const qr = proof.qrToken ? await prisma.managerQRToken.findUnique({ where: { token: proof.qrToken } }) : null
+        if (!qr) throw new RemoteQueueError('Invalid outlet QR code', 403)
+        if (qr.outletId !== token.outletId) throw new RemoteQueueError('QR code is for another outlet', 403)
+        break
+      }
+      case 'geofence': {
+        const { latitude, longitude, geofenceRadiusMeters } = token.outlet
+        if (latitude === null || longitude === null) throw new RemoteQueueError('Location check-in is not set up for this outlet; please use the kiosk or door QR')
+        const lat = Number(proof.latitude)
+        const lon = Number(proof.longitude)
+        if (!Number.isFinite(lat) || !Number.isFinite(lon)) throw new RemoteQueueError('latitude and longitude are required')
+        const distance = distanceMeters(lat, lon, latitude, longitude)
+        if (distance > geofenceRadiusMeters) {
+          throw new RemoteQueueError(`You are about ${Math.round(distance)} m from the outlet; check in when you arrive`, 403)
+        }
+        break
+      }
+      default:
+        throw new RemoteQueueError('method must be kiosk, qr or geofence')
+    }
+
+    const checkedIn = await prisma.token.update({
+      where: { id: tokenId },
+      data: { checkedInAt: new Date(), checkInMethod: method },
+      include: { customer: true, outlet: true },
+    })
+    broadcast({ type: 'TOKEN_CHECKED_IN', data: checkedIn })
+    return checkedIn
+  }
+
+  /**
+   * Send the leave-now SMS to remote customers whose ETA is down to their travel time
+   */
+  async notifyLeaveNow(): Promise<number> {
+    const tokens = await prisma.token.findMany({
+      where: { isRemote: true, checkedInAt: null, leaveNotifiedAt: null, status: 'waiting', createdAt: { gte: getLastDailyReset() } },
+      include: { customer: true, outlet: { select: { name: true } } },
+    })
+
+    let sent = 0
+    for (const token of tokens) {
+      try {
+        const { etaMinutes } = await this.estimate(token)
+        if (etaMinutes > (token.travelMinutes ?? DEFAULT_TRAVEL_MINUTES) + LEAVE_BUFFER_MINUTES) continue
+
+        const claimed = await prisma.token.updateMany({ where: { id: token.id, leaveNotifiedAt: null }, data: { leaveNotifiedAt: new Date() } })
+        if (claimed.count === 0) continue
+
+        const first = String(toStringArray(token.preferredLanguages)[0] || '').toLowerCase()
+        await sltSmsService.sendLeaveNow(token.customer.mobileNumber, {
+          tokenNumber: displayToken(token),
+          outletName: token.outlet.name,
+          etaMinutes,
+          trackingUrl: getTrackingUrl(token.id),
+        }, first === 'si' || first === 'ta' ? first : 'en')
+        sent++
+      } catch (err) {
+        console.error(`Leave-now SMS failed for token #${token.tokenNumber}:`, err)
+      }
+    }
+    return sent
+  }
+}
+
+export const remoteQueueService = new RemoteQueueService()
+export default remoteQueueService
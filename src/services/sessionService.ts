@@ -0,0 +1,303 @@
+/**
+ * Session Service - Server-side sessions for staff portals and kiosks
+ *
+ * Every login creates a StaffSession row. The client gets a short-lived access
+ * JWT that carries the session id (`sid`) and an opaque refresh token that is
+ * only stored as a hash. Revoking the row blocks refresh immediately and makes
+ * verifyAccessToken reject access tokens already issued for it.
+ */
+
+import type { Request, Response } from "express"
+import * as jwt from "jsonwebtoken"
+import { createHash, randomBytes } from "crypto"
+import { prisma } from "../server"
+
+export type SessionUserType =
+  | 'officer'
+  | 'teleshop_manager'
+  | 'rtom'
+  | 'region_manager'
+  | 'gm'
+  | 'dgm'
+  | 'admin'
+  | 'kiosk'
+
+const JWT_SECRET = process.env.JWT_SECRET || "dev-secret"
+const ACCESS_TOKEN_TTL_MINUTES = Math.max(1, Number(process.env.ACCESS_TOKEN_TTL_MINUTES || 15))
+const REFRESH_TOKEN_TTL_HOURS = Math.max(1, Number(process.env.REFRESH_TOKEN_TTL_HOURS || 24 * 7))
+// Avoid a write per request; lastUsedAt only needs minute precision for the devices list
+const TOUCH_INTERVAL_MS = 60 * 1000
+
+// Access-token cookie each portal reads. The refresh token lives in `<name>_refresh`.
+// Admin and kiosk clients use the Authorization header and keep the refresh token themselves.
+export const SESSION_COOKIES: Partial<Record<SessionUserType, string>> = {
+  officer: 'dq_jwt',
+  teleshop_manager: 'dq_teleshop_manager_jwt',
+  rtom: 'dq_manager_jwt',
+  region_manager: 'dq_manager_jwt',
+  gm: 'dq_gm_jwt',
+  dgm: 'dq_dgm_jwt',
+}
+
+export interface IssuedSession {
+  sessionId: string
+  accessToken: string
+  refreshToken: string
+  accessTokenExpiresAt: Date
+  refreshTokenExpiresAt: Date
+}
+
+export interface SessionSummary {
+  id: string
+  userType: string
+  userId: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: Date
+  lastUsedAt: Date
+  expiresAt: Date
+}
+
+const SESSION_SUMMARY_SELECT = {
+  id: true,
+  userType: true,
+  userId: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+} as const
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+const cookieOptions = (maxAgeMs?: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  ...(maxAgeMs ? { maxAge: maxAgeMs } : {}),
+})
+
+class SessionService {
+  /**
+   * Sign an access token for a session. `claims` is the payload the portal
+   * has always signed (officerId, gmId, ...); `sid` is added on top.
+   */
+  private signAccessToken(sessionId: string, claims: Record<string, any>): { token: string; expiresAt: Date } {
+    const token = (jwt as any).sign({ ...claims, sid: sessionId }, JWT_SECRET as jwt.Secret, {
+      expiresIn: `${ACCESS_TOKEN_TTL_MINUTES}m`,
+    })
+    return { token, expiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_MINUTES * 60 * 1000) }
+  }
+
+  /**
+   * Create a session after a successful login
+   */
+  async startSession(req: Request, userType: SessionUserType, userId: string, claims: Record<string, any>): Promise<IssuedSession> {
+    const refreshToken = randomBytes(48).toString('hex')
+    const refreshTokenExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_HOURS * 60 * 60 * 1000)
+
+    const session = await prisma.staffSession.create({
+      data: {
+        userType,
+        userId,
+        claims,
+        refreshTokenHash: hashToken(refreshToken),
+        userAgent: (req.headers['user-agent'] || '').toString().slice(0, 500) || null,
+        ipAddress: req.ip || null,
+        expiresAt: refreshTokenExpiresAt,
+      },
+    })
+
+    const access = this.signAccessToken(session.id, claims)
+    return {
+      sessionId: session.id,
+      accessToken: access.token,
+      refreshToken,
+      accessTokenExpiresAt: access.expiresAt,
+      refreshTokenExpiresAt,
+    }
+  }
+
+  /**
+   * Verify an access token and check its session is still live.
+   * Returns the JWT payload, or null for invalid, expired, sessionless or revoked tokens.
+   */
+  async verifyAccessToken(token: string): Promise<any | null> {
+    let payload: any
+    try {
+      payload = (jwt as any).verify(token, JWT_SECRET)
+    } catch {
+      return null
+    }
+    if (!payload?.sid) return null
+
+    const session = await prisma.staffSession.findUnique({
+      where: { id: payload.sid },
+      select: { id: true, revokedAt: true, expiresAt: true, lastUsedAt: true },
+    })
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) return null
+
+    if (Date.now() - session.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+      prisma.staffSession.update({ where: { id: session.id }, data: { lastUsedAt: new Date() } })
+        .catch((error) => console.error('Session touch failed:', error))
+    }
+    return payload
+  }
+
+  /**
+   * Exchange a refresh token for a new access token. The refresh token is
+   * rotated on every use; the old one stops working. If the same token is
+   * presented twice at once, only one request rotates it and the session is
+   * revoked as a reused token.
+   */
+  async refreshSession(refreshToken: string): Promise<(IssuedSession & { userType: SessionUserType }) | null> {
+    const presentedHash = hashToken(refreshToken)
+    const session = await prisma.staffSession.findUnique({ where: { refreshTokenHash: presentedHash } })
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) return null
+
+    const nextRefreshToken = randomBytes(48).toString('hex')
+    const rotated = await prisma.staffSession.updateMany({
+      where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+      data: { refreshTokenHash: hashToken(nextRefreshToken), lastUsedAt: new Date() },
+    })
+    if (rotated.count === 0) {
+      await this.revokeSession(session.id, 'system', 'refresh_token_reuse')
+      return null
+    }
+
+    const access = this.signAccessToken(session.id, session.claims as Record<string, any>)
+    return {
+      userType: session.userType as SessionUserType,
+      sessionId: session.id,
+      accessToken: access.token,
+      refreshToken: nextRefreshToken,
+      accessTokenExpiresAt: access.expiresAt,
+      refreshTokenExpiresAt: session.expiresAt,
+    }
+  }
+
+  /**
+   * Revoke a single session. Returns false if it was already revoked or does not exist.
+   */
+  async revokeSession(sessionId: string, revokedBy: string, reason: string = 'logout'): Promise<boolean> {
+    const result = await prisma.staffSession.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedBy, revokeReason: reason },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Revoke every live session of a user ("log out everywhere")
+   */
+  async revokeAllSessions(
+    userType: SessionUserType,
+    userId: string,
+    revokedBy: string,
+    reason: string = 'logout_all',
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await prisma.staffSession.updateMany({
+      where: {
+        userType,
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+      },
+      data: { revokedAt: new Date(), revokedBy, revokeReason: reason },
+    })
+    return result.count
+  }
+
+  /**
+   * Active (unrevoked, unexpired) sessions of a user, newest activity first
+   */
+  async listSessions(userType: SessionUserType, userId: string): Promise<SessionSummary[]> {
+    return prisma.staffSession.findMany({
+      where: { userType, userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: SESSION_SUMMARY_SELECT,
+      orderBy: { lastUsedAt: 'desc' },
+    })
+  }
+
+  async getSession(sessionId: string): Promise<SessionSummary | null> {
+    return prisma.staffSession.findUnique({ where: { id: sessionId }, select: SESSION_SUMMARY_SELECT })
+  }
+
+  /**
+   * Logout helper: revoke the session behind the access or refresh token on the request.
+   * Expired access tokens are accepted here so a stale tab can still log out.
+   * Returns the decoded access-token payload when there was one.
+   */
+  async revokeFromRequest(req: Request, userType: SessionUserType, revokedBy?: string): Promise<any | null> {
+    const cookieName = SESSION_COOKIES[userType]
+    const cookies = (req as any).cookies || {}
+    let accessToken: string | undefined = cookieName ? cookies[cookieName] : undefined
+    if (!accessToken) {
+      const authHeader = req.headers.authorization
+      if (authHeader && authHeader.startsWith('Bearer ')) accessToken = authHeader.substring(7)
+    }
+
+    let payload: any = null
+    if (accessToken) {
+      try {
+        payload = (jwt as any).verify(accessToken, JWT_SECRET, { ignoreExpiration: true })
+      } catch {
+        payload = null
+      }
+    }
+
+    const actor = revokedBy || userType
+    if (payload?.sid) await this.revokeSession(payload.sid, actor, 'logout')
+
+    const refreshToken = this.readRefreshToken(req, userType)
+    if (refreshToken) {
+      await prisma.staffSession.updateMany({
+        where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+        data: { revokedAt: new Date(), revokedBy: actor, revokeReason: 'logout' },
+      })
+    }
+    return payload
+  }
+
+  readRefreshToken(req: Request, userType?: SessionUserType): string | null {
+    if (req.body?.refreshToken) return String(req.body.refreshToken)
+    const cookieName = userType ? SESSION_COOKIES[userType] : undefined
+    const cookies = (req as any).cookies || {}
+    return cookieName ? cookies[`${cookieName}_refresh`] || null : null
+  }
+
+  /**
+   * Set the access and refresh cookies for cookie-based portals
+   */
+  setSessionCookies(res: Response, userType: SessionUserType, session: IssuedSession) {
+    const cookieName = SESSION_COOKIES[userType]
+    if (!cookieName) return
+    const refreshMaxAge = session.refreshTokenExpiresAt.getTime() - Date.now()
+    // The access cookie outlives the JWT inside it so an expired token yields 401 (refresh) rather than "no token"
+    res.cookie(cookieName, session.accessToken, cookieOptions(refreshMaxAge))
+    res.cookie(`${cookieName}_refresh`, session.refreshToken, cookieOptions(refreshMaxAge))
+  }
+
+  clearSessionCookies(res: Response, userType: SessionUserType) {
+    const cookieName = SESSION_COOKIES[userType]
+    if (!cookieName) return
+    res.clearCookie(cookieName, cookieOptions())
+    res.clearCookie(`${cookieName}_refresh`, cookieOptions())
+  }
+
+  /**
+   * Delete sessions that expired or were revoked more than `olderThanDays` ago
+   */
+  async purgeStaleSessions(olderThanDays: number = 30): Promise<number> {
+    const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000)
+    const result = await prisma.staffSession.deleteMany({
+      where: { OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }] },
+    })
+    return result.count
+  }
+}
+
+export default new SessionService()
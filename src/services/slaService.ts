@@ -0,0 +1,515 @@
+/**
+ * SLA Service - Per-service wait / service time targets and the escalation ladder
+ *
+ * A token's targets come from the strictest of its services. For each service
+ * the first match wins:
+ *
+ *   1. SlaDefinition for this outlet     (teleshop manager override)
+ *   2. SlaDefinition with no outlet      (admin default for every outlet)
+ *   3. OutletServiceSetting.targetWaitMinutes (dispatch target, wait only)
+ *   4. LONG_WAIT_MINUTES                 (wait only)
+ *
+ * The periodic check compares every waiting token (minutes waited, parked
+ * time excluded) and every token in service (minutes since it started) with
+ * its target and climbs a ladder as a share of the target is used up
+ * (SystemSetting 'sla_escalation_policy'):
+ *
+ *   level 1  nudgePercent    - officer dashboard nudge (SLA_NUDGE broadcast);
+ *                              a waiting token also gets the 'long_wait'
+ *                              alert and LONG_WAIT broadcast that existing
+ *                              dashboards listen for
+ *   level 2  managerPercent  - 'sla_breach' alert for the teleshop manager
+ *   level 3  rtomPercent     - SMS to the outlet's RTOM, at most one per
+ *                              outlet per rtomSmsCooldownMinutes
+ *
+ * Each token gets one SlaBreach row per kind (wait / service) recording the
+ * highest level reached; it is resolved once the token moves on, with the
+ * minutes actually taken. Breaches still open from an earlier business day
+ * are closed at the reset.
+ *
+ * A token carried over from the previous day (Token.carriedOverFromId) waits
+ * overnight through no fault of the outlet, so its wait is counted from when
+ * the outlet opens again: the first regular token issued there after it. Until
+ * then it is not checked. Compliance for analytics is measured on tokens,
+ * not on breach rows, so tokens that never breached count too.
+ */
+
+import type { Prisma } from "@prisma/client"
+import { prisma, broadcast } from "../server"
+import { getLastDailyReset } from "../utils/resetWindow"
+import { displayToken } from "../utils/tokenFormat"
+import sltSmsService from "./sltSmsService"
+import tokenAging from "./tokenAging"
+import { CALLABLE } from "./queueDispatcher"
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+export type SlaKind = 'wait' | 'service'
+export type SlaTargetSource = 'outlet' | 'default' | 'dispatch' | 'system'
+
+export interface SlaTarget {
+  targetWaitMinutes: number
+  targetServiceMinutes: number | null
+  source: SlaTargetSource
+}
+
+export interface SlaEscalationPolicy {
+  nudgePercent: number
+  managerPercent: number
+  rtomPercent: number
+  rtomSmsCooldownMinutes: number
+}
+
+export interface SlaDefinitionInput {
+  targetWaitMinutes?: number
+  targetServiceMinutes?: number | null
+  isActive?: boolean
+}
+
+export class SlaError extends Error {
+  constructor(message: string, public readonly status: 400 | 404 = 400) {
+    super(message)
+    this.name = 'SlaError'
+  }
+}
+
+const POLICY_SETTING_KEY = 'sla_escalation_policy'
+const POLICY_CACHE_MS = 60 * 1000
+const SYSTEM_TARGET_WAIT_MINUTES = Number(process.env.LONG_WAIT_MINUTES || 10)
+const MAX_TARGET_MINUTES = 480
+const MAX_PERCENT = 1000
+
+export const DEFAULT_SLA_ESCALATION_POLICY: SlaEscalationPolicy = {
+  nudgePercent: 100,
+  managerPercent: 150,
+  rtomPercent: 200,
+  rtomSmsCooldownMinutes: 30,
+}
+
+const LEVEL_NAMES: Record<number, string> = { 1: 'officer_nudge', 2: 'manager_alert', 3: 'rtom_sms' }
+
+const percentOf = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : null)
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000
+
+class SlaService {
+  private cachedPolicy: { policy: SlaEscalationPolicy; loadedAt: number } | null = null
+
+  async getPolicy(): Promise<SlaEscalationPolicy> {
+    if (this.cachedPolicy && Date.now() - this.cachedPolicy.loadedAt < POLICY_CACHE_MS) {
+      return this.cachedPolicy.policy
+    }
+
+    let stored: any = {}
+    try {
+      const setting = await prisma.systemSetting.findUnique({ where: { key: POLICY_SETTING_KEY } })
+      if (setting?.value) stored = JSON.parse(setting.value)
+    } catch (error) {
+      console.error('[SLA] Invalid stored escalation policy, using defaults:', error)
+    }
+
+    const pick = (key: keyof SlaEscalationPolicy) =>
+      Number.isInteger(stored?.[key]) && stored[key] > 0 ? stored[key] : DEFAULT_SLA_ESCALATION_POLICY[key]
+    const policy: SlaEscalationPolicy = {
+      nudgePercent: pick('nudgePercent'),
+      managerPercent: pick('managerPercent'),
+      rtomPercent: pick('rtomPercent'),
+      rtomSmsCooldownMinutes: pick('rtomSmsCooldownMinutes'),
+    }
+    this.cachedPolicy = { policy, loadedAt: Date.now() }
+    return policy
+  }
+
+  /**
+   * Validate a policy change against the current policy; returns an error message or null
+   */
+  validatePolicy(input: Partial<SlaEscalationPolicy>, current: SlaEscalationPolicy): string | null {
+    for (const key of ['nudgePercent', 'managerPercent', 'rtomPercent'] as const) {
+      const value = input[key]
+      if (value !== undefined && !(Number.isInteger(value) && value >= 50 && value <= MAX_PERCENT)) {
+        return `${key} must be a whole number from 50 to ${MAX_PERCENT}`
+      }
+    }
+    if (input.rtomSmsCooldownMinutes !== undefined && !(Number.isInteger(input.rtomSmsCooldownMinutes) && input.rtomSmsCooldownMinutes >= 5 && input.rtomSmsCooldownMinutes <= 1440)) {
+      return 'rtomSmsCooldownMinutes must be a whole number from 5 to 1440'
+    }
+    const merged = { ...current, ...input }
+    if (!(merged.nudgePercent < merged.managerPercent && merged.managerPercent < merged.rtomPercent)) {
+      return 'The ladder must climb: nudgePercent < managerPercent < rtomPercent'
+    }
+    return null
+  }
+
+  async updatePolicy(changes: Partial<SlaEscalationPolicy>): Promise<SlaEscalationPolicy> {
+    const merged: SlaEscalationPolicy = { ...(await this.getPolicy()), ...changes }
+    await prisma.systemSetting.upsert({
+      where: { key: POLICY_SETTING_KEY },
+      update: { value: JSON.stringify(merged) },
+      create: { key: POLICY_SETTING_KEY, value: JSON.stringify(merged) },
+    })
+    this.cachedPolicy = { policy: merged, loadedAt: Date.now() }
+    return merged
+  }
+
+  /**
+   * Effective targets per service code for each outlet
+   */
+  async getTargetsForOutlets(outletIds: string[], db: Db = prisma): Promise<Map<string, Map<string, SlaTarget>>> {
+    const [services, definitions, settings] = await Promise.all([
+      db.service.findMany({ select: { id: true, code: true } }),
+      db.slaDefinition.findMany({ where: { isActive: true, OR: [{ outletId: null }, { outletId: { in: outletIds } }] } }),
+      db.outletServiceSetting.findMany({ where: { outletId: { in: outletIds }, targetWaitMinutes: { not: null } }, select: { outletId: true, serviceId: true, targetWaitMinutes: true } }),
+    ])
+
+    const result = new Map<string, Map<string, SlaTarget>>()
+    for (const outletId of outletIds) {
+      const targets = new Map<string, SlaTarget>()
+      for (const service of services) {
+        const own = definitions.find(d => d.serviceId === service.id && d.outletId === outletId)
+        const shared = definitions.find(d => d.serviceId === service.id && d.outletId === null)
+        const dispatch = settings.find(s => s.serviceId === service.id && s.outletId === outletId)
+        const definition = own || shared
+        targets.set(service.code, definition
+          ? { targetWaitMinutes: definition.targetWaitMinutes, targetServiceMinutes: definition.targetServiceMinutes, source: own ? 'outlet' : 'default' }
+          : dispatch
+            ? { targetWaitMinutes: dispatch.targetWaitMinutes!, targetServiceMinutes: null, source: 'dispatch' }
+            : { targetWaitMinutes: SYSTEM_TARGET_WAIT_MINUTES, targetServiceMinutes: null, source: 'system' })
+      }
+      result.set(outletId, targets)
+    }
+    return result
+  }
+
+  async getTargets(outletId: string, db: Db = prisma): Promise<Map<string, SlaTarget>> {
+    return (await this.getTargetsForOutlets([outletId], db)).get(outletId)!
+  }
+
+  /**
+   * The strictest target of the given kind among a token's services
+   */
+  targetFor(serviceTypes: string[], targets: Map<string, SlaTarget>, kind: SlaKind): { serviceCode: string; minutes: number } | null {
+    let best: { serviceCode: string; minutes: number } | null = null
+    for (const code of serviceTypes) {
+      const target = targets.get(code)
+      const minutes = kind === 'wait' ? target?.targetWaitMinutes ?? SYSTEM_TARGET_WAIT_MINUTES : target?.targetServiceMinutes ?? null
+      if (minutes && (!best || minutes < best.minutes)) best = { serviceCode: code, minutes }
+    }
+    if (!best && kind === 'wait') best = { serviceCode: serviceTypes[0] || 'unknown', minutes: SYSTEM_TARGET_WAIT_MINUTES }
+    return best
+  }
+
+  // ---------- definitions ----------
+
+  async listDefinitions(outletId?: string) {
+    return prisma.slaDefinition.findMany({
+      where: outletId ? { OR: [{ outletId: null }, { outletId }] } : {},
+      include: { service: { select: { code: true, title: true } }, outlet: { select: { name: true } } },
+      orderBy: [{ outletId: 'asc' }, { createdAt: 'asc' }],
+    })
+  }
+
+  validateDefinition(input: SlaDefinitionInput, creating: boolean): string | null {
+    const { targetWaitMinutes, targetServiceMinutes, isActive } = input
+    if (creating && targetWaitMinutes === undefined) return 'targetWaitMinutes is required'
+    if (targetWaitMinutes !== undefined && !(Number.isInteger(targetWaitMinutes) && targetWaitMinutes >= 1 && targetWaitMinutes <= MAX_TARGET_MINUTES)) {
+      return `targetWaitMinutes must be a whole number from 1 to ${MAX_TARGET_MINUTES}`
+    }
+    if (targetServiceMinutes !== undefined && targetServiceMinutes !== null && !(Number.isInteger(targetServiceMinutes) && targetServiceMinutes >= 1 && targetServiceMinutes <= MAX_TARGET_MINUTES)) {
+      return `targetServiceMinutes must be a whole number from 1 to ${MAX_TARGET_MINUTES}, or null for no service time target`
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') return 'isActive must be true or false'
+    return null
+  }
+
+  /**
+   * Create or update the definition for a service, for one outlet or (outletId null) for all outlets
+   */
+  async saveDefinition(serviceId: string, outletId: string | null, input: SlaDefinitionInput) {
+    const service = await prisma.service.findUnique({ where: { id: serviceId }, select: { id: true } })
+    if (!service) throw new SlaError('Service not found', 404)
+
+    const data = {
+      ...(input.targetWaitMinutes !== undefined ? { targetWaitMinutes: input.targetWaitMinutes } : {}),
+      ...(input.targetServiceMinutes !== undefined ? { targetServiceMinutes: input.targetServiceMinutes } : {}),
+      ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+    }
+    // (serviceId, NULL) is not unique in PostgreSQL, so look the row up instead of upserting
+    const existing = await prisma.slaDefinition.findFirst({ where: { serviceId, outletId } })
+    if (existing) return prisma.slaDefinition.update({ where: { id: existing.id }, data })
+    if (input.targetWaitMinutes === undefined) throw new SlaError('targetWaitMinutes is required')
+    return prisma.slaDefinition.create({ data: { serviceId, outletId, targetWaitMinutes: input.targetWaitMinutes, ...data } })
+  }
+
+  /**
+   * Remove a definition; pass outletId to only allow removing that outlet's own override
+   */
+  async deleteDefinition(id: string, outletId?: string) {
+    const existing = await prisma.slaDefinition.findUnique({ where: { id } })
+    if (!existing || (outletId !== undefined && existing.outletId !== outletId)) throw new SlaError('SLA definition not found', 404)
+    return prisma.slaDefinition.delete({ where: { id } })
+  }
+
+  // ---------- escalation ----------
+
+  /**
+   * When each waiting token's SLA wait started: its creation, or for a carried-over token the
+   * outlet's reopening (null while the outlet has not opened yet)
+   */
+  private async waitStarts(tokens: { id: string; outletId: string; createdAt: Date; carriedOverFromId: string | null }[]): Promise<Map<string, Date | null>> {
+    const starts = new Map<string, Date | null>()
+    const carriedIds: string[] = []
+    for (const token of tokens) {
+      if (token.carriedOverFromId) carriedIds.push(token.id)
+      else starts.set(token.id, token.createdAt)
+    }
+    if (carriedIds.length === 0) return starts
+
+    // One round trip: the first regular token issued at the same outlet after each carried-over token
+    const reopenings = await prisma.$queryRaw<{ id: string; openedAt: Date | null }[]>`
+      SELECT c."id", (
+        SELECT MIN(t."createdAt") FROM "Token" t
+        WHERE t."outletId" = c."outletId" AND t."carriedOverFromId" IS NULL AND t."createdAt" > c."createdAt"
+      ) AS "openedAt"
+      FROM "Token" c
+      WHERE c."id" = ANY(${carriedIds}::text[])
+    `
+    for (const row of reopenings) starts.set(row.id, row.openedAt)
+    return starts
+  }
+
+  /**
+   * Resolve finished breaches, record new ones and climb the ladder. Returns the number of escalation steps taken.
+   */
+  async checkBreaches(now: Date = new Date()): Promise<number> {
+    await this.resolveBreaches(now)
+
+    const policy = await this.getPolicy()
+    const lastReset = getLastDailyReset()
+    const tokens = await prisma.token.findMany({
+      where: {
+        createdAt: { gte: lastReset },
+        OR: [{ status: 'waiting', ...CALLABLE }, { status: 'in_service', startedAt: { not: null } }],
+      },
+      include: { outlet: { select: { id: true, name: true } }, slaBreaches: true },
+    })
+    if (tokens.length === 0) return 0
+
+    const targetsByOutlet = await this.getTargetsForOutlets([...new Set(tokens.map(t => t.outletId))])
+    const waitStarts = await this.waitStarts(tokens.filter(t => t.status === 'waiting'))
+    const officersByOutlet = new Map<string, any[]>()
+    const rtomEscalations = new Map<string, { outletName: string; breaches: { minutes: number; target: number }[] }>()
+    let steps = 0
+
+    for (const token of tokens) {
+      const kind: SlaKind = token.status === 'waiting' ? 'wait' : 'service'
+      const target = this.targetFor(token.serviceTypes, targetsByOutlet.get(token.outletId)!, kind)
+      if (!target) continue
+      const waitStart = kind === 'wait' ? waitStarts.get(token.id) : null
+      if (kind === 'wait' && !waitStart) continue
+
+      const minutes = kind === 'wait'
+        ? minutesBetween(waitStart!, now) - token.parkedMinutes
+        : minutesBetween(token.startedAt!, now)
+      const used = (minutes / target.minutes) * 100
+      const level = used >= policy.rtomPercent ? 3 : used >= policy.managerPercent ? 2 : used >= policy.nudgePercent ? 1 : 0
+      if (level === 0) continue
+
+      const existing = token.slaBreaches.find(b => b.kind === kind)
+      if (existing && existing.level >= level) continue
+
+      const breachedAt = existing?.breachedAt || new Date(now.getTime() - Math.max(0, minutes - target.minutes * policy.nudgePercent / 100) * 60000)
+      const breach = existing
+        ? await prisma.slaBreach.update({ where: { id: existing.id }, data: { level, escalatedAt: now } })
+        : await prisma.slaBreach.create({
+          data: { tokenId: token.id, outletId: token.outletId, serviceCode: target.serviceCode, kind, targetMinutes: target.minutes, level, breachedAt, escalatedAt: now },
+        })
+
+      const roundedMinutes = Math.round(minutes)
+      for (let step = (existing?.level || 0) + 1; step <= level; step++) {
+        steps++
+        if (step === 1) {
+          let officerIds: string[] = []
+          if (kind === 'service') {
+            officerIds = token.assignedTo ? [token.assignedTo] : []
+          } else {
+            if (!officersByOutlet.has(token.outletId)) {
+              officersByOutlet.set(token.outletId, await prisma.officer.findMany({
+                where: { outletId: token.outletId, status: { in: ['available', 'serving'] } },
+                select: { id: true, name: true, counterNumber: true, status: true, assignedServices: true, languages: true },
+              }))
+            }
+            officerIds = tokenAging.suggestOfficers(token, officersByOutlet.get(token.outletId)!).filter(s => s.serviceMatch).map(s => s.officerId)
+          }
+          broadcast({
+            type: 'SLA_NUDGE',
+            data: { outletId: token.outletId, tokenId: token.id, tokenNumber: token.tokenNumber, displayNumber: displayToken(token), kind, minutes: roundedMinutes, targetMinutes: target.minutes, officerIds },
+          })
+          if (kind === 'wait') {
+            const alert = await prisma.alert.create({
+              data: {
+                type: 'long_wait',
+                severity: 'medium',
+                message: `Token #${displayToken(token)} has been waiting more than ${target.minutes} minutes at ${token.outlet.name}`,
+                relatedEntity: token.id,
+                outletId: token.outletId,
+              },
+            })
+            broadcast({ type: 'LONG_WAIT', data: { alert, token } })
+          }
+        } else if (step === 2) {
+          const what = kind === 'wait' ? 'has waited' : 'has been in service for'
+          const alert = await prisma.alert.create({
+            data: {
+              type: 'sla_breach',
+              severity: 'high',
+              message: `Token ${displayToken(token)} at ${token.outlet.name} ${what} ${roundedMinutes} minutes against a ${target.minutes} minute SLA (${target.serviceCode}).`,
+              relatedEntity: breach.id,
+              outletId: token.outletId,
+            },
+          })
+          broadcast({ type: 'SLA_ESCALATED', data: { alert, breach, level: step, level_name: LEVEL_NAMES[step] } })
+        } else {
+          if (!rtomEscalations.has(token.outletId)) rtomEscalations.set(token.outletId, { outletName: token.outlet.name, breaches: [] })
+          rtomEscalations.get(token.outletId)!.breaches.push({ minutes: roundedMinutes, target: target.minutes })
+        }
+      }
+    }
+
+    for (const [outletId, escalation] of rtomEscalations) {
+      await this.notifyRtom(outletId, escalation.outletName, escalation.breaches, policy, now)
+    }
+    return steps
+  }
+
+  /**
+   * Close breaches whose token has moved on, recording the minutes actually taken
+   */
+  private async resolveBreaches(now: Date) {
+    const lastReset = getLastDailyReset(now)
+    // Left open by an earlier business day (token never moved on): closed at the reset without a measurement
+    await prisma.slaBreach.updateMany({ where: { resolvedAt: null, breachedAt: { lt: lastReset } }, data: { resolvedAt: lastReset } })
+
+    const open = await prisma.slaBreach.findMany({
+      where: { resolvedAt: null, breachedAt: { gte: lastReset } },
+      include: { token: { select: { id: true, outletId: true, carriedOverFromId: true, status: true, createdAt: true, startedAt: true, completedAt: true, parkedMinutes: true } } },
+    })
+    const waitStarts = await this.waitStarts(open.filter(b => b.kind === 'wait' && b.token.carriedOverFromId).map(b => b.token))
+    for (const breach of open) {
+      const { token } = breach
+      const stillOpen = breach.kind === 'wait' ? token.status === 'waiting' || token.status === 'parked' : token.status === 'in_service'
+      if (stillOpen) continue
+      const resolvedAt = (breach.kind === 'wait' ? token.startedAt : token.completedAt) || now
+      const actual = breach.kind === 'wait'
+        ? minutesBetween(waitStarts.get(token.id) ?? token.createdAt, resolvedAt) - token.parkedMinutes
+        : token.startedAt ? minutesBetween(token.startedAt, resolvedAt) : null
+      await prisma.slaBreach.update({
+        where: { id: breach.id },
+        data: { resolvedAt, actualMinutes: actual !== null ? Math.max(0, Math.round(actual)) : null },
+      })
+    }
+  }
+
+  /**
+   * Level 3: one SMS per outlet per cooldown to the outlet's RTOM (or the legacy region manager)
+   */
+  private async notifyRtom(outletId: string, outletName: string, breaches: { minutes: number; target: number }[], policy: SlaEscalationPolicy, now: Date) {
+    const recent = await prisma.alert.findFirst({
+      where: { type: 'sla_rtom_sms', outletId, createdAt: { gte: new Date(now.getTime() - policy.rtomSmsCooldownMinutes * 60000) } },
+      select: { id: true },
+    })
+    if (recent) return
+
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: outletId },
+      select: { RTOM: { select: { mobileNumber: true, isActive: true } }, region: { select: { managerMobile: true } } },
+    })
+    const mobile = (outlet?.RTOM?.isActive ? outlet.RTOM.mobileNumber : null) || outlet?.region?.managerMobile
+    const worst = breaches.reduce((a, b) => (b.minutes / b.target > a.minutes / a.target ? b : a))
+
+    let delivered = false
+    if (mobile) {
+      try {
+        const result = await sltSmsService.sendSlaEscalation(mobile, { outletName, breachCount: breaches.length, worstMinutes: worst.minutes, targetMinutes: worst.target })
+        delivered = result.success
+      } catch (error) {
+        console.error('[SLA] RTOM escalation SMS failed:', error)
+      }
+    }
+
+    const alert = await prisma.alert.create({
+      data: {
+        type: 'sla_rtom_sms',
+        severity: 'critical',
+        message: `${breaches.length} token(s) at ${outletName} passed ${policy.rtomPercent}% of their SLA; ${mobile ? (delivered ? 'RTOM notified by SMS' : 'RTOM SMS failed') : 'no RTOM mobile on file'}.`,
+        outletId,
+      },
+    })
+    broadcast({ type: 'SLA_ESCALATED', data: { alert, outletId, level: 3, level_name: LEVEL_NAMES[3] } })
+  }
+
+  // ---------- reporting ----------
+
+  /**
+   * SLA compliance for tokens created in the range: share served within the wait target
+   * and share completed within the service target (where one is defined)
+   */
+  async getCompliance(outletIds: string[], startDate?: Date, endDate?: Date) {
+    const createdAt = { ...(startDate ? { gte: startDate } : {}), ...(endDate ? { lte: endDate } : {}) }
+    const [tokens, breaches, targetsByOutlet] = await Promise.all([
+      prisma.token.findMany({
+        where: { outletId: { in: outletIds }, createdAt, startedAt: { not: null } },
+        select: { id: true, outletId: true, carriedOverFromId: true, serviceTypes: true, createdAt: true, startedAt: true, completedAt: true, status: true, parkedMinutes: true },
+      }),
+      prisma.slaBreach.groupBy({
+        by: ['kind', 'level'],
+        where: { outletId: { in: outletIds }, breachedAt: createdAt },
+        _count: { _all: true },
+      }),
+      this.getTargetsForOutlets(outletIds),
+    ])
+
+    const waitStarts = await this.waitStarts(tokens.filter(t => t.carriedOverFromId))
+    const wait = { measured: 0, met: 0 }
+    const service = { measured: 0, met: 0 }
+    const byService = new Map<string, { measured: number; met: number }>()
+    for (const token of tokens) {
+      const targets = targetsByOutlet.get(token.outletId)!
+      const waitTarget = this.targetFor(token.serviceTypes, targets, 'wait')!
+      const waited = minutesBetween(waitStarts.get(token.id) ?? token.createdAt, token.startedAt!) - token.parkedMinutes
+      const met = waited <= waitTarget.minutes
+      wait.measured++
+      if (met) wait.met++
+      if (!byService.has(waitTarget.serviceCode)) byService.set(waitTarget.serviceCode, { measured: 0, met: 0 })
+      const row = byService.get(waitTarget.serviceCode)!
+      row.measured++
+      if (met) row.met++
+
+      const serviceTarget = this.targetFor(token.serviceTypes, targets, 'service')
+      if (serviceTarget && token.status === 'completed' && token.completedAt) {
+        service.measured++
+        if (minutesBetween(token.startedAt!, token.completedAt) <= serviceTarget.minutes) service.met++
+      }
+    }
+
+    const count = (kind?: SlaKind, minLevel = 1) =>
+      breaches.filter(b => (!kind || b.kind === kind) && b.level >= minLevel).reduce((sum, b) => sum + b._count._all, 0)
+
+    return {
+      waitCompliance: percentOf(wait.met, wait.measured),
+      serviceCompliance: percentOf(service.met, service.measured),
+      measured: { wait: wait.measured, service: service.measured },
+      breaches: {
+        total: count(),
+        wait: count('wait'),
+        service: count('service'),
+        managerAlerted: count(undefined, 2),
+        rtomEscalated: count(undefined, 3),
+      },
+      byService: [...byService.entries()]
+        .map(([serviceCode, row]) => ({ serviceCode, measured: row.measured, waitCompliance: percentOf(row.met, row.measured) }))
+        .sort((a, b) => b.measured - a.measured),
+    }
+  }
+}
+
+export const slaService = new SlaService()
+export default slaService
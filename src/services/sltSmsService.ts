@@ -2,6 +2,7 @@ import axios, { AxiosInstance } from 'axios'
 import https from 'https'
 import dotenv from 'dotenv'
 import { logger } from '../server'
+import { tokenLabel } from '../utils/tokenFormat'
 
 // Load environment variables
 dotenv.config()
@@ -293,14 +294,14 @@ class SLTSmsService {
   async sendTokenExpiryWarning(
     mobileNumber: string,
     details: {
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
       minutesRemaining: number
     },
     language: 'en' | 'si' | 'ta' = 'en'
   ): Promise<SMSResponse> {
     // Format token number to 3 digits (e.g., 001, 018, 123)
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
 
     const messages = {
       en: `Dear Valued Customer\n\nYour token number ${formattedToken} at ${details.outletName} will expire soon. Kindly arrive within ${details.minutesRemaining} minutes.\n\nSLTMOBITEL`,
@@ -320,13 +321,13 @@ class SLTSmsService {
   async sendServiceDelayNotification(
     mobileNumber: string,
     details: {
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
     },
     language: 'en' | 'si' | 'ta' = 'en'
   ): Promise<SMSResponse> {
     // Format token number to 3 digits (e.g., 001, 018, 123)
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
 
     const messages = {
       en: `Dear Valued Customer\n\nWe're experiencing a delay in service. Your token number ${formattedToken} will be called shortly. We appreciate your patience.\n\nSLTMOBITEL`,
@@ -345,12 +346,12 @@ class SLTSmsService {
    */
   async sendTokenReady(
     mobileNumber: string,
-    tokenNumber: number,
+    tokenNumber: number | string,
     counterNumber: number,
     language: 'en' | 'si' | 'ta' = 'en'
   ): Promise<SMSResponse> {
     // Format token number to 3 digits (e.g., 001, 018, 123)
-    const formattedToken = tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(tokenNumber)
 
     const messages = {
       en: `Dear Valued Customer\n\nYour token number ${formattedToken} is now being called. Please proceed to Counter ${counterNumber} for your service.\n\nSLTMOBITEL`,
@@ -364,6 +365,120 @@ class SLTSmsService {
     })
   }
 
+  /**
+   * Tell a remote-queue customer it is time to leave for the outlet
+   */
+  async sendLeaveNow(
+    mobileNumber: string,
+    details: {
+      tokenNumber: number | string
+      outletName: string
+      etaMinutes: number
+      trackingUrl: string
+    },
+    language: 'en' | 'si' | 'ta' = 'en'
+  ): Promise<SMSResponse> {
+    // Format token number to 3 digits (e.g., 001, 018, 123)
+    const formattedToken = tokenLabel(details.tokenNumber)
+
+    const messages = {
+      en: `Dear Valued Customer\n\nYour token number ${formattedToken} at ${details.outletName} is expected to be called in about ${details.etaMinutes} minutes. Please leave now and check in on arrival.\nTrack: ${details.trackingUrl}\n\nSLTMOBITEL`,
+      si: `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL!\n\nSLTMOBITEL`,
+      ta: `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL!\n\nSLTMOBITEL`
+    }
+
+    return this.sendSMS({
+      to: mobileNumber,
+      message: this.selectMessageForSMS(messages, language)
+    })
+  }
+
+  /**
+   * Warn a waiting customer that the outlet will probably close before their token is called
+   */
+  async sendClosingWarning(
+    mobileNumber: string,
+    details: {
+      tokenNumber: number | string
+      outletName: string
+      closingTime: string
+      carryOver: boolean
+      trackingUrl: string
+    },
+    language: 'en' | 'si' | 'ta' = 'en'
+  ): Promise<SMSResponse> {
+    const formattedToken = tokenLabel(details.tokenNumber)
+    const outcome = details.carryOver
+      ? 'If it is not called today it will be moved to the next business day with priority.'
+      : 'If it is not called today it will be cancelled.'
+
+    const messages = {
+      en: `Dear Valued Customer\n\n${details.outletName} closes at ${details.closingTime} and your token number ${formattedToken} may not be reached today. ${outcome}\nTrack: ${details.trackingUrl}\n\nSLTMOBITEL`,
+      si: `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL!\n\nSLTMOBITEL`,
+      ta: `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL!\n\nSLTMOBITEL`
+    }
+
+    return this.sendSMS({
+      to: mobileNumber,
+      message: this.selectMessageForSMS(messages, language)
+    })
+  }
+
+  /**
+   * Tell a customer what happened to a token still waiting when the business day ended
+   */
+  async sendEndOfDayOutcome(
+    mobileNumber: string,
+    details: {
+      tokenNumber: number | string
+      outletName: string
+      /** The carried-over token's number; absent when the token was cancelled */
+      newTokenNumber?: number | string
+      trackingUrl?: string
+    },
+    language: 'en' | 'si' | 'ta' = 'en'
+  ): Promise<SMSResponse> {
+    const formattedToken = tokenLabel(details.tokenNumber)
+    const en = details.newTokenNumber !== undefined
+      ? `Dear Valued Customer\n\nWe could not serve token number ${formattedToken} at ${details.outletName} before closing. Your new priority token for the next business day is ${tokenLabel(details.newTokenNumber)}.${details.trackingUrl ? `\nTrack: ${details.trackingUrl}` : ''}\n\nSLTMOBITEL`
+      : `Dear Valued Customer\n\nWe could not serve token number ${formattedToken} at ${details.outletName} before closing and it has been cancelled. Please visit us again.\n\nSLTMOBITEL`
+
+    const messages = {
+      en,
+      si: `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL!\n\nSLTMOBITEL`,
+      ta: `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL!\n\nSLTMOBITEL`
+    }
+
+    return this.sendSMS({
+      to: mobileNumber,
+      message: this.selectMessageForSMS(messages, language)
+    })
+  }
+
+  /**
+   * Tell an RTOM that customers at an outlet are far past their SLA target (staff SMS, kept under 160 chars)
+   */
+  async sendSlaEscalation(
+    mobileNumber: string,
+    details: {
+      outletName: string
+      breachCount: number
+      worstMinutes: number
+      targetMinutes: number
+    }
+  ): Promise<SMSResponse> {
+    const message = `SLT DQMS: ${details.breachCount} customer(s) at ${details.outletName} past SLA. Longest ${details.worstMinutes} min vs ${details.targetMinutes} min target. SLTMOBITEL`
+
+    if (message.length > 160) {
+      console.warn(`[SLT SMS] SLA escalation SMS is ${message.length} chars (>160). May be split or rejected.`)
+    }
+
+    return this.sendSMS({
+      to: mobileNumber,
+      message
+    })
+  }
+
   /**
    * Send bill payment notification
    */
@@ -396,7 +511,7 @@ class SLTSmsService {
     mobileNumber: string,
     details: {
       firstName: string
-      tokenNumber: number
+      tokenNumber: number | string
       counterNumber: number
       outletName: string
       recoveryUrl: string
@@ -406,7 +521,7 @@ class SLTSmsService {
     console.log(`[SLT SMS CALL] Attempting to send customer called SMS to ${mobileNumber} for token #${details.tokenNumber}`)
 
     // Format token number to 3 digits (e.g., 001, 018, 123)
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
 
     const messages = {
       en: `Dear Valued Customer\n\nYour token number ${formattedToken} at ${details.outletName} is now active. Please proceed to Counter ${details.counterNumber} immediately.\n\nSLTMOBITEL`,
@@ -430,7 +545,7 @@ class SLTSmsService {
     mobileNumber: string,
     details: {
       firstName: string
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
       recoveryUrl: string
     },
@@ -439,7 +554,7 @@ class SLTSmsService {
     console.log(`[SLT SMS SKIP] Attempting to send skip SMS to ${mobileNumber} for token #${details.tokenNumber}`)
 
     // Format token number to 3 digits (e.g., 001, 018, 123)
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
 
     const messages = {
       en: `Dear Valued Customer\n\nYour token number ${formattedToken} at ${details.outletName} was skipped as you were not available. Please visit the counter to be recalled.\n\nSLTMOBITEL`,
@@ -456,6 +571,39 @@ class SLTSmsService {
     })
   }
 
+  /**
+   * Send notification that a no-show customer was put back in the queue
+   */
+  async sendCustomerRequeued(
+    mobileNumber: string,
+    details: {
+      firstName: string
+      tokenNumber: number | string
+      outletName: string
+      recoveryUrl: string
+    },
+    language: 'en' | 'si' | 'ta' = 'en'
+  ): Promise<SMSResponse> {
+    console.log(`[SLT SMS REQUEUE] Attempting to send requeue SMS to ${mobileNumber} for token #${details.tokenNumber}`)
+
+    // Format token number to 3 digits (e.g., 001, 018, 123)
+    const formattedToken = tokenLabel(details.tokenNumber)
+
+    const messages = {
+      en: `Dear Valued Customer\n\nYou were not at the counter when token number ${formattedToken} at ${details.outletName} was called. Your token has been placed back in the queue and will be called again shortly. Track it at ${details.recoveryUrl}\n\nSLTMOBITEL`,
+      si: `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL!\n\nSLTMOBITEL`,
+      ta: `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL!\n\nSLTMOBITEL`
+    }
+
+    const selectedRequeueMsg = this.selectMessageForSMS(messages, language)
+    console.log(`[SLT SMS REQUEUE] Message content (${selectedRequeueMsg.length} chars): "${selectedRequeueMsg}"`)
+
+    return this.sendSMS({
+      to: mobileNumber,
+      message: selectedRequeueMsg
+    })
+  }
+
   /**
    * Send customer recalled notification
    */
@@ -463,7 +611,7 @@ class SLTSmsService {
     mobileNumber: string,
     details: {
       firstName: string
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
       recoveryUrl: string
       counterNumber?: number
@@ -473,7 +621,7 @@ class SLTSmsService {
     console.log(`[SLT SMS RECALL] Attempting to send recall SMS to ${mobileNumber} for token #${details.tokenNumber}`)
 
     // Format token number to 3 digits (e.g., 001, 018, 123)
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
 
     const messages = {
       en: `Dear Valued Customer\n\nYour token number ${formattedToken} at ${details.outletName} is being recalled. Please proceed to Counter ${details.counterNumber || 'the assigned counter'} immediately.\n\nSLTMOBITEL`,
@@ -497,7 +645,7 @@ class SLTSmsService {
     mobileNumber: string,
     details: {
       firstName: string
-      tokenNumber?: number
+      tokenNumber?: number | string
       refNumber: string
       services: string
       feedbackUrl: string
@@ -509,7 +657,7 @@ class SLTSmsService {
     console.log(`[SLT SMS COMPLETE] Attempting to send service completion SMS to ${mobileNumber} for ref ${details.refNumber}`)
 
     // Format token number to 3 digits if provided
-    const formattedToken = details.tokenNumber ? details.tokenNumber.toString().padStart(3, '0') : null
+    const formattedToken = details.tokenNumber ? tokenLabel(details.tokenNumber) : null
 
     const fullMessages = {
       en: this.buildServiceCompletionFull(details, formattedToken, 'en'),
@@ -631,7 +779,7 @@ class SLTSmsService {
     mobileNumber: string,
     details: {
       firstName?: string
-      tokenNumber: number
+      tokenNumber: number | string
       queuePosition: number
       outletName: string
       trackingUrl?: string
@@ -642,7 +790,7 @@ class SLTSmsService {
   ): Promise<SMSResponse> {
     logger.info({ mobileNumber, tokenNumber: details.tokenNumber }, '[SLT SMS] sendTokenConfirmation entry')
     // Format token number to 3 digits (e.g., 001, 018, 123)
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
     const hasTrackingUrl = !!details.trackingUrl
 
     const waitTimeText = details.estimatedWait ? ` with an estimated wait time of ${details.estimatedWait} minutes` : ''
@@ -694,14 +842,14 @@ class SLTSmsService {
     mobileNumber: string,
     details: {
       name: string
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
       estimatedWait: number
     },
     language: 'en' | 'si' | 'ta' = 'en'
   ): Promise<SMSResponse> {
     // Format token number to 3 digits (e.g., 001, 018, 123)
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
 
     const waitTimeText = details.estimatedWait ? ` with an estimated wait time of ${details.estimatedWait} minutes` : ''
     const messages = {
@@ -722,7 +870,7 @@ class SLTSmsService {
   async sendTokenTransfer(
     mobileNumber: string,
     details: {
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
       serviceNames: string
       targetCounterNumber?: number
@@ -733,7 +881,7 @@ class SLTSmsService {
   ): Promise<SMSResponse> {
     console.log(`[SLT SMS TRANSFER] Preparing transfer SMS for token #${details.tokenNumber} to ${mobileNumber}`)
 
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
     const refSuffix = details.refNumber ? ` Ref: ${details.refNumber.split('/').pop()}` : ""
     const trackSuffix = details.recoveryUrl ? ` Track: ${details.recoveryUrl}` : ""
 
@@ -839,12 +987,12 @@ class SLTSmsService {
   async sendTokenCancellation(
     mobileNumber: string,
     details: {
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
     },
     language: 'en' | 'si' | 'ta' = 'en'
   ): Promise<SMSResponse> {
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
     const messages = {
       en: `Dear Valued Customer\n\nYour token number ${formattedToken} at ${details.outletName} has been cancelled successfully. Thank you for choosing SLTMOBITEL.\n\nSLTMOBITEL`,
       si: `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL!\n\nSLTMOBITEL`,
@@ -884,7 +1032,7 @@ class SLTSmsService {
     mobileNumber: string,
     details: {
       firstName: string
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
       refNumber: string
       paymentIntent: string   // 'full' | 'partial' | 'not_specified'
@@ -894,7 +1042,7 @@ class SLTSmsService {
       feedbackUrl?: string    // full URL for customer to leave a review
     }
   ): Promise<SMSResponse> {
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
     const outlet = details.outletName.replace(/\s*(SLT|Mobitel|Office)\s*/gi, '').trim() || details.outletName
 
     const methodLabels: Record<string, string> = {
@@ -942,7 +1090,7 @@ class SLTSmsService {
 
     // Send a second SMS with a thank-you + review invitation (same pattern as service completion).
     if (details.trackingUrl && details.feedbackUrl) {
-      const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+      const formattedToken = tokenLabel(details.tokenNumber)
       const thankYouFull = `Dear Valued Customer\n\nThank you for choosing SLTMOBITEL! Rate your experience: ${details.feedbackUrl}\n\nSLTMOBITEL`
       const thankYouMsg = thankYouFull.length <= 160
         ? thankYouFull
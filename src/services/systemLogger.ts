@@ -6,6 +6,7 @@
  */
 
 import { prisma } from "../server"
+import redactionService from "./redactionService"
 
 // Log levels in order of severity
 export type LogLevel = 'info' | 'warn' | 'error' | 'fatal'
@@ -89,10 +90,19 @@ class SystemLogger {
   }
   
   private addToQueue(level: LogLevel, message: string, context: LogContext) {
+    // Mask PII before it is persisted; the masked paths are kept with the row for review
+    const safeMessage = redactionService.redact(message, 'message')
+    const safeContext = redactionService.redact(context)
+    const redactions = [...safeMessage.redactions, ...safeContext.redactions]
+    const storedContext = safeContext.value
+    if (redactions.length > 0) {
+      storedContext.metadata = { ...storedContext.metadata, redactions }
+    }
+
     this.batchQueue.push({
       level,
-      message,
-      context,
+      message: safeMessage.value,
+      context: storedContext,
       timestamp: new Date()
     })
     
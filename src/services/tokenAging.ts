@@ -0,0 +1,167 @@
+/**
+ * Token Aging - Waiting tokens gain priority over time so none can starve
+ *
+ * score = minutes waited × aging rate of the token's service
+ * (OutletServiceSetting.agingRate, default 1 point per minute; the fastest
+ * rate among a token's services wins). Two thresholds per service, the
+ * strictest one applying:
+ *
+ *   agingAlertScore     - managers get a `token_aging` alert naming the
+ *                         officers who could take the token
+ *   agingOverrideScore  - the dispatcher hands the token to any officer with
+ *                         the service, ignoring the language preference
+ *
+ * A threshold of 0 turns that step off for the service.
+ */
+
+import { prisma, broadcast } from "../server"
+import { getLastDailyReset } from "../utils/resetWindow"
+import { displayToken } from "../utils/tokenFormat"
+import { toStringArray, hasAny, CALLABLE } from "./queueDispatcher"
+
+export interface AgingSettings {
+  rate: number
+  alertScore: number
+  overrideScore: number
+}
+
+export interface TokenAging {
+  score: number
+  waitedMinutes: number
+  alertScore: number
+  overrideScore: number
+  state: 'normal' | 'alert' | 'override'
+}
+
+export interface OfficerSuggestion {
+  officerId: string
+  name: string
+  counterNumber: number | null
+  status: string
+  serviceMatch: boolean
+  languageMatch: boolean
+}
+
+const DEFAULT_ALERT_SCORE = Number(process.env.TOKEN_AGING_ALERT_SCORE || 30)
+const DEFAULT_OVERRIDE_SCORE = Number(process.env.TOKEN_AGING_OVERRIDE_SCORE || 45)
+const MAX_SUGGESTIONS = 3
+
+const DEFAULT_SETTINGS: AgingSettings = { rate: 1, alertScore: DEFAULT_ALERT_SCORE, overrideScore: DEFAULT_OVERRIDE_SCORE }
+
+class TokenAgingService {
+  /**
+   * Aging settings for an outlet keyed by service code (services without a row use the defaults)
+   */
+  async getSettings(outletId: string): Promise<Map<string, AgingSettings>> {
+    const rows = await prisma.outletServiceSetting.findMany({
+      where: { outletId },
+      select: { agingRate: true, agingAlertScore: true, agingOverrideScore: true, service: { select: { code: true } } },
+    })
+    return new Map(rows.map(row => [row.service.code, {
+      rate: row.agingRate >= 0 ? row.agingRate : DEFAULT_SETTINGS.rate,
+      alertScore: row.agingAlertScore ?? DEFAULT_SETTINGS.alertScore,
+      overrideScore: row.agingOverrideScore ?? DEFAULT_SETTINGS.overrideScore,
+    }]))
+  }
+
+  score(token: { createdAt: Date; serviceTypes: string[]; parkedMinutes?: number }, settings: Map<string, AgingSettings>, now: Date = new Date()): TokenAging {
+    // Minutes spent parked (stepped away) do not age the token
+    const waitedMinutes = Math.max(0, (now.getTime() - token.createdAt.getTime()) / 60000 - (token.parkedMinutes || 0))
+    const perService = token.serviceTypes.length > 0
+      ? token.serviceTypes.map(code => settings.get(code) || DEFAULT_SETTINGS)
+      : [DEFAULT_SETTINGS]
+
+    const rate = Math.max(...perService.map(s => s.rate))
+    // Strictest enabled threshold; 0 everywhere means the step is off
+    const strictest = (values: number[]) => {
+      const enabled = values.filter(v => v > 0)
+      return enabled.length > 0 ? Math.min(...enabled) : 0
+    }
+    const alertScore = strictest(perService.map(s => s.alertScore))
+    const overrideScore = strictest(perService.map(s => s.overrideScore))
+    const score = Math.round(waitedMinutes * rate * 10) / 10
+
+    let state: TokenAging['state'] = 'normal'
+    if (overrideScore > 0 && score >= overrideScore) state = 'override'
+    else if (alertScore > 0 && score >= alertScore) state = 'alert'
+
+    return { score, waitedMinutes: Math.round(waitedMinutes), alertScore, overrideScore, state }
+  }
+
+  /**
+   * Online officers who could take the token, best fit first
+   * (service + language, then service only, then language only)
+   */
+  suggestOfficers(
+    token: { serviceTypes: string[]; preferredLanguages: unknown },
+    officers: { id: string; name: string; counterNumber: number | null; status: string; assignedServices: unknown; languages: unknown }[]
+  ): OfficerSuggestion[] {
+    const tokenLangs = toStringArray(token.preferredLanguages)
+    return officers
+      .map(officer => ({
+        officerId: officer.id,
+        name: officer.name,
+        counterNumber: officer.counterNumber,
+        status: officer.status,
+        serviceMatch: hasAny(token.serviceTypes, toStringArray(officer.assignedServices)),
+        languageMatch: tokenLangs.length === 0 || hasAny(tokenLangs, toStringArray(officer.languages)),
+      }))
+      .filter(s => s.serviceMatch || s.languageMatch)
+      .sort((a, b) =>
+        (Number(b.serviceMatch) * 2 + Number(b.languageMatch)) - (Number(a.serviceMatch) * 2 + Number(a.languageMatch))
+        || (a.status === 'available' ? -1 : 0) - (b.status === 'available' ? -1 : 0)
+        || (a.counterNumber ?? 999) - (b.counterNumber ?? 999))
+      .slice(0, MAX_SUGGESTIONS)
+  }
+
+  /**
+   * Raise one `token_aging` alert per token that crossed its alert score
+   */
+  async checkAgingTokens(): Promise<number> {
+    const now = new Date()
+    const tokens = await prisma.token.findMany({
+      where: { status: 'waiting', createdAt: { gte: getLastDailyReset() }, ...CALLABLE },
+      select: { id: true, tokenNumber: true, displayNumber: true, outletId: true, createdAt: true, serviceTypes: true, preferredLanguages: true, parkedMinutes: true, outlet: { select: { name: true } } },
+    })
+    if (tokens.length === 0) return 0
+
+    const existing = await prisma.alert.findMany({
+      where: { type: 'token_aging', relatedEntity: { in: tokens.map(t => t.id) } },
+      select: { relatedEntity: true },
+    })
+    const alerted = new Set(existing.map(a => a.relatedEntity))
+
+    const settingsByOutlet = new Map<string, Map<string, AgingSettings>>()
+    const officersByOutlet = new Map<string, any[]>()
+    let created = 0
+
+    for (const token of tokens) {
+      if (alerted.has(token.id)) continue
+      if (!settingsByOutlet.has(token.outletId)) settingsByOutlet.set(token.outletId, await this.getSettings(token.outletId))
+      const aging = this.score(token, settingsByOutlet.get(token.outletId)!, now)
+      if (aging.state === 'normal') continue
+
+      if (!officersByOutlet.has(token.outletId)) {
+        officersByOutlet.set(token.outletId, await prisma.officer.findMany({
+          where: { outletId: token.outletId, status: { in: ['available', 'serving'] } },
+          select: { id: true, name: true, counterNumber: true, status: true, assignedServices: true, languages: true },
+        }))
+      }
+      const suggestions = this.suggestOfficers(token, officersByOutlet.get(token.outletId)!)
+      const suggestionText = suggestions.length > 0
+        ? ` Could be taken by: ${suggestions.map(s => `${s.name}${s.counterNumber ? ` (counter ${s.counterNumber})` : ''}`).join(', ')}.`
+        : ' No online officer covers its service or language.'
+      const message = `Token #${displayToken(token)} at ${token.outlet.name} has waited ${aging.waitedMinutes} minutes (aging score ${aging.score}).${suggestionText}`
+
+      const alert = await prisma.alert.create({
+        data: { type: 'token_aging', severity: aging.state === 'override' ? 'high' : 'medium', message, relatedEntity: token.id, outletId: token.outletId },
+      })
+      broadcast({ type: 'TOKEN_AGING', data: { alert, tokenId: token.id, outletId: token.outletId, aging, suggestions } })
+      created++
+    }
+    return created
+  }
+}
+
+export const tokenAging = new TokenAgingService()
+export default tokenAging
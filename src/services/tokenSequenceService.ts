@@ -0,0 +1,282 @@
+/**
+ * Token Sequence Service - Race-free token numbers per outlet and service range
+ *
+ * Every outlet gets one TokenSequence row per number range per business day
+ * (the window starting at getLastDailyReset). A number is taken by an upsert
+ * that increments the row in the database, so kiosk, mobile and appointment
+ * registrations firing at once can never receive the same number; the row
+ * stays locked until the issuing transaction commits.
+ *
+ * Ranges come from SystemSetting.service_starting_tokens (service code ->
+ * first number, keyed on the token's first service). A range runs up to the
+ * next configured start, or for `blockSize` numbers when none follows.
+ *
+ * When a range is used up the overflow policy applies:
+ *   extend  - continue in the shared overflow block of `blockSize` numbers
+ *             reserved above the highest range (default), so no number is
+ *             ever taken from another service's range; registrations are
+ *             refused once that block is used up too
+ *   wrap    - start the range again, skipping numbers still in the queue.
+ *             A reused number is lower than tokens issued before it, which
+ *             is why queues are ordered by arrival time, not tokenNumber
+ *   reject  - refuse the registration until the next business day
+ * Managers get an alert the first time a range runs out each day.
+ */
+
+import type { Prisma } from "@prisma/client"
+import { prisma } from "../server"
+import { getLastDailyReset } from "../utils/resetWindow"
+
+type Db = Prisma.TransactionClient | typeof prisma
+
+export type OverflowPolicy = 'extend' | 'wrap' | 'reject'
+
+export interface TokenSequencePolicy {
+  overflow: OverflowPolicy
+  /** Width of the last (or only) range when no higher start is configured */
+  blockSize: number
+}
+
+export interface TokenRange {
+  start: number
+  end: number
+}
+
+export class TokenSequenceError extends Error {
+  constructor(message: string, public readonly status: 400 | 409 = 409) {
+    super(message)
+    this.name = 'TokenSequenceError'
+  }
+}
+
+const POLICY_SETTING_KEY = 'token_sequence_policy'
+const STARTING_TOKENS_KEY = 'service_starting_tokens'
+const POLICY_CACHE_MS = 60 * 1000
+const OVERFLOW_POLICIES: OverflowPolicy[] = ['extend', 'wrap', 'reject']
+const MAX_BLOCK_SIZE = 100000
+// Statuses whose number is still on a display or in a customer's hand
+const ACTIVE_STATUSES = ['waiting', 'in_service', 'parked']
+
+export const DEFAULT_TOKEN_SEQUENCE_POLICY: TokenSequencePolicy = { overflow: 'extend', blockSize: 1000 }
+
+export function isOverflowPolicy(value: unknown): value is OverflowPolicy {
+  return typeof value === 'string' && (OVERFLOW_POLICIES as string[]).includes(value)
+}
+
+class TokenSequenceService {
+  private cachedPolicy: { policy: TokenSequencePolicy; loadedAt: number } | null = null
+
+  async getPolicy(): Promise<TokenSequencePolicy> {
+    if (this.cachedPolicy && Date.now() - this.cachedPolicy.loadedAt < POLICY_CACHE_MS) {
+      return this.cachedPolicy.policy
+    }
+
+    let stored: any = {}
+    try {
+      const setting = await prisma.systemSetting.findUnique({ where: { key: POLICY_SETTING_KEY } })
+      if (setting?.value) stored = JSON.parse(setting.value)
+    } catch (error) {
+      console.error('[TokenSequence] Invalid stored policy, using defaults:', error)
+    }
+
+    const policy: TokenSequencePolicy = {
+      overflow: isOverflowPolicy(stored?.overflow) ? stored.overflow : DEFAULT_TOKEN_SEQUENCE_POLICY.overflow,
+      blockSize: Number.isInteger(stored?.blockSize) && stored.blockSize > 0 ? stored.blockSize : DEFAULT_TOKEN_SEQUENCE_POLICY.blockSize,
+    }
+    this.cachedPolicy = { policy, loadedAt: Date.now() }
+    return policy
+  }
+
+  validatePolicy(input: Partial<TokenSequencePolicy>): string | null {
+    if (input.overflow !== undefined && !isOverflowPolicy(input.overflow)) {
+      return `overflow must be one of: ${OVERFLOW_POLICIES.join(', ')}`
+    }
+    if (input.blockSize !== undefined && !(Number.isInteger(input.blockSize) && input.blockSize >= 10 && input.blockSize <= MAX_BLOCK_SIZE)) {
+      return `blockSize must be a whole number from 10 to ${MAX_BLOCK_SIZE}`
+    }
+    return null
+  }
+
+  async updatePolicy(changes: Partial<TokenSequencePolicy>): Promise<TokenSequencePolicy> {
+    const current = await this.getPolicy()
+    const merged: TokenSequencePolicy = {
+      overflow: changes.overflow ?? current.overflow,
+      blockSize: changes.blockSize ?? current.blockSize,
+    }
+    await prisma.systemSetting.upsert({
+      where: { key: POLICY_SETTING_KEY },
+      update: { value: JSON.stringify(merged) },
+      create: { key: POLICY_SETTING_KEY, value: JSON.stringify(merged) },
+    })
+    this.cachedPolicy = { policy: merged, loadedAt: Date.now() }
+    return merged
+  }
+
+  /**
+   * Configured first numbers per service code (service_starting_tokens)
+   */
+  async getStartingTokens(db: Db = prisma): Promise<Record<string, number>> {
+    try {
+      const setting = await db.systemSetting.findUnique({ where: { key: STARTING_TOKENS_KEY } })
+      if (!setting?.value) return {}
+      const parsed = JSON.parse(setting.value)
+      const starts: Record<string, number> = {}
+      for (const [code, value] of Object.entries(parsed || {})) {
+        const start = parseInt(value as any, 10)
+        if (start > 0) starts[code] = start
+      }
+      return starts
+    } catch (e) {
+      console.error("Failed to fetch/parse service_starting_tokens", e)
+      return {}
+    }
+  }
+
+  /**
+   * Number range for a token's first service
+   */
+  resolveRange(serviceTypes: string[], startingTokens: Record<string, number>, blockSize: number): TokenRange {
+    const primary = Array.isArray(serviceTypes) && serviceTypes.length > 0 ? serviceTypes[0] : null
+    const start = (primary && startingTokens[primary]) || 1
+    const higher = Object.values(startingTokens).filter(value => value > start)
+    const end = higher.length > 0 ? Math.min(...higher) - 1 : start + blockSize - 1
+    return { start, end }
+  }
+
+  /**
+   * Numbers reserved for the extend policy, directly above the highest configured range
+   */
+  overflowRange(startingTokens: Record<string, number>, blockSize: number): TokenRange {
+    const topStart = Math.max(1, ...Object.values(startingTokens))
+    const start = topStart + blockSize
+    return { start, end: start + blockSize - 1 }
+  }
+
+  /**
+   * Take the next number for the token's range. Call inside the transaction that creates the token.
+   */
+  async allocate(db: Db, outletId: string, serviceTypes: string[], businessDay: Date = getLastDailyReset()): Promise<number> {
+    const policy = await this.getPolicy()
+    const startingTokens = await this.getStartingTokens(db)
+    const range = this.resolveRange(serviceTypes, startingTokens, policy.blockSize)
+    const sequence = await this.increment(db, outletId, businessDay, range)
+    let number = sequence.lastNumber
+
+    if (policy.overflow === 'wrap' && (number > range.end || sequence.cycle > 0)) {
+      number = await this.nextFreeInRange(db, outletId, businessDay, range, number)
+      if (number !== sequence.lastNumber) {
+        await db.tokenSequence.update({
+          where: { id: sequence.id },
+          data: { lastNumber: number, ...(sequence.lastNumber > range.end ? { cycle: { increment: 1 } } : {}) },
+        })
+      }
+    }
+
+    if (number > range.end) {
+      if (policy.overflow === 'reject') {
+        throw new TokenSequenceError(`Token numbers ${range.start}-${range.end} are used up for today. Please ask staff for help.`)
+      }
+      // extend: the range keeps its last number and the token comes from the overflow block
+      await db.tokenSequence.update({ where: { id: sequence.id }, data: { lastNumber: range.end, issuedCount: { decrement: 1 } } })
+      if (!sequence.overflowedAt) await this.recordOverflow(db, sequence.id, outletId, range)
+      const spill = this.overflowRange(startingTokens, policy.blockSize)
+      const spilled = await this.increment(db, outletId, businessDay, spill)
+      if (spilled.lastNumber > spill.end) {
+        throw new TokenSequenceError(`Token numbers ${range.start}-${range.end} and the overflow numbers ${spill.start}-${spill.end} are used up for today. Please ask staff for help.`)
+      }
+      return spilled.lastNumber
+    }
+    if (sequence.lastNumber > range.end && !sequence.overflowedAt) {
+      await this.recordOverflow(db, sequence.id, outletId, range)
+    }
+    return number
+  }
+
+  /**
+   * Bump the range's sequence row for the day, creating it on first use
+   */
+  private async increment(db: Db, outletId: string, businessDay: Date, range: TokenRange) {
+    const key = { outletId, businessDay, rangeStart: range.start }
+    const existing = await db.tokenSequence.findUnique({ where: { outletId_businessDay_rangeStart: key }, select: { id: true } })
+    let seed = range.start
+    if (!existing) {
+      // A new row starts after any number already issued today (e.g. before sequences existed)
+      const issued = await db.token.aggregate({
+        where: { outletId, createdAt: { gte: businessDay }, tokenNumber: { gte: range.start, lte: range.end } },
+        _max: { tokenNumber: true },
+      })
+      seed = (issued._max.tokenNumber ?? range.start - 1) + 1
+    }
+
+    // Single-statement upsert (INSERT ... ON CONFLICT DO UPDATE); the row stays locked until commit
+    return db.tokenSequence.upsert({
+      where: { outletId_businessDay_rangeStart: key },
+      create: { ...key, rangeEnd: range.end, lastNumber: seed, issuedCount: 1 },
+      update: { rangeEnd: range.end, lastNumber: { increment: 1 }, issuedCount: { increment: 1 } },
+    })
+  }
+
+  /**
+   * First number at or after `from` (wrapping to the range start) not held by a token still in the queue
+   */
+  private async nextFreeInRange(db: Db, outletId: string, businessDay: Date, range: TokenRange, from: number): Promise<number> {
+    const active = await db.token.findMany({
+      where: { outletId, createdAt: { gte: businessDay }, status: { in: ACTIVE_STATUSES }, tokenNumber: { gte: range.start, lte: range.end } },
+      select: { tokenNumber: true },
+    })
+    const taken = new Set(active.map(token => token.tokenNumber))
+    const size = range.end - range.start + 1
+    let candidate = from > range.end ? range.start : from
+    for (let i = 0; i < size; i++) {
+      if (!taken.has(candidate)) return candidate
+      candidate = candidate >= range.end ? range.start : candidate + 1
+    }
+    throw new TokenSequenceError(`Every token number from ${range.start} to ${range.end} is still in the queue. Please ask staff for help.`)
+  }
+
+  private async recordOverflow(db: Db, sequenceId: string, outletId: string, range: TokenRange) {
+    await db.tokenSequence.update({ where: { id: sequenceId }, data: { overflowedAt: new Date() } })
+    await db.alert.create({
+      data: {
+        type: 'token_sequence_overflow',
+        severity: 'medium',
+        message: `Token numbers ${range.start}-${range.end} ran out today; the ${(await this.getPolicy()).overflow} overflow policy is in effect.`,
+        relatedEntity: sequenceId,
+        outletId,
+      },
+    })
+  }
+
+  /**
+   * Today's sequences (optionally for one outlet) with the services that draw from each range
+   */
+  async listSequences(outletId?: string, businessDay: Date = getLastDailyReset()) {
+    const [sequences, startingTokens] = await Promise.all([
+      prisma.tokenSequence.findMany({
+        where: { businessDay, ...(outletId ? { outletId } : {}) },
+        orderBy: [{ outletId: 'asc' }, { rangeStart: 'asc' }],
+        include: { outlet: { select: { name: true } } },
+      }),
+      this.getStartingTokens(),
+    ])
+    return sequences.map(sequence => ({
+      id: sequence.id,
+      outletId: sequence.outletId,
+      outletName: sequence.outlet.name,
+      rangeStart: sequence.rangeStart,
+      rangeEnd: sequence.rangeEnd,
+      lastNumber: sequence.lastNumber,
+      issuedCount: sequence.issuedCount,
+      remaining: Math.max(0, sequence.rangeEnd - sequence.lastNumber),
+      cycle: sequence.cycle,
+      overflowedAt: sequence.overflowedAt,
+      services: Object.entries(startingTokens)
+        .filter(([, start]) => start === sequence.rangeStart)
+        .map(([code]) => code),
+      updatedAt: sequence.updatedAt,
+    }))
+  }
+}
+
+export const tokenSequenceService = new TokenSequenceService()
+export default tokenSequenceService
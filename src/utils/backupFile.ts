@@ -0,0 +1,38 @@
+import { createDecipheriv, createHash, scryptSync } from "crypto"
+
+// Passphrase-protected backups: magic line, JSON header line, AES-256-GCM body, 16-byte auth tag
+export const ENCRYPTED_BACKUP_MAGIC = 'DQMPENC1\n'
+// The checksum covers every byte of the JSON before this marker
+export const BACKUP_CHECKSUM_MARKER = ',"checksum":'
+
+export function isEncryptedBackup(file: Buffer): boolean {
+  const magic = Buffer.from(ENCRYPTED_BACKUP_MAGIC)
+  return file.length > magic.length && file.subarray(0, magic.length).equals(magic)
+}
+
+/**
+ * Decrypt a passphrase-protected backup back into its JSON text.
+ * Throws when the passphrase is wrong or the file was altered.
+ */
+export function decryptBackupFile(file: Buffer, passphrase: string): string {
+  if (!isEncryptedBackup(file)) throw new Error('Not an encrypted backup file')
+  const magicLength = Buffer.byteLength(ENCRYPTED_BACKUP_MAGIC)
+  const headerEnd = file.indexOf(0x0a, magicLength)
+  const header = JSON.parse(file.subarray(magicLength, headerEnd).toString('utf8'))
+  const { N, r, p, salt } = header.kdf
+  const key = scryptSync(passphrase, Buffer.from(salt, 'base64'), 32, { N, r, p })
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(header.iv, 'base64'))
+  decipher.setAuthTag(file.subarray(file.length - 16))
+  const body = file.subarray(headerEnd + 1, file.length - 16)
+  return Buffer.concat([decipher.update(body), decipher.final()]).toString('utf8')
+}
+
+/**
+ * true / false for a backup carrying a checksum, null for older backups without one
+ */
+export function verifyBackupChecksum(json: string): boolean | null {
+  const marker = json.lastIndexOf(BACKUP_CHECKSUM_MARKER)
+  if (marker < 0) return null
+  const { value } = JSON.parse(json.slice(marker + BACKUP_CHECKSUM_MARKER.length, json.lastIndexOf('}')))
+  return createHash('sha256').update(json.slice(0, marker)).digest('hex') === value
+}
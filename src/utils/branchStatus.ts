@@ -0,0 +1,98 @@
+import { prisma } from "../server"
+
+// Helper: parse "HH:MM" string to total minutes
+function parseTimeToMinutes(t: string): number {
+  const [h, m] = t.split(":").map(Number)
+  return (h || 0) * 60 + (m || 0)
+}
+
+// Helper: check if a recurring closure notice is active right now
+export function isRecurringNoticeActive(notice: any, now: Date): boolean {
+  if (!notice.isRecurring || notice.recurringType !== "weekly") return false
+  if (notice.recurringEndDate && new Date(notice.recurringEndDate) < now) return false
+
+  const dayNames = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"]
+  const todayName = dayNames[now.getDay()]
+  const days: string[] = Array.isArray(notice.recurringDays) ? notice.recurringDays : []
+  if (!days.includes(todayName)) return false
+
+  const nowMinutes = now.getHours() * 60 + now.getMinutes()
+
+  // Prefer explicit recurringStartTime / recurringEndTime fields (e.g. "12:30", "23:59")
+  if (notice.recurringStartTime && notice.recurringEndTime) {
+    const startMinutes = parseTimeToMinutes(notice.recurringStartTime)
+    const endMinutes = parseTimeToMinutes(notice.recurringEndTime)
+    return nowMinutes >= startMinutes && nowMinutes <= endMinutes
+  }
+
+  // Fall back to hour/minute from startsAt / endsAt datetime fields
+  const startTemplate = new Date(notice.startsAt)
+  const endTemplate = new Date(notice.endsAt)
+  const startMinutes = startTemplate.getHours() * 60 + startTemplate.getMinutes()
+  const endMinutes = endTemplate.getHours() * 60 + endTemplate.getMinutes()
+  return nowMinutes >= startMinutes && nowMinutes <= endMinutes
+}
+
+/**
+ * Mercantile holiday that falls on the given day, if any
+ */
+export async function getHolidayName(now: Date = new Date()): Promise<string | null> {
+  const todayStart = new Date(now)
+  todayStart.setHours(0, 0, 0, 0)
+  const todayEnd = new Date(now)
+  todayEnd.setHours(23, 59, 59, 999)
+
+  const holidays = await prisma.mercantileHoliday.findMany({ select: { date: true, name: true, isRecurring: true } })
+  const holiday = holidays.find(h => {
+    const hDate = new Date(h.date)
+    return h.isRecurring
+      ? hDate.getMonth() === now.getMonth() && hDate.getDate() === now.getDate()
+      : hDate >= todayStart && hDate <= todayEnd
+  })
+  return holiday ? holiday.name : null
+}
+
+export interface BranchClosure {
+  reason: string
+  /** The closure notice behind it; null for a mercantile holiday */
+  notice: { title: string; message: string } | null
+}
+
+/**
+ * Outlets closed at `now` (mercantile holiday, or a one-time / recurring closure notice).
+ * Outlets not in the map are open. One-time notices win over recurring ones.
+ */
+export async function getClosures(outletIds: string[], now: Date = new Date()): Promise<Map<string, BranchClosure>> {
+  const closed = new Map<string, BranchClosure>()
+  if (outletIds.length === 0) return closed
+
+  const holiday = await getHolidayName(now)
+  if (holiday) {
+    for (const outletId of outletIds) closed.set(outletId, { reason: `Mercantile Holiday: ${holiday}`, notice: null })
+    return closed
+  }
+
+  const notices = await prisma.closureNotice.findMany({
+    where: {
+      outletId: { in: outletIds },
+      noticeType: "closure",
+      OR: [{ isRecurring: true }, { isRecurring: false, startsAt: { lte: now }, endsAt: { gte: now } }],
+    },
+    orderBy: [{ isRecurring: "asc" }, { createdAt: "desc" }],
+  })
+  for (const notice of notices) {
+    if (closed.has(notice.outletId)) continue
+    if (!notice.isRecurring || isRecurringNoticeActive(notice, now)) {
+      closed.set(notice.outletId, { reason: notice.title, notice: { title: notice.title, message: notice.message } })
+    }
+  }
+  return closed
+}
+
+/**
+ * Outlets closed at `now` with the reason (see getClosures); outlets not in the map are open
+ */
+export async function getClosedOutlets(outletIds: string[], now: Date = new Date()): Promise<Map<string, string>> {
+  const closures = await getClosures(outletIds, now)
+  return new Map(Array.from(closures, ([outletId, closure]) => [outletId, closure.reason]))
+}
@@ -1,4 +1,5 @@
 import sltSmsService from '../services/sltSmsService'
+import { tokenLabel } from './tokenFormat'
 
 export type SMSProvider = 'slt'
 
@@ -106,11 +107,11 @@ class UnifiedSmsHelper {
    */
   async sendTokenNotification(
     mobileNumber: string,
-    tokenNumber: number,
+    tokenNumber: number | string,
     counterNumber: number,
     language: 'en' | 'si' | 'ta' = 'en'
   ): Promise<SendSMSResult> {
-    const formattedToken = tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(tokenNumber)
     // Since SMS doesn't support Unicode properly, use English for all languages
     const messageText = `Dear Valued Customer\n\nYour token number ${formattedToken} is now being called. Please proceed to Counter ${counterNumber}.\n\nSLTMOBITEL`
 
@@ -151,14 +152,14 @@ class UnifiedSmsHelper {
     mobileNumber: string,
     details: {
       name: string
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
       estimatedWait: number
       position?: number
     },
     language: 'en' | 'si' | 'ta' = 'en'
   ): Promise<SendSMSResult> {
-    const formattedToken = details.tokenNumber.toString().padStart(3, '0')
+    const formattedToken = tokenLabel(details.tokenNumber)
     // Since SMS doesn't support Unicode properly, use English for all languages
     const messageText = `Dear Valued Customer\n\nYour token number ${formattedToken} at ${details.outletName} is now active (Queue Position: ${details.position || 1}).\n\nSLTMOBITEL`
 
@@ -175,7 +176,7 @@ class UnifiedSmsHelper {
   async sendTokenCancellation(
     mobileNumber: string,
     details: {
-      tokenNumber: number
+      tokenNumber: number | string
       outletName: string
     },
     language: 'en' | 'si' | 'ta' = 'en'
@@ -0,0 +1,73 @@
+// Token display formats
+//
+// tokenNumber stays a plain integer used for ordering and position counts.
+// What customers see is Token.displayNumber, fixed when the token is issued
+// from the format of its first service: [outlet code-][prefix-]number, zero
+// padded, e.g. "B-042" or "KDY-B-042". Tokens issued before formats existed
+// fall back to the three-digit padding used in SMS so far.
+
+export interface TokenFormat {
+  prefix: string | null
+  padding: number
+  showOutletCode: boolean
+}
+
+export const DEFAULT_TOKEN_FORMAT: TokenFormat = { prefix: null, padding: 3, showOutletCode: false }
+
+const MAX_PADDING = 6
+const PREFIX_PATTERN = /^[A-Z]{1,3}$/
+const OUTLET_CODE_PATTERN = /^[A-Z0-9]{2,6}$/
+
+export function formatTokenNumber(tokenNumber: number, format: TokenFormat = DEFAULT_TOKEN_FORMAT, outletCode?: string | null): string {
+  const parts: string[] = []
+  if (format.showOutletCode && outletCode) parts.push(outletCode)
+  if (format.prefix) parts.push(format.prefix)
+  parts.push(String(tokenNumber).padStart(format.padding, '0'))
+  return parts.join('-')
+}
+
+/**
+ * Label to show for a token (its stored display number, else the legacy padding)
+ */
+export function displayToken(token: { tokenNumber: number; displayNumber?: string | null }): string {
+  return token.displayNumber || formatTokenNumber(token.tokenNumber)
+}
+
+/**
+ * SMS label for a token passed either as its display number or as the bare integer
+ */
+export function tokenLabel(value: number | string): string {
+  return typeof value === 'string' ? value : formatTokenNumber(value)
+}
+
+/**
+ * Label for speech: letters spelled out, leading zeros dropped ("B-042" -> "B 42")
+ */
+export function spokenToken(token: { tokenNumber: number; displayNumber?: string | null }): string {
+  return displayToken(token)
+    .split('-')
+    .map(part => (/^\d+$/.test(part) ? String(Number(part)) : part.split('').join(' ')))
+    .join(' ')
+}
+
+/**
+ * Validate service format fields; returns an error message or null
+ */
+export function validateTokenFormat(input: { tokenPrefix?: unknown; tokenPadding?: unknown; tokenShowOutletCode?: unknown }): string | null {
+  const { tokenPrefix, tokenPadding, tokenShowOutletCode } = input
+  if (tokenPrefix !== undefined && tokenPrefix !== null && tokenPrefix !== '' && !(typeof tokenPrefix === 'string' && PREFIX_PATTERN.test(tokenPrefix))) {
+    return 'tokenPrefix must be 1-3 capital letters'
+  }
+  if (tokenPadding !== undefined && !(Number.isInteger(tokenPadding) && Number(tokenPadding) >= 1 && Number(tokenPadding) <= MAX_PADDING)) {
+    return `tokenPadding must be a whole number from 1 to ${MAX_PADDING}`
+  }
+  if (tokenShowOutletCode !== undefined && typeof tokenShowOutletCode !== 'boolean') {
+    return 'tokenShowOutletCode must be true or false'
+  }
+  return null
+}
+
+export function validateOutletCode(code: unknown): string | null {
+  if (code === undefined || code === null || code === '') return null
+  return typeof code === 'string' && OUTLET_CODE_PATTERN.test(code) ? null : 'code must be 2-6 capital letters or digits'
+}
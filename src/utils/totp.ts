@@ -0,0 +1,94 @@
+import crypto from 'crypto'
+
+/**
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 s steps),
+ * compatible with Google Authenticator, Microsoft Authenticator, Authy etc.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+export const TOTP_STEP_SECONDS = 30
+export const TOTP_DIGITS = 6
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error('Invalid base32 character')
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+/**
+ * Generate a new random shared secret (160 bits, base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+export function currentTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS)
+}
+
+function hotp(secret: string, counter: number): string {
+  const buffer = Buffer.alloc(8)
+  buffer.writeBigUInt64BE(BigInt(counter))
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(buffer).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const code = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3]
+  return (code % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * Check a code against the current step ± `window` steps (clock drift).
+ * Returns the matching step, or null when the code is wrong.
+ */
+export function verifyTotpCode(secret: string, code: string, window: number = 1, now: number = Date.now()): number | null {
+  const normalized = String(code || '').replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return null
+  const step = currentTotpStep(now)
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = hotp(secret, step + offset)
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) return step + offset
+  }
+  return null
+}
+
+/**
+ * otpauth:// URI for QR provisioning in authenticator apps
+ */
+export function buildOtpAuthUrl(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
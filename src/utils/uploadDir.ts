@@ -5,3 +5,10 @@ export const resolveUploadDir = (cwdBase: string): string => {
   if (!raw) return path.resolve(cwdBase, "uploads")
   return path.isAbsolute(raw) ? raw : path.resolve(cwdBase, raw)
 }
+
+// Customer documents; kept outside UPLOAD_DIR so they are never served statically
+export const resolvePrivateUploadDir = (cwdBase: string): string => {
+  const raw = (process.env.PRIVATE_UPLOAD_DIR || "private-uploads").trim()
+  if (!raw) return path.resolve(cwdBase, "private-uploads")
+  return path.isAbsolute(raw) ? raw : path.resolve(cwdBase, raw)
+}
@@ -0,0 +1,39 @@
+import { prisma } from "../server"
+
+/**
+ * Calculates the estimated wait time for an outlet based on recent performance.
+ * @param outletId The outlet ID
+ * @param position Queue position (number of people ahead + 1)
+ * @returns Estimated wait time in minutes
+ */
+export async function calculateEstimatedWaitTime(outletId: string, position: number): Promise<number> {
+  try {
+    const recentCompleted = await prisma.token.findMany({
+      where: {
+        outletId,
+        status: { in: ["in_service", "completed"] },
+        calledAt: { not: null },
+      },
+      orderBy: { calledAt: "desc" },
+      take: 10,
+    })
+
+    let avgWaitPerPerson = 5 // fallback to 5 minutes
+    if (recentCompleted.length > 0) {
+      const totalWait = recentCompleted.reduce((acc, t) => {
+        // Time a customer spent parked (stepped away) is not queue time
+        const wait = t.calledAt!.getTime() - t.createdAt.getTime() - t.parkedMinutes * 60000
+        return acc + Math.max(0, wait)
+      }, 0)
+      avgWaitPerPerson = (totalWait / recentCompleted.length) / (1000 * 60)
+    }
+
+    // Return estimated wait based on position (people ahead)
+    // position 1 means you are next, position 2 means 1 person ahead.
+    const peopleAhead = Math.max(0, position - 1)
+    return Math.max(1, Math.round(peopleAhead * avgWaitPerPerson))
+  } catch (err) {
+    console.error("Error calculating estimated wait time:", err)
+    return Math.max(1, (position - 1) * 5)
+  }
+}